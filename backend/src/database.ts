@@ -1,4 +1,7 @@
 import { Pool, QueryResult } from 'pg';
+import type { ContextOptions } from './services/context.js';
+import type { OutputFormat } from './services/structured.js';
+import type { RunSettings } from './services/processor.js';
 
 // Create PostgreSQL connection pool
 const pool = new Pool({
@@ -23,14 +26,334 @@ export interface Note {
   id: string;
   parent_id: string | null;
   type: 'user' | 'ai';
+  item_type: 'folder' | 'note' | 'ai-note';
+  name: string | null;
+  name_is_manual: boolean; // The user named the note - automatic titles leave it alone
   content: any; // JSONB stored as object
   process_type: string | null;
   status: 'draft' | 'processing' | 'complete' | 'failed';
   error_message: string | null;
+  error_code: string | null; // Kind of LLM failure, e.g. LLM_RATE_LIMITED
+  metadata: Record<string, any>;
+  comparison_id: string | null; // Set on the AI notes of a side-by-side comparison
   created_at: string;
   updated_at: string;
 }
 
+// A note found by full-text search, with how well it matched
+export interface RankedNote extends Note {
+  rank: number;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Options a job was queued with, passed through to processNote
+export interface JobOptions {
+  context?: ContextOptions;
+  sources?: string[]; // Batch synthesis - the notes to combine into the job's note
+  linkSources?: boolean; // End the synthesis with links back to its sources
+  settings?: RunSettings; // Model settings picked for the run
+}
+
+export interface ProcessingJob {
+  id: string;
+  note_id: string;
+  process_type: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  result_note_id: string | null;
+  error_message: string | null;
+  error_code: string | null;
+  previous_note_status: Note['status'];
+  options: JobOptions;
+  rule_id: string | null; // The processing rule that queued the job
+  run_after: string | null; // Not claimed before this time
+  pipeline_run_id: string | null; // Set for the steps of a pipeline run
+  pipeline_step: string | null; // The step's key within the run
+  locked_until: string | null; // Lease of the worker running the job - recovered by another once expired
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+export interface ProcessDefinition {
+  id: string;
+  type: string;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  prompt_template: string;
+  system_prompt: string | null;
+  model: string | null;
+  temperature: number;
+  max_tokens: number;
+  output_format: OutputFormat; // markdown, or JSON checked against a schema (e.g. action_plan)
+  is_builtin: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Columns that can be set through the process definitions API
+export type ProcessDefinitionInput = Pick<
+  ProcessDefinition,
+  'type' | 'name' | 'description' | 'icon' | 'color' | 'prompt_template' |
+  'system_prompt' | 'model' | 'temperature' | 'max_tokens' | 'output_format' | 'position'
+>;
+
+// A row of the LLM usage ledger
+export interface LLMUsageRecord {
+  id: string;
+  note_id: string | null;
+  folder_id: string | null;
+  process_type: string | null;
+  provider: string;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  latency_ms: number;
+  success: boolean;
+  error_message: string | null;
+  created_at: string;
+}
+
+export type LLMUsageInput = Omit<LLMUsageRecord, 'id' | 'folder_id' | 'created_at'>;
+
+export type UsageGroupBy = 'day' | 'process_type' | 'model' | 'folder';
+
+// Aggregated usage for a time range, overall or for one group
+export interface UsageSummary {
+  calls: number;
+  failed_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageGroup extends UsageSummary {
+  key: string | null;
+  label: string;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'tokens' | 'cost';
+
+export interface Budget {
+  id: string;
+  folder_id: string | null; // null for the global budget
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit_value: number;
+  reset_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A budget together with its usage in the current period
+export interface BudgetStatus extends Budget {
+  folder_name: string | null;
+  used: number;
+  remaining: number;
+  window_start: string;
+  resets_at: string;
+}
+
+export type RuleTrigger = 'created' | 'updated' | 'moved';
+
+// A rule that queues a process automatically when a matching note is created, updated or moved
+export interface ProcessingRule {
+  id: string;
+  trigger: RuleTrigger;
+  folder_id: string | null; // The folder whose subtree the rule covers
+  folder_name?: string | null;
+  tag: string | null; // Only notes with this #tag (lowercase, without the #)
+  process_type: string;
+  debounce_seconds: number;
+  cooldown_seconds: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProcessingRuleInput = Pick<
+  ProcessingRule,
+  'trigger' | 'folder_id' | 'tag' | 'process_type' | 'debounce_seconds' | 'cooldown_seconds' | 'enabled'
+>;
+
+// A pipeline step runs a process on the note ("note") or on the output of an earlier step (its key)
+export interface PipelineStep {
+  key: string;
+  process_type: string;
+  input: string;
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  description: string;
+  steps: PipelineStep[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type PipelineInput = Pick<Pipeline, 'name' | 'description' | 'steps'>;
+
+// A pipeline run on a note, with its own copy of the pipeline's steps
+export interface PipelineRun {
+  id: string;
+  pipeline_id: string | null;
+  name: string;
+  note_id: string;
+  steps: PipelineStep[];
+  created_at: string;
+}
+
+// A digest that runs on a cron schedule over the notes edited in the last window_hours
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  folder_id: string | null; // Only notes within this folder's subtree
+  folder_name?: string | null;
+  target_folder_id: string | null; // Where digest notes are written (null for the top level)
+  target_folder_name?: string | null;
+  window_hours: number;
+  process_type: string;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScheduleInput = Pick<
+  Schedule,
+  'name' | 'cron' | 'folder_id' | 'target_folder_id' | 'window_hours' | 'process_type' | 'enabled'
+>;
+
+export type ScheduleTrigger = 'schedule' | 'manual';
+
+// A run of a schedule - status is its job's once the digest was queued
+export interface ScheduleRun {
+  id: string;
+  schedule_id: string;
+  trigger: ScheduleTrigger;
+  status: 'skipped' | JobStatus;
+  job_id: string | null;
+  note_id: string | null;
+  source_count: number;
+  window_start: string;
+  window_end: string;
+  error_message: string | null;
+  created_at: string;
+}
+
+export type ScheduleRunInput = Pick<
+  ScheduleRun,
+  'schedule_id' | 'trigger' | 'job_id' | 'note_id' | 'source_count' | 'window_start' | 'window_end' | 'error_message'
+> & { status: 'queued' | 'skipped' | 'failed' };
+
+// A step of a structured action plan, checked off in the AI note holding the plan
+export interface Task {
+  id: string; // Also the taskId of its checklist item in the note's content
+  note_id: string;
+  position: number;
+  text: string;
+  estimate: string | null;
+  done: boolean;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A task with the plan it belongs to, for listing tasks across plans
+export interface TaskWithPlan extends Task {
+  note_name: string | null; // The AI note holding the plan
+  process_type: string | null;
+  source_note_id: string | null; // The note the plan was made from (parent of the AI note)
+}
+
+export type TaskInput = Pick<Task, 'id' | 'position' | 'text' | 'estimate' | 'done'>;
+
+// What a comparison variant changes about the process definition (null keeps the process's setting)
+export interface ComparisonVariantInput {
+  label: string;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  system_prompt: string | null;
+  prompt_template: string | null;
+}
+
+// How a variant's run went
+export interface ComparisonVariant extends ComparisonVariantInput {
+  result: {
+    note_id: string; // The variant's AI note (deleted if another variant won)
+    model: string; // The model that answered
+    latency_ms: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+  } | null;
+  error: { message: string; code: string | null } | null;
+}
+
+export interface Comparison {
+  id: string;
+  note_id: string;
+  process_type: string;
+  variants: ComparisonVariant[];
+  winner_variant: number | null; // Index into variants
+  decided_at: string | null;
+  created_at: string;
+}
+
+export interface ComparisonFilters {
+  noteId?: string;
+  processType?: string;
+  decided?: boolean;
+}
+
+export type TaskStatusFilter = 'open' | 'done' | 'all';
+
+export type VersionSource = 'original' | 'refine' | 'regenerate' | 'restore';
+
+// A saved version of an AI note's content
+export interface AINoteVersion {
+  id: string;
+  note_id: string;
+  version: number;
+  content: any;
+  source: VersionSource;
+  instructions: string | null;
+  restored_from: number | null;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  created_at: string;
+}
+
+export type AINoteVersionInput = Pick<AINoteVersion, 'content' | 'source'> &
+  Partial<Pick<AINoteVersion, 'instructions' | 'restored_from' | 'model' | 'input_tokens' | 'output_tokens'>>;
+
+// A turn in the follow-up conversation on an AI note
+export interface NoteMessage {
+  id: string;
+  note_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  created_at: string;
+}
+
 // Database query functions
 export const noteQueries = {
   /**
@@ -65,6 +388,140 @@ export const noteQueries = {
     return result.rows;
   },
 
+  /**
+   * Get the ancestors of a note, outermost first
+   */
+  async getAncestors(id: string): Promise<Note[]> {
+    const result: QueryResult<Note> = await pool.query(
+      `WITH RECURSIVE ancestors AS (
+         SELECT n.*, 1 AS depth FROM notes n
+         WHERE n.id = (SELECT parent_id FROM notes WHERE id = $1)
+         UNION ALL
+         SELECT n.*, a.depth + 1 FROM notes n
+         INNER JOIN ancestors a ON n.id = a.parent_id
+       )
+       SELECT * FROM ancestors ORDER BY depth DESC`,
+      [id]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get several notes by ID, in the order the IDs were given (missing IDs are skipped)
+   */
+  async getByIds(ids: string[]): Promise<Note[]> {
+    const result: QueryResult<Note> = await pool.query(
+      'SELECT * FROM notes WHERE id = ANY($1::uuid[])',
+      [ids]
+    );
+    const byId = new Map(result.rows.map((note) => [note.id, note]));
+    return ids.map((id) => byId.get(id)).filter((note): note is Note => Boolean(note));
+  },
+
+  /**
+   * Get the user notes anywhere inside a folder (including subfolders), oldest first
+   */
+  async getDescendantNotes(folderId: string): Promise<Note[]> {
+    const result: QueryResult<Note> = await pool.query(
+      `WITH RECURSIVE descendants AS (
+         SELECT n.* FROM notes n WHERE n.parent_id = $1
+         UNION ALL
+         SELECT n.* FROM notes n
+         INNER JOIN descendants d ON n.parent_id = d.id
+       )
+       SELECT * FROM descendants
+       WHERE type = 'user' AND item_type = 'note'
+       ORDER BY created_at ASC`,
+      [folderId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get the user notes edited within a time range, anywhere or inside a folder, most recently edited first
+   */
+  async getUpdatedBetween(from: Date, to: Date, folderId: string | null, limit: number): Promise<Note[]> {
+    const result: QueryResult<Note> = await pool.query(
+      `WITH RECURSIVE scope AS (
+         SELECT id FROM notes WHERE id = $3
+         UNION ALL
+         SELECT n.id FROM notes n
+         INNER JOIN scope s ON n.parent_id = s.id
+       )
+       SELECT * FROM notes
+       WHERE type = 'user' AND item_type = 'note'
+         AND updated_at >= $1 AND updated_at < $2
+         AND ($3::uuid IS NULL OR parent_id IN (SELECT id FROM scope))
+       ORDER BY updated_at DESC
+       LIMIT $4`,
+      [from, to, folderId, limit]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Full-text search: the notes (user notes and finished AI notes) that best match a question,
+   * best first. Any of the question's words can match - notes matching more of them rank higher.
+   * AI notes of excludeProcessType (earlier answers) are left out
+   */
+  async search(question: string, limit: number, excludeProcessType: string | null = null): Promise<RankedNote[]> {
+    const result: QueryResult<RankedNote> = await pool.query(
+      `WITH q AS (
+         SELECT replace(plainto_tsquery('english', $1)::text, '&', '|')::tsquery AS query
+       )
+       SELECT n.*, ts_rank(note_search_vector(n.name, n.content), q.query) AS rank
+       FROM notes n, q
+       WHERE n.item_type <> 'folder'
+         AND (n.type = 'user' OR n.status = 'complete')
+         AND n.process_type IS DISTINCT FROM $3
+         AND note_search_vector(n.name, n.content) @@ q.query
+       ORDER BY rank DESC, n.updated_at DESC
+       LIMIT $2`,
+      [question, limit, excludeProcessType]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get a top-level folder by name, creating it if there isn't one
+   */
+  async getOrCreateRootFolder(name: string): Promise<Note> {
+    const existing: QueryResult<Note> = await pool.query(
+      `SELECT * FROM notes
+       WHERE parent_id IS NULL AND item_type = 'folder' AND name = $1
+       ORDER BY created_at ASC
+       LIMIT 1`,
+      [name]
+    );
+    if (existing.rows[0]) return existing.rows[0];
+
+    const result: QueryResult<Note> = await pool.query(
+      `INSERT INTO notes (parent_id, type, item_type, name, content, status)
+       VALUES (NULL, 'user', 'folder', $1, NULL, 'complete')
+       RETURNING *`,
+      [name]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Get the user notes that share a note's parent, most recently edited first
+   */
+  async getSiblings(id: string, limit = 5): Promise<Note[]> {
+    const result: QueryResult<Note> = await pool.query(
+      `SELECT s.* FROM notes s
+       INNER JOIN notes n ON n.id = $1
+       WHERE s.parent_id IS NOT DISTINCT FROM n.parent_id
+         AND s.id <> n.id
+         AND s.type = 'user'
+         AND s.item_type = 'note'
+       ORDER BY s.updated_at DESC
+       LIMIT $2`,
+      [id, limit]
+    );
+    return result.rows;
+  },
+
   /**
    * Get the complete tree structure for a note (recursive)
    */
@@ -101,13 +558,24 @@ export const noteQueries = {
     type: 'user' | 'ai',
     content: any,
     processType: string | null = null,
-    status: 'draft' | 'processing' | 'complete' | 'failed' = 'draft'
+    status: 'draft' | 'processing' | 'complete' | 'failed' = 'draft',
+    metadata: Record<string, any> = {},
+    comparisonId: string | null = null
   ): Promise<Note> {
     const result: QueryResult<Note> = await pool.query(
-      `INSERT INTO notes (parent_id, type, content, process_type, status)
-       VALUES ($1, $2, $3, $4, $5)
+      `INSERT INTO notes (parent_id, type, item_type, content, process_type, status, metadata, comparison_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        RETURNING *`,
-      [parentId, type, JSON.stringify(content), processType, status]
+      [
+        parentId,
+        type,
+        type === 'ai' ? 'ai-note' : 'note',
+        JSON.stringify(content),
+        processType,
+        status,
+        JSON.stringify(metadata),
+        comparisonId,
+      ]
     );
     return result.rows[0];
   },
@@ -118,11 +586,12 @@ export const noteQueries = {
   async updateStatus(
     id: string,
     status: 'draft' | 'processing' | 'complete' | 'failed',
-    errorMessage: string | null = null
+    errorMessage: string | null = null,
+    errorCode: string | null = null
   ): Promise<void> {
     await pool.query(
-      'UPDATE notes SET status = $1, error_message = $2 WHERE id = $3',
-      [status, errorMessage, id]
+      'UPDATE notes SET status = $1, error_message = $2, error_code = $3 WHERE id = $4',
+      [status, errorMessage, errorCode, id]
     );
   },
 
@@ -137,6 +606,42 @@ export const noteQueries = {
     return result.rows[0];
   },
 
+  /**
+   * Set a note's name as the user chose it (null goes back to an automatic title)
+   */
+  async setName(id: string, name: string | null): Promise<Note> {
+    const result: QueryResult<Note> = await pool.query(
+      'UPDATE notes SET name = $1, name_is_manual = $2 WHERE id = $3 RETURNING *',
+      [name, name !== null, id]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Store a generated title, unless the note was named by the user in the meantime
+   * Returns whether the title was stored
+   */
+  async setGeneratedName(id: string, name: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE notes SET name = $1
+       WHERE id = $2 AND item_type <> 'folder' AND NOT name_is_manual`,
+      [name, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  },
+
+  /**
+   * Get the notes (user and AI) that have no name yet, oldest first
+   */
+  async getUntitled(): Promise<Note[]> {
+    const result: QueryResult<Note> = await pool.query(
+      `SELECT * FROM notes
+       WHERE item_type <> 'folder' AND name IS NULL AND NOT name_is_manual AND status <> 'processing'
+       ORDER BY created_at ASC`
+    );
+    return result.rows;
+  },
+
   /**
    * Delete a note (will cascade to children due to FK constraint)
    */
@@ -155,5 +660,1252 @@ export const noteQueries = {
   },
 };
 
+// Processing job queue functions
+export const jobQueries = {
+  /**
+   * Enqueue a new processing job for a note
+   * previousNoteStatus is restored on the note if the job is cancelled
+   */
+  async create(
+    noteId: string,
+    processType: string,
+    previousNoteStatus: Note['status'] = 'draft',
+    options: JobOptions = {}
+  ): Promise<ProcessingJob> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      `INSERT INTO processing_jobs (note_id, process_type, previous_note_status, options)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [noteId, processType, previousNoteStatus, JSON.stringify(options)]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Get a single job by ID
+   */
+  async getById(id: string): Promise<ProcessingJob | null> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      'SELECT * FROM processing_jobs WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get jobs for a note (newest first)
+   */
+  async getByNoteId(noteId: string): Promise<ProcessingJob[]> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      'SELECT * FROM processing_jobs WHERE note_id = $1 ORDER BY created_at DESC',
+      [noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get the most recent jobs across all notes
+   */
+  async getRecent(limit: number = 50): Promise<ProcessingJob[]> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      'SELECT * FROM processing_jobs ORDER BY created_at DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Enqueue a job for a processing rule, held back for the rule's debounce
+   */
+  async createForRule(rule: ProcessingRule, note: Note): Promise<ProcessingJob> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      `INSERT INTO processing_jobs (note_id, process_type, previous_note_status, rule_id, run_after)
+       VALUES ($1, $2, $3, $4, NOW() + make_interval(secs => $5))
+       RETURNING *`,
+      [note.id, rule.process_type, note.status, rule.id, rule.debounce_seconds]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Enqueue the job for a step of a pipeline run
+   * Returns null if the step already has a job that is queued, running or succeeded
+   */
+  async createForPipelineStep(
+    run: PipelineRun,
+    step: PipelineStep,
+    note: Note
+  ): Promise<ProcessingJob | null> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      `INSERT INTO processing_jobs (note_id, process_type, previous_note_status, pipeline_run_id, pipeline_step)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (pipeline_run_id, pipeline_step) WHERE status IN ('queued', 'running', 'succeeded') DO NOTHING
+       RETURNING *`,
+      [note.id, step.process_type, note.status, run.id, step.key]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Whether a rule has a job for a note that is still waiting to run,
+   * or one queued within the last cooldownSeconds
+   */
+  async hasRecentForRule(ruleId: string, noteId: string, cooldownSeconds: number): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT 1 FROM processing_jobs
+       WHERE rule_id = $1 AND note_id = $2
+         AND (status = 'queued' OR (status <> 'cancelled' AND created_at > NOW() - make_interval(secs => $3)))
+       LIMIT 1`,
+      [ruleId, noteId, cooldownSeconds]
+    );
+    return result.rows.length > 0;
+  },
+
+  /**
+   * Push back a note's waiting rule jobs by their rules' debounce, as the note has just changed
+   */
+  async deferRuleJobs(noteId: string): Promise<number> {
+    const result = await pool.query(
+      `UPDATE processing_jobs j
+       SET run_after = NOW() + make_interval(secs => r.debounce_seconds)
+       FROM processing_rules r
+       WHERE j.rule_id = r.id AND j.note_id = $1 AND j.status = 'queued'`,
+      [noteId]
+    );
+    return result.rowCount ?? 0;
+  },
+
+  /**
+   * Drop a claimed job without running it, e.g. a rule job whose note is still empty
+   */
+  async skip(id: string, reason: string): Promise<void> {
+    await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'cancelled', error_message = $1, finished_at = NOW()
+       WHERE id = $2 AND status = 'running'`,
+      [reason, id]
+    );
+  },
+
+  /**
+   * Atomically claim the oldest queued job and mark it running, leased for leaseSeconds.
+   * SKIP LOCKED lets several workers poll the queue without blocking each other.
+   */
+  async claimNext(leaseSeconds: number): Promise<ProcessingJob | null> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'running', attempts = attempts + 1, started_at = NOW(), error_message = NULL, error_code = NULL,
+           locked_until = NOW() + make_interval(secs => $1)
+       WHERE id = (
+         SELECT id FROM processing_jobs
+         WHERE status = 'queued' AND (run_after IS NULL OR run_after <= NOW())
+         ORDER BY created_at ASC
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [leaseSeconds]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Extend the lease of a job that is still running (the worker's heartbeat)
+   */
+  async renewLease(id: string, leaseSeconds: number): Promise<void> {
+    await pool.query(
+      `UPDATE processing_jobs
+       SET locked_until = NOW() + make_interval(secs => $1)
+       WHERE id = $2 AND status = 'running'`,
+      [leaseSeconds, id]
+    );
+  },
+
+  /**
+   * Mark a running job as succeeded with the AI note it produced
+   * Returns false if the job is no longer running (e.g. it was cancelled)
+   */
+  async markSucceeded(id: string, resultNoteId: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'succeeded', result_note_id = $1, finished_at = NOW()
+       WHERE id = $2 AND status = 'running'`,
+      [resultNoteId, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  },
+
+  /**
+   * Mark a running job as failed with an error message
+   */
+  async markFailed(id: string, errorMessage: string, errorCode: string | null = null): Promise<void> {
+    await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'failed', error_message = $1, error_code = $2, finished_at = NOW()
+       WHERE id = $3 AND status = 'running'`,
+      [errorMessage, errorCode, id]
+    );
+  },
+
+  /**
+   * Cancel a queued or running job
+   * Returns the job if it was still active, null otherwise
+   */
+  async cancel(id: string): Promise<ProcessingJob | null> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'cancelled', finished_at = NOW()
+       WHERE id = $1 AND status IN ('queued', 'running')
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Cancel every queued or running job for a note
+   */
+  async cancelForNote(noteId: string): Promise<ProcessingJob[]> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'cancelled', finished_at = NOW()
+       WHERE note_id = $1 AND status IN ('queued', 'running')
+       RETURNING *`,
+      [noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Recover jobs left running by a crash or restart - running jobs whose lease has expired,
+   * so jobs another backend process is still running are left alone.
+   * Jobs with attempts remaining are re-queued, the rest are marked failed
+   * (and their notes with them). Notes stuck in 'processing' without any
+   * active job are marked failed as well.
+   */
+  async recoverOrphaned(): Promise<{ requeued: number; failed: number; notesReset: number }> {
+    const requeued = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'queued', started_at = NULL, locked_until = NULL
+       WHERE status = 'running' AND locked_until < NOW() AND attempts < max_attempts`
+    );
+
+    const failed = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'failed', error_message = 'Interrupted by server restart', finished_at = NOW()
+       WHERE status = 'running' AND locked_until < NOW()`
+    );
+
+    const notesReset = await pool.query(
+      `UPDATE notes
+       SET status = 'failed', error_message = 'Processing interrupted by server restart', error_code = NULL
+       WHERE status = 'processing'
+         AND NOT EXISTS (
+           SELECT 1 FROM processing_jobs j
+           WHERE j.note_id = notes.id AND j.status IN ('queued', 'running')
+         )`
+    );
+
+    return {
+      requeued: requeued.rowCount ?? 0,
+      failed: failed.rowCount ?? 0,
+      notesReset: notesReset.rowCount ?? 0,
+    };
+  },
+};
+
+// Process definition functions
+export const processQueries = {
+  /**
+   * Get all process definitions in display order
+   */
+  async getAll(): Promise<ProcessDefinition[]> {
+    const result: QueryResult<ProcessDefinition> = await pool.query(
+      'SELECT * FROM process_definitions ORDER BY position ASC, created_at ASC'
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get a process definition by ID
+   */
+  async getById(id: string): Promise<ProcessDefinition | null> {
+    const result: QueryResult<ProcessDefinition> = await pool.query(
+      'SELECT * FROM process_definitions WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get a process definition by its type key (as stored on notes.process_type)
+   */
+  async getByType(type: string): Promise<ProcessDefinition | null> {
+    const result: QueryResult<ProcessDefinition> = await pool.query(
+      'SELECT * FROM process_definitions WHERE type = $1',
+      [type]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Create a custom process definition
+   */
+  async create(input: ProcessDefinitionInput): Promise<ProcessDefinition> {
+    const result: QueryResult<ProcessDefinition> = await pool.query(
+      `INSERT INTO process_definitions
+         (type, name, description, icon, color, prompt_template, system_prompt, model, temperature, max_tokens,
+          output_format, position)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        input.type,
+        input.name,
+        input.description,
+        input.icon,
+        input.color,
+        input.prompt_template,
+        input.system_prompt,
+        input.model,
+        input.temperature,
+        input.max_tokens,
+        input.output_format,
+        input.position,
+      ]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Update the given fields of a process definition
+   */
+  async update(id: string, updates: Partial<ProcessDefinitionInput>): Promise<ProcessDefinition> {
+    const fields = Object.keys(updates) as (keyof ProcessDefinitionInput)[];
+    const assignments = fields.map((field, i) => `${field} = $${i + 1}`);
+    const values = fields.map((field) => updates[field]);
+
+    const result: QueryResult<ProcessDefinition> = await pool.query(
+      `UPDATE process_definitions SET ${assignments.join(', ')} WHERE id = $${fields.length + 1} RETURNING *`,
+      [...values, id]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Delete a process definition
+   */
+  async delete(id: string): Promise<void> {
+    await pool.query('DELETE FROM process_definitions WHERE id = $1', [id]);
+  },
+};
+
+// Grouping expressions for usage reports (keys are whitelisted by UsageGroupBy)
+const USAGE_GROUPS: Record<UsageGroupBy, { key: string; label: string; order: string }> = {
+  day: {
+    key: "to_char(date_trunc('day', u.created_at), 'YYYY-MM-DD')",
+    label: "to_char(date_trunc('day', u.created_at), 'YYYY-MM-DD')",
+    order: 'key ASC',
+  },
+  process_type: {
+    key: 'u.process_type',
+    label: "COALESCE(u.process_type, '(none)')",
+    order: 'cost_usd DESC',
+  },
+  model: {
+    key: 'u.model',
+    label: "COALESCE(u.model, '(unknown)')",
+    order: 'cost_usd DESC',
+  },
+  folder: {
+    key: 'u.folder_id::text',
+    label: "COALESCE(f.name, '(no folder)')",
+    order: 'cost_usd DESC',
+  },
+};
+
+const USAGE_AGGREGATES = `
+  COUNT(*)::int AS calls,
+  COUNT(*) FILTER (WHERE NOT u.success)::int AS failed_calls,
+  COALESCE(SUM(u.input_tokens), 0)::int AS input_tokens,
+  COALESCE(SUM(u.output_tokens), 0)::int AS output_tokens,
+  COALESCE(SUM(u.input_tokens + u.output_tokens), 0)::int AS total_tokens,
+  COALESCE(SUM(u.cost_usd), 0)::float8 AS cost_usd,
+  COALESCE(ROUND(AVG(u.latency_ms)), 0)::int AS avg_latency_ms`;
+
+export const usageQueries = {
+  /**
+   * Record an LLM call, resolving the nearest folder above the note
+   */
+  async record(entry: LLMUsageInput): Promise<void> {
+    await pool.query(
+      `WITH RECURSIVE ancestors AS (
+         SELECT id, parent_id, item_type, 0 AS depth FROM notes WHERE id = $1
+         UNION ALL
+         SELECT n.id, n.parent_id, n.item_type, a.depth + 1
+         FROM notes n
+         INNER JOIN ancestors a ON n.id = a.parent_id
+       )
+       INSERT INTO llm_usage
+         (note_id, folder_id, process_type, provider, model, input_tokens, output_tokens,
+          cost_usd, latency_ms, success, error_message)
+       VALUES (
+         (SELECT id FROM notes WHERE id = $1),
+         (SELECT id FROM ancestors WHERE item_type = 'folder' ORDER BY depth LIMIT 1),
+         $2, $3, $4, $5, $6, $7, $8, $9, $10
+       )`,
+      [
+        entry.note_id,
+        entry.process_type,
+        entry.provider,
+        entry.model,
+        entry.input_tokens,
+        entry.output_tokens,
+        entry.cost_usd,
+        entry.latency_ms,
+        entry.success,
+        entry.error_message,
+      ]
+    );
+  },
+
+  /**
+   * Get usage totals for a time range
+   */
+  async getSummary(from: Date, to: Date): Promise<UsageSummary> {
+    const result: QueryResult<UsageSummary> = await pool.query(
+      `SELECT ${USAGE_AGGREGATES}
+       FROM llm_usage u
+       WHERE u.created_at >= $1 AND u.created_at < $2`,
+      [from, to]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Get usage for a time range grouped by day, process type, model or folder
+   */
+  async getGrouped(groupBy: UsageGroupBy, from: Date, to: Date): Promise<UsageGroup[]> {
+    const group = USAGE_GROUPS[groupBy];
+    const result: QueryResult<UsageGroup> = await pool.query(
+      `SELECT ${group.key} AS key, ${group.label} AS label, ${USAGE_AGGREGATES}
+       FROM llm_usage u
+       LEFT JOIN notes f ON f.id = u.folder_id
+       WHERE u.created_at >= $1 AND u.created_at < $2
+       GROUP BY 1, 2
+       ORDER BY ${group.order}`,
+      [from, to]
+    );
+    return result.rows;
+  },
+};
+
+// Budgets with their usage in the current period
+// A folder budget counts usage recorded against the folder and any folder nested inside it
+const BUDGET_STATUS_SELECT = `
+  SELECT b.id, b.folder_id, b.period, b.metric,
+    b.limit_value::float8 AS limit_value, b.reset_at, b.created_at, b.updated_at,
+    f.name AS folder_name, w.window_start, w.resets_at,
+    used.amount AS used,
+    GREATEST(b.limit_value::float8 - used.amount, 0) AS remaining
+  FROM budgets b
+  LEFT JOIN notes f ON f.id = b.folder_id
+  CROSS JOIN LATERAL (
+    SELECT
+      GREATEST(date_trunc(p.unit, NOW()), COALESCE(b.reset_at, '-infinity')) AS window_start,
+      date_trunc(p.unit, NOW()) + ('1 ' || p.unit)::interval AS resets_at
+    FROM (SELECT CASE b.period WHEN 'daily' THEN 'day' ELSE 'month' END AS unit) p
+  ) w
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(
+      CASE b.metric WHEN 'tokens' THEN u.input_tokens + u.output_tokens ELSE u.cost_usd END
+    ), 0)::float8 AS amount
+    FROM llm_usage u
+    WHERE u.created_at >= w.window_start
+      AND (
+        b.folder_id IS NULL
+        OR u.folder_id IN (
+          WITH RECURSIVE subfolders AS (
+            SELECT b.folder_id AS id
+            UNION ALL
+            SELECT n.id FROM notes n
+            INNER JOIN subfolders s ON n.parent_id = s.id
+            WHERE n.item_type = 'folder'
+          )
+          SELECT id FROM subfolders
+        )
+      )
+  ) used`;
+
+export const budgetQueries = {
+  /**
+   * Get all budgets with current usage (global first)
+   */
+  async getAll(): Promise<BudgetStatus[]> {
+    const result: QueryResult<BudgetStatus> = await pool.query(
+      `${BUDGET_STATUS_SELECT}
+       ORDER BY b.folder_id IS NOT NULL, f.name, b.period, b.metric`
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get a single budget with current usage
+   */
+  async getById(id: string): Promise<BudgetStatus | null> {
+    const result: QueryResult<BudgetStatus> = await pool.query(
+      `${BUDGET_STATUS_SELECT} WHERE b.id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get the budgets that apply to a note - global budgets plus those of every folder above it
+   */
+  async getForNote(noteId: string): Promise<BudgetStatus[]> {
+    const result: QueryResult<BudgetStatus> = await pool.query(
+      `${BUDGET_STATUS_SELECT}
+       WHERE b.folder_id IS NULL
+          OR b.folder_id IN (
+            WITH RECURSIVE ancestors AS (
+              SELECT id, parent_id FROM notes WHERE id = $1
+              UNION ALL
+              SELECT n.id, n.parent_id FROM notes n
+              INNER JOIN ancestors a ON n.id = a.parent_id
+            )
+            SELECT id FROM ancestors
+          )
+       ORDER BY b.folder_id IS NOT NULL, b.period, b.metric`,
+      [noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Find the budget for a scope, period and metric
+   */
+  async find(folderId: string | null, period: BudgetPeriod, metric: BudgetMetric): Promise<Budget | null> {
+    const result: QueryResult<Budget> = await pool.query(
+      `SELECT * FROM budgets
+       WHERE folder_id IS NOT DISTINCT FROM $1 AND period = $2 AND metric = $3`,
+      [folderId, period, metric]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Create a budget
+   */
+  async create(folderId: string | null, period: BudgetPeriod, metric: BudgetMetric, limitValue: number): Promise<Budget> {
+    const result: QueryResult<Budget> = await pool.query(
+      `INSERT INTO budgets (folder_id, period, metric, limit_value)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [folderId, period, metric, limitValue]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Change a budget's limit
+   */
+  async updateLimit(id: string, limitValue: number): Promise<void> {
+    await pool.query('UPDATE budgets SET limit_value = $1 WHERE id = $2', [limitValue, id]);
+  },
+
+  /**
+   * Reset a budget - usage recorded so far in the current period no longer counts
+   */
+  async reset(id: string): Promise<void> {
+    await pool.query('UPDATE budgets SET reset_at = NOW() WHERE id = $1', [id]);
+  },
+
+  /**
+   * Delete a budget
+   */
+  async delete(id: string): Promise<void> {
+    await pool.query('DELETE FROM budgets WHERE id = $1', [id]);
+  },
+};
+
+// Follow-up chat functions
+export const messageQueries = {
+  /**
+   * Get the conversation on an AI note, oldest turn first
+   */
+  async getByNoteId(noteId: string): Promise<NoteMessage[]> {
+    const result: QueryResult<NoteMessage> = await pool.query(
+      'SELECT * FROM note_messages WHERE note_id = $1 ORDER BY created_at ASC, role DESC',
+      [noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get a single message by ID
+   */
+  async getById(id: string): Promise<NoteMessage | null> {
+    const result: QueryResult<NoteMessage> = await pool.query(
+      'SELECT * FROM note_messages WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Save a question and the reply to it together
+   */
+  async createExchange(
+    noteId: string,
+    question: string,
+    reply: { content: string; model: string; inputTokens: number; outputTokens: number }
+  ): Promise<{ question: NoteMessage; reply: NoteMessage }> {
+    const result: QueryResult<NoteMessage> = await pool.query(
+      `INSERT INTO note_messages (note_id, role, content, model, input_tokens, output_tokens)
+       VALUES ($1, 'user', $2, NULL, NULL, NULL),
+              ($1, 'assistant', $3, $4, $5, $6)
+       RETURNING *`,
+      [noteId, question, reply.content, reply.model, reply.inputTokens, reply.outputTokens]
+    );
+    return {
+      question: result.rows.find((row) => row.role === 'user')!,
+      reply: result.rows.find((row) => row.role === 'assistant')!,
+    };
+  },
+};
+
+// AI note version history functions
+export const versionQueries = {
+  /**
+   * Get every version of an AI note, oldest first
+   */
+  async getByNoteId(noteId: string): Promise<AINoteVersion[]> {
+    const result: QueryResult<AINoteVersion> = await pool.query(
+      'SELECT * FROM ai_note_versions WHERE note_id = $1 ORDER BY version ASC',
+      [noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get a single version of an AI note
+   */
+  async get(noteId: string, version: number): Promise<AINoteVersion | null> {
+    const result: QueryResult<AINoteVersion> = await pool.query(
+      'SELECT * FROM ai_note_versions WHERE note_id = $1 AND version = $2',
+      [noteId, version]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Add a version and make it the note's content, in one transaction
+   * Notes without any history first get their current content saved as version 1
+   */
+  async add(noteId: string, input: AINoteVersionInput): Promise<{ note: Note; version: AINoteVersion }> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the note so concurrent edits get consecutive version numbers
+      await client.query('SELECT id FROM notes WHERE id = $1 FOR UPDATE', [noteId]);
+
+      await client.query(
+        `INSERT INTO ai_note_versions (note_id, version, content, source, model, created_at)
+         SELECT n.id, 1, n.content, 'original', NULL, n.created_at FROM notes n
+         WHERE n.id = $1 AND NOT EXISTS (SELECT 1 FROM ai_note_versions v WHERE v.note_id = n.id)`,
+        [noteId]
+      );
+
+      const versionResult: QueryResult<AINoteVersion> = await client.query(
+        `INSERT INTO ai_note_versions
+           (note_id, version, content, source, instructions, restored_from, model, input_tokens, output_tokens)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6, $7, $8
+         FROM ai_note_versions WHERE note_id = $1
+         RETURNING *`,
+        [
+          noteId,
+          JSON.stringify(input.content),
+          input.source,
+          input.instructions ?? null,
+          input.restored_from ?? null,
+          input.model ?? null,
+          input.input_tokens ?? null,
+          input.output_tokens ?? null,
+        ]
+      );
+
+      const noteResult: QueryResult<Note> = await client.query(
+        'UPDATE notes SET content = $1 WHERE id = $2 RETURNING *',
+        [JSON.stringify(input.content), noteId]
+      );
+
+      await client.query('COMMIT');
+      return { note: noteResult.rows[0], version: versionResult.rows[0] };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+};
+
+// Processing rule functions
+const RULE_SELECT = `
+  SELECT r.*, f.name AS folder_name
+  FROM processing_rules r
+  LEFT JOIN notes f ON f.id = r.folder_id
+`;
+
+export const ruleQueries = {
+  /**
+   * Get all rules, or only those of one folder
+   */
+  async getAll(folderId?: string): Promise<ProcessingRule[]> {
+    const result: QueryResult<ProcessingRule> = folderId
+      ? await pool.query(`${RULE_SELECT} WHERE r.folder_id = $1 ORDER BY r.created_at ASC`, [folderId])
+      : await pool.query(`${RULE_SELECT} ORDER BY r.folder_id IS NOT NULL, f.name, r.created_at ASC`);
+    return result.rows;
+  },
+
+  /**
+   * Get a single rule
+   */
+  async getById(id: string): Promise<ProcessingRule | null> {
+    const result: QueryResult<ProcessingRule> = await pool.query(`${RULE_SELECT} WHERE r.id = $1`, [id]);
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get the enabled rules for a trigger
+   */
+  async getEnabled(trigger: RuleTrigger): Promise<ProcessingRule[]> {
+    const result: QueryResult<ProcessingRule> = await pool.query(
+      `${RULE_SELECT} WHERE r.enabled AND r.trigger = $1 ORDER BY r.created_at ASC`,
+      [trigger]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Create a rule
+   */
+  async create(input: ProcessingRuleInput): Promise<ProcessingRule> {
+    const result: QueryResult<ProcessingRule> = await pool.query(
+      `INSERT INTO processing_rules
+         (trigger, folder_id, tag, process_type, debounce_seconds, cooldown_seconds, enabled)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        input.trigger,
+        input.folder_id,
+        input.tag,
+        input.process_type,
+        input.debounce_seconds,
+        input.cooldown_seconds,
+        input.enabled,
+      ]
+    );
+    return (await ruleQueries.getById(result.rows[0].id))!;
+  },
+
+  /**
+   * Update the given fields of a rule
+   */
+  async update(id: string, updates: Partial<ProcessingRuleInput>): Promise<ProcessingRule> {
+    const fields = Object.keys(updates) as (keyof ProcessingRuleInput)[];
+    const assignments = fields.map((field, i) => `${field} = $${i + 1}`);
+    const values = fields.map((field) => updates[field]);
+
+    await pool.query(
+      `UPDATE processing_rules SET ${assignments.join(', ')} WHERE id = $${fields.length + 1}`,
+      [...values, id]
+    );
+    return (await ruleQueries.getById(id))!;
+  },
+
+  /**
+   * Delete a rule, cancelling the jobs it queued that are still waiting to run
+   */
+  async delete(id: string): Promise<void> {
+    await pool.query(
+      `UPDATE processing_jobs SET status = 'cancelled', finished_at = NOW()
+       WHERE rule_id = $1 AND status = 'queued'`,
+      [id]
+    );
+    await pool.query('DELETE FROM processing_rules WHERE id = $1', [id]);
+  },
+};
+
+// Pipeline functions
+export const pipelineQueries = {
+  /**
+   * Get all pipelines, oldest first
+   */
+  async getAll(): Promise<Pipeline[]> {
+    const result: QueryResult<Pipeline> = await pool.query('SELECT * FROM pipelines ORDER BY created_at ASC');
+    return result.rows;
+  },
+
+  /**
+   * Get a single pipeline
+   */
+  async getById(id: string): Promise<Pipeline | null> {
+    const result: QueryResult<Pipeline> = await pool.query('SELECT * FROM pipelines WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Create a pipeline
+   */
+  async create(input: PipelineInput): Promise<Pipeline> {
+    const result: QueryResult<Pipeline> = await pool.query(
+      `INSERT INTO pipelines (name, description, steps)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [input.name, input.description, JSON.stringify(input.steps)]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Update the given fields of a pipeline (runs already started keep their own copy of the steps)
+   */
+  async update(id: string, updates: Partial<PipelineInput>): Promise<Pipeline> {
+    const fields = Object.keys(updates) as (keyof PipelineInput)[];
+    const assignments = fields.map((field, i) => `${field} = $${i + 1}`);
+    const values = fields.map((field) => (field === 'steps' ? JSON.stringify(updates.steps) : updates[field]));
+
+    const result: QueryResult<Pipeline> = await pool.query(
+      `UPDATE pipelines SET ${assignments.join(', ')} WHERE id = $${fields.length + 1} RETURNING *`,
+      [...values, id]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Delete a pipeline (its runs are kept)
+   */
+  async delete(id: string): Promise<void> {
+    await pool.query('DELETE FROM pipelines WHERE id = $1', [id]);
+  },
+};
+
+// Pipeline run functions
+export const pipelineRunQueries = {
+  /**
+   * Start a run of a pipeline on a note, copying its steps
+   */
+  async create(pipeline: Pipeline, noteId: string): Promise<PipelineRun> {
+    const result: QueryResult<PipelineRun> = await pool.query(
+      `INSERT INTO pipeline_runs (pipeline_id, name, note_id, steps)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [pipeline.id, pipeline.name, noteId, JSON.stringify(pipeline.steps)]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Get a single run
+   */
+  async getById(id: string): Promise<PipelineRun | null> {
+    const result: QueryResult<PipelineRun> = await pool.query('SELECT * FROM pipeline_runs WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get the runs on a note (newest first)
+   */
+  async getByNoteId(noteId: string): Promise<PipelineRun[]> {
+    const result: QueryResult<PipelineRun> = await pool.query(
+      'SELECT * FROM pipeline_runs WHERE note_id = $1 ORDER BY created_at DESC',
+      [noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get the jobs of a run's steps, oldest first (a resumed step has one job per attempt)
+   */
+  async getJobs(runId: string): Promise<ProcessingJob[]> {
+    const result: QueryResult<ProcessingJob> = await pool.query(
+      'SELECT * FROM processing_jobs WHERE pipeline_run_id = $1 ORDER BY created_at ASC',
+      [runId]
+    );
+    return result.rows;
+  },
+};
+
+// Schedule functions
+const SCHEDULE_SELECT = `
+  SELECT s.*, f.name AS folder_name, t.name AS target_folder_name
+  FROM schedules s
+  LEFT JOIN notes f ON f.id = s.folder_id
+  LEFT JOIN notes t ON t.id = s.target_folder_id
+`;
+
+export const scheduleQueries = {
+  /**
+   * Get all schedules, oldest first
+   */
+  async getAll(): Promise<Schedule[]> {
+    const result: QueryResult<Schedule> = await pool.query(`${SCHEDULE_SELECT} ORDER BY s.created_at ASC`);
+    return result.rows;
+  },
+
+  /**
+   * Get a single schedule
+   */
+  async getById(id: string): Promise<Schedule | null> {
+    const result: QueryResult<Schedule> = await pool.query(`${SCHEDULE_SELECT} WHERE s.id = $1`, [id]);
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get the enabled schedules whose next run has come
+   */
+  async getDue(): Promise<Schedule[]> {
+    const result: QueryResult<Schedule> = await pool.query(
+      `${SCHEDULE_SELECT} WHERE s.enabled AND s.next_run_at <= NOW() ORDER BY s.next_run_at ASC`
+    );
+    return result.rows;
+  },
+
+  /**
+   * Create a schedule
+   */
+  async create(input: ScheduleInput, nextRunAt: Date | null): Promise<Schedule> {
+    const result: QueryResult<Schedule> = await pool.query(
+      `INSERT INTO schedules
+         (name, cron, folder_id, target_folder_id, window_hours, process_type, enabled, next_run_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [
+        input.name,
+        input.cron,
+        input.folder_id,
+        input.target_folder_id,
+        input.window_hours,
+        input.process_type,
+        input.enabled,
+        nextRunAt,
+      ]
+    );
+    return (await scheduleQueries.getById(result.rows[0].id))!;
+  },
+
+  /**
+   * Update the given fields of a schedule, and when it next runs
+   */
+  async update(id: string, updates: Partial<ScheduleInput>, nextRunAt: Date | null): Promise<Schedule> {
+    const fields = Object.keys(updates) as (keyof ScheduleInput)[];
+    const assignments = fields.map((field, i) => `${field} = $${i + 1}`);
+    const values = fields.map((field) => updates[field]);
+
+    await pool.query(
+      `UPDATE schedules SET ${assignments.join(', ')}, next_run_at = $${fields.length + 1}
+       WHERE id = $${fields.length + 2}`,
+      [...values, nextRunAt, id]
+    );
+    return (await scheduleQueries.getById(id))!;
+  },
+
+  /**
+   * Move a due schedule on to its next run
+   * Returns false if another process claimed this run first (the schedule is no longer due)
+   */
+  async claim(id: string, nextRunAt: Date | null): Promise<boolean> {
+    const result = await pool.query(
+      'UPDATE schedules SET next_run_at = $1 WHERE id = $2 AND enabled AND next_run_at <= NOW()',
+      [nextRunAt, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  },
+
+  /**
+   * Record that a schedule just ran
+   */
+  async markRun(id: string): Promise<void> {
+    await pool.query('UPDATE schedules SET last_run_at = NOW() WHERE id = $1', [id]);
+  },
+
+  /**
+   * Delete a schedule and its run history (digest notes are kept)
+   */
+  async delete(id: string): Promise<void> {
+    await pool.query('DELETE FROM schedules WHERE id = $1', [id]);
+  },
+};
+
+// Schedule run functions
+export const scheduleRunQueries = {
+  /**
+   * Record a run of a schedule
+   */
+  async create(input: ScheduleRunInput): Promise<ScheduleRun> {
+    const result: QueryResult<ScheduleRun> = await pool.query(
+      `INSERT INTO schedule_runs
+         (schedule_id, trigger, status, job_id, note_id, source_count, window_start, window_end, error_message)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        input.schedule_id,
+        input.trigger,
+        input.status,
+        input.job_id,
+        input.note_id,
+        input.source_count,
+        input.window_start,
+        input.window_end,
+        input.error_message,
+      ]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Get the latest runs of a schedule (newest first), with the status of their jobs
+   */
+  async getBySchedule(scheduleId: string, limit = 20): Promise<ScheduleRun[]> {
+    const result: QueryResult<ScheduleRun> = await pool.query(
+      `SELECT r.id, r.schedule_id, r.trigger,
+              COALESCE(j.status, r.status) AS status,
+              r.job_id, r.note_id, r.source_count, r.window_start, r.window_end,
+              COALESCE(r.error_message, j.error_message) AS error_message,
+              r.created_at
+       FROM schedule_runs r
+       LEFT JOIN processing_jobs j ON j.id = r.job_id
+       WHERE r.schedule_id = $1
+       ORDER BY r.created_at DESC
+       LIMIT $2`,
+      [scheduleId, limit]
+    );
+    return result.rows;
+  },
+};
+
+// Task functions
+const TASK_SELECT = `
+  SELECT t.*, n.name AS note_name, n.process_type, p.id AS source_note_id
+  FROM tasks t
+  INNER JOIN notes n ON n.id = t.note_id
+  LEFT JOIN notes p ON p.id = n.parent_id AND p.item_type <> 'folder'
+`;
+
+export const taskQueries = {
+  /**
+   * Get tasks across every plan - open ones oldest first, done ones most recently done first
+   */
+  async getAll(status: TaskStatusFilter = 'open', noteId: string | null = null): Promise<TaskWithPlan[]> {
+    const result: QueryResult<TaskWithPlan> = await pool.query(
+      `${TASK_SELECT}
+       WHERE ($1 = 'all' OR t.done = ($1 = 'done'))
+         AND ($2::uuid IS NULL OR t.note_id = $2)
+       ORDER BY t.done ASC, t.completed_at DESC NULLS LAST, n.created_at ASC, t.position ASC`,
+      [status, noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get a single task
+   */
+  async getById(id: string): Promise<TaskWithPlan | null> {
+    const result: QueryResult<TaskWithPlan> = await pool.query(`${TASK_SELECT} WHERE t.id = $1`, [id]);
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get the tasks of a plan, in order
+   */
+  async getByNote(noteId: string): Promise<Task[]> {
+    const result: QueryResult<Task> = await pool.query(
+      'SELECT * FROM tasks WHERE note_id = $1 ORDER BY position ASC',
+      [noteId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Make a note's tasks match the checklist in its content, in one transaction
+   * Tasks no longer in the checklist are removed; the rest are added or updated
+   */
+  async sync(noteId: string, tasks: TaskInput[]): Promise<Task[]> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query('DELETE FROM tasks WHERE note_id = $1 AND NOT (id = ANY($2::uuid[]))', [
+        noteId,
+        tasks.map((task) => task.id),
+      ]);
+
+      const rows: Task[] = [];
+      for (const task of tasks) {
+        const result: QueryResult<Task> = await client.query(
+          `INSERT INTO tasks (id, note_id, position, text, estimate, done, completed_at)
+           VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $6 THEN NOW() END)
+           ON CONFLICT (id) DO UPDATE SET
+             position = EXCLUDED.position,
+             text = EXCLUDED.text,
+             estimate = EXCLUDED.estimate,
+             done = EXCLUDED.done,
+             completed_at = CASE WHEN EXCLUDED.done THEN COALESCE(tasks.completed_at, NOW()) END
+           WHERE tasks.note_id = EXCLUDED.note_id
+           RETURNING *`,
+          [task.id, noteId, task.position, task.text, task.estimate, task.done]
+        );
+        rows.push(...result.rows);
+      }
+
+      await client.query('COMMIT');
+      return rows;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+
+  /**
+   * Tick or untick a task, updating its note's content to match in the same transaction
+   * updateContent gets the note's current content and returns it with the task's item changed
+   */
+  async setDone(id: string, done: boolean, updateContent: (content: any) => any): Promise<Task | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the plan's note so concurrent ticks don't overwrite each other's content
+      const noteResult = await client.query(
+        'SELECT n.id, n.content FROM notes n INNER JOIN tasks t ON t.note_id = n.id WHERE t.id = $1 FOR UPDATE OF n',
+        [id]
+      );
+      if (noteResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const { id: noteId, content } = noteResult.rows[0];
+      await client.query('UPDATE notes SET content = $1 WHERE id = $2', [JSON.stringify(updateContent(content)), noteId]);
+
+      const taskResult: QueryResult<Task> = await client.query(
+        `UPDATE tasks SET done = $1, completed_at = CASE WHEN $1 THEN COALESCE(completed_at, NOW()) END
+         WHERE id = $2
+         RETURNING *`,
+        [done, id]
+      );
+
+      await client.query('COMMIT');
+      return taskResult.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+};
+
+// Comparison functions
+export const comparisonQueries = {
+  /**
+   * Start a comparison - the variants get their results once the runs finish
+   */
+  async create(noteId: string, processType: string, variants: ComparisonVariantInput[]): Promise<Comparison> {
+    const pending: ComparisonVariant[] = variants.map((variant) => ({ ...variant, result: null, error: null }));
+    const result: QueryResult<Comparison> = await pool.query(
+      `INSERT INTO comparisons (note_id, process_type, variants)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [noteId, processType, JSON.stringify(pending)]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Get a single comparison
+   */
+  async getById(id: string): Promise<Comparison | null> {
+    const result: QueryResult<Comparison> = await pool.query('SELECT * FROM comparisons WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Get comparisons, newest first, optionally of one note or process type, decided or not
+   */
+  async getAll(filters: ComparisonFilters = {}): Promise<Comparison[]> {
+    const result: QueryResult<Comparison> = await pool.query(
+      `SELECT * FROM comparisons
+       WHERE ($1::uuid IS NULL OR note_id = $1)
+         AND ($2::text IS NULL OR process_type = $2)
+         AND ($3::boolean IS NULL OR (decided_at IS NOT NULL) = $3)
+       ORDER BY created_at DESC`,
+      [filters.noteId ?? null, filters.processType ?? null, filters.decided ?? null]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Record how each variant's run went
+   */
+  async setVariants(id: string, variants: ComparisonVariant[]): Promise<Comparison> {
+    const result: QueryResult<Comparison> = await pool.query(
+      'UPDATE comparisons SET variants = $1 WHERE id = $2 RETURNING *',
+      [JSON.stringify(variants), id]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Record the winning variant and delete the other variants' AI notes, in one transaction
+   * Returns null if a winner was already picked
+   */
+  async pickWinner(
+    id: string,
+    winnerVariant: number,
+    winnerNoteId: string
+  ): Promise<{ comparison: Comparison; deletedNoteIds: string[] } | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Lock the comparison so two picks can't both win
+      const current = await client.query('SELECT decided_at FROM comparisons WHERE id = $1 FOR UPDATE', [id]);
+      if (current.rows[0]?.decided_at) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const deleted = await client.query(
+        'DELETE FROM notes WHERE comparison_id = $1 AND id <> $2 RETURNING id',
+        [id, winnerNoteId]
+      );
+
+      const result: QueryResult<Comparison> = await client.query(
+        `UPDATE comparisons SET winner_variant = $1, decided_at = NOW()
+         WHERE id = $2
+         RETURNING *`,
+        [winnerVariant, id]
+      );
+
+      await client.query('COMMIT');
+      return { comparison: result.rows[0], deletedNoteIds: deleted.rows.map((row) => row.id) };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
+};
+
 // Export the pool for direct queries if needed
 export { pool };
@@ -4,22 +4,69 @@ import dotenv from 'dotenv';
 import notesRouter from './routes/notes.js';
 import processRouter from './routes/process.js';
 import foldersRouter from './routes/folders.js';
+import jobsRouter from './routes/jobs.js';
+import processesRouter from './routes/processes.js';
+import usageRouter from './routes/usage.js';
+import budgetsRouter from './routes/budgets.js';
+import rulesRouter from './routes/rules.js';
+import pipelinesRouter from './routes/pipelines.js';
+import pipelineRunsRouter from './routes/pipeline-runs.js';
+import schedulesRouter from './routes/schedules.js';
+import synthesisRouter from './routes/synthesis.js';
+import messagesRouter from './routes/messages.js';
+import versionsRouter from './routes/versions.js';
+import tasksRouter from './routes/tasks.js';
+import comparisonsRouter from './routes/comparisons.js';
+import modelsRouter from './routes/models.js';
+import askRouter from './routes/ask.js';
+import testRouter from './routes/test.js';
+import { startWorker, stopWorker } from './services/worker.js';
+import { startScheduler, stopScheduler } from './services/scheduler.js';
+import { getLLMMode, getProviderName, getRequiredEnvVars, LLMMode, ProviderName } from './services/llm.js';
+import { getCassetteDir } from './services/llm-cassettes.js';
 
 // Load environment variables
 dotenv.config();
 
+// Resolve the LLM mode and provider - they decide which credentials are required
+let llmMode: LLMMode;
+let llmProvider: ProviderName;
+try {
+  llmMode = getLLMMode();
+  llmProvider = getProviderName();
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
 // Validate required environment variables
-const requiredEnvVars = ['DATABASE_URL', 'ANTHROPIC_API_KEY'];
+const requiredEnvVars = ['DATABASE_URL', ...getRequiredEnvVars(llmProvider, llmMode)];
 for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
-    console.error(`❌ Missing required environment variable: ${envVar}`);
+    console.error(`❌ Missing required environment variable: ${envVar} (LLM provider: ${llmProvider})`);
     process.exit(1);
   }
 }
 
+const LLM_PROVIDER_LABELS: Record<ProviderName, string> = {
+  anthropic: 'Anthropic Claude',
+  openai: `OpenAI-compatible (${process.env.OPENAI_BASE_URL})`,
+  mock: 'Mock LLM (testing)',
+};
+
+const LLM_MODE_LABELS: Record<LLMMode, string> = {
+  live: '',
+  mock: '',
+  record: ` - recording cassettes to ${getCassetteDir()}`,
+  replay: ` - replaying cassettes from ${getCassetteDir()}`,
+};
+
 const app: Express = express();
 const PORT = process.env.PORT || 3000;
 
+// Scriptable mock LLM for end-to-end tests - never with a real provider or in production
+const TEST_ROUTES_ENABLED = llmMode === 'mock' && process.env.NODE_ENV !== 'production';
+
 // Middleware
 app.use(cors({
   origin: process.env.CORS_ORIGIN || '*',
@@ -52,8 +99,25 @@ app.get('/health', (req: Request, res: Response) => {
 // API routes
 app.use('/api/notes', notesRouter);
 app.use('/api/notes', processRouter); // Process routes are mounted under /api/notes/:id/process
-app.use('/api', processRouter); // Also mount /api/processes
+app.use('/api/notes', messagesRouter); // Follow-up chat under /api/notes/:id/messages
+app.use('/api/notes', versionsRouter); // AI note refine/regenerate and version history
+app.use('/api/notes', pipelineRunsRouter); // Pipeline runs under /api/notes/:id/pipelines and /pipeline-runs
+app.use('/api/processes', processesRouter);
+app.use('/api/models', modelsRouter); // Models a run can pick, with context window and pricing
 app.use('/api/folders', foldersRouter);
+app.use('/api/jobs', jobsRouter);
+app.use('/api/usage', usageRouter);
+app.use('/api/budgets', budgetsRouter);
+app.use('/api/rules', rulesRouter); // Auto-processing rules
+app.use('/api/pipelines', pipelinesRouter); // Multi-step pipeline definitions
+app.use('/api/schedules', schedulesRouter); // Scheduled digests
+app.use('/api/tasks', tasksRouter); // Action plan steps
+app.use('/api/comparisons', comparisonsRouter); // Side-by-side process runs and their winners
+app.use('/api/ask', askRouter); // Questions answered from the notes
+if (TEST_ROUTES_ENABLED) {
+  app.use('/api/test', testRouter); // Mock LLM scenarios
+}
+app.use('/api/process', synthesisRouter); // Multi-note processing (batch synthesis)
 
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
@@ -65,6 +129,17 @@ app.get('/', (req: Request, res: Response) => {
       health: '/health',
       notes: '/api/notes',
       processes: '/api/processes',
+      models: '/api/models',
+      synthesis: '/api/process/batch-synthesis',
+      jobs: '/api/jobs',
+      usage: '/api/usage',
+      budgets: '/api/budgets',
+      rules: '/api/rules',
+      pipelines: '/api/pipelines',
+      schedules: '/api/schedules',
+      tasks: '/api/tasks',
+      comparisons: '/api/comparisons',
+      ask: '/api/ask',
     },
   });
 });
@@ -96,33 +171,96 @@ app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🗄️  Database: Connected to PostgreSQL`);
-  console.log(`🤖 LLM Provider: Anthropic Claude`);
+  console.log(`🤖 LLM Provider: ${LLM_PROVIDER_LABELS[llmProvider]}${LLM_MODE_LABELS[llmMode]}`);
   console.log('');
   console.log('Available endpoints:');
   console.log(`  GET  /health              - Health check`);
   console.log(`  GET  /api/notes           - List all notes`);
   console.log(`  GET  /api/notes/roots     - List root notes`);
-  console.log(`  GET  /api/notes/:id       - Get note by ID`);
+  console.log(`  GET  /api/notes/:id       - Get note by ID (?format=markdown for Markdown)`);
   console.log(`  POST /api/notes           - Create new note`);
   console.log(`  PATCH /api/notes/:id      - Update note`);
   console.log(`  DELETE /api/notes/:id     - Delete note`);
   console.log(`  GET  /api/notes/:id/children - Get child notes`);
   console.log(`  GET  /api/notes/:id/tree  - Get note tree`);
-  console.log(`  POST /api/notes/:id/process - Process note with AI`);
+  console.log(`  POST /api/notes/:id/process - Queue AI processing (202 + job id)`);
+  console.log(`  GET  /api/notes/:id/process/stream - Stream AI processing (SSE)`);
+  console.log(`  POST /api/notes/:id/process/cancel - Cancel AI processing`);
+  console.log(`  POST /api/notes/:id/compare - Run a process with 2-4 variants side by side`);
+  console.log(`  POST /api/process/batch-synthesis - Synthesize several notes into one AI note`);
+  console.log(`  GET  /api/notes/:id/messages - Follow-up chat on an AI note`);
+  console.log(`  POST /api/notes/:id/messages - Ask a follow-up question (?stream=true for SSE)`);
+  console.log(`  POST /api/notes/:id/messages/:messageId/save - Save a reply as an AI note`);
+  console.log(`  GET  /api/notes/:id/versions - AI note version history`);
+  console.log(`  POST /api/notes/:id/refine - Rewrite an AI note with instructions`);
+  console.log(`  POST /api/notes/:id/regenerate - Regenerate an AI note as a new version`);
+  console.log(`  POST /api/notes/:id/versions/:version/restore - Restore an earlier version`);
+  console.log(`  POST /api/notes/:id/pipelines/:pipelineId/run - Run a pipeline on a note`);
+  console.log(`  GET  /api/notes/:id/pipeline-runs - Pipeline runs with per-step status`);
+  console.log(`  POST /api/notes/:id/pipeline-runs/:runId/resume - Resume failed steps`);
   console.log(`  GET  /api/processes       - List available AI processes`);
+  console.log(`  POST /api/processes       - Create custom AI process`);
+  console.log(`  PATCH /api/processes/:id  - Update AI process`);
+  console.log(`  DELETE /api/processes/:id - Delete custom AI process`);
+  console.log(`  GET  /api/models          - Models with context window and pricing`);
+  console.log(`  GET  /api/jobs?noteId=    - List processing jobs`);
+  console.log(`  GET  /api/jobs/:id        - Get processing job`);
+  console.log(`  DELETE /api/jobs/:id      - Cancel processing job`);
+  console.log(`  GET  /api/usage?groupBy=  - LLM token usage and cost`);
+  console.log(`  GET  /api/budgets         - List spending budgets`);
+  console.log(`  GET  /api/budgets/status?noteId= - Budgets that apply to a note`);
+  console.log(`  POST /api/budgets         - Create budget`);
+  console.log(`  PATCH /api/budgets/:id    - Change budget limit`);
+  console.log(`  POST /api/budgets/:id/reset - Reset budget usage`);
+  console.log(`  DELETE /api/budgets/:id   - Delete budget`);
+  console.log(`  GET  /api/rules?folderId= - List auto-processing rules`);
+  console.log(`  POST /api/rules           - Create rule`);
+  console.log(`  PATCH /api/rules/:id      - Update rule`);
+  console.log(`  DELETE /api/rules/:id     - Delete rule`);
+  console.log(`  GET  /api/pipelines       - List pipelines`);
+  console.log(`  POST /api/pipelines       - Create pipeline`);
+  console.log(`  PATCH /api/pipelines/:id  - Update pipeline`);
+  console.log(`  DELETE /api/pipelines/:id - Delete pipeline`);
+  console.log(`  GET  /api/schedules       - List scheduled digests`);
+  console.log(`  GET  /api/schedules/:id/runs - Schedule run history`);
+  console.log(`  POST /api/schedules       - Create schedule`);
+  console.log(`  PATCH /api/schedules/:id  - Update schedule`);
+  console.log(`  POST /api/schedules/:id/run - Run a schedule now`);
+  console.log(`  DELETE /api/schedules/:id - Delete schedule`);
+  console.log(`  GET  /api/tasks?status=   - Action plan tasks (open by default)`);
+  console.log(`  PATCH /api/tasks/:id      - Tick or untick a task`);
+  console.log(`  GET  /api/comparisons     - List comparisons (?noteId=&processType=&decided=)`);
+  console.log(`  GET  /api/comparisons/:id - Comparison with its variants' AI notes`);
+  console.log(`  POST /api/comparisons/:id/winner - Keep one variant, delete the others`);
+  console.log(`  POST /api/ask             - Answer a question from the notes, with citations`);
+  if (TEST_ROUTES_ENABLED) {
+    console.log(`  POST /api/test/llm-scenarios - Script the mock LLM (test only)`);
+  }
   console.log('');
   console.log('Press Ctrl+C to stop');
   console.log('');
+
+  // Start the background job worker (re-queues jobs orphaned by a crash)
+  startWorker().catch((error) => {
+    console.error('Failed to start job worker:', error);
+  });
+
+  // Start the scheduler that queues digests when their cron expression comes due
+  startScheduler();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  stopWorker();
+  stopScheduler();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   console.log('\nSIGINT signal received: closing HTTP server');
+  stopWorker();
+  stopScheduler();
   process.exit(0);
 });
 
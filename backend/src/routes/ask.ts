@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { askNotes, NoMatchingNotesError, MAX_QUESTION_LENGTH } from '../services/ask.js';
+import { BudgetExceededError } from '../services/budgets.js';
+import { LLMError } from '../services/llm-errors.js';
+import { sendBudgetExceeded, sendLLMError } from './process.js';
+
+const router = Router();
+
+/**
+ * POST /api/ask
+ * Answer a question from the notes that best match it - responds 201 with the answer (markdown
+ * citing notes as note:// links), the notes it cites and was drawn from, and the answer's AI note
+ * in the "Answers" folder
+ * Body: { question: string }
+ * Responds 404 if no note matches the question, 429 if a budget of the Answers folder would be
+ * exceeded, or with the LLM error's status if the call failed
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const question = typeof req.body.question === 'string' ? req.body.question.trim() : '';
+
+  if (!question) {
+    return res.status(400).json({ error: 'question is required' });
+  }
+
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return res.status(400).json({ error: `question must be at most ${MAX_QUESTION_LENGTH} characters` });
+  }
+
+  try {
+    return res.status(201).json(await askNotes(question));
+  } catch (error: any) {
+    if (error instanceof NoMatchingNotesError) {
+      return res.status(404).json({ error: 'No notes match the question', message: error.message });
+    }
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+    if (error instanceof LLMError) {
+      return sendLLMError(res, error);
+    }
+
+    console.error('Error answering question:', error);
+    return res.status(500).json({ error: 'Failed to answer question' });
+  }
+});
+
+export default router;
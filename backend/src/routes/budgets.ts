@@ -0,0 +1,175 @@
+import { Router, Request, Response } from 'express';
+import { budgetQueries, pool, BudgetPeriod, BudgetMetric } from '../database.js';
+
+const router = Router();
+
+const PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+const METRICS: BudgetMetric[] = ['tokens', 'cost'];
+
+/**
+ * Parse a budget limit (tokens or USD), returning null if invalid
+ */
+function parseLimit(value: unknown): number | null {
+  const limit = Number(value);
+  return value === undefined || value === null || value === '' || Number.isNaN(limit) || limit < 0
+    ? null
+    : limit;
+}
+
+/**
+ * GET /api/budgets
+ * List all budgets with their usage in the current period
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const budgets = await budgetQueries.getAll();
+    res.json(budgets);
+  } catch (error: any) {
+    console.error('Error fetching budgets:', error);
+    res.status(500).json({ error: 'Failed to fetch budgets' });
+  }
+});
+
+/**
+ * GET /api/budgets/status?noteId=...
+ * Budgets that apply to a note (global plus its folders), or only global budgets
+ * when no note is given. `exhausted` is true when any of them has nothing left.
+ */
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    const noteId = req.query.noteId as string | undefined;
+    const budgets = noteId
+      ? await budgetQueries.getForNote(noteId)
+      : (await budgetQueries.getAll()).filter((budget) => budget.folder_id === null);
+
+    res.json({
+      budgets,
+      exhausted: budgets.some((budget) => budget.remaining <= 0),
+    });
+  } catch (error: any) {
+    console.error('Error fetching budget status:', error);
+    res.status(500).json({ error: 'Failed to fetch budget status' });
+  }
+});
+
+/**
+ * POST /api/budgets
+ * Create a budget
+ * Body: { period: 'daily' | 'monthly', metric: 'tokens' | 'cost', limit_value: number, folder_id?: string }
+ * Without folder_id the budget is global
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { period, metric } = req.body;
+    const folderId: string | null = req.body.folder_id || null;
+    const limitValue = parseLimit(req.body.limit_value);
+
+    if (!PERIODS.includes(period) || !METRICS.includes(metric) || limitValue === null) {
+      return res.status(400).json({
+        error: 'Invalid budget',
+        details: `period must be one of ${PERIODS.join(', ')}, metric one of ${METRICS.join(', ')}, and limit_value a non-negative number`,
+      });
+    }
+
+    if (folderId) {
+      const folderCheck = await pool.query(
+        'SELECT id, item_type FROM notes WHERE id = $1',
+        [folderId]
+      );
+
+      if (folderCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      if (folderCheck.rows[0].item_type !== 'folder') {
+        return res.status(400).json({ error: 'folder_id must be a folder' });
+      }
+    }
+
+    if (await budgetQueries.find(folderId, period, metric)) {
+      return res.status(409).json({ error: `A ${period} ${metric} budget already exists for this scope` });
+    }
+
+    const budget = await budgetQueries.create(folderId, period, metric, limitValue);
+
+    console.log(`✓ Created ${period} ${metric} budget ${budget.id}`);
+    return res.status(201).json(await budgetQueries.getById(budget.id));
+  } catch (error: any) {
+    console.error('Error creating budget:', error);
+    return res.status(500).json({ error: 'Failed to create budget' });
+  }
+});
+
+/**
+ * PATCH /api/budgets/:id
+ * Raise or lower a budget's limit
+ * Body: { limit_value: number }
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const limitValue = parseLimit(req.body.limit_value);
+
+    if (limitValue === null) {
+      return res.status(400).json({ error: 'limit_value must be a non-negative number' });
+    }
+
+    if (!(await budgetQueries.getById(id))) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    await budgetQueries.updateLimit(id, limitValue);
+
+    console.log(`✓ Updated budget ${id} limit to ${limitValue}`);
+    return res.json(await budgetQueries.getById(id));
+  } catch (error: any) {
+    console.error('Error updating budget:', error);
+    return res.status(500).json({ error: 'Failed to update budget' });
+  }
+});
+
+/**
+ * POST /api/budgets/:id/reset
+ * Reset a budget - usage so far in the current period stops counting against it
+ */
+router.post('/:id/reset', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await budgetQueries.getById(id))) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    await budgetQueries.reset(id);
+
+    console.log(`✓ Reset budget ${id}`);
+    return res.json(await budgetQueries.getById(id));
+  } catch (error: any) {
+    console.error('Error resetting budget:', error);
+    return res.status(500).json({ error: 'Failed to reset budget' });
+  }
+});
+
+/**
+ * DELETE /api/budgets/:id
+ * Remove a budget
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await budgetQueries.getById(id))) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    await budgetQueries.delete(id);
+
+    console.log(`✓ Deleted budget ${id}`);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting budget:', error);
+    return res.status(500).json({ error: 'Failed to delete budget' });
+  }
+});
+
+export default router;
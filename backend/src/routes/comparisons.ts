@@ -0,0 +1,89 @@
+import { Router, Request, Response } from 'express';
+import { comparisonQueries, noteQueries, ComparisonFilters } from '../database.js';
+import { describeComparison } from '../services/comparisons.js';
+
+const router = Router();
+
+/**
+ * GET /api/comparisons?noteId=&processType=&decided=
+ * List comparisons, newest first - decided=true for those with a winner, false for those without
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filters: ComparisonFilters = {};
+    if (req.query.noteId) filters.noteId = String(req.query.noteId);
+    if (req.query.processType) filters.processType = String(req.query.processType);
+    if (req.query.decided === 'true' || req.query.decided === 'false') {
+      filters.decided = req.query.decided === 'true';
+    }
+
+    res.json(await comparisonQueries.getAll(filters));
+  } catch (error: any) {
+    console.error('Error fetching comparisons:', error);
+    res.status(500).json({ error: 'Failed to fetch comparisons' });
+  }
+});
+
+/**
+ * GET /api/comparisons/:id
+ * Get a comparison with its variants' AI notes
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const comparison = await comparisonQueries.getById(req.params.id);
+    if (!comparison) {
+      return res.status(404).json({ error: 'Comparison not found' });
+    }
+
+    return res.json(await describeComparison(comparison));
+  } catch (error: any) {
+    console.error('Error fetching comparison:', error);
+    return res.status(500).json({ error: 'Failed to fetch comparison' });
+  }
+});
+
+/**
+ * POST /api/comparisons/:id/winner
+ * Keep one variant's AI note and delete the others, recording the choice on the comparison
+ * Body: { noteId: string } - the winning variant's AI note
+ */
+router.post('/:id/winner', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { noteId } = req.body;
+
+  try {
+    const comparison = await comparisonQueries.getById(id);
+    if (!comparison) {
+      return res.status(404).json({ error: 'Comparison not found' });
+    }
+
+    if (comparison.decided_at) {
+      return res.status(409).json({ error: 'A winner was already picked', winner_variant: comparison.winner_variant });
+    }
+
+    const winnerVariant = comparison.variants.findIndex((variant) => variant.result?.note_id === noteId);
+    if (typeof noteId !== 'string' || winnerVariant === -1) {
+      return res.status(400).json({ error: "noteId must be the AI note of one of the comparison's variants" });
+    }
+
+    if (!(await noteQueries.getById(noteId))) {
+      return res.status(404).json({ error: 'The winning AI note was deleted' });
+    }
+
+    const picked = await comparisonQueries.pickWinner(id, winnerVariant, noteId);
+    if (!picked) {
+      return res.status(409).json({ error: 'A winner was already picked' });
+    }
+
+    console.log(
+      `Comparison ${id}: picked "${comparison.variants[winnerVariant].label}", deleted ${picked.deletedNoteIds.length} AI notes`
+    );
+
+    return res.json({ ...(await describeComparison(picked.comparison)), deletedNoteIds: picked.deletedNoteIds });
+  } catch (error: any) {
+    console.error('Error picking comparison winner:', error);
+    return res.status(500).json({ error: 'Failed to pick winner' });
+  }
+});
+
+export default router;
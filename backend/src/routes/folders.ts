@@ -1,5 +1,6 @@
 import express, { Request, Response } from 'express';
-import { pool } from '../database.js';
+import { pool, noteQueries } from '../database.js';
+import { applyRules } from '../services/rules.js';
 import { CreateFolderRequest, UpdateFolderRequest, MoveItemRequest } from '../types/items.js';
 
 const router = express.Router();
@@ -193,7 +194,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Move item to different folder
+// Move item to different folder (runs the "moved" processing rules of the folders it enters)
 router.post('/:id/move', async (req: Request<{ id: string }, {}, MoveItemRequest>, res: Response) => {
   try {
     const { id } = req.params;
@@ -237,12 +238,18 @@ router.post('/:id/move', async (req: Request<{ id: string }, {}, MoveItemRequest
       }
     }
 
+    // Folders the item was in, so that "moved" rules only fire when it enters a folder
+    const previousFolderIds = (await noteQueries.getAncestors(id)).map((ancestor) => ancestor.id);
+
     // Move the item
     const result = await pool.query(
       'UPDATE notes SET parent_id = $1 WHERE id = $2 RETURNING *',
       [parent_id || null, id]
     );
 
+    // Queue any processing rules for notes moved into the target folder
+    await applyRules('moved', result.rows[0], previousFolderIds);
+
     res.json(result.rows[0]);
   } catch (error: any) {
     console.error('Error moving item:', error);
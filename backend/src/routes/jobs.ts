@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express';
+import { jobQueries } from '../database.js';
+import { cancelJob } from '../services/worker.js';
+
+const router = Router();
+
+/**
+ * GET /api/jobs?noteId=...
+ * List processing jobs for a note, or the most recent jobs when no note is given
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const noteId = req.query.noteId as string | undefined;
+    const jobs = noteId
+      ? await jobQueries.getByNoteId(noteId)
+      : await jobQueries.getRecent();
+    res.json(jobs);
+  } catch (error: any) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Get a single processing job
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const job = await jobQueries.getById(id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.json(job);
+  } catch (error: any) {
+    console.error('Error fetching job:', error);
+    return res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running job
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const job = await jobQueries.getById(id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const cancelled = await cancelJob(id);
+    if (!cancelled) {
+      return res.status(409).json({
+        error: 'Job is not queued or running',
+        status: job.status,
+      });
+    }
+
+    console.log(`Cancelled job ${id}`);
+    return res.json(cancelled);
+  } catch (error: any) {
+    console.error('Error cancelling job:', error);
+    return res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+export default router;
@@ -0,0 +1,163 @@
+import { Router, Request, Response } from 'express';
+import { noteQueries, messageQueries } from '../database.js';
+import { sendChatMessage, CHAT_PROCESS_TYPE } from '../services/chat.js';
+import { markdownToTiptap } from '../services/markdown.js';
+import { queueTitle } from '../services/titles.js';
+import { BudgetExceededError } from '../services/budgets.js';
+import { LLMError } from '../services/llm-errors.js';
+import { sendBudgetExceeded, sendLLMError, runErrorEvent } from './process.js';
+
+const router = Router();
+
+const MAX_MESSAGE_LENGTH = 10000;
+
+/**
+ * GET /api/notes/:id/messages
+ * Get the follow-up conversation on an AI note, oldest turn first
+ */
+router.get('/:id/messages', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    const messages = await messageQueries.getByNoteId(id);
+    return res.json(messages);
+  } catch (error: any) {
+    console.error('Error fetching messages:', error);
+    return res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+});
+
+/**
+ * POST /api/notes/:id/messages?stream=true
+ * Ask a follow-up question about an AI note
+ * Body: { content: string }
+ * Without stream: responds 201 with { question, reply } once the reply is complete
+ * With stream=true: Server-Sent Events - `delta` { text }, `done` { question, reply },
+ *                   `error` { error, message } (plus `code` and `budget` when a budget would be exceeded)
+ * Responds 429 (with the budget and its reset time) if a spending budget would be exceeded,
+ * or the status for the kind of LLM failure (see LLM_ERROR_STATUS) once retries run out
+ */
+router.post('/:id/messages', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const content = typeof req.body.content === 'string' ? req.body.content.trim() : '';
+  const stream = req.query.stream === 'true';
+
+  try {
+    if (!content || content.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ error: `content is required (max ${MAX_MESSAGE_LENGTH} characters)` });
+    }
+
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    if (note.type !== 'ai') {
+      return res.status(400).json({ error: 'Follow-up questions can only be asked on AI notes' });
+    }
+
+    if (note.status === 'processing') {
+      return res.status(409).json({ error: 'AI note is still being generated', status: note.status });
+    }
+
+    // Stop generating if the client goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    if (!stream) {
+      const exchange = await sendChatMessage(note, content, { signal: controller.signal });
+      return res.status(201).json(exchange);
+    }
+
+    // Open the event stream
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const exchange = await sendChatMessage(note, content, {
+        signal: controller.signal,
+        onChunk: (text) => sendEvent('delta', { text }),
+      });
+      sendEvent('done', exchange);
+    } catch (chatError: any) {
+      if (chatError instanceof BudgetExceededError) {
+        sendEvent('error', chatError);
+      } else if (!controller.signal.aborted) {
+        console.error('Streamed chat failed:', chatError);
+        sendEvent('error', runErrorEvent(chatError, 'Chat failed'));
+      }
+    }
+
+    return res.end();
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+    if (error instanceof LLMError) {
+      return sendLLMError(res, error);
+    }
+
+    console.error('Error in messages endpoint:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/notes/:id/messages/:messageId/save
+ * Save a chat reply as its own AI note, next to the AI note it was asked on
+ */
+router.post('/:id/messages/:messageId/save', async (req: Request, res: Response) => {
+  try {
+    const { id, messageId } = req.params;
+
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    const message = await messageQueries.getById(messageId);
+    if (!message || message.note_id !== id) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+
+    if (message.role !== 'assistant') {
+      return res.status(400).json({ error: 'Only replies can be saved as notes' });
+    }
+
+    const saved = await noteQueries.create(
+      note.parent_id,
+      'ai',
+      markdownToTiptap(message.content),
+      CHAT_PROCESS_TYPE,
+      'complete',
+      { chat: { noteId: id, messageId } }
+    );
+
+    console.log(`✓ Saved chat reply ${messageId} as AI note ${saved.id}`);
+    queueTitle(saved);
+    return res.status(201).json(saved);
+  } catch (error: any) {
+    console.error('Error saving chat reply:', error);
+    return res.status(500).json({ error: 'Failed to save reply' });
+  }
+});
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router, Request, Response } from 'express';
+import { describeModels } from '../services/models.js';
+
+const router = Router();
+
+/**
+ * GET /api/models
+ * Models the configured provider offers, with each one's context window and pricing
+ * A process request's model must be one of these
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await describeModels());
+  } catch (error: any) {
+    console.error('Error listing models:', error);
+    res.status(500).json({ error: 'Failed to list models' });
+  }
+});
+
+export default router;
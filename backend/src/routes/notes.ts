@@ -1,5 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { noteQueries } from '../database.js';
+import { tiptapToMarkdown } from '../services/markdown.js';
+import { applyRules } from '../services/rules.js';
+import { queueTitle, titleUntitledNotes, MAX_TITLE_LENGTH } from '../services/titles.js';
+import { syncTasks } from '../services/tasks.js';
 
 const router = Router();
 
@@ -31,19 +35,47 @@ router.get('/roots', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/notes/titles
+ * Title every note that has no name yet (and enough text to name it by) in the background
+ * Returns 202 with how many notes will be titled
+ */
+router.post('/titles', async (_req: Request, res: Response) => {
+  try {
+    const queued = await titleUntitledNotes();
+
+    console.log(`✓ Titling ${queued} untitled notes`);
+    res.status(202).json({ queued });
+  } catch (error: any) {
+    console.error('Error titling notes:', error);
+    res.status(500).json({ error: 'Failed to title notes' });
+  }
+});
+
 /**
  * GET /api/notes/:id
  * Get a single note by ID
+ * Query: format=markdown returns the note's content as text/markdown instead of JSON
  */
 router.get('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const { format } = req.query;
+
+    if (format !== undefined && format !== 'json' && format !== 'markdown') {
+      return res.status(400).json({ error: 'format must be json or markdown' });
+    }
+
     const note = await noteQueries.getById(id);
 
     if (!note) {
       return res.status(404).json({ error: 'Note not found' });
     }
 
+    if (format === 'markdown') {
+      return res.type('text/markdown; charset=utf-8').send(tiptapToMarkdown(note.content));
+    }
+
     res.json(note);
   } catch (error: any) {
     console.error('Error fetching note:', error);
@@ -99,6 +131,7 @@ router.get('/:id/tree', async (req: Request, res: Response) => {
  * POST /api/notes
  * Create a new note
  * Body: { parent_id?: string, content: TiptapJSON, type?: 'user' | 'ai' }
+ * Runs the "created" processing rules that match the note
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
@@ -132,6 +165,11 @@ router.post('/', async (req: Request, res: Response) => {
     );
 
     console.log(`✓ Created new note: ${newNote.id}`);
+
+    // Queue any processing rules for new notes in this folder
+    await applyRules('created', newNote);
+    queueTitle(newNote);
+
     res.status(201).json(newNote);
   } catch (error: any) {
     console.error('Error creating note:', error);
@@ -141,29 +179,57 @@ router.post('/', async (req: Request, res: Response) => {
 
 /**
  * PATCH /api/notes/:id
- * Update a note's content
- * Body: { content: TiptapJSON }
+ * Update a note's content and/or name
+ * Body: { content?: TiptapJSON, name?: string | null }
+ *       A name set here is kept from then on; null (or '') goes back to an automatic title
+ * Runs the "updated" processing rules that match the note when its content changes,
+ * and titles a note that has no name once it has enough text
  */
 router.patch('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { content } = req.body;
+    const { content, name } = req.body;
 
-    // Validate content
-    if (!content) {
+    if (content === undefined && name === undefined) {
+      return res.status(400).json({ error: 'No updates provided' });
+    }
+
+    if (content !== undefined && !content) {
       return res.status(400).json({ error: 'Content is required' });
     }
 
+    if (name !== undefined && name !== null && (typeof name !== 'string' || name.trim().length > MAX_TITLE_LENGTH)) {
+      return res.status(400).json({ error: `Name must be a string of at most ${MAX_TITLE_LENGTH} characters` });
+    }
+
     // Check if note exists
     const existingNote = await noteQueries.getById(id);
     if (!existingNote) {
       return res.status(404).json({ error: 'Note not found' });
     }
 
-    // Update the note
-    const updatedNote = await noteQueries.updateContent(id, content);
+    if (name !== undefined && existingNote.item_type === 'folder') {
+      return res.status(400).json({ error: 'Rename folders through /api/folders' });
+    }
+
+    let updatedNote = existingNote;
+
+    if (name !== undefined) {
+      updatedNote = await noteQueries.setName(id, name?.trim() || null);
+      console.log(`✓ Renamed note: ${id}`);
+    }
+
+    if (content !== undefined) {
+      updatedNote = await noteQueries.updateContent(id, content);
+      await syncTasks(id, updatedNote.content);
+      console.log(`✓ Updated note: ${id}`);
+
+      // Queue any processing rules for edited notes (or push back ones still waiting)
+      await applyRules('updated', updatedNote);
+    }
+
+    queueTitle(updatedNote);
 
-    console.log(`✓ Updated note: ${id}`);
     res.json(updatedNote);
   } catch (error: any) {
     console.error('Error updating note:', error);
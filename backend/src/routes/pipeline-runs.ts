@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import { noteQueries, pipelineQueries, pipelineRunQueries, PipelineRun } from '../database.js';
+import { checkProcessingBudget } from '../services/processor.js';
+import { describeRun, queueReadySteps, NOTE_INPUT } from '../services/pipelines.js';
+import { extractTextFromTiptap } from '../services/tiptap.js';
+import { BudgetExceededError } from '../services/budgets.js';
+import { sendBudgetExceeded } from './process.js';
+
+const router = Router();
+
+/**
+ * Look up a run on a note, responding with 404 if there isn't one
+ */
+async function getRun(noteId: string, runId: string, res: Response): Promise<PipelineRun | null> {
+  const run = await pipelineRunQueries.getById(runId);
+
+  if (!run || run.note_id !== noteId) {
+    res.status(404).json({ error: 'Pipeline run not found' });
+    return null;
+  }
+
+  return run;
+}
+
+/**
+ * POST /api/notes/:id/pipelines/:pipelineId/run
+ * Run a pipeline on a note - returns 202 with the run and the status of each step
+ * The steps that work on the note are queued straight away, the rest as their input is ready
+ * Responds 429 (with the budget and its reset time) if a spending budget would be exceeded
+ */
+router.post('/:id/pipelines/:pipelineId/run', async (req: Request, res: Response) => {
+  const { id, pipelineId } = req.params;
+
+  try {
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    if (note.item_type === 'folder') {
+      return res.status(400).json({ error: 'Pipelines run on notes, not folders' });
+    }
+
+    if (!extractTextFromTiptap(note.content).trim()) {
+      return res.status(400).json({ error: 'Note has no content to process' });
+    }
+
+    if (note.status === 'processing') {
+      return res.status(409).json({
+        error: 'Note is already being processed',
+        status: note.status,
+      });
+    }
+
+    const pipeline = await pipelineQueries.getById(pipelineId);
+    if (!pipeline) {
+      return res.status(404).json({ error: 'Pipeline not found' });
+    }
+
+    // Reject runs whose first steps would exceed a spending budget (later steps are checked as they start)
+    for (const step of pipeline.steps.filter((step) => step.input === NOTE_INPUT)) {
+      await checkProcessingBudget(id, step.process_type);
+    }
+
+    const run = await pipelineRunQueries.create(pipeline, id);
+    await queueReadySteps(run);
+
+    console.log(`Started pipeline "${pipeline.name}" on note ${id} (run ${run.id})`);
+    return res.status(202).json(await describeRun(run));
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+
+    console.error('Error starting pipeline:', error);
+    return res.status(500).json({ error: 'Failed to start pipeline', message: error.message });
+  }
+});
+
+/**
+ * GET /api/notes/:id/pipeline-runs
+ * Get the pipeline runs on a note (newest first) with the status of each step
+ */
+router.get('/:id/pipeline-runs', async (req: Request, res: Response) => {
+  try {
+    const runs = await pipelineRunQueries.getByNoteId(req.params.id);
+    res.json(await Promise.all(runs.map(describeRun)));
+  } catch (error: any) {
+    console.error('Error fetching pipeline runs:', error);
+    res.status(500).json({ error: 'Failed to fetch pipeline runs' });
+  }
+});
+
+/**
+ * GET /api/notes/:id/pipeline-runs/:runId
+ * Get a pipeline run with the status, AI note and error of each step
+ */
+router.get('/:id/pipeline-runs/:runId', async (req: Request, res: Response) => {
+  try {
+    const run = await getRun(req.params.id, req.params.runId, res);
+    if (!run) return;
+
+    res.json(await describeRun(run));
+  } catch (error: any) {
+    console.error('Error fetching pipeline run:', error);
+    res.status(500).json({ error: 'Failed to fetch pipeline run' });
+  }
+});
+
+/**
+ * POST /api/notes/:id/pipeline-runs/:runId/resume
+ * Run the failed or cancelled steps of a run again, on the output the earlier steps already produced
+ * Responds 409 if the run is still going or has nothing left to run;
+ * 429 if a spending budget would be exceeded
+ */
+router.post('/:id/pipeline-runs/:runId/resume', async (req: Request, res: Response) => {
+  try {
+    const run = await getRun(req.params.id, req.params.runId, res);
+    if (!run) return;
+
+    const current = await describeRun(run);
+    if (current.status === 'running') {
+      return res.status(409).json({ error: 'Pipeline run is still in progress', status: current.status });
+    }
+
+    const jobs = await queueReadySteps(run, { resume: true, checkBudget: true });
+    if (jobs.length === 0) {
+      return res.status(409).json({ error: 'Pipeline run has no steps left to resume', status: current.status });
+    }
+
+    console.log(`Resumed pipeline run ${run.id} (${jobs.length} steps queued)`);
+    return res.status(202).json(await describeRun(run));
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+
+    console.error('Error resuming pipeline run:', error);
+    return res.status(500).json({ error: 'Failed to resume pipeline run', message: error.message });
+  }
+});
+
+export default router;
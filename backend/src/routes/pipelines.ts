@@ -0,0 +1,156 @@
+import { Router, Request, Response } from 'express';
+import { pipelineQueries, processQueries, PipelineInput } from '../database.js';
+import { validatePipelineSteps } from '../services/pipelines.js';
+
+const router = Router();
+
+/**
+ * Validate a pipeline body
+ * With partial = true only the provided fields are checked (for PATCH)
+ */
+async function validatePipelineInput(
+  body: any,
+  partial: boolean
+): Promise<{ errors: string[]; values: Partial<PipelineInput> }> {
+  const errors: string[] = [];
+  const values: Partial<PipelineInput> = {};
+  const has = (field: string) => body[field] !== undefined;
+
+  if (!partial || has('name')) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > 255) {
+      errors.push('name is required (max 255 characters)');
+    } else {
+      values.name = body.name.trim();
+    }
+  }
+
+  if (has('description')) {
+    values.description = String(body.description);
+  } else if (!partial) {
+    values.description = '';
+  }
+
+  if (!partial || has('steps')) {
+    const processTypes = (await processQueries.getAll()).map((definition) => definition.type);
+    const { errors: stepErrors, steps } = validatePipelineSteps(body.steps, processTypes);
+    errors.push(...stepErrors);
+    if (stepErrors.length === 0) {
+      values.steps = steps;
+    }
+  }
+
+  return { errors, values };
+}
+
+/**
+ * GET /api/pipelines
+ * Get all pipeline definitions
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const pipelines = await pipelineQueries.getAll();
+    res.json(pipelines);
+  } catch (error: any) {
+    console.error('Error fetching pipelines:', error);
+    res.status(500).json({ error: 'Failed to fetch pipelines' });
+  }
+});
+
+/**
+ * GET /api/pipelines/:id
+ * Get a single pipeline definition
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const pipeline = await pipelineQueries.getById(req.params.id);
+
+    if (!pipeline) {
+      return res.status(404).json({ error: 'Pipeline not found' });
+    }
+
+    return res.json(pipeline);
+  } catch (error: any) {
+    console.error('Error fetching pipeline:', error);
+    return res.status(500).json({ error: 'Failed to fetch pipeline' });
+  }
+});
+
+/**
+ * POST /api/pipelines
+ * Create a pipeline
+ * Body: { name, description?, steps: [{ process_type, key?, input? }] }
+ *       input is "note" or the key of an earlier step; by default each step processes the
+ *       output of the step before it, and a step's key is its process type
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { errors, values } = await validatePipelineInput(req.body, false);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid pipeline', details: errors });
+    }
+
+    const pipeline = await pipelineQueries.create(values as PipelineInput);
+
+    console.log(`✓ Created pipeline: ${pipeline.name}`);
+    return res.status(201).json(pipeline);
+  } catch (error: any) {
+    console.error('Error creating pipeline:', error);
+    return res.status(500).json({ error: 'Failed to create pipeline' });
+  }
+});
+
+/**
+ * PATCH /api/pipelines/:id
+ * Update a pipeline (runs already started keep the steps they started with)
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await pipelineQueries.getById(id))) {
+      return res.status(404).json({ error: 'Pipeline not found' });
+    }
+
+    const { errors, values } = await validatePipelineInput(req.body, true);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid pipeline', details: errors });
+    }
+
+    if (Object.keys(values).length === 0) {
+      return res.status(400).json({ error: 'No updates provided' });
+    }
+
+    const pipeline = await pipelineQueries.update(id, values);
+
+    console.log(`✓ Updated pipeline: ${pipeline.name}`);
+    return res.json(pipeline);
+  } catch (error: any) {
+    console.error('Error updating pipeline:', error);
+    return res.status(500).json({ error: 'Failed to update pipeline' });
+  }
+});
+
+/**
+ * DELETE /api/pipelines/:id
+ * Delete a pipeline (runs already started carry on)
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await pipelineQueries.getById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Pipeline not found' });
+    }
+
+    await pipelineQueries.delete(id);
+
+    console.log(`✓ Deleted pipeline: ${existing.name}`);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting pipeline:', error);
+    return res.status(500).json({ error: 'Failed to delete pipeline' });
+  }
+});
+
+export default router;
@@ -1,82 +1,451 @@
 import { Router, Request, Response } from 'express';
-import { noteQueries } from '../database.js';
-import { processNote, getAvailableProcesses, ProcessType } from '../services/processor.js';
+import { noteQueries, jobQueries, processQueries, Comparison } from '../database.js';
+import { processNote, checkProcessingBudget, checkSynthesisBudget, RunSettings } from '../services/processor.js';
+import { BudgetExceededError } from '../services/budgets.js';
+import { LLMError, LLMErrorCode } from '../services/llm-errors.js';
+import { parseContextOptions } from '../services/context.js';
+import { registerRun, unregisterRun, abortRun, setRunProgress, getRunProgress } from '../services/active-runs.js';
+import { cancelNoteProcessing } from '../services/worker.js';
+import { listModels } from '../services/llm.js';
+import { validateRunSettings } from '../services/models.js';
+import {
+  runComparison,
+  checkComparisonBudget,
+  describeComparison,
+  validateComparisonVariants,
+} from '../services/comparisons.js';
 
 const router = Router();
 
 /**
- * GET /api/processes
- * Get list of available AI process types
+ * Error body for a process type that doesn't exist (with the valid types), or null if it exists
  */
-router.get('/processes', (req: Request, res: Response) => {
-  const processes = getAvailableProcesses();
-  res.json(processes);
-});
+async function processTypeError(processType: unknown): Promise<{ error: string; validTypes: string[] } | null> {
+  if (typeof processType === 'string' && (await processQueries.getByType(processType))) {
+    return null;
+  }
+
+  const validTypes = (await processQueries.getAll()).map((definition) => definition.type);
+  return { error: 'Invalid process type', validTypes };
+}
+
+/**
+ * Check that a process type exists, responding with 400 (and the valid types) if not
+ */
+export async function validateProcessType(processType: unknown, res: Response): Promise<boolean> {
+  const error = await processTypeError(processType);
+  if (error) {
+    res.status(400).json(error);
+  }
+  return !error;
+}
+
+/**
+ * Check the model settings a run picked
+ * The provider's models are only listed when a model was picked
+ */
+async function checkSettings(source: Record<string, any>): Promise<{ errors: string[]; values: RunSettings }> {
+  const models = source.model ? await listModels() : [];
+  return validateRunSettings(source, models);
+}
+
+/**
+ * Check the model settings a run picked, responding with 400 (and what was wrong) if any are invalid
+ */
+async function validateSettings(source: Record<string, any>, res: Response): Promise<RunSettings | null> {
+  const { errors, values } = await checkSettings(source);
+  if (errors.length === 0) {
+    return values;
+  }
+
+  res.status(400).json({ error: 'Invalid model settings', details: errors });
+  return null;
+}
+
+/**
+ * Respond 429 naming the budget that the run would exceed and when it resets
+ */
+export function sendBudgetExceeded(res: Response, error: BudgetExceededError) {
+  res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  return res.status(429).json(error);
+}
+
+// HTTP status for each kind of LLM failure
+export const LLM_ERROR_STATUS: Record<LLMErrorCode, number> = {
+  LLM_RATE_LIMITED: 429,
+  LLM_OVERLOADED: 503,
+  LLM_AUTH_FAILED: 502,
+  LLM_INVALID_REQUEST: 422,
+  LLM_CONTEXT_TOO_LONG: 413,
+  LLM_TIMEOUT: 504,
+  LLM_PROVIDER_ERROR: 502,
+};
+
+/**
+ * Respond with the status for an LLM failure (plus Retry-After if the provider sent one)
+ * Only reached once the client's own retries have been used up
+ */
+export function sendLLMError(res: Response, error: LLMError) {
+  if (error.retryAfterMs !== null) {
+    res.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  }
+  return res.status(LLM_ERROR_STATUS[error.code]).json(error);
+}
+
+/**
+ * Body of an SSE error event for a failed run
+ * LLM failures also carry their code and the HTTP status a plain request would have got
+ */
+export function runErrorEvent(error: any, label: string) {
+  if (error instanceof LLMError) {
+    return { ...error.toJSON(), error: label, status: LLM_ERROR_STATUS[error.code] };
+  }
+  return { error: label, message: error.message };
+}
 
 /**
  * POST /api/notes/:id/process
- * Trigger AI processing on a note
- * Body: { processType: 'research' | 'summarize' | 'expand' | 'actionplan' }
+ * Queue AI processing on a note - returns 202 with a job id to poll
+ * Body: { processType: string, context?: true | { ancestors?, parent?, siblings?, previousOutputs?, maxTokens? },
+ *         model?: string, temperature?: number, maxTokens?: number }
+ *       processType is any type defined in /api/processes; context adds surrounding notes to the prompt;
+ *       model (one listed by /api/models), temperature and maxTokens replace the process's settings
+ *       for this run and are recorded on the AI note
+ * Responds 429 (with the budget and its reset time) if a spending budget would be exceeded
  */
 router.post('/:id/process', async (req: Request, res: Response) => {
   const { id } = req.params;
   const { processType } = req.body;
+  const context = parseContextOptions(req.body.context);
 
-  // Validate process type
-  const validTypes: ProcessType[] = ['research', 'summarize', 'expand', 'actionplan'];
-  if (!processType || !validTypes.includes(processType)) {
-    return res.status(400).json({
-      error: 'Invalid process type',
-      validTypes,
+  try {
+    // Validate process type
+    if (!(await validateProcessType(processType, res))) {
+      return;
+    }
+
+    const settings = await validateSettings(req.body, res);
+    if (!settings) {
+      return;
+    }
+
+    // Check if note exists
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    // Check if note is already being processed
+    if (note.status === 'processing') {
+      return res.status(409).json({
+        error: 'Note is already being processed',
+        status: note.status,
+      });
+    }
+
+    // Reject runs that would exceed a spending budget
+    await checkProcessingBudget(id, processType, context, settings);
+
+    // Queue the job and mark the note as processing; the worker picks it up
+    const job = await jobQueries.create(id, processType, note.status, { context, settings });
+    await noteQueries.updateStatus(id, 'processing', null);
+
+    console.log(`Queued ${processType} job ${job.id} for note ${id}`);
+
+    res.status(202).json({
+      success: true,
+      message: 'Processing queued',
+      jobId: job.id,
+      processType,
+      status: job.status,
+    });
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+
+    console.error('Error in process endpoint:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
     });
   }
+});
+
+/**
+ * GET /api/notes/:id/process/stream?processType=...&context=...&contextTokens=...&model=...&temperature=...&maxTokens=...
+ * Trigger AI processing and stream the output as Server-Sent Events
+ * context is "all" or a comma separated list of ancestors, parent, siblings, previousOutputs;
+ * model, temperature and maxTokens are the same as for POST /api/notes/:id/process
+ * Events: `delta` { text }, `progress` { phase, completedChunks, totalChunks } (long notes
+ *         processed in chunks), `done` { childNoteId, processType, tokensUsed },
+ *         `cancelled` { status }, `error` { error, message } (plus `code` and `budget`
+ *         when a spending budget would be exceeded, or `code`, `retryable` and `status`
+ *         when the LLM call failed)
+ * EventSource can't read the body of an error response, so the stream always opens and a run
+ * that can't start (invalid process type or settings, missing note, note already being processed)
+ * gets an `error` event with the body POST /api/notes/:id/process would respond with
+ * Closing the stream aborts the run and restores the note's status, like the cancel endpoint
+ */
+router.get('/:id/process/stream', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const processType = req.query.processType as string;
+  const context = parseContextOptions(req.query.context, req.query.contextTokens);
 
   try {
+    // Open the event stream first, so the browser can read why a run can't start
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const fail = (error: unknown) => {
+      sendEvent('error', error);
+      return res.end();
+    };
+
+    // Validate process type
+    const invalidProcessType = await processTypeError(processType);
+    if (invalidProcessType) {
+      return fail(invalidProcessType);
+    }
+
+    const { errors, values: settings } = await checkSettings(req.query);
+    if (errors.length > 0) {
+      return fail({ error: 'Invalid model settings', details: errors });
+    }
+
     // Check if note exists
     const note = await noteQueries.getById(id);
     if (!note) {
-      return res.status(404).json({ error: 'Note not found' });
+      return fail({ error: 'Note not found' });
     }
 
     // Check if note is already being processed
     if (note.status === 'processing') {
-      return res.status(409).json({
+      return fail({
         error: 'Note is already being processed',
         status: note.status,
       });
     }
 
-    console.log(`Starting ${processType} process for note ${id}`);
+    try {
+      await checkProcessingBudget(id, processType, context, settings);
+    } catch (budgetError) {
+      if (!(budgetError instanceof BudgetExceededError)) throw budgetError;
+      return fail(budgetError);
+    }
 
-    // Update status to processing
+    console.log(`Starting streamed ${processType} process for note ${id}`);
+
+    // Update status to processing (remembering the old status in case of cancel)
+    const signal = registerRun(id, note.status);
     await noteQueries.updateStatus(id, 'processing', null);
 
-    // Process the note (this calls the LLM and creates a child note)
+    // Stop generating if the client goes away, so no AI note is written for nobody
+    let clientGone = false;
+    res.on('close', () => {
+      if (res.writableEnded || signal.aborted) return;
+      clientGone = true;
+      abortRun(id);
+    });
+
     try {
-      const childNoteId = await processNote(id, processType);
+      const { childNoteId, tokensUsed } = await processNote(id, processType, {
+        signal,
+        context,
+        overrides: settings,
+        onChunk: (text) => sendEvent('delta', { text }),
+        onProgress: (progress) => {
+          setRunProgress(id, signal, progress);
+          sendEvent('progress', progress);
+        },
+      });
 
       // Update original note status to complete
       await noteQueries.updateStatus(id, 'complete', null);
 
-      res.json({
-        success: true,
-        message: 'Processing complete',
-        childNoteId,
-        processType,
-      });
+      sendEvent('done', { childNoteId, processType, tokensUsed });
     } catch (processingError: any) {
-      // Update status to failed with error message
-      await noteQueries.updateStatus(id, 'failed', processingError.message);
+      if (clientGone) {
+        await noteQueries.updateStatus(id, note.status, null);
+        console.log(`Client closed the stream, stopped processing note ${id}`);
+      } else if (signal.aborted) {
+        // The cancel endpoint has already restored the note's status
+        sendEvent('cancelled', { message: 'Processing cancelled' });
+      } else {
+        // Update status to failed with error message
+        const errorCode = processingError instanceof LLMError ? processingError.code : null;
+        await noteQueries.updateStatus(id, 'failed', processingError.message, errorCode);
+
+        console.error('Streamed processing failed:', processingError);
+        sendEvent('error', runErrorEvent(processingError, 'Processing failed'));
+      }
+    } finally {
+      unregisterRun(id, signal);
+    }
+
+    return res.end();
+  } catch (error: any) {
+    console.error('Error in process stream endpoint:', error);
+
+    // Headers may already be sent once the stream has opened
+    if (res.headersSent) {
+      res.write(`event: error\ndata: ${JSON.stringify({ error: 'Internal server error', message: error.message })}\n\n`);
+      return res.end();
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/notes/:id/compare
+ * Run a process on a note with 2-4 variants in parallel, one AI note per variant - responds 201
+ * once every variant has finished, with the comparison (each variant's model, latency, tokens
+ * and cost, or its error) and the variants' AI notes. Pick the winner at /api/comparisons/:id/winner
+ * Body: { processType: string, variants: [{ label?, model?, temperature?, max_tokens?, system_prompt?,
+ *         prompt_template? }], context?: true | { ... } }
+ *       Unset variant fields keep the process definition's settings
+ * Responds 429 (with the budget and its reset time) if the variants together would exceed a spending budget,
+ * with the LLM error's status if every variant failed, or 409 (with the comparison) if it was cancelled
+ * at /api/notes/:id/process/cancel
+ */
+router.post('/:id/compare', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { processType } = req.body;
+  const context = parseContextOptions(req.body.context);
+
+  try {
+    if (!(await validateProcessType(processType, res))) {
+      return;
+    }
+
+    // Models are checked against the ones the configured provider offers
+    const requestedModels = Array.isArray(req.body.variants) && req.body.variants.some((variant: any) => variant?.model);
+    const models = requestedModels ? await listModels() : [];
 
-      console.error('Processing failed:', processingError);
-      res.status(500).json({
-        error: 'Processing failed',
-        message: processingError.message,
+    const { errors, values: variants } = validateComparisonVariants(req.body.variants, models);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid comparison', details: errors });
+    }
+
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    if (note.item_type === 'folder') {
+      return res.status(400).json({ error: 'Comparisons run on notes, not folders' });
+    }
+
+    if (note.status === 'processing') {
+      return res.status(409).json({
+        error: 'Note is already being processed',
+        status: note.status,
       });
     }
+
+    // Reject comparisons whose variants together would exceed a spending budget
+    await checkComparisonBudget(id, processType, variants, context);
+
+    // Registered like a single run, so the cancel endpoint can abort the variants
+    const signal = registerRun(id, note.status);
+    await noteQueries.updateStatus(id, 'processing', null);
+
+    let comparison: Comparison;
+    try {
+      comparison = await runComparison(id, processType, variants, context, signal);
+    } catch (runError) {
+      // Put the note back as it was, unless the cancel endpoint already has
+      if (!signal.aborted) {
+        await noteQueries.updateStatus(id, note.status, null);
+      }
+      throw runError;
+    } finally {
+      unregisterRun(id, signal);
+    }
+
+    if (signal.aborted) {
+      // The cancel endpoint has already restored the note's status
+      return res.status(409).json({ error: 'Comparison cancelled', comparison });
+    }
+
+    const succeeded = comparison.variants.some((variant) => variant.result);
+
+    // Like a single run, the note is complete once any output exists
+    await noteQueries.updateStatus(id, succeeded ? 'complete' : note.status, null);
+
+    if (!succeeded) {
+      const failure = comparison.variants[0].error!;
+      console.error(`Every variant of comparison ${comparison.id} failed`);
+      const status = failure.code ? LLM_ERROR_STATUS[failure.code as LLMErrorCode] : 500;
+      return res.status(status).json({
+        error: 'Every variant failed',
+        code: failure.code,
+        message: failure.message,
+        comparison,
+      });
+    }
+
+    console.log(`✓ Comparison ${comparison.id} finished`);
+
+    return res.status(201).json(await describeComparison(comparison));
   } catch (error: any) {
-    console.error('Error in process endpoint:', error);
-    res.status(500).json({
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+
+    console.error('Error in compare endpoint:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/notes/:id/process/cancel
+ * Cancel queued or in-flight processing for a note
+ * Aborts the LLM request and restores the note's status from before processing
+ */
+router.post('/:id/process/cancel', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    const cancelled = await cancelNoteProcessing(id);
+    if (!cancelled) {
+      return res.status(409).json({
+        error: 'Note is not being processed',
+        status: note.status,
+      });
+    }
+
+    console.log(`Cancelled processing for note ${id}`);
+
+    return res.json({
+      success: true,
+      message: 'Processing cancelled',
+      status: cancelled.restoredStatus,
+      cancelledJobIds: cancelled.cancelledJobIds,
+    });
+  } catch (error: any) {
+    console.error('Error cancelling processing:', error);
+    return res.status(500).json({
       error: 'Internal server error',
       message: error.message,
     });
@@ -85,7 +454,7 @@ router.post('/:id/process', async (req: Request, res: Response) => {
 
 /**
  * POST /api/notes/:id/retry
- * Retry a failed processing job
+ * Re-queue a failed processing job (with the options of the last job, e.g. its context or sources)
  */
 router.post('/:id/retry', async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -110,33 +479,32 @@ router.post('/:id/retry', async (req: Request, res: Response) => {
       });
     }
 
-    console.log(`Retrying ${note.process_type} process for note ${id}`);
+    const [lastJob] = await jobQueries.getByNoteId(id);
+    const options = lastJob?.options ?? {};
 
-    // Reset status to processing
-    await noteQueries.updateStatus(id, 'processing', null);
-
-    try {
-      const childNoteId = await processNote(id, note.process_type as ProcessType);
+    if (options.sources) {
+      await checkSynthesisBudget(id, note.process_type, options.sources);
+    } else {
+      await checkProcessingBudget(id, note.process_type, options.context, options.settings);
+    }
 
-      // Update status to complete
-      await noteQueries.updateStatus(id, 'complete', null);
+    const job = await jobQueries.create(id, note.process_type, note.status, options);
+    await noteQueries.updateStatus(id, 'processing', null);
 
-      res.json({
-        success: true,
-        message: 'Retry successful',
-        childNoteId,
-        processType: note.process_type,
-      });
-    } catch (processingError: any) {
-      // Update status back to failed
-      await noteQueries.updateStatus(id, 'failed', processingError.message);
+    console.log(`Queued retry of ${note.process_type} (job ${job.id}) for note ${id}`);
 
-      res.status(500).json({
-        error: 'Retry failed',
-        message: processingError.message,
-      });
-    }
+    res.status(202).json({
+      success: true,
+      message: 'Retry queued',
+      jobId: job.id,
+      processType: note.process_type,
+      status: job.status,
+    });
   } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+
     console.error('Error in retry endpoint:', error);
     res.status(500).json({
       error: 'Internal server error',
@@ -148,6 +516,8 @@ router.post('/:id/retry', async (req: Request, res: Response) => {
 /**
  * GET /api/notes/:id/status
  * Get the processing status of a note
+ * error_code classifies a failed LLM call, e.g. LLM_RATE_LIMITED or LLM_CONTEXT_TOO_LONG
+ * progress is { phase, completedChunks, totalChunks } while a long note is processed in chunks
  */
 router.get('/:id/status', async (req: Request, res: Response) => {
   try {
@@ -163,6 +533,8 @@ router.get('/:id/status', async (req: Request, res: Response) => {
       status: note.status,
       process_type: note.process_type,
       error_message: note.error_message,
+      error_code: note.error_code,
+      progress: note.status === 'processing' ? getRunProgress(note.id) : null,
       updated_at: note.updated_at,
     });
   } catch (error: any) {
@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import { processQueries, ProcessDefinitionInput } from '../database.js';
+import { OUTPUT_FORMATS, OutputFormat } from '../services/structured.js';
+import { validateModelParameters } from '../services/models.js';
+
+const router = Router();
+
+// Colors the frontend knows how to render
+const VALID_COLORS = ['blue', 'green', 'purple', 'orange', 'red', 'pink', 'teal', 'gray'];
+
+/**
+ * Validate a process definition body
+ * With partial = true only the provided fields are checked (for PATCH)
+ */
+function validateProcessInput(
+  body: any,
+  partial: boolean
+): { errors: string[]; values: Partial<ProcessDefinitionInput> } {
+  const errors: string[] = [];
+  const values: Partial<ProcessDefinitionInput> = {};
+  const has = (field: string) => body[field] !== undefined;
+
+  if (!partial || has('type')) {
+    if (typeof body.type !== 'string' || !/^[a-z0-9][a-z0-9_-]{0,49}$/.test(body.type)) {
+      errors.push('type must be 1-50 lowercase letters, numbers, "-" or "_"');
+    } else {
+      values.type = body.type;
+    }
+  }
+
+  if (!partial || has('name')) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > 255) {
+      errors.push('name is required (max 255 characters)');
+    } else {
+      values.name = body.name.trim();
+    }
+  }
+
+  if (!partial || has('prompt_template')) {
+    if (typeof body.prompt_template !== 'string' || !body.prompt_template.includes('{{content}}')) {
+      errors.push('prompt_template must include the {{content}} placeholder');
+    } else {
+      values.prompt_template = body.prompt_template;
+    }
+  }
+
+  if (has('description')) {
+    values.description = String(body.description);
+  } else if (!partial) {
+    values.description = '';
+  }
+
+  if (has('icon')) {
+    values.icon = String(body.icon).slice(0, 16);
+  } else if (!partial) {
+    values.icon = '✨';
+  }
+
+  if (has('color')) {
+    if (!VALID_COLORS.includes(body.color)) {
+      errors.push(`color must be one of: ${VALID_COLORS.join(', ')}`);
+    } else {
+      values.color = body.color;
+    }
+  } else if (!partial) {
+    values.color = 'blue';
+  }
+
+  if (has('system_prompt')) {
+    values.system_prompt = body.system_prompt ? String(body.system_prompt) : null;
+  } else if (!partial) {
+    values.system_prompt = null;
+  }
+
+  if (has('model')) {
+    values.model = body.model ? String(body.model) : null;
+  } else if (!partial) {
+    values.model = null;
+  }
+
+  const parameters = validateModelParameters({ temperature: body.temperature, maxTokens: body.max_tokens });
+  errors.push(...parameters.errors);
+  if (parameters.values.temperature !== undefined) {
+    values.temperature = parameters.values.temperature;
+  } else if (!partial) {
+    values.temperature = 0.7;
+  }
+  if (parameters.values.max_tokens !== undefined) {
+    values.max_tokens = parameters.values.max_tokens;
+  } else if (!partial) {
+    values.max_tokens = 4096;
+  }
+
+  if (has('output_format')) {
+    if (!OUTPUT_FORMATS.includes(body.output_format)) {
+      errors.push(`output_format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+    } else {
+      values.output_format = body.output_format as OutputFormat;
+    }
+  } else if (!partial) {
+    values.output_format = 'markdown';
+  }
+
+  if (has('position')) {
+    values.position = Number(body.position) || 0;
+  } else if (!partial) {
+    values.position = 100;
+  }
+
+  return { errors, values };
+}
+
+/**
+ * GET /api/processes
+ * Get list of available AI process types
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const processes = await processQueries.getAll();
+    res.json(processes);
+  } catch (error: any) {
+    console.error('Error fetching processes:', error);
+    res.status(500).json({ error: 'Failed to fetch processes' });
+  }
+});
+
+/**
+ * GET /api/processes/:id
+ * Get a single process definition
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const definition = await processQueries.getById(req.params.id);
+
+    if (!definition) {
+      return res.status(404).json({ error: 'Process not found' });
+    }
+
+    return res.json(definition);
+  } catch (error: any) {
+    console.error('Error fetching process:', error);
+    return res.status(500).json({ error: 'Failed to fetch process' });
+  }
+});
+
+/**
+ * POST /api/processes
+ * Create a custom process type
+ * Body: { type, name, prompt_template, description?, icon?, color?, system_prompt?, model?, temperature?, max_tokens?, output_format?, position? }
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { errors, values } = validateProcessInput(req.body, false);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid process definition', details: errors });
+    }
+
+    if (await processQueries.getByType(values.type!)) {
+      return res.status(409).json({ error: `Process type "${values.type}" already exists` });
+    }
+
+    const definition = await processQueries.create(values as ProcessDefinitionInput);
+
+    console.log(`✓ Created process definition: ${definition.type}`);
+    return res.status(201).json(definition);
+  } catch (error: any) {
+    console.error('Error creating process:', error);
+    return res.status(500).json({ error: 'Failed to create process' });
+  }
+});
+
+/**
+ * PATCH /api/processes/:id
+ * Update a process definition (built-in types can be edited but not renamed)
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await processQueries.getById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Process not found' });
+    }
+
+    const { errors, values } = validateProcessInput(req.body, true);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid process definition', details: errors });
+    }
+
+    if (values.type !== undefined && values.type !== existing.type) {
+      if (existing.is_builtin) {
+        return res.status(400).json({ error: 'The type of a built-in process cannot be changed' });
+      }
+      if (await processQueries.getByType(values.type)) {
+        return res.status(409).json({ error: `Process type "${values.type}" already exists` });
+      }
+    }
+
+    if (Object.keys(values).length === 0) {
+      return res.status(400).json({ error: 'No updates provided' });
+    }
+
+    const definition = await processQueries.update(id, values);
+
+    console.log(`✓ Updated process definition: ${definition.type}`);
+    return res.json(definition);
+  } catch (error: any) {
+    console.error('Error updating process:', error);
+    return res.status(500).json({ error: 'Failed to update process' });
+  }
+});
+
+/**
+ * DELETE /api/processes/:id
+ * Delete a custom process type (built-in types cannot be deleted)
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await processQueries.getById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Process not found' });
+    }
+
+    if (existing.is_builtin) {
+      return res.status(400).json({ error: 'Built-in processes cannot be deleted' });
+    }
+
+    await processQueries.delete(id);
+
+    console.log(`✓ Deleted process definition: ${existing.type}`);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting process:', error);
+    return res.status(500).json({ error: 'Failed to delete process' });
+  }
+});
+
+export default router;
@@ -0,0 +1,185 @@
+import { Router, Request, Response } from 'express';
+import { ruleQueries, processQueries, noteQueries, ProcessingRuleInput, RuleTrigger } from '../database.js';
+import { normalizeTag } from '../services/rules.js';
+
+const router = Router();
+
+const TRIGGERS: RuleTrigger[] = ['created', 'updated', 'moved'];
+
+// Longest debounce or cooldown, in seconds (one week)
+const MAX_DELAY_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Validate a processing rule body
+ * With partial = true only the provided fields are checked (for PATCH)
+ */
+async function validateRuleInput(
+  body: any,
+  partial: boolean
+): Promise<{ errors: string[]; values: Partial<ProcessingRuleInput> }> {
+  const errors: string[] = [];
+  const values: Partial<ProcessingRuleInput> = {};
+  const has = (field: string) => body[field] !== undefined;
+
+  if (!partial || has('trigger')) {
+    if (!TRIGGERS.includes(body.trigger)) {
+      errors.push(`trigger must be one of: ${TRIGGERS.join(', ')}`);
+    } else {
+      values.trigger = body.trigger;
+    }
+  }
+
+  if (!partial || has('process_type')) {
+    if (typeof body.process_type !== 'string' || !(await processQueries.getByType(body.process_type))) {
+      errors.push('process_type must be a type defined in /api/processes');
+    } else {
+      values.process_type = body.process_type;
+    }
+  }
+
+  if (has('folder_id')) {
+    const folder = body.folder_id ? await noteQueries.getById(String(body.folder_id)) : null;
+    if (body.folder_id && folder?.item_type !== 'folder') {
+      errors.push('folder_id must be a folder');
+    } else {
+      values.folder_id = folder?.id ?? null;
+    }
+  } else if (!partial) {
+    values.folder_id = null;
+  }
+
+  if (has('tag')) {
+    const tag = body.tag ? normalizeTag(String(body.tag)) : '';
+    if (tag && !/^[\p{L}\p{N}_-]{1,100}$/u.test(tag)) {
+      errors.push('tag may only contain letters, numbers, "-" and "_" (max 100 characters)');
+    } else {
+      values.tag = tag || null;
+    }
+  } else if (!partial) {
+    values.tag = null;
+  }
+
+  for (const field of ['debounce_seconds', 'cooldown_seconds'] as const) {
+    if (has(field)) {
+      const seconds = Number(body[field]);
+      if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_DELAY_SECONDS) {
+        errors.push(`${field} must be a whole number of seconds between 0 and ${MAX_DELAY_SECONDS}`);
+      } else {
+        values[field] = seconds;
+      }
+    } else if (!partial) {
+      values[field] = 0;
+    }
+  }
+
+  if (has('enabled')) {
+    values.enabled = Boolean(body.enabled);
+  } else if (!partial) {
+    values.enabled = true;
+  }
+
+  return { errors, values };
+}
+
+/**
+ * GET /api/rules?folderId=...
+ * List processing rules, or only the rules of one folder
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const folderId = req.query.folderId as string | undefined;
+    const rules = await ruleQueries.getAll(folderId);
+    res.json(rules);
+  } catch (error: any) {
+    console.error('Error fetching rules:', error);
+    res.status(500).json({ error: 'Failed to fetch rules' });
+  }
+});
+
+/**
+ * POST /api/rules
+ * Create a processing rule
+ * Body: { trigger: 'created' | 'updated' | 'moved', process_type: string, folder_id?: string, tag?: string,
+ *         debounce_seconds?: number, cooldown_seconds?: number, enabled?: boolean }
+ * A rule needs a folder (it covers the folder's subtree), a tag, or both
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { errors, values } = await validateRuleInput(req.body, false);
+    if (errors.length === 0 && !values.folder_id && !values.tag) {
+      errors.push('A rule needs a folder_id, a tag, or both');
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid rule', details: errors });
+    }
+
+    const rule = await ruleQueries.create(values as ProcessingRuleInput);
+
+    console.log(`✓ Created ${rule.trigger} rule ${rule.id} (${rule.process_type})`);
+    return res.status(201).json(rule);
+  } catch (error: any) {
+    console.error('Error creating rule:', error);
+    return res.status(500).json({ error: 'Failed to create rule' });
+  }
+});
+
+/**
+ * PATCH /api/rules/:id
+ * Update a processing rule, e.g. { enabled: false } to pause it
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await ruleQueries.getById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    const { errors, values } = await validateRuleInput(req.body, true);
+    const folderId = values.folder_id !== undefined ? values.folder_id : existing.folder_id;
+    const tag = values.tag !== undefined ? values.tag : existing.tag;
+    if (errors.length === 0 && !folderId && !tag) {
+      errors.push('A rule needs a folder_id, a tag, or both');
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid rule', details: errors });
+    }
+
+    if (Object.keys(values).length === 0) {
+      return res.status(400).json({ error: 'No updates provided' });
+    }
+
+    const rule = await ruleQueries.update(id, values);
+
+    console.log(`✓ Updated rule ${id}`);
+    return res.json(rule);
+  } catch (error: any) {
+    console.error('Error updating rule:', error);
+    return res.status(500).json({ error: 'Failed to update rule' });
+  }
+});
+
+/**
+ * DELETE /api/rules/:id
+ * Delete a processing rule - jobs it queued that are still waiting are cancelled
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await ruleQueries.getById(id))) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    await ruleQueries.delete(id);
+
+    console.log(`✓ Deleted rule ${id}`);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting rule:', error);
+    return res.status(500).json({ error: 'Failed to delete rule' });
+  }
+});
+
+export default router;
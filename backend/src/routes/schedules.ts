@@ -0,0 +1,243 @@
+import { Router, Request, Response } from 'express';
+import { scheduleQueries, scheduleRunQueries, processQueries, noteQueries, ScheduleInput } from '../database.js';
+import { getNextRunAt, runSchedule } from '../services/scheduler.js';
+import { BudgetExceededError } from '../services/budgets.js';
+import { sendBudgetExceeded } from './process.js';
+
+const router = Router();
+
+// Longest window a digest can look back over, in hours (one year)
+const MAX_WINDOW_HOURS = 366 * 24;
+
+/**
+ * Validate a schedule body
+ * With partial = true only the provided fields are checked (for PATCH)
+ */
+async function validateScheduleInput(
+  body: any,
+  partial: boolean
+): Promise<{ errors: string[]; values: Partial<ScheduleInput> }> {
+  const errors: string[] = [];
+  const values: Partial<ScheduleInput> = {};
+  const has = (field: string) => body[field] !== undefined;
+
+  if (!partial || has('name')) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > 255) {
+      errors.push('name is required (max 255 characters)');
+    } else {
+      values.name = body.name.trim();
+    }
+  }
+
+  if (!partial || has('cron')) {
+    try {
+      if (typeof body.cron !== 'string' || body.cron.length > 100) {
+        throw new Error('A cron expression is required');
+      }
+      getNextRunAt(body.cron, true);
+      values.cron = body.cron.trim();
+    } catch (error: any) {
+      errors.push(`cron is invalid: ${error.message}`);
+    }
+  }
+
+  for (const field of ['folder_id', 'target_folder_id'] as const) {
+    if (has(field)) {
+      const folder = body[field] ? await noteQueries.getById(String(body[field])) : null;
+      if (body[field] && folder?.item_type !== 'folder') {
+        errors.push(`${field} must be a folder`);
+      } else {
+        values[field] = folder?.id ?? null;
+      }
+    } else if (!partial) {
+      values[field] = null;
+    }
+  }
+
+  if (has('window_hours')) {
+    const hours = Number(body.window_hours);
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_WINDOW_HOURS) {
+      errors.push(`window_hours must be a whole number of hours between 1 and ${MAX_WINDOW_HOURS}`);
+    } else {
+      values.window_hours = hours;
+    }
+  } else if (!partial) {
+    values.window_hours = 168;
+  }
+
+  if (has('process_type')) {
+    if (typeof body.process_type !== 'string' || !(await processQueries.getByType(body.process_type))) {
+      errors.push('process_type must be a type defined in /api/processes');
+    } else {
+      values.process_type = body.process_type;
+    }
+  } else if (!partial) {
+    values.process_type = 'digest';
+  }
+
+  if (has('enabled')) {
+    values.enabled = Boolean(body.enabled);
+  } else if (!partial) {
+    values.enabled = true;
+  }
+
+  return { errors, values };
+}
+
+/**
+ * GET /api/schedules
+ * List schedules with when they last ran and will next run
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const schedules = await scheduleQueries.getAll();
+    res.json(schedules);
+  } catch (error: any) {
+    console.error('Error fetching schedules:', error);
+    res.status(500).json({ error: 'Failed to fetch schedules' });
+  }
+});
+
+/**
+ * GET /api/schedules/:id
+ * Get a schedule with its latest runs
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const schedule = await scheduleQueries.getById(req.params.id);
+
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    return res.json({ ...schedule, runs: await scheduleRunQueries.getBySchedule(schedule.id) });
+  } catch (error: any) {
+    console.error('Error fetching schedule:', error);
+    return res.status(500).json({ error: 'Failed to fetch schedule' });
+  }
+});
+
+/**
+ * GET /api/schedules/:id/runs
+ * Get a schedule's run history (newest first) - status is the digest job's once it was queued
+ */
+router.get('/:id/runs', async (req: Request, res: Response) => {
+  try {
+    if (!(await scheduleQueries.getById(req.params.id))) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    const runs = await scheduleRunQueries.getBySchedule(req.params.id);
+    return res.json(runs);
+  } catch (error: any) {
+    console.error('Error fetching schedule runs:', error);
+    return res.status(500).json({ error: 'Failed to fetch schedule runs' });
+  }
+});
+
+/**
+ * POST /api/schedules
+ * Create a schedule
+ * Body: { name, cron, folder_id?, target_folder_id?, window_hours? (168), process_type? ('digest'), enabled? }
+ *       Each run digests the notes edited in the last window_hours (within folder_id, if given)
+ *       into a new AI note in target_folder_id (the top level if not given)
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { errors, values } = await validateScheduleInput(req.body, false);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid schedule', details: errors });
+    }
+
+    const input = values as ScheduleInput;
+    const schedule = await scheduleQueries.create(input, getNextRunAt(input.cron, input.enabled));
+
+    console.log(`✓ Created schedule: ${schedule.name} (${schedule.cron})`);
+    return res.status(201).json(schedule);
+  } catch (error: any) {
+    console.error('Error creating schedule:', error);
+    return res.status(500).json({ error: 'Failed to create schedule' });
+  }
+});
+
+/**
+ * PATCH /api/schedules/:id
+ * Update a schedule; its next run is worked out again from the cron expression
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await scheduleQueries.getById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    const { errors, values } = await validateScheduleInput(req.body, true);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid schedule', details: errors });
+    }
+
+    if (Object.keys(values).length === 0) {
+      return res.status(400).json({ error: 'No updates provided' });
+    }
+
+    const nextRunAt = getNextRunAt(values.cron ?? existing.cron, values.enabled ?? existing.enabled);
+    const schedule = await scheduleQueries.update(id, values, nextRunAt);
+
+    console.log(`✓ Updated schedule: ${schedule.name}`);
+    return res.json(schedule);
+  } catch (error: any) {
+    console.error('Error updating schedule:', error);
+    return res.status(500).json({ error: 'Failed to update schedule' });
+  }
+});
+
+/**
+ * POST /api/schedules/:id/run
+ * Run a schedule now (its next scheduled run is unchanged) - returns 202 with the recorded run
+ * Responds 429 (with the budget and its reset time) if a spending budget would be exceeded
+ */
+router.post('/:id/run', async (req: Request, res: Response) => {
+  try {
+    const schedule = await scheduleQueries.getById(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    const run = await runSchedule(schedule, 'manual');
+    return res.status(202).json(run);
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+
+    console.error('Error running schedule:', error);
+    return res.status(500).json({ error: 'Failed to run schedule', message: error.message });
+  }
+});
+
+/**
+ * DELETE /api/schedules/:id
+ * Delete a schedule and its run history (digest notes it wrote are kept)
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await scheduleQueries.getById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    await scheduleQueries.delete(id);
+
+    console.log(`✓ Deleted schedule: ${existing.name}`);
+    return res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting schedule:', error);
+    return res.status(500).json({ error: 'Failed to delete schedule' });
+  }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import { noteQueries, jobQueries, pool, Note } from '../database.js';
+import {
+  buildSynthesisContent,
+  checkSynthesisBudget,
+  MAX_SYNTHESIS_SOURCES,
+} from '../services/processor.js';
+import { BudgetExceededError } from '../services/budgets.js';
+import { validateProcessType, sendBudgetExceeded } from './process.js';
+
+const router = Router();
+
+// Content of a synthesis note until the worker fills it in
+const EMPTY_DOC = { type: 'doc', content: [] };
+
+/**
+ * POST /api/process/batch-synthesis
+ * Combine several notes into a single AI note - returns 202 with the job id and the new note's id
+ * Body: { processType: string, noteIds?: string[], folderId?: string }
+ *       Pass either noteIds, or folderId to use every note inside the folder (and its subfolders)
+ * The AI note goes in the folder (or the notes' shared parent) and lists its sources in metadata.sources
+ * Responds 429 (with the budget and its reset time) if a spending budget would be exceeded
+ */
+router.post('/batch-synthesis', async (req: Request, res: Response) => {
+  const { processType, noteIds, folderId } = req.body;
+
+  try {
+    if (!(await validateProcessType(processType, res))) {
+      return;
+    }
+
+    const hasNoteIds = Array.isArray(noteIds) && noteIds.length > 0;
+    if (hasNoteIds === Boolean(folderId)) {
+      return res.status(400).json({ error: 'Provide either noteIds or folderId' });
+    }
+
+    let notes: Note[];
+
+    if (hasNoteIds) {
+      if (!noteIds.every((noteId: unknown) => typeof noteId === 'string')) {
+        return res.status(400).json({ error: 'noteIds must be an array of note IDs' });
+      }
+
+      const ids: string[] = [...new Set<string>(noteIds)];
+      if (ids.length > MAX_SYNTHESIS_SOURCES) {
+        return res.status(400).json({ error: `At most ${MAX_SYNTHESIS_SOURCES} notes can be synthesized at once` });
+      }
+
+      notes = await noteQueries.getByIds(ids);
+      const missing = ids.filter((id) => !notes.some((note) => note.id === id));
+      if (missing.length > 0) {
+        return res.status(404).json({ error: 'Notes not found', missing });
+      }
+
+      if (notes.some((note) => note.item_type === 'folder')) {
+        return res.status(400).json({ error: 'Folders cannot be synthesized - pass folderId instead' });
+      }
+    } else {
+      const folderCheck = await pool.query(
+        'SELECT id, item_type FROM notes WHERE id = $1',
+        [folderId]
+      );
+
+      if (folderCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      if (folderCheck.rows[0].item_type !== 'folder') {
+        return res.status(400).json({ error: 'folderId is not a folder' });
+      }
+
+      notes = await noteQueries.getDescendantNotes(folderId);
+      if (notes.length > MAX_SYNTHESIS_SOURCES) {
+        return res.status(400).json({
+          error: `Folder has ${notes.length} notes - at most ${MAX_SYNTHESIS_SOURCES} can be synthesized at once`,
+        });
+      }
+    }
+
+    const { sources } = buildSynthesisContent(notes);
+    if (sources.length === 0) {
+      return res.status(400).json({ error: 'None of the notes have content to process' });
+    }
+
+    // File the result next to its sources
+    const parentIds = new Set(notes.map((note) => note.parent_id));
+    const parentId = folderId ?? (parentIds.size === 1 ? notes[0].parent_id : null);
+
+    const sourceIds = sources.map((source) => source.id);
+    const note = await noteQueries.create(parentId, 'ai', EMPTY_DOC, processType, 'processing', { sources });
+
+    // Reject runs that would exceed a spending budget
+    try {
+      await checkSynthesisBudget(note.id, processType, sourceIds);
+    } catch (budgetError) {
+      await noteQueries.delete(note.id);
+      throw budgetError;
+    }
+
+    const job = await jobQueries.create(note.id, processType, 'draft', { sources: sourceIds });
+
+    console.log(`Queued ${processType} synthesis job ${job.id} of ${sources.length} notes into ${note.id}`);
+
+    return res.status(202).json({
+      success: true,
+      message: 'Synthesis queued',
+      jobId: job.id,
+      noteId: note.id,
+      processType,
+      status: job.status,
+      sources,
+    });
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+
+    console.error('Error in batch synthesis endpoint:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router, Request, Response } from 'express';
+import { taskQueries, TaskStatusFilter } from '../database.js';
+import { isTaskId, setTaskDone } from '../services/tasks.js';
+
+const router = Router();
+
+const STATUS_OPTIONS: TaskStatusFilter[] = ['open', 'done', 'all'];
+
+/**
+ * GET /api/tasks?status=open|done|all&noteId=...
+ * Tasks from every action plan (open ones by default), with the plan they belong to
+ * noteId limits the list to one plan's AI note
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as TaskStatusFilter | undefined) || 'open';
+    if (!STATUS_OPTIONS.includes(status)) {
+      return res.status(400).json({
+        error: 'Invalid status',
+        validOptions: STATUS_OPTIONS,
+      });
+    }
+
+    const noteId = req.query.noteId ? String(req.query.noteId) : null;
+    if (noteId !== null && !isTaskId(noteId)) {
+      return res.status(400).json({ error: 'noteId must be a note id' });
+    }
+
+    const tasks = await taskQueries.getAll(status, noteId);
+    return res.json(tasks);
+  } catch (error: any) {
+    console.error('Error fetching tasks:', error);
+    return res.status(500).json({ error: 'Failed to fetch tasks' });
+  }
+});
+
+/**
+ * GET /api/tasks/:id
+ * Get a single task
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const task = isTaskId(req.params.id) ? await taskQueries.getById(req.params.id) : null;
+
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    return res.json(task);
+  } catch (error: any) {
+    console.error('Error fetching task:', error);
+    return res.status(500).json({ error: 'Failed to fetch task' });
+  }
+});
+
+/**
+ * PATCH /api/tasks/:id
+ * Tick or untick a task - its checklist item in the plan's AI note changes to match
+ * Body: { done: boolean }
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { done } = req.body;
+
+    if (typeof done !== 'boolean') {
+      return res.status(400).json({ error: 'done must be true or false' });
+    }
+
+    const updated = isTaskId(id) ? await setTaskDone(id, done) : null;
+    if (!updated) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    console.log(`✓ Marked task ${id} as ${done ? 'done' : 'open'}`);
+    return res.json(await taskQueries.getById(id));
+  } catch (error: any) {
+    console.error('Error updating task:', error);
+    return res.status(500).json({ error: 'Failed to update task' });
+  }
+});
+
+export default router;
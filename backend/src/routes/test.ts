@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import { addScenario, listScenarios, clearScenarios, MOCK_ERRORS, MockScenarioInput } from '../services/llm-scenarios.js';
+
+/**
+ * Test-only routes, mounted when the mock LLM provider is in use outside production
+ */
+
+const router = Router();
+
+const MOCK_ERROR_NAMES = Object.keys(MOCK_ERRORS);
+
+// Longest delay a scenario can ask for, in milliseconds (two minutes)
+const MAX_SCENARIO_DELAY_MS = 120000;
+const MAX_SCENARIO_TIMES = 1000;
+
+/**
+ * Validate an optional whole number of milliseconds or characters
+ */
+function optionalInteger(
+  body: any,
+  field: string,
+  min: number,
+  max: number,
+  errors: string[]
+): number | null {
+  if (body[field] === undefined || body[field] === null) return null;
+
+  const value = Number(body[field]);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${field} must be an integer between ${min} and ${max}`);
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Validate a mock LLM scenario body
+ */
+function validateScenarioInput(body: any): { errors: string[]; values: MockScenarioInput } {
+  const errors: string[] = [];
+
+  const processType = body.processType ? String(body.processType) : null;
+
+  let promptPattern: string | null = null;
+  if (body.promptPattern) {
+    try {
+      new RegExp(String(body.promptPattern));
+      promptPattern = String(body.promptPattern);
+    } catch (error: any) {
+      errors.push(`promptPattern is not a valid regular expression: ${error.message}`);
+    }
+  }
+
+  if (body.response !== undefined && body.response !== null && typeof body.response !== 'string') {
+    errors.push('response must be a string');
+  }
+  const response = typeof body.response === 'string' ? body.response : null;
+
+  const error = body.error ? String(body.error) : null;
+  if (error && !MOCK_ERROR_NAMES.includes(error)) {
+    errors.push(`error must be one of: ${MOCK_ERROR_NAMES.join(', ')}`);
+  }
+  if (error && response !== null) {
+    errors.push('A scenario can set response or error, not both');
+  }
+
+  const values: MockScenarioInput = {
+    processType,
+    promptPattern,
+    response,
+    error,
+    delayMs: optionalInteger(body, 'delayMs', 0, MAX_SCENARIO_DELAY_MS, errors),
+    chunkSize: optionalInteger(body, 'chunkSize', 1, 100000, errors),
+    chunkDelayMs: optionalInteger(body, 'chunkDelayMs', 0, MAX_SCENARIO_DELAY_MS, errors),
+    times: optionalInteger(body, 'times', 1, MAX_SCENARIO_TIMES, errors) ?? 1,
+  };
+
+  return { errors, values };
+}
+
+/**
+ * GET /api/test/llm-scenarios
+ * Scenarios still waiting to script mock LLM calls, oldest first
+ */
+router.get('/llm-scenarios', (_req: Request, res: Response) => {
+  res.json(listScenarios());
+});
+
+/**
+ * POST /api/test/llm-scenarios
+ * Queue a scenario (or an array of them) for the mock LLM
+ * Body: { processType?, promptPattern?, response?, error?, delayMs?, chunkSize?, chunkDelayMs?, times? }
+ */
+router.post('/llm-scenarios', (req: Request, res: Response) => {
+  try {
+    const bodies: any[] = Array.isArray(req.body) ? req.body : [req.body ?? {}];
+
+    const inputs: MockScenarioInput[] = [];
+    for (const [i, body] of bodies.entries()) {
+      const { errors, values } = validateScenarioInput(body ?? {});
+      if (errors.length > 0) {
+        const details = bodies.length > 1 ? errors.map((error) => `[${i}] ${error}`) : errors;
+        return res.status(400).json({ error: 'Invalid scenario', details });
+      }
+      inputs.push(values);
+    }
+
+    const scenarios = inputs.map(addScenario);
+    console.log(`🧪 Queued ${scenarios.length} mock LLM scenario(s)`);
+
+    return res.status(201).json(Array.isArray(req.body) ? scenarios : scenarios[0]);
+  } catch (error: any) {
+    console.error('Error queueing mock LLM scenario:', error);
+    return res.status(500).json({ error: 'Failed to queue scenario' });
+  }
+});
+
+/**
+ * DELETE /api/test/llm-scenarios
+ * Drop every queued scenario
+ */
+router.delete('/llm-scenarios', (_req: Request, res: Response) => {
+  res.json({ cleared: clearScenarios() });
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { usageQueries, UsageGroupBy } from '../database.js';
+
+const router = Router();
+
+const GROUP_BY_OPTIONS: UsageGroupBy[] = ['day', 'process_type', 'model', 'folder'];
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * Parse an optional ISO date query parameter
+ */
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/usage?groupBy=day|process_type|model|folder&from=...&to=...
+ * Token usage and estimated cost of LLM calls, with totals and per-group breakdown
+ * Defaults to the last 30 days grouped by day
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const groupBy = (req.query.groupBy as UsageGroupBy | undefined) || 'day';
+    if (!GROUP_BY_OPTIONS.includes(groupBy)) {
+      return res.status(400).json({
+        error: 'Invalid groupBy',
+        validOptions: GROUP_BY_OPTIONS,
+      });
+    }
+
+    const to = parseDate(req.query.to);
+    const from = parseDate(req.query.from);
+    if (to === null || from === null) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const rangeEnd = to ?? new Date();
+    const rangeStart = from ?? new Date(rangeEnd.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const [totals, groups] = await Promise.all([
+      usageQueries.getSummary(rangeStart, rangeEnd),
+      usageQueries.getGrouped(groupBy, rangeStart, rangeEnd),
+    ]);
+
+    return res.json({
+      from: rangeStart.toISOString(),
+      to: rangeEnd.toISOString(),
+      groupBy,
+      totals,
+      groups,
+    });
+  } catch (error: any) {
+    console.error('Error fetching usage:', error);
+    return res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+});
+
+export default router;
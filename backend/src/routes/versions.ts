@@ -0,0 +1,128 @@
+import { Router, Request, Response } from 'express';
+import { noteQueries, versionQueries, Note } from '../database.js';
+import { reviseAiNote, restoreVersion, RevisionMode } from '../services/versions.js';
+import { BudgetExceededError } from '../services/budgets.js';
+import { LLMError } from '../services/llm-errors.js';
+import { sendBudgetExceeded, sendLLMError } from './process.js';
+
+const router = Router();
+
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+/**
+ * Look up an AI note that can be revised, responding with 404/400/409 if it can't
+ */
+async function getRevisableNote(id: string, res: Response): Promise<Note | null> {
+  const note = await noteQueries.getById(id);
+
+  if (!note) {
+    res.status(404).json({ error: 'Note not found' });
+    return null;
+  }
+
+  if (note.type !== 'ai') {
+    res.status(400).json({ error: 'Only AI notes have versions' });
+    return null;
+  }
+
+  if (note.status === 'processing') {
+    res.status(409).json({ error: 'AI note is already being processed', status: note.status });
+    return null;
+  }
+
+  return note;
+}
+
+/**
+ * Run a refine or regenerate and respond with the updated note and its new version
+ */
+async function handleRevision(req: Request, res: Response, mode: RevisionMode) {
+  const instructions = typeof req.body?.instructions === 'string' ? req.body.instructions.trim() : '';
+
+  try {
+    if (mode === 'refine' && (!instructions || instructions.length > MAX_INSTRUCTIONS_LENGTH)) {
+      return res.status(400).json({ error: `instructions are required (max ${MAX_INSTRUCTIONS_LENGTH} characters)` });
+    }
+
+    const note = await getRevisableNote(req.params.id, res);
+    if (!note) return;
+
+    const revised = await reviseAiNote(note, mode, instructions || undefined);
+    return res.status(201).json(revised);
+  } catch (error: any) {
+    if (error instanceof BudgetExceededError) {
+      return sendBudgetExceeded(res, error);
+    }
+    if (error instanceof LLMError) {
+      return sendLLMError(res, error);
+    }
+
+    console.error(`Error in ${mode} endpoint:`, error);
+    return res.status(500).json({
+      error: `Failed to ${mode} AI note`,
+      message: error.message,
+    });
+  }
+}
+
+/**
+ * GET /api/notes/:id/versions
+ * Get the version history of an AI note, oldest first (empty until it is first revised)
+ */
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const note = await noteQueries.getById(id);
+    if (!note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    const versions = await versionQueries.getByNoteId(id);
+    return res.json(versions);
+  } catch (error: any) {
+    console.error('Error fetching versions:', error);
+    return res.status(500).json({ error: 'Failed to fetch versions' });
+  }
+});
+
+/**
+ * POST /api/notes/:id/refine
+ * Rewrite an AI note following the user's instructions, e.g. "shorter" or "more technical"
+ * Body: { instructions: string }
+ * Responds 201 with { note, version }; 429 if a spending budget would be exceeded;
+ * the status for the kind of LLM failure (see LLM_ERROR_STATUS) if the call fails
+ */
+router.post('/:id/refine', (req: Request, res: Response) => handleRevision(req, res, 'refine'));
+
+/**
+ * POST /api/notes/:id/regenerate
+ * Run the AI note's process again on its source, replacing the content with a new version
+ * Responds 201 with { note, version }; 429 if a spending budget would be exceeded;
+ * the status for the kind of LLM failure (see LLM_ERROR_STATUS) if the call fails
+ */
+router.post('/:id/regenerate', (req: Request, res: Response) => handleRevision(req, res, 'regenerate'));
+
+/**
+ * POST /api/notes/:id/versions/:version/restore
+ * Make an earlier version current again (added as the newest version)
+ */
+router.post('/:id/versions/:version/restore', async (req: Request, res: Response) => {
+  try {
+    const note = await getRevisableNote(req.params.id, res);
+    if (!note) return;
+
+    const version = await versionQueries.get(note.id, parseInt(req.params.version, 10) || 0);
+    if (!version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const restored = await restoreVersion(note, version);
+    return res.status(201).json(restored);
+  } catch (error: any) {
+    console.error('Error restoring version:', error);
+    return res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
+export default router;
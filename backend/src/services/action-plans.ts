@@ -0,0 +1,230 @@
+import { randomUUID } from 'node:crypto';
+import { getLLMResponse, toMessages, LLMInput, LLMOptions, LLMResult } from './llm.js';
+import { TiptapNode } from './tiptap.js';
+import {
+  JsonSchema,
+  StructuredOutputError,
+  parseStructuredReply,
+  buildFormatInstructions,
+  buildRepairRequest,
+} from './structured.js';
+
+/**
+ * Structured action plans
+ * Processes with the action_plan output format reply with JSON matching ACTION_PLAN_SCHEMA.
+ * The AI note shows the plan with its steps as a checklist; each step is also kept as a task
+ * (see services/tasks.ts), linked to its checklist item by attrs.taskId.
+ */
+
+export interface ActionPlanStep {
+  title: string;
+  estimate: string;
+  details?: string;
+}
+
+export interface ActionPlanObstacle {
+  obstacle: string;
+  solution: string;
+}
+
+export interface ActionPlan {
+  goal: string;
+  steps: ActionPlanStep[];
+  prerequisites: string[];
+  success_criteria: string[];
+  obstacles?: ActionPlanObstacle[];
+}
+
+// A step that was already a task - rewriting a plan keeps the ids (and ticks) of unchanged steps
+export interface ExistingTask {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+const text = (description: string, maxLength: number): JsonSchema => ({
+  type: 'string',
+  description,
+  minLength: 1,
+  maxLength,
+});
+
+export const ACTION_PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['goal', 'steps', 'prerequisites', 'success_criteria'],
+  properties: {
+    goal: text('What the user wants to achieve, in a sentence or two', 1000),
+    steps: {
+      type: 'array',
+      description: 'Specific, concrete steps in the order to do them',
+      minItems: 1,
+      maxItems: 20,
+      items: {
+        type: 'object',
+        required: ['title', 'estimate'],
+        properties: {
+          title: text('The action, starting with a verb', 300),
+          estimate: text('Time or effort, e.g. "30 min", "2 hours", "1 week"', 100),
+          details: { type: 'string', description: 'How to go about it, briefly', maxLength: 1000 },
+        },
+      },
+    },
+    prerequisites: {
+      type: 'array',
+      description: 'Resources, skills or dependencies needed before starting',
+      items: text('A prerequisite', 500),
+    },
+    success_criteria: {
+      type: 'array',
+      description: 'What "done" looks like',
+      minItems: 1,
+      items: text('A success criterion', 500),
+    },
+    obstacles: {
+      type: 'array',
+      description: 'Likely challenges and how to overcome them',
+      items: {
+        type: 'object',
+        required: ['obstacle', 'solution'],
+        properties: {
+          obstacle: text('The challenge', 500),
+          solution: text('How to overcome it', 500),
+        },
+      },
+    },
+  },
+};
+
+export const ACTION_PLAN_INSTRUCTIONS = buildFormatInstructions(ACTION_PLAN_SCHEMA);
+
+/**
+ * Parse and check a model's action plan reply
+ * Throws StructuredOutputError listing what is wrong
+ */
+export function parseActionPlan(reply: string): ActionPlan {
+  const plan = parseStructuredReply<ActionPlan>(reply, ACTION_PLAN_SCHEMA);
+
+  return {
+    goal: plan.goal.trim(),
+    steps: plan.steps.map((step) => ({
+      title: step.title.trim(),
+      estimate: step.estimate.trim(),
+      ...(step.details?.trim() && { details: step.details.trim() }),
+    })),
+    prerequisites: plan.prerequisites.map((item) => item.trim()),
+    success_criteria: plan.success_criteria.map((item) => item.trim()),
+    ...(plan.obstacles?.length && {
+      obstacles: plan.obstacles.map((item) => ({ obstacle: item.obstacle.trim(), solution: item.solution.trim() })),
+    }),
+  };
+}
+
+/**
+ * Ask the LLM for an action plan
+ * A reply that doesn't parse or match the schema gets one follow-up asking the model to fix
+ * it; if that fails too, the StructuredOutputError is thrown. Token counts cover both calls.
+ */
+export async function getActionPlan(
+  input: LLMInput,
+  options: LLMOptions
+): Promise<{ plan: ActionPlan; result: LLMResult }> {
+  const first = await getLLMResponse(input, options);
+
+  try {
+    return { plan: parseActionPlan(first.content), result: first };
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError) || options.signal?.aborted) {
+      throw error;
+    }
+    console.warn(`Unusable action plan reply, asking for a corrected one: ${error.message}`);
+
+    const retry = await getLLMResponse(
+      [
+        ...toMessages(input),
+        { role: 'assistant', content: first.content },
+        { role: 'user', content: buildRepairRequest(error) },
+      ],
+      options
+    );
+
+    return {
+      plan: parseActionPlan(retry.content),
+      result: {
+        ...retry,
+        tokensUsed: {
+          input: first.tokensUsed.input + retry.tokensUsed.input,
+          output: first.tokensUsed.output + retry.tokensUsed.output,
+          total: first.tokensUsed.total + retry.tokensUsed.total,
+        },
+      },
+    };
+  }
+}
+
+const heading = (level: number, value: string): TiptapNode => ({
+  type: 'heading',
+  attrs: { level },
+  content: [{ type: 'text', text: value }],
+});
+
+const paragraph = (content: TiptapNode[]): TiptapNode => ({ type: 'paragraph', content });
+
+const bulletList = (items: TiptapNode[][]): TiptapNode => ({
+  type: 'bulletList',
+  content: items.map((content) => ({ type: 'listItem', content: [paragraph(content)] })),
+});
+
+/**
+ * Render an action plan as a Tiptap document, its steps as a checklist
+ * Steps matching an existing task (by text) keep its id and tick; other steps get new ids
+ */
+export function actionPlanToTiptap(plan: ActionPlan, existing: ExistingTask[] = []): TiptapNode {
+  const unused = [...existing];
+
+  const taskItems = plan.steps.map((step): TiptapNode => {
+    const match = unused.findIndex((task) => task.text.toLowerCase() === step.title.toLowerCase());
+    const [task] = match >= 0 ? unused.splice(match, 1) : [null];
+
+    const detail: TiptapNode[] = [{ type: 'text', text: step.estimate, marks: [{ type: 'italic' }] }];
+    if (step.details) {
+      detail.push({ type: 'text', text: ` · ${step.details}` });
+    }
+
+    return {
+      type: 'taskItem',
+      attrs: { checked: task?.done ?? false, taskId: task?.id ?? randomUUID(), estimate: step.estimate },
+      content: [paragraph([{ type: 'text', text: step.title }]), paragraph(detail)],
+    };
+  });
+
+  const content: TiptapNode[] = [
+    heading(1, 'Action Plan'),
+    heading(2, 'Goal'),
+    paragraph([{ type: 'text', text: plan.goal }]),
+    heading(2, 'Action Steps'),
+    { type: 'taskList', content: taskItems },
+  ];
+
+  if (plan.prerequisites.length > 0) {
+    content.push(heading(2, 'Prerequisites'), bulletList(plan.prerequisites.map((item) => [{ type: 'text', text: item }])));
+  }
+
+  content.push(
+    heading(2, 'Success Criteria'),
+    bulletList(plan.success_criteria.map((item) => [{ type: 'text', text: item }]))
+  );
+
+  if (plan.obstacles?.length) {
+    content.push(
+      heading(2, 'Potential Obstacles'),
+      bulletList(
+        plan.obstacles.map((item) => [
+          { type: 'text', text: item.obstacle, marks: [{ type: 'bold' }] },
+          { type: 'text', text: ` - ${item.solution}` },
+        ])
+      )
+    );
+  }
+
+  return { type: 'doc', content };
+}
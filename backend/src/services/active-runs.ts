@@ -0,0 +1,71 @@
+import { NoteStatus } from '../types/items.js';
+import type { ChunkProgress } from './chunking.js';
+
+/**
+ * In-process registry of AI processing runs that are currently executing
+ * Lets the cancel endpoint abort the underlying LLM request for a note
+ */
+
+interface ActiveRun {
+  controller: AbortController;
+  previousStatus: NoteStatus;
+  jobId: string | null; // null for streamed runs, which are not queued
+  progress: ChunkProgress | null; // Set while a long note is processed in chunks
+}
+
+const activeRuns = new Map<string, ActiveRun>();
+
+/**
+ * Register a run for a note and return the signal to thread into the LLM call
+ */
+export function registerRun(
+  noteId: string,
+  previousStatus: NoteStatus,
+  jobId: string | null = null
+): AbortSignal {
+  const controller = new AbortController();
+  activeRuns.set(noteId, { controller, previousStatus, jobId, progress: null });
+  return controller.signal;
+}
+
+/**
+ * Remove a finished run from the registry
+ * The signal guards against removing a newer run registered for the same note
+ */
+export function unregisterRun(noteId: string, signal: AbortSignal): void {
+  if (activeRuns.get(noteId)?.controller.signal === signal) {
+    activeRuns.delete(noteId);
+  }
+}
+
+/**
+ * Record how far a chunked run has got
+ * The signal guards against updating a newer run registered for the same note
+ */
+export function setRunProgress(noteId: string, signal: AbortSignal, progress: ChunkProgress): void {
+  const run = activeRuns.get(noteId);
+  if (run?.controller.signal === signal) {
+    run.progress = progress;
+  }
+}
+
+/**
+ * Progress of the run executing for a note, if it is being processed in chunks
+ */
+export function getRunProgress(noteId: string): ChunkProgress | null {
+  return activeRuns.get(noteId)?.progress ?? null;
+}
+
+/**
+ * Abort the run for a note, if one is executing in this process
+ * When jobId is given, only a run executing that job is aborted
+ * Returns the aborted run so the caller can restore the note's status
+ */
+export function abortRun(noteId: string, jobId?: string): ActiveRun | null {
+  const run = activeRuns.get(noteId);
+  if (!run || (jobId && run.jobId !== jobId)) return null;
+
+  run.controller.abort();
+  activeRuns.delete(noteId);
+  return run;
+}
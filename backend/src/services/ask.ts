@@ -0,0 +1,193 @@
+import { noteQueries, Note, RankedNote } from '../database.js';
+import { getLLMResponse, estimateTokens, LLMResult } from './llm.js';
+import { assertWithinBudget } from './budgets.js';
+import { markdownToTiptap, tiptapToMarkdown } from './markdown.js';
+import { noteTitle } from './context.js';
+import { buildSourceLinks, SynthesisSource } from './processor.js';
+import { MAX_TITLE_LENGTH } from './titles.js';
+
+/**
+ * Ask your notes: answer a question from the notes that best match it
+ * Postgres full-text search ranks the notes, the best ones go into a prompt that only allows
+ * answers from them, and the model cites the notes it used by id. The answer is saved as an
+ * AI note in the "Answers" folder, with each citation linking back to its note.
+ */
+
+// Process type of answer notes (not a process definition - answers are left out of searches)
+export const ASK_PROCESS_TYPE = 'ask';
+
+export const ANSWERS_FOLDER_NAME = 'Answers';
+
+// Longest question accepted
+export const MAX_QUESTION_LENGTH = 1000;
+
+// Most notes a question is answered from, and how many tokens of them go into the prompt
+const ASK_MAX_SOURCES = parseInt(process.env.ASK_MAX_SOURCES || '8', 10);
+const ASK_CONTEXT_TOKENS = parseInt(process.env.ASK_CONTEXT_TOKENS || '6000', 10);
+
+const ASK_MAX_TOKENS = 1500;
+
+// Skip notes that would only fit as a stub
+const MIN_SOURCE_TOKENS = 100;
+
+const ASK_SYSTEM_PROMPT = `You answer questions using only the user's notes. If the notes don't contain the answer, say so rather than guessing.`;
+
+// How the model cites a note: [note:<id>], several ids may share the brackets
+const CITATION_PATTERN = /\[((?:note:\s*[0-9a-f-]{36}\s*,?\s*)+)\]/gi;
+const CITATION_ID_PATTERN = /note:\s*([0-9a-f-]{36})/gi;
+
+// A note that went into the prompt
+export interface AskSource {
+  id: string;
+  title: string;
+  text: string;
+  rank: number;
+}
+
+export interface AskResult {
+  question: string;
+  answer: string; // Markdown, with citations as note:// links
+  note: Note; // The saved answer
+  sources: Omit<AskSource, 'text'>[]; // Every note the answer was drawn from, best match first
+  citations: SynthesisSource[]; // The notes the answer cites, in order of first citation
+  tokensUsed: LLMResult['tokensUsed'];
+  model: string;
+}
+
+// No note matches any word of the question
+export class NoMatchingNotesError extends Error {
+  constructor(question: string) {
+    super(`No notes match "${question}"`);
+    this.name = 'NoMatchingNotesError';
+  }
+}
+
+/**
+ * Turn the best matching notes into prompt sources, best first, within ASK_CONTEXT_TOKENS
+ * The note that crosses the limit is truncated; the rest are dropped
+ */
+export function selectSources(notes: RankedNote[], tokenBudget = ASK_CONTEXT_TOKENS): AskSource[] {
+  const sources: AskSource[] = [];
+  let remaining = tokenBudget;
+
+  for (const note of notes) {
+    let text = tiptapToMarkdown(note.content).trim();
+    if (!text) continue;
+
+    if (estimateTokens(text) > remaining) {
+      if (remaining < MIN_SOURCE_TOKENS) break;
+      text = `${text.substring(0, remaining * 4 - 15)}... [truncated]`;
+    }
+
+    sources.push({ id: note.id, title: noteTitle(note), text, rank: note.rank });
+    remaining -= estimateTokens(text);
+  }
+
+  return sources;
+}
+
+/**
+ * The grounded prompt: the question, the notes it may be answered from, and how to cite them
+ */
+export function buildAskPrompt(question: string, sources: AskSource[]): string {
+  const notes = sources
+    .map((source) => `<note id="${source.id}" title="${source.title.replace(/"/g, "'")}">\n${source.text}\n</note>`)
+    .join('\n\n');
+
+  return `Answer the question below using only these notes from the user's notebook.
+
+${notes}
+
+Question: ${question}
+
+Rules:
+- Use only facts from the notes above. If they don't answer the question, say what is missing.
+- Cite the note each statement comes from right after it, as [note:<id>] with the note's id, e.g. [note:${sources[0]?.id ?? '00000000-0000-0000-0000-000000000000'}]. Cite several notes as [note:<id>, note:<id>].
+- Answer in markdown. Don't add a list of sources at the end.`;
+}
+
+/**
+ * Replace the model's [note:<id>] citations with numbered note:// links
+ * Citations of notes that weren't sources are dropped, so every link leads to a real note
+ */
+export function linkCitations(answer: string, sources: Pick<AskSource, 'id' | 'title'>[]): {
+  markdown: string;
+  citations: SynthesisSource[];
+} {
+  const citations: SynthesisSource[] = [];
+
+  const markdown = answer.replace(CITATION_PATTERN, (_match, ids: string) => {
+    const links = [...ids.matchAll(CITATION_ID_PATTERN)].flatMap(([, id]) => {
+      const source = sources.find((s) => s.id === id.toLowerCase());
+      if (!source) return [];
+
+      let index = citations.findIndex((citation) => citation.id === source.id);
+      if (index === -1) {
+        citations.push({ id: source.id, title: source.title });
+        index = citations.length - 1;
+      }
+      return [`[${index + 1}](note://${source.id})`];
+    });
+
+    return links.length > 0 ? `[${links.join(', ')}]` : '';
+  });
+
+  return { markdown, citations };
+}
+
+/**
+ * Answer a question from the notes and save the answer in the Answers folder
+ * Throws NoMatchingNotesError if no note matches, BudgetExceededError if the call would go over a
+ * budget of the Answers folder, and LLMError if the call fails
+ */
+export async function askNotes(question: string): Promise<AskResult> {
+  const matches = await noteQueries.search(question, ASK_MAX_SOURCES, ASK_PROCESS_TYPE);
+  const sources = selectSources(matches);
+  if (sources.length === 0) {
+    throw new NoMatchingNotesError(question);
+  }
+
+  console.log(`Answering "${question}" from ${sources.length} notes`);
+
+  const folder = await noteQueries.getOrCreateRootFolder(ANSWERS_FOLDER_NAME);
+  const prompt = buildAskPrompt(question, sources);
+
+  await assertWithinBudget(folder.id, {
+    inputTokens: estimateTokens(prompt + ASK_SYSTEM_PROMPT),
+    outputTokens: ASK_MAX_TOKENS,
+    model: null,
+  });
+
+  const result = await getLLMResponse(prompt, {
+    maxTokens: ASK_MAX_TOKENS,
+    temperature: 0.2,
+    systemPrompt: ASK_SYSTEM_PROMPT,
+    usage: { noteId: folder.id, processType: ASK_PROCESS_TYPE },
+  });
+
+  const { markdown, citations } = linkCitations(result.content, sources);
+  const content = citations.length > 0 ? `${markdown}\n\n${buildSourceLinks(citations)}` : markdown;
+
+  const sourceSummaries = sources.map(({ id, title, rank }) => ({ id, title, rank }));
+  const created = await noteQueries.create(folder.id, 'ai', markdownToTiptap(content), ASK_PROCESS_TYPE, 'complete', {
+    question,
+    sources: citations,
+    retrieved: sourceSummaries,
+  });
+
+  // The question is the answer's title
+  const title = question.length > MAX_TITLE_LENGTH ? `${question.substring(0, MAX_TITLE_LENGTH - 3)}...` : question;
+  await noteQueries.setGeneratedName(created.id, title);
+
+  console.log(`✓ Answer saved as ${created.id}, citing ${citations.length} of ${sources.length} notes`);
+
+  return {
+    question,
+    answer: markdown,
+    note: { ...created, name: title },
+    sources: sourceSummaries,
+    citations,
+    tokensUsed: result.tokensUsed,
+    model: result.model,
+  };
+}
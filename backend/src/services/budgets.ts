@@ -0,0 +1,94 @@
+import { budgetQueries, BudgetMetric, BudgetStatus } from '../database.js';
+import { estimateCost } from './llm.js';
+
+/**
+ * Spending budgets - checked before an AI run is started
+ */
+
+// Upper bound of what a run will consume
+export interface RunEstimate {
+  inputTokens: number;
+  outputTokens: number; // The process's max_tokens - a run never uses more
+  model?: string | null;
+}
+
+/**
+ * Thrown when a run would take a budget over its limit
+ */
+export class BudgetExceededError extends Error {
+  constructor(public budget: BudgetStatus, public estimate: number) {
+    super(`${describeBudget(budget)} exceeded - resets at ${new Date(budget.resets_at).toISOString()}`);
+    this.name = 'BudgetExceededError';
+  }
+
+  /**
+   * Seconds until the budget resets (for the Retry-After header)
+   */
+  get retryAfterSeconds(): number {
+    return Math.max(0, Math.ceil((new Date(this.budget.resets_at).getTime() - Date.now()) / 1000));
+  }
+
+  /**
+   * Structured error body returned by the API
+   */
+  toJSON() {
+    return {
+      error: 'Budget exceeded',
+      code: 'BUDGET_EXCEEDED',
+      message: this.message,
+      budget: {
+        id: this.budget.id,
+        name: describeBudget(this.budget),
+        folder_id: this.budget.folder_id,
+        period: this.budget.period,
+        metric: this.budget.metric,
+        limit: this.budget.limit_value,
+        used: this.budget.used,
+        remaining: this.budget.remaining,
+      },
+      estimate: this.estimate,
+      resetsAt: this.budget.resets_at,
+    };
+  }
+}
+
+/**
+ * Human readable budget name, e.g. 'Daily token budget for "Work"'
+ */
+export function describeBudget(budget: BudgetStatus): string {
+  const period = budget.period === 'daily' ? 'Daily' : 'Monthly';
+  const metric = budget.metric === 'tokens' ? 'token' : 'cost';
+  const scope = budget.folder_id ? ` for "${budget.folder_name}"` : '';
+  return `${period} ${metric} budget${scope}`;
+}
+
+/**
+ * How much of a budget's metric runs need - tokens, or USD priced per run's model
+ */
+export function estimateBudgetUse(metric: BudgetMetric, estimates: RunEstimate[]): number {
+  return estimates.reduce(
+    (total, estimate) =>
+      total +
+      (metric === 'tokens'
+        ? estimate.inputTokens + estimate.outputTokens
+        : estimateCost(estimate.inputTokens, estimate.outputTokens, estimate.model)),
+    0
+  );
+}
+
+/**
+ * Throw a BudgetExceededError if running against this note would exceed any of its budgets
+ * Several estimates are checked together, for runs that happen at once
+ */
+export async function assertWithinBudget(noteId: string, estimate: RunEstimate | RunEstimate[]): Promise<void> {
+  const estimates = Array.isArray(estimate) ? estimate : [estimate];
+  const budgets = await budgetQueries.getForNote(noteId);
+
+  for (const budget of budgets) {
+    const needed = estimateBudgetUse(budget.metric, estimates);
+
+    if (budget.used + needed > budget.limit_value) {
+      throw new BudgetExceededError(budget, needed);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { getLLMResponse, getLLMStream, estimateTokens, inputText, LLMMessage, LLMOptions } from './llm.js';
+import { noteQueries, messageQueries, processQueries, Note, NoteMessage } from '../database.js';
+import { assertWithinBudget } from './budgets.js';
+import { tiptapToMarkdown } from './markdown.js';
+import { buildSynthesisContent, renderPromptTemplate } from './processor.js';
+
+/**
+ * Follow-up chat on an AI note
+ * Each question is sent as a real conversation: the original request (source note
+ * rendered through the process template), the AI note as the assistant's answer,
+ * then every earlier turn
+ */
+
+// Usage ledger process type for chat turns
+export const CHAT_PROCESS_TYPE = 'chat';
+
+const CHAT_MAX_TOKENS = parseInt(process.env.CHAT_MAX_TOKENS || '2048', 10);
+
+const CHAT_SYSTEM_PROMPT = `You are continuing a conversation about the user's note and the response you wrote for it.
+Answer follow-up questions directly and concisely, in markdown. Refer back to the note and your earlier response where it helps.`;
+
+export interface ChatOptions {
+  onChunk?: (chunk: string) => void; // Stream the reply as it arrives
+  signal?: AbortSignal; // Abort the request (nothing is saved)
+}
+
+export interface ChatResult {
+  question: NoteMessage;
+  reply: NoteMessage;
+}
+
+/**
+ * Text of the note(s) an AI note was generated from
+ * Syntheses list their sources in metadata; other AI notes sit under their source note
+ */
+async function getSourceText(aiNote: Note): Promise<string> {
+  const sourceIds: string[] | undefined = aiNote.metadata?.sources?.map((source: { id: string }) => source.id);
+
+  if (sourceIds) {
+    return buildSynthesisContent(await noteQueries.getByIds(sourceIds)).content;
+  }
+
+  const parent = aiNote.parent_id ? await noteQueries.getById(aiNote.parent_id) : null;
+  return parent && parent.item_type !== 'folder' ? tiptapToMarkdown(parent.content) : '';
+}
+
+/**
+ * Recreate the request that produced an AI note as closely as possible:
+ * its source note(s) rendered through the process template
+ */
+export async function buildOriginalRequest(aiNote: Note): Promise<string> {
+  const sourceText = await getSourceText(aiNote);
+  const definition = aiNote.process_type ? await processQueries.getByType(aiNote.process_type) : null;
+
+  return definition
+    ? renderPromptTemplate(definition.prompt_template, { content: sourceText, context: '' })
+    : `Here is my note:\n\n${sourceText}`;
+}
+
+/**
+ * Build the conversation for a new question on an AI note
+ */
+export async function buildChatMessages(
+  aiNote: Note,
+  history: NoteMessage[],
+  question: string
+): Promise<LLMMessage[]> {
+  return [
+    { role: 'user', content: await buildOriginalRequest(aiNote) },
+    { role: 'assistant', content: tiptapToMarkdown(aiNote.content) },
+    ...history.map((message) => ({ role: message.role, content: message.content })),
+    { role: 'user', content: question },
+  ];
+}
+
+/**
+ * Ask a follow-up question about an AI note
+ * The question and reply are only saved once the reply is complete
+ */
+export async function sendChatMessage(
+  aiNote: Note,
+  question: string,
+  options: ChatOptions = {}
+): Promise<ChatResult> {
+  const { onChunk, signal } = options;
+
+  const history = await messageQueries.getByNoteId(aiNote.id);
+  const messages = await buildChatMessages(aiNote, history, question);
+
+  console.log(`Chat on AI note ${aiNote.id}: ${history.length} earlier turns`);
+
+  // Refuse to start if the reply could take a budget over its limit
+  await assertWithinBudget(aiNote.id, {
+    inputTokens: estimateTokens(inputText(messages) + CHAT_SYSTEM_PROMPT),
+    outputTokens: CHAT_MAX_TOKENS,
+  });
+
+  const llmOptions: LLMOptions = {
+    maxTokens: CHAT_MAX_TOKENS,
+    systemPrompt: CHAT_SYSTEM_PROMPT,
+    signal,
+    usage: { noteId: aiNote.id, processType: CHAT_PROCESS_TYPE },
+  };
+  const result = onChunk
+    ? await getLLMStream(messages, onChunk, llmOptions)
+    : await getLLMResponse(messages, llmOptions);
+
+  if (signal?.aborted) {
+    throw new Error('Chat cancelled');
+  }
+
+  const saved = await messageQueries.createExchange(aiNote.id, question, {
+    content: result.content,
+    model: result.model,
+    inputTokens: result.tokensUsed.input,
+    outputTokens: result.tokensUsed.output,
+  });
+
+  console.log(`✓ Chat reply on AI note ${aiNote.id} (${result.tokensUsed.total} tokens)`);
+
+  return saved;
+}
@@ -0,0 +1,142 @@
+import { estimateTokens } from './llm.js';
+import { ProcessDefinition } from '../database.js';
+
+/**
+ * Chunked map-reduce processing for long notes
+ * A note over the threshold is split on heading and paragraph boundaries, each chunk is
+ * condensed into notes (map), and the process's own prompt runs on the combined notes (reduce)
+ */
+
+// Notes estimated above this many tokens are processed in chunks
+export const CHUNKING_THRESHOLD_TOKENS = parseInt(process.env.CHUNKING_THRESHOLD_TOKENS || '12000', 10);
+
+// Target size of each chunk
+export const CHUNK_SIZE_TOKENS = parseInt(process.env.CHUNK_SIZE_TOKENS || '4000', 10);
+
+// Longest set of notes the map step may write for one chunk
+export const CHUNK_NOTES_MAX_TOKENS = 1024;
+
+export const MAP_SYSTEM_PROMPT = `You condense one part of a long document into notes for a later step that only sees your notes, never the original text.
+Be faithful and specific: keep facts, names, numbers, decisions and open questions, and never add anything that isn't in the text.`;
+
+// Progress of a chunked run, reported through the note's status
+export interface ChunkProgress {
+  phase: 'map' | 'reduce';
+  completedChunks: number;
+  totalChunks: number;
+}
+
+const HEADING = /^#{1,6} /;
+
+/**
+ * Greedily pack pieces into groups of at most maxTokens
+ */
+function pack(pieces: string[], maxTokens: number, separator: string): string[] {
+  const groups: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const candidate = current ? current + separator + piece : piece;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      groups.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) groups.push(current);
+  return groups;
+}
+
+/**
+ * Cut a block that is too big for one chunk: on lines, then sentences, then anywhere
+ */
+function splitOversized(block: string, maxTokens: number): string[] {
+  if (estimateTokens(block) <= maxTokens) return [block];
+
+  for (const [pattern, separator] of [[/\n/, '\n'], [/(?<=[.!?])\s+/, ' ']] as const) {
+    const parts = block.split(pattern).filter((part) => part.trim());
+    if (parts.length > 1) {
+      return pack(parts.flatMap((part) => splitOversized(part, maxTokens)), maxTokens, separator);
+    }
+  }
+
+  const size = maxTokens * 4;
+  const pieces: string[] = [];
+  for (let i = 0; i < block.length; i += size) {
+    pieces.push(block.slice(i, i + size));
+  }
+  return pieces;
+}
+
+/**
+ * Group markdown blocks into chunks of about maxTokens each
+ * A heading starts a new chunk once the current one is half full, and is never left
+ * dangling at the end of a chunk
+ */
+export function splitIntoChunks(blocks: string[], maxTokens: number = CHUNK_SIZE_TOKENS): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    // Carry a trailing heading over to the chunk with its section
+    const carried = current.length > 1 && HEADING.test(current[current.length - 1]) ? current.pop()! : null;
+
+    if (current.length > 0) chunks.push(current.join('\n\n'));
+    current = carried ? [carried] : [];
+    currentTokens = carried ? estimateTokens(carried) : 0;
+  };
+
+  for (const block of blocks.flatMap((block) => splitOversized(block, maxTokens))) {
+    const tokens = estimateTokens(block);
+    const full = currentTokens + tokens > maxTokens;
+    const newSection = HEADING.test(block) && currentTokens >= maxTokens / 2;
+
+    if (current.length > 0 && (full || newSection)) {
+      flush();
+    }
+
+    current.push(block);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) chunks.push(current.join('\n\n'));
+  return chunks;
+}
+
+/**
+ * Whether a note's markdown is long enough to be processed in chunks
+ */
+export function needsChunking(content: string): boolean {
+  return estimateTokens(content) > CHUNKING_THRESHOLD_TOKENS;
+}
+
+/**
+ * Map step prompt for one chunk
+ * Only the process's name and description are used, so it works for custom processes too
+ */
+export function buildMapPrompt(definition: ProcessDefinition, chunk: string, index: number, total: number): string {
+  return `This is part ${index + 1} of ${total} of a long note. The whole note will then be processed with this task:
+
+${definition.name}${definition.description ? ` - ${definition.description}` : ''}
+
+Write concise markdown notes on this part with everything the task will need. Don't carry out the task itself.
+
+<part>
+${chunk}
+</part>`;
+}
+
+/**
+ * Reduce step content: the notes from every chunk, in order
+ * This is rendered into the process's prompt template in place of the note
+ */
+export function buildReduceContent(chunkNotes: string[]): string {
+  const parts = chunkNotes.map((notes, i) => `### Part ${i + 1} of ${chunkNotes.length}\n\n${notes.trim()}`);
+
+  return `This note was too long to process in one go, so it was split into ${chunkNotes.length} parts and each part was condensed into notes. Treat the notes below as the full note, in order.
+
+${parts.join('\n\n')}`;
+}
@@ -0,0 +1,179 @@
+import { comparisonQueries, noteQueries, Comparison, ComparisonVariant, ComparisonVariantInput, Note } from '../database.js';
+import { processNote, estimateProcessing, ProcessOverrides } from './processor.js';
+import { assertWithinBudget, RunEstimate } from './budgets.js';
+import { estimateCost } from './llm.js';
+import { LLMError } from './llm-errors.js';
+import { ContextOptions } from './context.js';
+import { isSet, validateModelParameters } from './models.js';
+
+/**
+ * Side-by-side comparisons: the same process run on a note with two to four variants
+ * at once, each writing its own AI note, so the outputs can be compared and a winner kept
+ */
+
+export const MIN_COMPARISON_VARIANTS = 2;
+export const MAX_COMPARISON_VARIANTS = 4;
+
+// A comparison with the AI notes of its variants that are still there
+export interface ComparisonWithNotes extends Comparison {
+  notes: Note[];
+}
+
+/**
+ * The process definition settings a variant changes - unset ones keep the process's own
+ */
+export function variantOverrides(variant: ComparisonVariantInput): ProcessOverrides {
+  const overrides: ProcessOverrides = {};
+  if (variant.model !== null) overrides.model = variant.model;
+  if (variant.temperature !== null) overrides.temperature = variant.temperature;
+  if (variant.max_tokens !== null) overrides.max_tokens = variant.max_tokens;
+  if (variant.system_prompt !== null) overrides.system_prompt = variant.system_prompt;
+  if (variant.prompt_template !== null) overrides.prompt_template = variant.prompt_template;
+  return overrides;
+}
+
+/**
+ * Validate the variants of a comparison body
+ * models are the ones the configured provider offers (only needed if a variant sets one)
+ */
+export function validateComparisonVariants(
+  input: unknown,
+  models: string[]
+): { errors: string[]; values: ComparisonVariantInput[] } {
+  const errors: string[] = [];
+
+  if (
+    !Array.isArray(input) ||
+    input.length < MIN_COMPARISON_VARIANTS ||
+    input.length > MAX_COMPARISON_VARIANTS
+  ) {
+    errors.push(`variants must be an array of ${MIN_COMPARISON_VARIANTS} to ${MAX_COMPARISON_VARIANTS} variants`);
+    return { errors, values: [] };
+  }
+
+  const values: ComparisonVariantInput[] = [];
+
+  for (const [i, body] of input.entries()) {
+    const variant = body ?? {};
+    const prefix = `variants[${i}]`;
+    const has = (field: string) => isSet(variant[field]);
+
+    const model = has('model') ? String(variant.model) : null;
+    if (model && !models.includes(model)) {
+      errors.push(`${prefix}.model must be one of: ${models.join(', ')}`);
+    }
+
+    const parameters = validateModelParameters(
+      { temperature: variant.temperature, maxTokens: variant.max_tokens },
+      { temperature: `${prefix}.temperature`, maxTokens: `${prefix}.max_tokens` }
+    );
+    errors.push(...parameters.errors);
+
+    const promptTemplate = has('prompt_template') ? String(variant.prompt_template) : null;
+    if (promptTemplate !== null && !promptTemplate.includes('{{content}}')) {
+      errors.push(`${prefix}.prompt_template must include the {{content}} placeholder`);
+    }
+
+    const label = has('label') ? String(variant.label).trim().slice(0, 100) : '';
+
+    values.push({
+      label: label || model || `Variant ${i + 1}`,
+      model,
+      temperature: parameters.values.temperature ?? null,
+      max_tokens: parameters.values.max_tokens ?? null,
+      system_prompt: has('system_prompt') ? String(variant.system_prompt) : null,
+      prompt_template: promptTemplate,
+    });
+  }
+
+  return { errors, values };
+}
+
+/**
+ * Check a comparison against the note's budgets before any variant starts
+ * The variants run at once, so their estimates are added up and checked together
+ */
+export async function checkComparisonBudget(
+  noteId: string,
+  processType: string,
+  variants: ComparisonVariantInput[],
+  context?: ContextOptions
+): Promise<void> {
+  const estimates = await Promise.all(
+    variants.map((variant) => estimateProcessing(noteId, processType, context, variantOverrides(variant)))
+  );
+
+  await assertWithinBudget(
+    noteId,
+    estimates.filter((estimate): estimate is RunEstimate => estimate !== null)
+  );
+}
+
+/**
+ * Run one variant, timing it - a failure is recorded on the variant rather than thrown
+ */
+async function runVariant(
+  comparison: Comparison,
+  variant: ComparisonVariantInput,
+  index: number,
+  context?: ContextOptions,
+  signal?: AbortSignal
+): Promise<ComparisonVariant> {
+  const startedAt = Date.now();
+
+  try {
+    const { childNoteId, tokensUsed, model } = await processNote(comparison.note_id, comparison.process_type, {
+      context,
+      signal,
+      overrides: variantOverrides(variant),
+      comparison: { id: comparison.id, variant: index, label: variant.label },
+    });
+
+    return {
+      ...variant,
+      result: {
+        note_id: childNoteId,
+        model,
+        latency_ms: Date.now() - startedAt,
+        input_tokens: tokensUsed.input,
+        output_tokens: tokensUsed.output,
+        cost_usd: estimateCost(tokensUsed.input, tokensUsed.output, model),
+      },
+      error: null,
+    };
+  } catch (error: any) {
+    console.error(`Comparison ${comparison.id} variant "${variant.label}" failed:`, error.message);
+    return {
+      ...variant,
+      result: null,
+      error: { message: error.message, code: error instanceof LLMError ? error.code : null },
+    };
+  }
+}
+
+/**
+ * Run every variant of a comparison in parallel and record how each went
+ * Aborting the signal cancels the variants still running (recorded as failed)
+ */
+export async function runComparison(
+  noteId: string,
+  processType: string,
+  variants: ComparisonVariantInput[],
+  context?: ContextOptions,
+  signal?: AbortSignal
+): Promise<Comparison> {
+  const comparison = await comparisonQueries.create(noteId, processType, variants);
+
+  console.log(`Comparing ${variants.length} variants of ${processType} on note ${noteId} (comparison ${comparison.id})`);
+
+  const results = await Promise.all(variants.map((variant, i) => runVariant(comparison, variant, i, context, signal)));
+  return comparisonQueries.setVariants(comparison.id, results);
+}
+
+/**
+ * A comparison with its variants' AI notes (only the winner's once one is picked)
+ */
+export async function describeComparison(comparison: Comparison): Promise<ComparisonWithNotes> {
+  const noteIds = comparison.variants.flatMap((variant) => (variant.result ? [variant.result.note_id] : []));
+  return { ...comparison, notes: await noteQueries.getByIds(noteIds) };
+}
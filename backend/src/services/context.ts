@@ -0,0 +1,178 @@
+import { noteQueries, Note } from '../database.js';
+import { estimateTokens } from './llm.js';
+import { extractTextFromTiptap } from './tiptap.js';
+import { tiptapToMarkdown } from './markdown.js';
+
+/**
+ * Hierarchy-aware prompt context
+ * Gathers the folder path, parent note, sibling notes and earlier AI outputs around a note
+ * and fits them into a token budget, dropping the lowest priority items first
+ */
+
+// Which kinds of context to include (all off by default)
+export interface ContextOptions {
+  ancestors?: boolean; // Folder / parent note names above the note
+  parent?: boolean; // Content of the parent note
+  siblings?: boolean; // Other notes under the same parent
+  previousOutputs?: boolean; // Earlier AI notes generated from this note
+  maxTokens?: number; // Token budget for the whole context block
+}
+
+export type ContextItemKind = 'ancestors' | 'parent' | 'previous_output' | 'sibling';
+
+// A context item that made it into the prompt (recorded on the AI note)
+export interface ContextItem {
+  kind: ContextItemKind;
+  id: string | null;
+  title: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface PromptContext {
+  text: string;
+  items: ContextItem[];
+  tokenBudget: number;
+  tokensUsed: number;
+}
+
+const CONTEXT_KINDS: (keyof ContextOptions)[] = ['ancestors', 'parent', 'siblings', 'previousOutputs'];
+const DEFAULT_CONTEXT_TOKENS = parseInt(process.env.CONTEXT_MAX_TOKENS || '2000', 10);
+const MAX_CONTEXT_TOKENS = 16000;
+const MAX_SIBLINGS = 5;
+const MAX_PREVIOUS_OUTPUTS = 3;
+
+// Don't bother including an item cut down below this many tokens
+const MIN_TRUNCATED_TOKENS = 50;
+
+/**
+ * Parse context options from a request
+ * Accepts `true` / "all", a comma separated list ("parent,siblings") or an object
+ * Returns undefined when no context was asked for
+ */
+export function parseContextOptions(input: unknown, maxTokens?: unknown): ContextOptions | undefined {
+  let options: ContextOptions = {};
+
+  if (input === true || input === 'true' || input === 'all') {
+    options = { ancestors: true, parent: true, siblings: true, previousOutputs: true };
+  } else if (typeof input === 'string') {
+    const kinds = input.split(',').map((kind) => kind.trim());
+    for (const kind of CONTEXT_KINDS) {
+      if (kinds.includes(kind)) (options as any)[kind] = true;
+    }
+  } else if (input && typeof input === 'object') {
+    for (const kind of CONTEXT_KINDS) {
+      if ((input as any)[kind] === true) (options as any)[kind] = true;
+    }
+    maxTokens = maxTokens ?? (input as any).maxTokens;
+  }
+
+  if (!CONTEXT_KINDS.some((kind) => options[kind])) {
+    return undefined;
+  }
+
+  const budget = Number(maxTokens);
+  if (Number.isInteger(budget) && budget > 0) {
+    options.maxTokens = Math.min(budget, MAX_CONTEXT_TOKENS);
+  }
+
+  return options;
+}
+
+/**
+ * Display title of a note - its name, or the first line of its text
+ */
+export function noteTitle(note: Note): string {
+  if (note.name) return note.name;
+  const firstLine = extractTextFromTiptap(note.content).split('\n')[0] || 'Untitled';
+  return firstLine.length > 60 ? `${firstLine.substring(0, 60)}...` : firstLine;
+}
+
+/**
+ * Build the context block for a note, highest priority items first:
+ * folder path, parent note, previous AI outputs (newest first), then siblings
+ */
+export async function buildContext(note: Note, options: ContextOptions): Promise<PromptContext> {
+  const tokenBudget = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+  const candidates: { kind: ContextItemKind; id: string | null; title: string; text: string }[] = [];
+
+  const ancestors = options.ancestors || options.parent ? await noteQueries.getAncestors(note.id) : [];
+
+  if (options.ancestors && ancestors.length > 0) {
+    const path = ancestors.map(noteTitle).join(' / ');
+    candidates.push({ kind: 'ancestors', id: null, title: path, text: `Location: ${path}` });
+  }
+
+  const parent = ancestors[ancestors.length - 1];
+  if (options.parent && parent && parent.item_type !== 'folder') {
+    const text = tiptapToMarkdown(parent.content);
+    if (text) {
+      candidates.push({
+        kind: 'parent',
+        id: parent.id,
+        title: noteTitle(parent),
+        text: `Parent note "${noteTitle(parent)}":\n${text}`,
+      });
+    }
+  }
+
+  if (options.previousOutputs) {
+    const outputs = (await noteQueries.getChildren(note.id))
+      .filter((child) => child.type === 'ai' && child.status === 'complete')
+      .reverse()
+      .slice(0, MAX_PREVIOUS_OUTPUTS);
+
+    for (const output of outputs) {
+      candidates.push({
+        kind: 'previous_output',
+        id: output.id,
+        title: `${output.process_type || 'AI'} output`,
+        text: `Earlier ${output.process_type || 'AI'} output for this note:\n${tiptapToMarkdown(output.content)}`,
+      });
+    }
+  }
+
+  if (options.siblings) {
+    for (const sibling of await noteQueries.getSiblings(note.id, MAX_SIBLINGS)) {
+      const text = tiptapToMarkdown(sibling.content);
+      if (!text) continue;
+      candidates.push({
+        kind: 'sibling',
+        id: sibling.id,
+        title: noteTitle(sibling),
+        text: `Related note "${noteTitle(sibling)}":\n${text}`,
+      });
+    }
+  }
+
+  // Fill the budget in priority order; truncate the item that crosses it and drop the rest
+  const items: ContextItem[] = [];
+  const sections: string[] = [];
+  let remaining = tokenBudget;
+
+  for (const candidate of candidates) {
+    let text = candidate.text;
+    let tokens = estimateTokens(text);
+    let truncated = false;
+
+    if (tokens > remaining) {
+      if (remaining < MIN_TRUNCATED_TOKENS) break;
+      text = `${text.substring(0, remaining * 4 - 15)}... [truncated]`;
+      tokens = estimateTokens(text);
+      truncated = true;
+    }
+
+    sections.push(text);
+    items.push({ kind: candidate.kind, id: candidate.id, title: candidate.title, tokens, truncated });
+    remaining -= tokens;
+
+    if (truncated) break;
+  }
+
+  return {
+    text: sections.join('\n\n'),
+    items,
+    tokenBudget,
+    tokensUsed: tokenBudget - remaining,
+  };
+}
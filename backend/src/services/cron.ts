@@ -0,0 +1,172 @@
+/**
+ * Cron expressions for the scheduler
+ * The standard five fields - minute, hour, day of month, month, day of week - with *, lists
+ * (1,15), ranges (1-5), steps (*\/15, 9-17/2) and month or day names (JAN, MON), plus the
+ * @hourly, @daily, @weekly, @monthly and @yearly shorthands.
+ * Times are in the server's time zone (set TZ to change it). As in cron, when both day fields
+ * are restricted a day matching either of them counts.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // Names for min, min + 1, ...
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES }, // 7 is Sunday as well
+];
+
+// Give up looking for the next run after this many years (e.g. "0 0 30 2 *" never runs)
+const MAX_YEARS_AHEAD = 5;
+
+/**
+ * Parse a single value of a field, by number or name
+ */
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  const number = nameIndex >= 0 ? spec.min + nameIndex : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+
+  if (Number.isNaN(number) || number < spec.min || number > spec.max) {
+    throw new Error(`Invalid ${spec.name} "${value}" (expected ${spec.min}-${spec.max})`);
+  }
+  return number;
+}
+
+/**
+ * Parse one field into the set of values it matches
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!/^\d*$/.test(stepText ?? '') || !(step > 0)) {
+      throw new Error(`Invalid step in ${spec.name} "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [spec.min, spec.max];
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      [start, end] = [parseValue(from, spec), parseValue(to, spec)];
+      if (start > end) {
+        throw new Error(`Invalid range in ${spec.name} "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max; // "5/15" means from 5 on, every 15
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing an Error that says what is wrong with it
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (SHORTHANDS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error('A cron expression needs 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+
+  // 7 and 0 are both Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+/**
+ * Whether a date's day matches the day fields
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time after `after` (to the minute) that a cron expression matches
+ * Throws if the expression is invalid or never matches
+ */
+export function nextCronTime(cron: CronSchedule | string, after: Date): Date {
+  const schedule = typeof cron === 'string' ? parseCron(cron) : cron;
+
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(date);
+  limit.setFullYear(limit.getFullYear() + MAX_YEARS_AHEAD);
+
+  // Skip ahead a month, day or hour at a time until every field matches
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression never matches in the next ${MAX_YEARS_AHEAD} years`);
+}
@@ -0,0 +1,189 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { toMessages } from './llm.js';
+import { LLMError, LLMOverloadedError, LLMTimeoutError, llmErrorFromStatus, parseRetryAfter } from './llm-errors.js';
+import type { LLMInput, LLMOptions, LLMProvider, LLMResult } from './llm.js';
+
+/**
+ * Anthropic Claude provider
+ */
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+// Models offered when a process definition picks one explicitly
+const ANTHROPIC_MODELS = [
+  'claude-sonnet-4-20250514',
+  'claude-opus-4-20250514',
+  'claude-3-5-haiku-20241022',
+];
+
+let client: Anthropic | null = null;
+
+/**
+ * Create the Anthropic client on first use, after dotenv has loaded the API key
+ */
+function getClient(): Anthropic {
+  if (!client) {
+    client = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      maxRetries: 0, // Retries and timeouts are handled in llm.ts
+    });
+  }
+  return client;
+}
+
+/**
+ * Classify an SDK error, keeping the retry-after the API sent
+ */
+function toLLMError(error: any): LLMError {
+  if (error instanceof LLMError) return error;
+
+  const message = `Claude API error: ${error.message}`;
+
+  if (error instanceof Anthropic.APIConnectionTimeoutError) {
+    return new LLMTimeoutError(message);
+  }
+  if (error instanceof Anthropic.APIError && error.status) {
+    const headers = error.headers ?? {};
+    return llmErrorFromStatus(error.status, message, parseRetryAfter(headers['retry-after'], headers['retry-after-ms']));
+  }
+  // Errors sent mid-stream arrive without a status
+  if (/overloaded/i.test(error.message)) {
+    return new LLMOverloadedError(message);
+  }
+
+  return new LLMError(message);
+}
+
+/**
+ * Call Claude API with a prompt and return the response
+ * @param prompt - The user prompt, or the conversation so far, to send to Claude
+ * @param options - Optional configuration for the API call
+ */
+export async function callClaude(
+  prompt: LLMInput,
+  options?: LLMOptions
+): Promise<LLMResult> {
+  const {
+    model = DEFAULT_MODEL,
+    maxTokens = 4096,
+    temperature = 1.0,
+    systemPrompt,
+    signal,
+  } = options || {};
+
+  try {
+    console.log('Calling Claude API...');
+
+    const messages: Anthropic.MessageParam[] = toMessages(prompt);
+
+    const requestParams: Anthropic.MessageCreateParams = {
+      model,
+      max_tokens: maxTokens,
+      temperature,
+      messages,
+    };
+
+    // Add system prompt if provided
+    if (systemPrompt) {
+      requestParams.system = systemPrompt;
+    }
+
+    const response = await getClient().messages.create(requestParams, { signal });
+
+    // Extract text content from the response
+    const textContent = response.content.find((c) => c.type === 'text');
+
+    if (!textContent || textContent.type !== 'text') {
+      throw new Error('No text content in Claude response');
+    }
+
+    const result: LLMResult = {
+      content: textContent.text,
+      tokensUsed: {
+        input: response.usage.input_tokens,
+        output: response.usage.output_tokens,
+        total: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      model: response.model,
+      provider: 'anthropic',
+    };
+
+    console.log(
+      `✓ Claude API call successful (${result.tokensUsed.total} tokens)`
+    );
+
+    return result;
+  } catch (error: any) {
+    console.error('Error calling Claude API:', error.message);
+    throw toLLMError(error);
+  }
+}
+
+/**
+ * Stream Claude API responses, invoking onChunk for every text delta
+ * Resolves with the complete result once the message has finished
+ */
+export async function callClaudeStream(
+  prompt: LLMInput,
+  onChunk: (chunk: string) => void,
+  options?: LLMOptions
+): Promise<LLMResult> {
+  const {
+    model = DEFAULT_MODEL,
+    maxTokens = 4096,
+    temperature = 1.0,
+    systemPrompt,
+    signal,
+  } = options || {};
+
+  try {
+    console.log('Streaming from Claude API...');
+
+    const stream = getClient().messages.stream({
+      model,
+      max_tokens: maxTokens,
+      temperature,
+      messages: toMessages(prompt),
+      ...(systemPrompt ? { system: systemPrompt } : {}),
+    }, { signal });
+
+    stream.on('text', (delta) => onChunk(delta));
+
+    const response = await stream.finalMessage();
+
+    const content = response.content
+      .filter((c) => c.type === 'text')
+      .map((c) => c.text)
+      .join('');
+
+    const result: LLMResult = {
+      content,
+      tokensUsed: {
+        input: response.usage.input_tokens,
+        output: response.usage.output_tokens,
+        total: response.usage.input_tokens + response.usage.output_tokens,
+      },
+      model: response.model,
+      provider: 'anthropic',
+    };
+
+    console.log(
+      `✓ Claude API stream complete (${result.tokensUsed.total} tokens)`
+    );
+
+    return result;
+  } catch (error: any) {
+    console.error('Error streaming from Claude API:', error.message);
+    throw toLLMError(error);
+  }
+}
+
+/**
+ * Anthropic provider - the default when LLM_PROVIDER is not set
+ */
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  complete: callClaude,
+  stream: callClaudeStream,
+  listModels: async () => ANTHROPIC_MODELS,
+};
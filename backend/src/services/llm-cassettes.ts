@@ -0,0 +1,184 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { toMessages } from './llm.js';
+import type { LLMInput, LLMMessage, LLMOptions, LLMProvider, LLMResult, ProviderName } from './llm.js';
+import { LLMCassetteMissError } from './llm-errors.js';
+
+/**
+ * Record-and-replay LLM cassettes
+ * With LLM_MODE=record every call goes to the real provider and is saved, with its result, as a
+ * JSON file named after a hash of the request. With LLM_MODE=replay calls are answered from
+ * those files without touching the network, so regression tests can run against real model
+ * output offline - a request that was never recorded fails instead of calling the provider.
+ */
+
+// backend/cassettes, from both src/services and dist/services
+const DEFAULT_CASSETTE_DIR = fileURLToPath(new URL('../../cassettes', import.meta.url));
+
+// Replayed streams arrive in chunks of this many characters
+const REPLAY_CHUNK_SIZE = 40;
+
+// The parts of a call that decide its output - the cassette key is a hash of these
+export interface CassetteRequest {
+  provider: ProviderName;
+  messages: LLMMessage[];
+  model: string | null; // null is the provider default
+  maxTokens: number | null;
+  temperature: number | null;
+  systemPrompt: string | null;
+}
+
+export interface Cassette {
+  key: string;
+  request: CassetteRequest;
+  result: LLMResult;
+  recordedAt: string;
+}
+
+/**
+ * Directory cassettes are read from and written to (LLM_CASSETTE_DIR, or backend/cassettes)
+ */
+export function getCassetteDir(): string {
+  return process.env.LLM_CASSETTE_DIR ? path.resolve(process.env.LLM_CASSETTE_DIR) : DEFAULT_CASSETTE_DIR;
+}
+
+/**
+ * The request a cassette is recorded for - the abort signal and usage context don't change
+ * the output, so they are left out
+ */
+export function cassetteRequest(provider: ProviderName, prompt: LLMInput, options: LLMOptions = {}): CassetteRequest {
+  return {
+    provider,
+    messages: toMessages(prompt),
+    model: options.model ?? null,
+    maxTokens: options.maxTokens ?? null,
+    temperature: options.temperature ?? null,
+    systemPrompt: options.systemPrompt ?? null,
+  };
+}
+
+/**
+ * Hash identifying a request, used as the cassette's file name
+ */
+export function cassetteKey(request: CassetteRequest): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+/**
+ * Read the cassette recorded under a key, or null if there is none
+ */
+async function readCassette(dir: string, key: string): Promise<Cassette | null> {
+  try {
+    return JSON.parse(await readFile(path.join(dir, `${key}.json`), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Save a cassette, replacing any earlier recording of the same request
+ * Written to a temporary file first so a replay never sees half a cassette
+ */
+async function writeCassette(dir: string, cassette: Cassette): Promise<void> {
+  await mkdir(dir, { recursive: true });
+
+  const file = path.join(dir, `${cassette.key}.json`);
+  await writeFile(`${file}.tmp`, JSON.stringify(cassette, null, 2) + '\n');
+  await rename(`${file}.tmp`, file);
+}
+
+/**
+ * Create the cassette provider
+ * Given a live provider it records every call; without one it only replays
+ */
+export function createCassetteProvider({
+  name,
+  live,
+  dir = getCassetteDir(),
+}: {
+  name: ProviderName; // Provider the cassettes are (or were) recorded from
+  live: LLMProvider | null;
+  dir?: string;
+}): LLMProvider {
+  /**
+   * Save a live call's result, logging (rather than failing the call) if it can't be written
+   */
+  async function record(request: CassetteRequest, result: LLMResult): Promise<void> {
+    const key = cassetteKey(request);
+    try {
+      await writeCassette(dir, { key, request, result, recordedAt: new Date().toISOString() });
+      console.log(`📼 Recorded LLM cassette ${key.slice(0, 12)}`);
+    } catch (error: any) {
+      console.error(`Failed to record LLM cassette ${key}:`, error.message);
+    }
+  }
+
+  /**
+   * The recorded result for a request, failing loudly if it was never recorded
+   */
+  async function replay(request: CassetteRequest): Promise<LLMResult> {
+    const key = cassetteKey(request);
+    const cassette = await readCassette(dir, key);
+
+    if (!cassette) {
+      const last = request.messages[request.messages.length - 1]?.content ?? '';
+      console.error(`❌ No LLM cassette ${key} in ${dir} for prompt: ${last.slice(0, 200)}`);
+      throw new LLMCassetteMissError(
+        `No cassette recorded for this request (${key}) - record it with LLM_MODE=record`,
+        key
+      );
+    }
+
+    console.log(`📼 Replaying LLM cassette ${key.slice(0, 12)}`);
+    return cassette.result;
+  }
+
+  return {
+    name,
+
+    async complete(prompt: LLMInput, options?: LLMOptions): Promise<LLMResult> {
+      const request = cassetteRequest(name, prompt, options);
+      if (!live) return replay(request);
+
+      const result = await live.complete(prompt, options);
+      await record(request, result);
+      return result;
+    },
+
+    async stream(prompt: LLMInput, onChunk: (chunk: string) => void, options?: LLMOptions): Promise<LLMResult> {
+      const request = cassetteRequest(name, prompt, options);
+
+      if (live) {
+        const result = await live.stream(prompt, onChunk, options);
+        await record(request, result);
+        return result;
+      }
+
+      const result = await replay(request);
+      for (let i = 0; i < result.content.length; i += REPLAY_CHUNK_SIZE) {
+        if (options?.signal?.aborted) {
+          throw new Error('Request was aborted');
+        }
+        onChunk(result.content.slice(i, i + REPLAY_CHUNK_SIZE));
+      }
+      return result;
+    },
+
+    async listModels(): Promise<string[]> {
+      if (live) return live.listModels();
+
+      // The models the recorded calls asked for - picking one replays its cassettes. Calls that
+      // left the model to the provider are keyed without one, so their answering model isn't listed
+      const files = await readdir(dir).catch(() => [] as string[]);
+      const models = new Set<string>();
+      for (const file of files.filter((file) => file.endsWith('.json'))) {
+        const cassette: Cassette = JSON.parse(await readFile(path.join(dir, file), 'utf8'));
+        if (cassette.request.model) models.add(cassette.request.model);
+      }
+      return [...models].sort();
+    },
+  };
+}
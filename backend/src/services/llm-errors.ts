@@ -0,0 +1,160 @@
+/**
+ * Typed errors thrown by the LLM providers
+ * Every provider failure is classified into one of these so callers can decide
+ * whether to retry, what HTTP status to respond with and what to store on the note
+ */
+
+export type LLMErrorCode =
+  | 'LLM_RATE_LIMITED'
+  | 'LLM_OVERLOADED'
+  | 'LLM_AUTH_FAILED'
+  | 'LLM_INVALID_REQUEST'
+  | 'LLM_CONTEXT_TOO_LONG'
+  | 'LLM_TIMEOUT'
+  | 'LLM_PROVIDER_ERROR';
+
+// Short description of each kind of failure, used as the API's error text
+const LLM_ERROR_SUMMARIES: Record<LLMErrorCode, string> = {
+  LLM_RATE_LIMITED: 'The AI provider is rate limiting requests',
+  LLM_OVERLOADED: 'The AI provider is overloaded',
+  LLM_AUTH_FAILED: 'The AI provider rejected the API key',
+  LLM_INVALID_REQUEST: 'The AI provider rejected the request',
+  LLM_CONTEXT_TOO_LONG: 'The note is too long for the model',
+  LLM_TIMEOUT: 'The AI provider took too long to respond',
+  LLM_PROVIDER_ERROR: 'The AI provider returned an error',
+};
+
+/**
+ * Base class - also used as-is for failures that don't fit a more specific class
+ * (5xx responses, dropped connections), which are worth retrying
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly code: LLMErrorCode = 'LLM_PROVIDER_ERROR',
+    public readonly retryable: boolean = true,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  /**
+   * Structured error body returned by the API
+   */
+  toJSON() {
+    return {
+      error: LLM_ERROR_SUMMARIES[this.code],
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+    };
+  }
+}
+
+/**
+ * The provider's rate limit was hit (HTTP 429)
+ */
+export class LLMRateLimitedError extends LLMError {
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super(message, 'LLM_RATE_LIMITED', true, retryAfterMs);
+    this.name = 'LLMRateLimitedError';
+  }
+}
+
+/**
+ * The provider is temporarily overloaded (Anthropic 529, or 503)
+ */
+export class LLMOverloadedError extends LLMError {
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super(message, 'LLM_OVERLOADED', true, retryAfterMs);
+    this.name = 'LLMOverloadedError';
+  }
+}
+
+/**
+ * The API key is missing, invalid or not allowed to use the model
+ */
+export class LLMAuthError extends LLMError {
+  constructor(message: string) {
+    super(message, 'LLM_AUTH_FAILED', false);
+    this.name = 'LLMAuthError';
+  }
+}
+
+/**
+ * The provider rejected the request itself, e.g. an unknown model or bad parameter
+ */
+export class LLMInvalidRequestError extends LLMError {
+  constructor(message: string) {
+    super(message, 'LLM_INVALID_REQUEST', false);
+    this.name = 'LLMInvalidRequestError';
+  }
+}
+
+/**
+ * Replaying cassettes (LLM_MODE=replay) and none was recorded for the request
+ */
+export class LLMCassetteMissError extends LLMInvalidRequestError {
+  constructor(message: string, public readonly key: string) {
+    super(message);
+    this.name = 'LLMCassetteMissError';
+  }
+}
+
+/**
+ * The prompt is bigger than the model's context window
+ */
+export class LLMContextTooLongError extends LLMError {
+  constructor(message: string) {
+    super(message, 'LLM_CONTEXT_TOO_LONG', false);
+    this.name = 'LLMContextTooLongError';
+  }
+}
+
+/**
+ * No response (or, when streaming, no new output) within LLM_TIMEOUT_MS
+ */
+export class LLMTimeoutError extends LLMError {
+  constructor(message: string) {
+    super(message, 'LLM_TIMEOUT', true);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+const CONTEXT_TOO_LONG = /prompt is too long|context length|context window|maximum context|too many tokens/i;
+
+/**
+ * Parse a retry-after (seconds or HTTP date) or retry-after-ms header into milliseconds
+ */
+export function parseRetryAfter(retryAfter?: string | null, retryAfterMs?: string | null): number | null {
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify a provider's HTTP error response
+ * Shared by every provider so the same status means the same error everywhere
+ */
+export function llmErrorFromStatus(status: number, message: string, retryAfterMs: number | null = null): LLMError {
+  if (status === 429) return new LLMRateLimitedError(message, retryAfterMs);
+  if (status === 529 || status === 503) return new LLMOverloadedError(message, retryAfterMs);
+  if (status === 401 || status === 403) return new LLMAuthError(message);
+  if (status === 408 || status === 504) return new LLMTimeoutError(message);
+  if (status === 400 || status === 404 || status === 413 || status === 422) {
+    return CONTEXT_TOO_LONG.test(message) || status === 413
+      ? new LLMContextTooLongError(message)
+      : new LLMInvalidRequestError(message);
+  }
+  return new LLMError(message, 'LLM_PROVIDER_ERROR', status >= 500);
+}
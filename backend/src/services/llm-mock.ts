@@ -1,11 +1,15 @@
-import { LLMResult } from './llm.js';
+import { getProviderName, inputText } from './llm.js';
+import type { LLMInput, LLMOptions, LLMProvider, LLMResult } from './llm.js';
+import { MOCK_ERRORS, takeScenario, MockScenario } from './llm-scenarios.js';
 
 /**
  * Mock LLM service for testing without making actual API calls
- * Returns predefined responses based on process type
+ * Returns predefined responses based on the call's process type, unless a queued scenario
+ * (see services/llm-scenarios.ts) scripts the call, or a simulated provider error when the
+ * prompt contains a [mock-error:...] marker
  */
 
-const MOCK_RESPONSES: Record<string, string> = {
+export const MOCK_RESPONSES: Record<string, string> = {
   research: `# Research Summary
 
 ## Key Concepts
@@ -159,47 +163,284 @@ The goal is to implement comprehensive testing for the AI notes application with
 2. **Timing issues in tests** - Solution: Use proper Playwright waiters
 3. **Database state management** - Solution: Reset database between tests
 `,
+
+  chat: `Good question. Building on the note and my earlier response:
+
+- The main point still holds, but it depends on the details you raised
+- A practical next step is to test the idea on a small scale first
+- Revisit the plan once you have results to compare against
+
+Let me know if you want me to go deeper on any of these.`,
+
+  refine: `# Revised Response
+
+A tighter version of the earlier response, following your instructions.
+
+## Key Points
+
+- The central idea, stated plainly
+- The most important supporting detail
+- One concrete next step`,
+
+  chunk: `## Notes on this part
+
+- The main topic this part covers
+- Key facts and figures mentioned
+- Decisions made and questions left open`,
+};
+
+// Reply for processes with the action_plan output format (see services/action-plans.ts)
+export const MOCK_ACTION_PLAN = {
+  goal: 'Implement comprehensive testing for the AI notes application without requiring external API calls.',
+  steps: [
+    { title: 'Set up the mock LLM service', estimate: '30 minutes', details: 'Canned responses routed by process type' },
+    { title: 'Configure environment variables', estimate: '15 minutes', details: 'Add USE_MOCK_LLM and document it' },
+    { title: 'Install Playwright', estimate: '20 minutes' },
+    { title: 'Write end-to-end tests', estimate: '2-3 hours', details: 'Note creation, AI processing, tree navigation and deletion' },
+    { title: 'Run and validate the tests', estimate: '30 minutes' },
+    { title: 'Update the documentation', estimate: '20 minutes', details: 'Testing guide and mock usage' },
+  ],
+  prerequisites: ['Docker and Docker Compose installed', 'Node.js 20+ for local development'],
+  success_criteria: ['All tests pass without external API calls', 'Tests complete in under 2 minutes'],
+  obstacles: [
+    { obstacle: 'Timing issues in tests', solution: 'Use proper Playwright waiters' },
+    { obstacle: 'Database state management', solution: 'Reset the database between tests' },
+  ],
 };
 
+// Structured prompts end with this instruction (see buildFormatInstructions in services/structured.ts)
+const MOCK_JSON_INSTRUCTION = 'matches this JSON schema';
+
+// [mock-invalid-json] makes the first structured reply unusable, to exercise the repair request
+const MOCK_INVALID_JSON_MARKER = /\\?\[mock-invalid-json\\?\]/;
+
+// Time before the reply (or first streamed chunk), unless a scenario says otherwise
+const MOCK_DELAY_MS = 500;
+
+// Streaming chunk size (characters) and delay between chunks
+const MOCK_STREAM_CHUNK_SIZE = 24;
+const MOCK_STREAM_CHUNK_DELAY_MS = 30;
+
 /**
- * Mock implementation of callClaude that returns predetermined responses
+ * Wait for the given time, rejecting early if the request is aborted
  */
-export async function callClaudeMock(prompt: string): Promise<LLMResult> {
-  // Simulate API delay (faster than real API for testing)
-  await new Promise((resolve) => setTimeout(resolve, 500));
-
-  // Determine process type from prompt
-  let processType = 'research'; // default
-  if (prompt.toLowerCase().includes('summarize')) {
-    processType = 'summarize';
-  } else if (prompt.toLowerCase().includes('expand')) {
-    processType = 'expand';
-  } else if (prompt.toLowerCase().includes('action plan')) {
-    processType = 'actionplan';
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new Error('Request was aborted'));
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request was aborted'));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// e.g. [mock-error:overloaded] fails every call, [mock-error:overloaded:2] only the first two
+// (the brackets may be escaped, as note content reaches the prompt as markdown)
+const MOCK_ERROR_MARKER = /\\?\[mock-error:([a-z_]+)(?::(\d+))?\\?\]/;
+
+// How many times each prompt has failed so far, for markers with a count
+const mockFailures = new Map<string, number>();
+
+/**
+ * Throw the error requested by a [mock-error:...] marker in the prompt, if any
+ */
+function simulateMockError(input: LLMInput): void {
+  const prompt = inputText(input);
+  const match = prompt.match(MOCK_ERROR_MARKER);
+  if (!match || !MOCK_ERRORS[match[1]]) return;
+
+  const failures = mockFailures.get(prompt) ?? 0;
+  if (match[2] !== undefined && failures >= parseInt(match[2], 10)) {
+    mockFailures.delete(prompt);
+    return;
   }
 
-  const content = MOCK_RESPONSES[processType] || MOCK_RESPONSES.research;
+  mockFailures.set(prompt, failures + 1);
+  console.log(`🧪 Mock LLM simulating ${match[1]} error`);
+  throw MOCK_ERRORS[match[1]]();
+}
+
+/**
+ * Title a note the way its tree entry read before titles: its first line, without markdown
+ */
+function mockTitle(prompt: string): string {
+  const note = prompt.slice(prompt.indexOf('\n\n') + 2);
+  const line = note.split('\n').find((l) => l.trim()) ?? 'Untitled note';
+  return line.replace(/^\s*(#+|[-*>]|\d+\.)\s+/, '').replace(/[*_`\\]/g, '').trim().slice(0, 60);
+}
+
+/**
+ * Answer a question from notes, citing the first two notes in the prompt (see services/ask.ts)
+ */
+function mockAnswer(prompt: string): string {
+  const [first, second] = [...prompt.matchAll(/<note id="([0-9a-f-]{36})"/g)].map(([, id]) => id);
+  const more = second ? ` Another note adds related detail [note:${second}].` : '';
+  return `Based on your notes, the main point is covered in one of them [note:${first}].${more}
+
+This answer was generated by the mock LLM service from the notes that best matched the question.`;
+}
+
+/**
+ * What kind of reply a call gets: its process type (from the usage context it was made with),
+ * unless the shape of the call says otherwise - a structured prompt, a revision or chat
+ * conversation, or the map step of a long note
+ */
+function resolveProcessType(input: LLMInput, processType: string | null): string {
+  const prompt = inputText(input);
+  const isConversation = typeof input !== 'string' && input.length > 1;
+
+  if (prompt.includes(MOCK_JSON_INSTRUCTION)) {
+    // Answer with prose the first time if asked to, then with the plan
+    const isRepair = isConversation && input.some((message) => message.role === 'assistant');
+    return MOCK_INVALID_JSON_MARKER.test(prompt) && !isRepair ? 'invalid_json' : 'structured';
+  }
+  if (isConversation) {
+    return input[input.length - 1].content.startsWith('Revise your response') ? 'refine' : 'chat';
+  }
+  if (prompt.startsWith('This is part ')) {
+    return 'chunk'; // Map step of a long note, made with its note's process type
+  }
+  return processType ?? 'research';
+}
+
+/**
+ * The canned reply for a kind of call
+ */
+function cannedResponse(processType: string, prompt: string): string {
+  switch (processType) {
+    case 'title':
+      return mockTitle(prompt); // See services/titles.ts
+    case 'ask':
+      return mockAnswer(prompt);
+    case 'structured':
+      return `\`\`\`json\n${JSON.stringify(MOCK_ACTION_PLAN, null, 2)}\n\`\`\``;
+    case 'invalid_json':
+      return 'Here is the plan you asked for: first set up the mocks, then write the tests.';
+    default:
+      return MOCK_RESPONSES[processType] || MOCK_RESPONSES.research;
+  }
+}
+
+/**
+ * Build the reply for a call and compute realistic token counts
+ */
+function buildMockResult(
+  input: LLMInput,
+  options: LLMOptions,
+  scenario: MockScenario | null
+): { processType: string; result: LLMResult } {
+  const prompt = inputText(input);
+  const processType = resolveProcessType(input, options.usage?.processType ?? null);
+  const content = scenario?.response ?? cannedResponse(processType, prompt);
 
   // Simulate realistic token counts
   const inputTokens = Math.floor(prompt.length / 4);
   const outputTokens = Math.floor(content.length / 4);
 
-  console.log(`✓ Mock LLM call (${processType}) - ${inputTokens + outputTokens} tokens`);
-
   return {
-    content,
-    tokensUsed: {
-      input: inputTokens,
-      output: outputTokens,
-      total: inputTokens + outputTokens,
+    processType,
+    result: {
+      content,
+      tokensUsed: {
+        input: inputTokens,
+        output: outputTokens,
+        total: inputTokens + outputTokens,
+      },
+      model: 'claude-sonnet-4-mock',
+      provider: 'mock',
     },
-    model: 'claude-sonnet-4-mock',
   };
 }
 
+/**
+ * Wait as a real provider would, then fail if the scenario or a [mock-error:...] marker says to
+ * Returns the scenario scripting the call, if any
+ */
+async function startMockCall(prompt: LLMInput, options: LLMOptions): Promise<MockScenario | null> {
+  const scenario = takeScenario(options.usage?.processType ?? null, inputText(prompt));
+  if (scenario) {
+    console.log(`🧪 Mock LLM following scenario ${scenario.id}`);
+  }
+
+  // Simulate API delay (faster than real API for testing)
+  await delay(scenario?.delayMs ?? MOCK_DELAY_MS, options.signal);
+
+  if (scenario?.error) {
+    console.log(`🧪 Mock LLM simulating ${scenario.error} error`);
+    throw MOCK_ERRORS[scenario.error]();
+  }
+  if (!scenario) {
+    simulateMockError(prompt);
+  }
+
+  return scenario;
+}
+
+/**
+ * Mock implementation of callClaude that returns predetermined responses
+ */
+export async function callClaudeMock(prompt: LLMInput, options: LLMOptions = {}): Promise<LLMResult> {
+  console.log('🧪 Using mock LLM service');
+
+  const scenario = await startMockCall(prompt, options);
+  const { processType, result } = buildMockResult(prompt, options, scenario);
+
+  console.log(`✓ Mock LLM call (${processType}) - ${result.tokensUsed.total} tokens`);
+
+  return result;
+}
+
+/**
+ * Mock implementation of callClaudeStream that emits the response in chunks
+ */
+export async function callClaudeMockStream(
+  prompt: LLMInput,
+  onChunk: (chunk: string) => void,
+  options: LLMOptions = {}
+): Promise<LLMResult> {
+  console.log('🧪 Using mock LLM service (streaming)');
+
+  // Simulate time to first token
+  const scenario = await startMockCall(prompt, options);
+  const { processType, result } = buildMockResult(prompt, options, scenario);
+
+  const chunkSize = scenario?.chunkSize ?? MOCK_STREAM_CHUNK_SIZE;
+  const chunkDelayMs = scenario?.chunkDelayMs ?? MOCK_STREAM_CHUNK_DELAY_MS;
+
+  for (let i = 0; i < result.content.length; i += chunkSize) {
+    onChunk(result.content.slice(i, i + chunkSize));
+    await delay(chunkDelayMs, options.signal);
+  }
+
+  console.log(`✓ Mock LLM stream (${processType}) - ${result.tokensUsed.total} tokens`);
+
+  return result;
+}
+
+/**
+ * Mock provider - selected with LLM_MODE=mock (or, without LLM_MODE, LLM_PROVIDER=mock or USE_MOCK_LLM=true)
+ */
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  complete: (prompt: LLMInput, options?: LLMOptions) => callClaudeMock(prompt, options),
+  stream: (prompt: LLMInput, onChunk: (chunk: string) => void, options?: LLMOptions) =>
+    callClaudeMockStream(prompt, onChunk, options),
+  listModels: async () => ['claude-sonnet-4-mock'],
+};
+
 /**
  * Check if mock mode is enabled
  */
 export function isMockEnabled(): boolean {
-  return process.env.USE_MOCK_LLM === 'true';
+  return getProviderName() === 'mock';
 }
@@ -0,0 +1,239 @@
+import { estimateTokens, inputText, toMessages } from './llm.js';
+import type { LLMInput, LLMOptions, LLMProvider, LLMResult } from './llm.js';
+import { LLMError, llmErrorFromStatus, parseRetryAfter } from './llm-errors.js';
+
+/**
+ * Generic OpenAI-compatible provider
+ * Talks to any server implementing /v1/chat/completions - Ollama, llama.cpp,
+ * vLLM, LM Studio or OpenAI itself - so the app can run fully offline
+ */
+
+interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  model: string;
+  choices: { message: { content: string | null } }[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+function getBaseUrl(): string {
+  return (process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+}
+
+function getHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  // Local servers usually ignore the key, hosted ones require it
+  if (process.env.OPENAI_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Build the chat completion request body shared by both call styles
+ */
+function buildRequestBody(prompt: LLMInput, options: LLMOptions, stream: boolean) {
+  const {
+    model = process.env.OPENAI_MODEL,
+    maxTokens = 4096,
+    temperature = 1.0,
+    systemPrompt,
+  } = options;
+
+  const messages = [
+    ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+    ...toMessages(prompt),
+  ];
+
+  return {
+    model,
+    max_tokens: maxTokens,
+    temperature,
+    messages,
+    stream,
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+  };
+}
+
+/**
+ * Wrap anything that isn't already classified (network failures, bad JSON) as a retryable provider error
+ */
+function toLLMError(error: any): LLMError {
+  return error instanceof LLMError ? error : new LLMError(`OpenAI-compatible API error: ${error.message}`);
+}
+
+/**
+ * POST to /chat/completions and throw a classified error on a non-2xx response
+ */
+async function postChatCompletion(
+  prompt: LLMInput,
+  options: LLMOptions,
+  stream: boolean
+): Promise<Response> {
+  const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify(buildRequestBody(prompt, options, stream)),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw llmErrorFromStatus(
+      response.status,
+      `OpenAI-compatible API error: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`,
+      parseRetryAfter(response.headers.get('retry-after'), response.headers.get('retry-after-ms'))
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Convert usage reported by the server, falling back to an estimate
+ * for servers that do not report token counts
+ */
+function toTokensUsed(
+  usage: ChatCompletionUsage | null | undefined,
+  prompt: LLMInput,
+  content: string
+): LLMResult['tokensUsed'] {
+  const input = usage?.prompt_tokens ?? estimateTokens(inputText(prompt));
+  const output = usage?.completion_tokens ?? estimateTokens(content);
+  return { input, output, total: input + output };
+}
+
+/**
+ * Call an OpenAI-compatible chat completion endpoint and return the response
+ */
+export async function callOpenAI(prompt: LLMInput, options: LLMOptions = {}): Promise<LLMResult> {
+  try {
+    console.log(`Calling OpenAI-compatible API at ${getBaseUrl()}...`);
+
+    const response = await postChatCompletion(prompt, options, false);
+    const data = (await response.json()) as ChatCompletionResponse;
+
+    const content = data.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No text content in chat completion response');
+    }
+
+    const result: LLMResult = {
+      content,
+      tokensUsed: toTokensUsed(data.usage, prompt, content),
+      model: data.model,
+      provider: 'openai',
+    };
+
+    console.log(`✓ OpenAI-compatible API call successful (${result.tokensUsed.total} tokens)`);
+
+    return result;
+  } catch (error: any) {
+    console.error('Error calling OpenAI-compatible API:', error.message);
+    throw toLLMError(error);
+  }
+}
+
+/**
+ * Stream an OpenAI-compatible chat completion, invoking onChunk for every text delta
+ * The server sends Server-Sent Events: one "data: {chunk}" line per delta, then "data: [DONE]"
+ */
+export async function callOpenAIStream(
+  prompt: LLMInput,
+  onChunk: (chunk: string) => void,
+  options: LLMOptions = {}
+): Promise<LLMResult> {
+  try {
+    console.log(`Streaming from OpenAI-compatible API at ${getBaseUrl()}...`);
+
+    const response = await postChatCompletion(prompt, options, true);
+    if (!response.body) {
+      throw new Error('Response has no body to stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let model = options.model || process.env.OPENAI_MODEL || 'unknown';
+    let usage: ChatCompletionUsage | null | undefined;
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) usage = chunk.usage;
+
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onChunk(delta);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach((line) => handleLine(line.trim()));
+    }
+    handleLine(buffer.trim());
+
+    const result: LLMResult = {
+      content,
+      tokensUsed: toTokensUsed(usage, prompt, content),
+      model,
+      provider: 'openai',
+    };
+
+    console.log(`✓ OpenAI-compatible API stream complete (${result.tokensUsed.total} tokens)`);
+
+    return result;
+  } catch (error: any) {
+    console.error('Error streaming from OpenAI-compatible API:', error.message);
+    throw toLLMError(error);
+  }
+}
+
+/**
+ * List the models the server has available via GET /models
+ */
+async function listOpenAIModels(): Promise<string[]> {
+  const response = await fetch(`${getBaseUrl()}/models`, { headers: getHeaders() });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as { data: { id: string }[] };
+  return data.data.map((model) => model.id);
+}
+
+/**
+ * OpenAI-compatible provider - selected with LLM_PROVIDER=openai
+ */
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+  complete: callOpenAI,
+  stream: callOpenAIStream,
+  listModels: listOpenAIModels,
+};
@@ -0,0 +1,97 @@
+import { randomUUID } from 'node:crypto';
+import {
+  LLMError,
+  LLMRateLimitedError,
+  LLMOverloadedError,
+  LLMAuthError,
+  LLMInvalidRequestError,
+  LLMContextTooLongError,
+  LLMTimeoutError,
+} from './llm-errors.js';
+
+/**
+ * Mock LLM scenarios
+ * End-to-end tests queue scenarios (through /api/test/llm-scenarios) to script what the mock LLM
+ * does: reply with a given response, fail with a provider error, answer slowly or stream in
+ * chunks at a set pace. Each call takes the first queued scenario that matches its process type
+ * and prompt; calls that match none get the mock's canned responses.
+ */
+
+// Errors the mock can simulate, by the name used in scenarios and [mock-error:...] markers
+export const MOCK_ERRORS: Record<string, () => LLMError> = {
+  rate_limited: () => new LLMRateLimitedError('Mock rate limit exceeded', 1000),
+  overloaded: () => new LLMOverloadedError('Mock provider overloaded'),
+  auth: () => new LLMAuthError('Mock invalid API key'),
+  invalid_request: () => new LLMInvalidRequestError('Mock invalid request'),
+  context_too_long: () => new LLMContextTooLongError('Mock prompt is too long'),
+  timeout: () => new LLMTimeoutError('Mock request timed out'),
+  provider_error: () => new LLMError('Mock internal server error'),
+};
+
+export interface MockScenarioInput {
+  processType: string | null; // Only calls for this process type (as recorded in the usage ledger)
+  promptPattern: string | null; // Only calls whose prompt matches this regular expression
+  response: string | null; // Reply with this instead of the canned response
+  error: string | null; // Fail with this MOCK_ERRORS error instead of replying
+  delayMs: number | null; // Time before the reply (or first streamed chunk)
+  chunkSize: number | null; // Characters per streamed chunk
+  chunkDelayMs: number | null; // Time between streamed chunks
+  times: number; // How many calls the scenario answers before it is used up
+}
+
+export interface MockScenario extends MockScenarioInput {
+  id: string;
+  remaining: number; // Calls left before the scenario is used up
+  createdAt: string;
+}
+
+// Queued scenarios, oldest first, with their compiled prompt patterns
+const scenarios: { scenario: MockScenario; pattern: RegExp | null }[] = [];
+
+/**
+ * Queue a scenario after the ones already waiting
+ */
+export function addScenario(input: MockScenarioInput): MockScenario {
+  const scenario: MockScenario = {
+    id: randomUUID(),
+    ...input,
+    remaining: input.times,
+    createdAt: new Date().toISOString(),
+  };
+
+  scenarios.push({ scenario, pattern: input.promptPattern ? new RegExp(input.promptPattern) : null });
+  return scenario;
+}
+
+/**
+ * The scenarios still waiting, oldest first
+ */
+export function listScenarios(): MockScenario[] {
+  return scenarios.map(({ scenario }) => ({ ...scenario }));
+}
+
+/**
+ * Drop every queued scenario, returning how many there were
+ */
+export function clearScenarios(): number {
+  return scenarios.splice(0).length;
+}
+
+/**
+ * Use up one call of the first scenario matching an LLM call, if any
+ */
+export function takeScenario(processType: string | null, prompt: string): MockScenario | null {
+  const index = scenarios.findIndex(
+    ({ scenario, pattern }) =>
+      (scenario.processType === null || scenario.processType === processType) && (!pattern || pattern.test(prompt))
+  );
+  if (index === -1) return null;
+
+  const { scenario } = scenarios[index];
+  scenario.remaining--;
+  if (scenario.remaining <= 0) {
+    scenarios.splice(index, 1);
+  }
+
+  return { ...scenario };
+}
@@ -1,9 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
-
-// Initialize the Anthropic client
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { usageQueries } from '../database.js';
+import { getModelPricing } from './pricing.js';
+import { LLMError, LLMTimeoutError } from './llm-errors.js';
 
 // Type for LLM result
 export interface LLMResult {
@@ -14,93 +11,168 @@ export interface LLMResult {
     total: number;
   };
   model: string;
+  provider: ProviderName; // Which provider served the call
+}
+
+// Options accepted by every LLM call
+export interface LLMOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  systemPrompt?: string;
+  signal?: AbortSignal; // Aborts the in-flight request when triggered
+  usage?: UsageContext; // Attributes the call in the usage ledger
+}
+
+// What an LLM call is recorded against in the usage ledger
+export interface UsageContext {
+  noteId?: string | null;
+  processType?: string | null;
+}
+
+export type ProviderName = 'anthropic' | 'openai' | 'mock';
+
+// A turn in a multi-turn conversation
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
 }
 
+// What an LLM call is given: a single prompt, or a conversation ending in a user turn
+export type LLMInput = string | LLMMessage[];
+
 /**
- * Call Claude API with a prompt and return the response
- * @param prompt - The user prompt to send to Claude
- * @param options - Optional configuration for the API call
+ * A backend that can serve LLM calls
+ * Implementations live in llm-anthropic.ts, llm-openai.ts and llm-mock.ts; llm-cassettes.ts
+ * records and replays them
  */
-export async function callClaude(
-  prompt: string,
-  options?: {
-    model?: string;
-    maxTokens?: number;
-    temperature?: number;
-    systemPrompt?: string;
-  }
-): Promise<LLMResult> {
-  const {
-    model = 'claude-sonnet-4-20250514',
-    maxTokens = 4096,
-    temperature = 1.0,
-    systemPrompt,
-  } = options || {};
+export interface LLMProvider {
+  name: ProviderName;
+  complete(prompt: LLMInput, options?: LLMOptions): Promise<LLMResult>;
+  stream(
+    prompt: LLMInput,
+    onChunk: (chunk: string) => void,
+    options?: LLMOptions
+  ): Promise<LLMResult>;
+  listModels(): Promise<string[]>;
+}
 
-  try {
-    console.log('Calling Claude API...');
+const PROVIDER_NAMES: ProviderName[] = ['anthropic', 'openai', 'mock'];
 
-    const messages: Anthropic.MessageParam[] = [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ];
+// Environment variables each provider needs at startup
+const PROVIDER_ENV_VARS: Record<ProviderName, string[]> = {
+  anthropic: ['ANTHROPIC_API_KEY'],
+  openai: ['OPENAI_BASE_URL', 'OPENAI_MODEL'],
+  mock: [],
+};
 
-    const requestParams: Anthropic.MessageCreateParams = {
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      messages,
-    };
-
-    // Add system prompt if provided
-    if (systemPrompt) {
-      requestParams.system = systemPrompt;
-    }
+/**
+ * How LLM calls are served
+ * - live: the provider from LLM_PROVIDER
+ * - mock: canned responses (see llm-mock.ts)
+ * - record: the provider from LLM_PROVIDER, saving every call as a cassette (see llm-cassettes.ts)
+ * - replay: saved cassettes only, without calling a provider
+ */
+export type LLMMode = 'live' | 'mock' | 'record' | 'replay';
 
-    const response = await client.messages.create(requestParams);
+const LLM_MODES: LLMMode[] = ['live', 'mock', 'record', 'replay'];
 
-    // Extract text content from the response
-    const textContent = response.content.find((c) => c.type === 'text');
+let provider: LLMProvider | null = null;
 
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in Claude response');
+/**
+ * Resolve the configured mode from LLM_MODE
+ * Without it, USE_MOCK_LLM=true or LLM_PROVIDER=mock still select the mock
+ */
+export function getLLMMode(): LLMMode {
+  if (process.env.LLM_MODE) {
+    const mode = process.env.LLM_MODE.toLowerCase() as LLMMode;
+    if (!LLM_MODES.includes(mode)) {
+      throw new Error(`Unknown LLM_MODE "${process.env.LLM_MODE}" (expected one of: ${LLM_MODES.join(', ')})`);
     }
+    return mode;
+  }
 
-    const result: LLMResult = {
-      content: textContent.text,
-      tokensUsed: {
-        input: response.usage.input_tokens,
-        output: response.usage.output_tokens,
-        total: response.usage.input_tokens + response.usage.output_tokens,
-      },
-      model: response.model,
-    };
+  if (process.env.USE_MOCK_LLM === 'true' || process.env.LLM_PROVIDER?.toLowerCase() === 'mock') {
+    return 'mock';
+  }
+  return 'live';
+}
 
-    console.log(
-      `✓ Claude API call successful (${result.tokensUsed.total} tokens)`
+/**
+ * Resolve the configured provider name from LLM_PROVIDER - always the mock in mock mode
+ * In record and replay modes, this is the provider the cassettes come from
+ */
+export function getProviderName(): ProviderName {
+  if (getLLMMode() === 'mock') {
+    return 'mock';
+  }
+
+  const name = (process.env.LLM_PROVIDER || 'anthropic').toLowerCase() as ProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}" (expected one of: ${PROVIDER_NAMES.join(', ')})`
     );
+  }
 
-    return result;
-  } catch (error: any) {
-    console.error('Error calling Claude API:', error.message);
-    throw new Error(`Claude API error: ${error.message}`);
+  return name;
+}
+
+/**
+ * Environment variables required by a provider - none when replaying cassettes
+ */
+export function getRequiredEnvVars(name: ProviderName, mode: LLMMode): string[] {
+  return mode === 'replay' ? [] : PROVIDER_ENV_VARS[name];
+}
+
+/**
+ * Load a provider by name
+ */
+async function loadProvider(name: ProviderName): Promise<LLMProvider> {
+  switch (name) {
+    case 'openai':
+      return (await import('./llm-openai.js')).openaiProvider;
+    case 'mock':
+      return (await import('./llm-mock.js')).mockProvider;
+    default:
+      return (await import('./llm-anthropic.js')).anthropicProvider;
   }
 }
 
 /**
- * Stream Claude API responses (for future implementation)
- * This is a placeholder for streaming support
+ * Load the configured provider (cached after the first call)
+ * Record and replay modes put the cassette provider in front of it
  */
-export async function callClaudeStream(
-  prompt: string,
-  onChunk: (chunk: string) => void
-): Promise<void> {
-  // TODO: Implement streaming for real-time response updates
-  // For POC, we'll use the non-streaming version
-  const result = await callClaude(prompt);
-  onChunk(result.content);
+export async function getProvider(): Promise<LLMProvider> {
+  if (provider) return provider;
+
+  const name = getProviderName();
+  const mode = getLLMMode();
+
+  if (mode === 'record' || mode === 'replay') {
+    const { createCassetteProvider } = await import('./llm-cassettes.js');
+    provider = createCassetteProvider({
+      name,
+      live: mode === 'record' ? await loadProvider(name) : null,
+    });
+  } else {
+    provider = await loadProvider(name);
+  }
+
+  return provider;
+}
+
+/**
+ * The conversation for an LLM call - a plain prompt becomes a single user turn
+ */
+export function toMessages(prompt: LLMInput): LLMMessage[] {
+  return typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+}
+
+/**
+ * All the text sent in an LLM call, for token estimates
+ */
+export function inputText(prompt: LLMInput): string {
+  return typeof prompt === 'string' ? prompt : prompt.map((message) => message.content).join('\n\n');
 }
 
 /**
@@ -112,38 +184,256 @@ export function estimateTokens(text: string): number {
 }
 
 /**
- * Calculate estimated cost for a Claude API call
- * Prices are approximate based on Claude Sonnet 4 pricing
+ * Calculate estimated cost of an LLM call in USD
+ * Prices come from the per-model table in pricing.ts (configurable via LLM_PRICING)
  */
-export function estimateCost(inputTokens: number, outputTokens: number): number {
-  const INPUT_COST_PER_MILLION = 3.0; // $3 per million input tokens
-  const OUTPUT_COST_PER_MILLION = 15.0; // $15 per million output tokens
+export function estimateCost(inputTokens: number, outputTokens: number, model?: string | null): number {
+  const { input, output } = getModelPricing(model);
 
-  const inputCost = (inputTokens / 1_000_000) * INPUT_COST_PER_MILLION;
-  const outputCost = (outputTokens / 1_000_000) * OUTPUT_COST_PER_MILLION;
+  const inputCost = (inputTokens / 1_000_000) * input;
+  const outputCost = (outputTokens / 1_000_000) * output;
 
   return inputCost + outputCost;
 }
 
 /**
- * Get LLM call function - returns real or mock based on environment
+ * Write a call to the usage ledger
+ * Failures are only logged so that accounting never breaks an AI run
  */
-export async function getLLMResponse(
-  prompt: string,
-  options?: {
-    model?: string;
-    maxTokens?: number;
-    temperature?: number;
-    systemPrompt?: string;
+async function recordUsage(
+  providerName: ProviderName,
+  options: LLMOptions | undefined,
+  startedAt: number,
+  outcome: { result: LLMResult } | { error: any }
+): Promise<void> {
+  const result = 'result' in outcome ? outcome.result : null;
+  const input = result?.tokensUsed.input ?? 0;
+  const output = result?.tokensUsed.output ?? 0;
+  const model = result?.model ?? options?.model ?? null;
+
+  try {
+    await usageQueries.record({
+      note_id: options?.usage?.noteId ?? null,
+      process_type: options?.usage?.processType ?? null,
+      provider: providerName,
+      model,
+      input_tokens: input,
+      output_tokens: output,
+      cost_usd: estimateCost(input, output, model),
+      latency_ms: Date.now() - startedAt,
+      success: result !== null,
+      error_message: 'error' in outcome ? outcome.error?.message ?? String(outcome.error) : null,
+    });
+  } catch (error: any) {
+    console.error('Failed to record LLM usage:', error.message);
+  }
+}
+
+/**
+ * Run a provider call and record it in the usage ledger, whether it succeeds or fails
+ * Replayed calls never reach a provider, so they are left out of the ledger (and budgets)
+ */
+async function withUsage(
+  llm: LLMProvider,
+  options: LLMOptions | undefined,
+  call: () => Promise<LLMResult>
+): Promise<LLMResult> {
+  if (getLLMMode() === 'replay') {
+    return call();
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    const result = await call();
+    await recordUsage(llm.name, options, startedAt, { result });
+    return result;
+  } catch (error: any) {
+    await recordUsage(llm.name, options, startedAt, { error });
+    throw error;
+  }
+}
+
+// How transient failures (rate limits, overloads, timeouts, 5xx) are retried
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // Backoff before the first retry, doubling each time
+  maxDelayMs: number; // Longest wait - a longer retry-after fails the call instead
+  timeoutMs: number; // A call (or, when streaming, the gap between chunks) taking longer is abandoned
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3', 10),
+  baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '1000', 10),
+  maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '30000', 10),
+  timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '120000', 10),
+};
+
+/**
+ * How long to wait before retry number `attempt` (counting from 0), or null if the
+ * error should not be retried
+ * The provider's retry-after wins; otherwise exponential backoff with jitter, so that
+ * runs which failed together don't all retry at the same moment
+ */
+export function retryDelayMs(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number | null {
+  if (!(error instanceof LLMError) || !error.retryable || attempt >= policy.maxRetries) {
+    return null;
+  }
+
+  if (error.retryAfterMs !== null) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Wait between retries, rejecting early if the caller aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new Error('Request was aborted'));
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A signal for one attempt that aborts with the caller's signal, or once timeoutMs
+ * passes without touch() being called
+ */
+function createAttemptTimeout(timeoutMs: number, callerSignal?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const onAbort = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', onAbort, { once: true });
   }
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Run an LLM call with a timeout on each attempt, retrying transient failures
+ * canRetry is checked before each retry - a stream that has already sent output is not retried
+ */
+export async function withRetries(
+  call: (signal: AbortSignal, touch: () => void) => Promise<LLMResult>,
+  options: { signal?: AbortSignal; canRetry?: () => boolean } = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
 ): Promise<LLMResult> {
-  const useMock = process.env.USE_MOCK_LLM === 'true';
+  for (let attempt = 0; ; attempt++) {
+    const timeout = createAttemptTimeout(policy.timeoutMs, options.signal);
 
-  if (useMock) {
-    console.log('🧪 Using mock LLM service');
-    const { callClaudeMock } = await import('./llm-mock.js');
-    return callClaudeMock(prompt);
+    try {
+      return await call(timeout.signal, timeout.touch);
+    } catch (error: any) {
+      // Cancelled by the caller - nothing to retry or classify
+      if (options.signal?.aborted) throw error;
+
+      const failure = timeout.timedOut()
+        ? new LLMTimeoutError(`LLM request timed out after ${policy.timeoutMs}ms`)
+        : error;
+
+      const delay = options.canRetry?.() === false ? null : retryDelayMs(failure, attempt, policy);
+      if (delay === null) throw failure;
+
+      console.warn(
+        `LLM call failed (${failure.code}: ${failure.message}) - retry ${attempt + 1} of ${policy.maxRetries} in ${delay}ms`
+      );
+      await sleep(delay, options.signal);
+    } finally {
+      timeout.clear();
+    }
   }
+}
+
+/**
+ * Get LLM response from the configured provider
+ * Every attempt is recorded in the usage ledger; transient failures are retried
+ */
+export async function getLLMResponse(
+  prompt: LLMInput,
+  options?: LLMOptions
+): Promise<LLMResult> {
+  const llm = await getProvider();
+  return withRetries(
+    (signal) => withUsage(llm, options, () => llm.complete(prompt, { ...options, signal })),
+    { signal: options?.signal }
+  );
+}
 
-  return callClaude(prompt, options);
+/**
+ * Get streaming LLM response from the configured provider
+ * A failed stream is only retried if it failed before sending any output
+ */
+export async function getLLMStream(
+  prompt: LLMInput,
+  onChunk: (chunk: string) => void,
+  options?: LLMOptions
+): Promise<LLMResult> {
+  const llm = await getProvider();
+  let streamed = false;
+
+  return withRetries(
+    (signal, touch) =>
+      withUsage(llm, options, () =>
+        llm.stream(
+          prompt,
+          (chunk) => {
+            streamed = true;
+            touch();
+            onChunk(chunk);
+          },
+          { ...options, signal }
+        )
+      ),
+    { signal: options?.signal, canRetry: () => !streamed }
+  );
+}
+
+/**
+ * List the models offered by the configured provider
+ */
+export async function listModels(): Promise<string[]> {
+  const llm = await getProvider();
+  return llm.listModels();
 }
@@ -0,0 +1,473 @@
+import { Lexer, Token, Tokens } from 'marked';
+import { TiptapMark, TiptapNode } from './tiptap.js';
+
+/**
+ * Conversion between Markdown and Tiptap JSON
+ *
+ * Markdown → Tiptap (AI output): marked parses CommonMark + GFM and the tokens are mapped
+ * onto the editor's schema (StarterKit plus links and tables). Constructs the editor has no
+ * node for, such as images, task checkboxes and raw HTML, degrade to text so nothing in a
+ * response is lost
+ *
+ * Tiptap → Markdown (prompts and export): every node and mark is written back out so the
+ * LLM sees the structure the user wrote
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * marked leaves HTML entities in text as written - turn them back into characters
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') {
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    }
+
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+}
+
+function paragraph(content: TiptapNode[]): TiptapNode {
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+}
+
+function withMark(marks: TiptapMark[], mark: TiptapMark): TiptapMark[] {
+  return [...marks.filter((existing) => existing.type !== mark.type), mark];
+}
+
+/**
+ * Map inline tokens (text with emphasis, code, links...) to text nodes carrying marks
+ */
+function inlineNodes(tokens: Token[] | undefined, marks: TiptapMark[] = []): TiptapNode[] {
+  const nodes: TiptapNode[] = [];
+
+  const pushText = (text: string, textMarks: TiptapMark[] = marks) => {
+    // ProseMirror doesn't allow empty text nodes
+    if (!text) return;
+
+    // Join with the previous text node when the marks match
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text' && JSON.stringify(previous.marks ?? []) === JSON.stringify(textMarks)) {
+      previous.text += text;
+      return;
+    }
+
+    nodes.push(textMarks.length > 0 ? { type: 'text', text, marks: textMarks } : { type: 'text', text });
+  };
+
+  for (const token of tokens ?? []) {
+    switch (token.type) {
+      case 'strong':
+        nodes.push(...inlineNodes(token.tokens, withMark(marks, { type: 'bold' })));
+        break;
+      case 'em':
+        nodes.push(...inlineNodes(token.tokens, withMark(marks, { type: 'italic' })));
+        break;
+      case 'del':
+        nodes.push(...inlineNodes(token.tokens, withMark(marks, { type: 'strike' })));
+        break;
+      case 'link':
+        nodes.push(...inlineNodes(token.tokens, withMark(marks, { type: 'link', attrs: { href: token.href } })));
+        break;
+      case 'codespan':
+        // Code is taken literally, and the code mark can't be combined with others in Tiptap
+        pushText(token.text, [{ type: 'code' }]);
+        break;
+      case 'br':
+        nodes.push({ type: 'hardBreak' });
+        break;
+      case 'image': {
+        // No image node in the editor - keep the alt text, linked to the image
+        const image = token as Tokens.Image;
+        pushText(decodeEntities(image.text) || image.href, withMark(marks, { type: 'link', attrs: { href: image.href } }));
+        break;
+      }
+      case 'html':
+        if (/^<br\s*\/?>$/i.test(token.text.trim())) {
+          nodes.push({ type: 'hardBreak' });
+        } else {
+          pushText(token.text);
+        }
+        break;
+      case 'checkbox':
+        // Handled by the list item
+        break;
+      case 'text':
+      case 'escape':
+        if ('tokens' in token && token.tokens) {
+          nodes.push(...inlineNodes(token.tokens, marks));
+        } else {
+          // Soft line breaks inside a paragraph read as spaces
+          pushText(decodeEntities(token.text).replace(/\n/g, ' '));
+        }
+        break;
+      default:
+        // Anything else (e.g. from marked extensions) keeps its text
+        if ('tokens' in token && token.tokens) {
+          nodes.push(...inlineNodes(token.tokens, marks));
+        } else if ('text' in token && typeof token.text === 'string') {
+          pushText(decodeEntities(token.text));
+        } else {
+          pushText(token.raw);
+        }
+    }
+  }
+
+  return nodes;
+}
+
+function listNode(token: Tokens.List): TiptapNode {
+  const items = token.items.map((item): TiptapNode => {
+    const content = blockNodes(item.tokens.filter((child) => child.type !== 'checkbox'));
+
+    // Tiptap list items must start with a paragraph
+    if (content[0]?.type !== 'paragraph') {
+      content.unshift(paragraph([]));
+    }
+
+    // No task list node in the editor - show the checkbox as a character
+    if (item.task) {
+      content[0] = paragraph([{ type: 'text', text: item.checked ? '☑ ' : '☐ ' }, ...(content[0].content ?? [])]);
+    }
+
+    return { type: 'listItem', content };
+  });
+
+  return token.ordered
+    ? { type: 'orderedList', attrs: { start: Number(token.start) || 1 }, content: items }
+    : { type: 'bulletList', content: items };
+}
+
+function tableNode(token: Tokens.Table): TiptapNode {
+  const row = (cells: Tokens.TableCell[], cellType: 'tableHeader' | 'tableCell'): TiptapNode => ({
+    type: 'tableRow',
+    content: cells.map((cell) => ({ type: cellType, content: [paragraph(inlineNodes(cell.tokens))] })),
+  });
+
+  return {
+    type: 'table',
+    content: [row(token.header, 'tableHeader'), ...token.rows.map((cells) => row(cells, 'tableCell'))],
+  };
+}
+
+/**
+ * Map block tokens (headings, paragraphs, lists...) to Tiptap block nodes
+ */
+function blockNodes(tokens: Token[]): TiptapNode[] {
+  const nodes: TiptapNode[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'space':
+      case 'def':
+        break;
+      case 'heading': {
+        const content = inlineNodes(token.tokens);
+        nodes.push({
+          type: 'heading',
+          attrs: { level: token.depth },
+          ...(content.length > 0 && { content }),
+        });
+        break;
+      }
+      case 'paragraph':
+        nodes.push(paragraph(inlineNodes(token.tokens)));
+        break;
+      case 'text':
+        // Bare text, e.g. the content of a tight list item
+        nodes.push(paragraph(inlineNodes(token.tokens ?? [token])));
+        break;
+      case 'code': {
+        const language = token.lang?.trim().split(/\s+/)[0] || null;
+        nodes.push({
+          type: 'codeBlock',
+          attrs: { language },
+          ...(token.text && { content: [{ type: 'text', text: token.text }] }),
+        });
+        break;
+      }
+      case 'blockquote': {
+        const content = blockNodes(token.tokens ?? []);
+        nodes.push({ type: 'blockquote', content: content.length > 0 ? content : [paragraph([])] });
+        break;
+      }
+      case 'hr':
+        nodes.push({ type: 'horizontalRule' });
+        break;
+      case 'list':
+        nodes.push(listNode(token as Tokens.List));
+        break;
+      case 'table':
+        nodes.push(tableNode(token as Tokens.Table));
+        break;
+      case 'html':
+        // Raw HTML isn't rendered - show it as written
+        if (token.text.trim()) {
+          nodes.push(paragraph([{ type: 'text', text: token.text.trim() }]));
+        }
+        break;
+      default:
+        if (token.raw.trim()) {
+          nodes.push(paragraph([{ type: 'text', text: token.raw.trim() }]));
+        }
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Convert markdown (CommonMark + GFM) to a Tiptap JSON document
+ */
+export function markdownToTiptap(markdown: string): TiptapNode {
+  const content = blockNodes(Lexer.lex(markdown, { gfm: true }));
+
+  return {
+    type: 'doc',
+    content: content.length > 0 ? content : [paragraph([])],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tiptap → Markdown
+// ---------------------------------------------------------------------------
+
+// Marks are opened outermost-first in this order and closed in reverse
+const MARK_ORDER = ['link', 'bold', 'italic', 'strike', 'code'];
+
+const MARK_DELIMITERS: Record<string, string> = {
+  bold: '**',
+  italic: '*',
+  strike: '~~',
+};
+
+/**
+ * Backslash-escape characters that would otherwise be read as markdown
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[\\`*[\]~]|<(?=[a-z/!?])|&(?=#?\w+;)/gi, '\\$&')
+    .replace(/(^|[^\p{L}\p{N}])_|_(?=$|[^\p{L}\p{N}])/gu, (match) => match.replace('_', '\\_'));
+}
+
+/**
+ * Escape text that would start a block (heading, quote, list, rule) at the start of a line
+ */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)(#{1,6}(?=\s|$)|>|[-+](?=\s|$)|=+\s*$)/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2');
+}
+
+function codeSpan(text: string): string {
+  // Use a longer fence than any backtick run inside, padded if the code touches a backtick
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function sortMarks(marks: TiptapMark[] = []): TiptapMark[] {
+  const rank = (mark: TiptapMark) => {
+    const index = MARK_ORDER.indexOf(mark.type);
+    return index === -1 ? MARK_ORDER.length : index;
+  };
+  return [...marks].sort((a, b) => rank(a) - rank(b));
+}
+
+function sameMark(a: TiptapMark, b: TiptapMark): boolean {
+  return a.type === b.type && (a.type !== 'link' || a.attrs?.href === b.attrs?.href);
+}
+
+function openMark(mark: TiptapMark): string {
+  if (mark.type === 'link') return '[';
+  return MARK_DELIMITERS[mark.type] ?? '';
+}
+
+function closeMark(mark: TiptapMark): string {
+  if (mark.type === 'link') {
+    const href = String(mark.attrs?.href ?? '').replace(/[()\s]/g, encodeURIComponent);
+    return `](${href})`;
+  }
+  return MARK_DELIMITERS[mark.type] ?? '';
+}
+
+/**
+ * Serialize inline content, opening and closing marks only where they change so that
+ * e.g. a bold run split across several text nodes stays one **bold** span
+ */
+function serializeInline(nodes: TiptapNode[] = [], hardBreak = '\\\n'): string {
+  let out = '';
+  let open: TiptapMark[] = [];
+
+  const closeFrom = (index: number) => {
+    if (index >= open.length) return;
+    // Emphasis can't end after whitespace - move the whitespace outside
+    const trailing = out.match(/\s*$/)![0];
+    out = out.slice(0, out.length - trailing.length);
+    for (const mark of open.slice(index).reverse()) {
+      out += closeMark(mark);
+    }
+    out += trailing;
+    open = open.slice(0, index);
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'hardBreak') {
+      closeFrom(0);
+      out += hardBreak;
+      continue;
+    }
+
+    const text = node.text ?? '';
+    if (!text) continue;
+
+    // The code mark is written as a code span; other marks wrap it
+    const marks = sortMarks(node.marks);
+    const isCode = marks.some((mark) => mark.type === 'code');
+    const wrapping = marks.filter((mark) => mark.type !== 'code');
+
+    // Keep the open marks this node still has (up to the first it doesn't), close the rest
+    let keep = 0;
+    while (keep < open.length && wrapping.some((mark) => sameMark(mark, open[keep]))) {
+      keep++;
+    }
+    closeFrom(keep);
+    const added = wrapping.filter((mark) => !open.some((existing) => sameMark(existing, mark)));
+
+    // Emphasis can't start before whitespace either
+    const leading = isCode || added.length === 0 ? '' : text.match(/^\s*/)![0];
+    out += leading;
+    for (const mark of added) {
+      out += openMark(mark);
+    }
+    open = [...open, ...added];
+
+    out += isCode ? codeSpan(text) : escapeText(text.slice(leading.length));
+  }
+
+  closeFrom(0);
+  return out;
+}
+
+function indent(text: string, prefix: string, firstPrefix = prefix): string {
+  return text
+    .split('\n')
+    .map((line, i) => (i === 0 ? firstPrefix : line ? prefix : prefix.trimEnd()) + line)
+    .join('\n');
+}
+
+function serializeList(node: TiptapNode): string {
+  const start = Number(node.attrs?.start) || 1;
+
+  return (node.content ?? [])
+    .map((item, i) => {
+      const marker = node.type === 'orderedList' ? `${start + i}. ` : '- ';
+      const body = serializeBlocks(item.content ?? [], true) || '';
+      // Checklist items get a GFM task marker; their content lines up under the "- "
+      const checkbox = node.type === 'taskList' ? (item.attrs?.checked ? '[x] ' : '[ ] ') : '';
+      return indent(body, ' '.repeat(marker.length), marker + checkbox);
+    })
+    .join('\n');
+}
+
+function serializeTable(node: TiptapNode): string {
+  const rows = (node.content ?? []).map((row) =>
+    (row.content ?? []).map((cell) =>
+      (cell.content ?? [])
+        .map((block) => serializeInline(block.content, '<br>'))
+        .filter(Boolean)
+        .join('<br>')
+        .replace(/\|/g, '\\|')
+    )
+  );
+  if (rows.length === 0) return '';
+
+  // GFM tables always have a header row - the first row serves as one
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+  return [line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function serializeBlock(node: TiptapNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return serializeInline(node.content)
+        .split('\n')
+        .map(escapeLineStart)
+        .join('\n');
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `${'#'.repeat(level)} ${serializeInline(node.content, ' ')}`.trimEnd();
+    }
+    case 'blockquote':
+      return indent(serializeBlocks(node.content ?? []), '> ');
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return serializeList(node);
+    case 'codeBlock': {
+      const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+      const longestRun = Math.max(0, ...(code.match(/^`{3,}/gm) ?? []).map((run) => run.length));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      return `${fence}${node.attrs?.language ?? ''}\n${code}\n${fence}`;
+    }
+    case 'horizontalRule':
+      return '---';
+    case 'table':
+      return serializeTable(node);
+    default:
+      // Unknown nodes: keep whatever they contain
+      if (node.text !== undefined || node.content?.some((child) => child.type === 'text')) {
+        return serializeInline(node.content ?? [node]);
+      }
+      return serializeBlocks(node.content ?? []);
+  }
+}
+
+/**
+ * Serialize a run of blocks: blank lines between blocks, except that a list inside a
+ * list item follows its paragraph directly so the list stays tight
+ */
+function serializeBlocks(nodes: TiptapNode[], inListItem = false): string {
+  let out = '';
+
+  for (const node of nodes) {
+    const block = serializeBlock(node);
+    if (!block) continue;
+
+    const isList = node.type === 'bulletList' || node.type === 'orderedList' || node.type === 'taskList';
+    const separator = inListItem && isList ? '\n' : '\n\n';
+    out += out ? separator + block : block;
+  }
+
+  return out;
+}
+
+/**
+ * Convert a Tiptap JSON document to markdown, keeping headings, lists, marks, code,
+ * quotes, links and tables
+ */
+export function tiptapToMarkdown(doc: TiptapNode | null | undefined): string {
+  return tiptapToMarkdownBlocks(doc).join('\n\n');
+}
+
+/**
+ * The markdown of each top-level block of a document (empty blocks left out)
+ * Used to split long notes without breaking up a list, table or code block
+ */
+export function tiptapToMarkdownBlocks(doc: TiptapNode | null | undefined): string[] {
+  if (!doc) return [];
+  return (doc.type === 'doc' ? doc.content ?? [] : [doc]).map(serializeBlock).filter(Boolean);
+}
@@ -0,0 +1,128 @@
+import { listModels, getProviderName, ProviderName } from './llm.js';
+import { getModelPricing, ModelPricing } from './pricing.js';
+import type { RunSettings } from './processor.js';
+
+/**
+ * The models a run can pick, with what they cost and how much they can read
+ * The allowlist is the configured provider's model list (see listModels in llm.ts)
+ */
+
+// Largest max_tokens a single run can ask for
+export const MAX_OUTPUT_TOKENS = 64000;
+
+// Context window in tokens - keys match a model name exactly or as a prefix, like pricing.ts
+const CONTEXT_WINDOWS: Record<string, number> = {
+  'claude-opus-4': 200000,
+  'claude-sonnet-4': 200000,
+  'claude-3-7-sonnet': 200000,
+  'claude-3-5-sonnet': 200000,
+  'claude-3-5-haiku': 200000,
+  'gpt-4o-mini': 128000,
+  'gpt-4o': 128000,
+};
+
+export interface ModelInfo {
+  id: string;
+  context_window: number | null; // Unknown for most local models
+  pricing: ModelPricing; // $ per million tokens
+}
+
+export interface ModelList {
+  provider: ProviderName;
+  models: ModelInfo[];
+}
+
+// The sampling parameters a run, a process definition or a comparison variant can set
+export interface ModelParameters {
+  temperature?: number;
+  max_tokens?: number;
+}
+
+/**
+ * Context window of a model - exact match first, then the longest matching prefix
+ */
+export function getContextWindow(model: string): number | null {
+  if (CONTEXT_WINDOWS[model]) return CONTEXT_WINDOWS[model];
+
+  const prefix = Object.keys(CONTEXT_WINDOWS)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? CONTEXT_WINDOWS[prefix] : null;
+}
+
+/**
+ * Every model the configured provider offers, with its context window and pricing
+ */
+export async function describeModels(): Promise<ModelList> {
+  const models = await listModels();
+  return {
+    provider: getProviderName(),
+    models: models.map((id) => ({ id, context_window: getContextWindow(id), pricing: getModelPricing(id) })),
+  };
+}
+
+/**
+ * Whether a setting was given - blank values (undefined, null or '') leave it unset
+ */
+export function isSet(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Validate a temperature (0-1) and max tokens (an integer, 1-MAX_OUTPUT_TOKENS) - the limits
+ * shared by runs, process definitions and comparison variants
+ * fields name the inputs in errors, e.g. { temperature: 'variants[1].temperature', ... }
+ */
+export function validateModelParameters(
+  input: { temperature?: unknown; maxTokens?: unknown },
+  fields: { temperature: string; maxTokens: string } = { temperature: 'temperature', maxTokens: 'max_tokens' }
+): { errors: string[]; values: ModelParameters } {
+  const errors: string[] = [];
+  const values: ModelParameters = {};
+
+  if (isSet(input.temperature)) {
+    const temperature = Number(input.temperature);
+    if (Number.isNaN(temperature) || temperature < 0 || temperature > 1) {
+      errors.push(`${fields.temperature} must be between 0 and 1`);
+    } else {
+      values.temperature = temperature;
+    }
+  }
+
+  if (isSet(input.maxTokens)) {
+    const maxTokens = Number(input.maxTokens);
+    if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > MAX_OUTPUT_TOKENS) {
+      errors.push(`${fields.maxTokens} must be an integer between 1 and ${MAX_OUTPUT_TOKENS}`);
+    } else {
+      values.max_tokens = maxTokens;
+    }
+  }
+
+  return { errors, values };
+}
+
+/**
+ * Validate the model settings of a process request: { model?, temperature?, maxTokens? }
+ * models are the ones the configured provider offers (only needed if a model is given)
+ */
+export function validateRunSettings(
+  body: Record<string, any>,
+  models: string[]
+): { errors: string[]; values: RunSettings } {
+  const errors: string[] = [];
+  const values: RunSettings = {};
+
+  if (isSet(body.model)) {
+    const model = String(body.model);
+    if (!models.includes(model)) {
+      errors.push(`model must be one of: ${models.join(', ')}`);
+    }
+    values.model = model;
+  }
+
+  const parameters = validateModelParameters(body, { temperature: 'temperature', maxTokens: 'maxTokens' });
+  errors.push(...parameters.errors);
+
+  return { errors, values: { ...values, ...parameters.values } };
+}
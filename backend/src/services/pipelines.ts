@@ -0,0 +1,225 @@
+import {
+  jobQueries,
+  noteQueries,
+  pipelineRunQueries,
+  JobStatus,
+  Note,
+  PipelineRun,
+  PipelineStep,
+  ProcessingJob,
+} from '../database.js';
+import { checkProcessingBudget } from './processor.js';
+
+/**
+ * Multi-step AI pipelines
+ * Each step of a run is a processing job on its input note - the note the run started on, or the
+ * AI note an earlier step produced - so the worker runs and cancels steps like any other job.
+ * When a step succeeds the steps that take its output are queued, so each step's AI note is
+ * created as a child of the output before it and the tree mirrors the chain. Steps branching off
+ * the same note are queued one at a time, as the next one waits for the note to be free.
+ */
+
+// A step's input when it works on the note the pipeline runs on
+export const NOTE_INPUT = 'note';
+
+export const MAX_PIPELINE_STEPS = 10;
+
+const STEP_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+
+export type PipelineStepStatus = 'pending' | JobStatus;
+export type PipelineRunStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A step of a run with the outcome of its latest job
+export interface PipelineStepState extends PipelineStep {
+  status: PipelineStepStatus;
+  job_id: string | null;
+  attempts: number; // Jobs run for the step - resuming a failed step adds one
+  result_note_id: string | null;
+  error_message: string | null;
+  error_code: string | null;
+}
+
+export interface PipelineRunState extends Omit<PipelineRun, 'steps'> {
+  status: PipelineRunStatus;
+  steps: PipelineStepState[];
+}
+
+/**
+ * Validate the steps of a pipeline definition
+ * A step's key defaults to its process type and its input to the step before it (the note
+ * for the first step), so a plain ordered list of process types makes a chain.
+ * Inputs can only name earlier steps, which keeps every pipeline acyclic.
+ */
+export function validatePipelineSteps(
+  value: unknown,
+  processTypes: string[]
+): { errors: string[]; steps: PipelineStep[] } {
+  const errors: string[] = [];
+  const steps: PipelineStep[] = [];
+
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PIPELINE_STEPS) {
+    return { errors: [`steps must be a list of 1-${MAX_PIPELINE_STEPS} steps`], steps };
+  }
+
+  value.forEach((raw: any, i) => {
+    const label = `steps[${i}]`;
+
+    if (!raw || typeof raw !== 'object' || !processTypes.includes(raw.process_type)) {
+      errors.push(`${label}.process_type must be a type defined in /api/processes`);
+      return;
+    }
+
+    const taken = (key: string) => key === NOTE_INPUT || steps.some((step) => step.key === key);
+    const key = raw.key ?? (taken(raw.process_type) ? `${raw.process_type}-${i + 1}` : raw.process_type);
+    if (typeof key !== 'string' || !STEP_KEY_PATTERN.test(key) || taken(key)) {
+      errors.push(`${label}.key must be 1-50 lowercase letters, numbers, "-" or "_", unique and not "${NOTE_INPUT}"`);
+      return;
+    }
+
+    const input = raw.input ?? (steps.length > 0 ? steps[steps.length - 1].key : NOTE_INPUT);
+    if (input !== NOTE_INPUT && !steps.some((step) => step.key === input)) {
+      errors.push(`${label}.input must be "${NOTE_INPUT}" or the key of an earlier step`);
+      return;
+    }
+
+    steps.push({ key, process_type: raw.process_type, input });
+  });
+
+  return { errors, steps };
+}
+
+/**
+ * The state of each step of a run from its jobs (oldest first) - the latest job of a step counts
+ */
+export function getStepStates(steps: PipelineStep[], jobs: ProcessingJob[]): PipelineStepState[] {
+  return steps.map((step) => {
+    const stepJobs = jobs.filter((job) => job.pipeline_step === step.key);
+    const job = stepJobs[stepJobs.length - 1];
+
+    return {
+      ...step,
+      status: job?.status ?? 'pending',
+      job_id: job?.id ?? null,
+      attempts: stepJobs.length,
+      result_note_id: job?.result_note_id ?? null,
+      error_message: job?.error_message ?? null,
+      error_code: job?.error_code ?? null,
+    };
+  });
+}
+
+/**
+ * Overall status of a run: running while any step is queued or running, otherwise succeeded
+ * if every step did, or failed/cancelled if a step did (steps after it stay pending)
+ */
+export function getRunStatus(steps: PipelineStepState[]): PipelineRunStatus {
+  if (steps.some((step) => step.status === 'queued' || step.status === 'running')) return 'running';
+  if (steps.every((step) => step.status === 'succeeded')) return 'succeeded';
+  if (steps.some((step) => step.status === 'failed')) return 'failed';
+  if (steps.some((step) => step.status === 'cancelled')) return 'cancelled';
+  return 'running';
+}
+
+/**
+ * A run with the status of each of its steps
+ */
+export async function describeRun(run: PipelineRun): Promise<PipelineRunState> {
+  const steps = getStepStates(run.steps, await pipelineRunQueries.getJobs(run.id));
+  return { ...run, status: getRunStatus(steps), steps };
+}
+
+/**
+ * The note a step processes - the run's note, or the output of the step it takes as input
+ * (null until that step has succeeded)
+ */
+function getInputNoteId(run: PipelineRun, states: PipelineStepState[], step: PipelineStep): string | null {
+  if (step.input === NOTE_INPUT) return run.note_id;
+  return states.find((s) => s.key === step.input && s.status === 'succeeded')?.result_note_id ?? null;
+}
+
+/**
+ * The steps of a run to queue now, with the note each one processes
+ * Steps that haven't run yet are ready once their input exists; with resume, failed and
+ * cancelled steps are ready again. A note is only processed by one job at a time, so steps that
+ * share an input run one after another: a step waits while another step on its input note is
+ * queued or running, and of several ready steps on the same note only the first is picked.
+ */
+export function getReadySteps(
+  run: PipelineRun,
+  states: PipelineStepState[],
+  resume = false
+): { step: PipelineStepState; inputNoteId: string }[] {
+  const busy = new Set(
+    states
+      .filter((step) => step.status === 'queued' || step.status === 'running')
+      .map((step) => getInputNoteId(run, states, step))
+  );
+  const ready: { step: PipelineStepState; inputNoteId: string }[] = [];
+
+  for (const step of states) {
+    const retryable = resume && (step.status === 'failed' || step.status === 'cancelled');
+    if (step.status !== 'pending' && !retryable) continue;
+
+    const inputNoteId = getInputNoteId(run, states, step);
+    if (!inputNoteId || busy.has(inputNoteId)) continue;
+
+    busy.add(inputNoteId);
+    ready.push({ step, inputNoteId });
+  }
+
+  return ready;
+}
+
+/**
+ * Queue the steps of a run whose input is ready (see getReadySteps)
+ * With checkBudget the whole batch is checked against the spending budgets before anything is
+ * queued (throws BudgetExceededError).
+ * Returns the jobs queued.
+ */
+export async function queueReadySteps(
+  run: PipelineRun,
+  { resume = false, checkBudget = false }: { resume?: boolean; checkBudget?: boolean } = {}
+): Promise<ProcessingJob[]> {
+  const states = getStepStates(run.steps, await pipelineRunQueries.getJobs(run.id));
+  const ready: { step: PipelineStepState; note: Note }[] = [];
+
+  for (const { step, inputNoteId } of getReadySteps(run, states, resume)) {
+    const note = await noteQueries.getById(inputNoteId);
+    if (note) ready.push({ step, note });
+  }
+
+  if (checkBudget) {
+    for (const { step, note } of ready) {
+      await checkProcessingBudget(note.id, step.process_type);
+    }
+  }
+
+  const jobs: ProcessingJob[] = [];
+  for (const { step, note } of ready) {
+    const job = await jobQueries.createForPipelineStep(run, step, note);
+    if (!job) continue; // Queued by someone else in the meantime
+
+    await noteQueries.updateStatus(note.id, 'processing', null);
+    console.log(`Pipeline run ${run.id}: queued step "${step.key}" (${step.process_type}) as job ${job.id}`);
+    jobs.push(job);
+  }
+
+  return jobs;
+}
+
+/**
+ * Queue the next steps after a step of a run has succeeded
+ * Failures are only logged - the step itself succeeded, and the run can be resumed later
+ */
+export async function advancePipeline(job: ProcessingJob): Promise<void> {
+  if (!job.pipeline_run_id) return;
+
+  try {
+    const run = await pipelineRunQueries.getById(job.pipeline_run_id);
+    if (run) {
+      await queueReadySteps(run);
+    }
+  } catch (error: any) {
+    console.error(`Failed to queue the next steps of pipeline run ${job.pipeline_run_id}:`, error.message);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Per-model LLM pricing used to estimate the cost of each call
+ * Prices are USD per million tokens. Override or extend them with the
+ * LLM_PRICING environment variable, e.g.
+ *   LLM_PRICING='{"llama3.1":{"input":0,"output":0},"default":{"input":1,"output":2}}'
+ */
+
+export interface ModelPricing {
+  input: number; // $ per million input tokens
+  output: number; // $ per million output tokens
+}
+
+// Keys match a model name exactly or as a prefix (so dated model ids are covered)
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { input: 15.0, output: 75.0 },
+  'claude-sonnet-4': { input: 3.0, output: 15.0 },
+  'claude-3-7-sonnet': { input: 3.0, output: 15.0 },
+  'claude-3-5-sonnet': { input: 3.0, output: 15.0 },
+  'claude-3-5-haiku': { input: 0.8, output: 4.0 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10.0 },
+  default: { input: 3.0, output: 15.0 },
+};
+
+let pricing: Record<string, ModelPricing> | null = null;
+
+/**
+ * Merge LLM_PRICING over the defaults (parsed once)
+ */
+function getPricingTable(): Record<string, ModelPricing> {
+  if (pricing) return pricing;
+
+  pricing = { ...DEFAULT_PRICING };
+
+  if (process.env.LLM_PRICING) {
+    try {
+      const overrides = JSON.parse(process.env.LLM_PRICING) as Record<string, ModelPricing>;
+      for (const [model, price] of Object.entries(overrides)) {
+        if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+          console.warn(`Ignoring LLM_PRICING entry for "${model}" - expected { input, output }`);
+          continue;
+        }
+        pricing[model] = { input: price.input, output: price.output };
+      }
+    } catch (error: any) {
+      console.error('Invalid LLM_PRICING JSON, using default prices:', error.message);
+    }
+  }
+
+  return pricing;
+}
+
+/**
+ * Look up pricing for a model - exact match first, then the longest matching prefix,
+ * then the "default" entry
+ */
+export function getModelPricing(model: string | null | undefined): ModelPricing {
+  const table = getPricingTable();
+
+  if (!model) return table.default;
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter((key) => key !== 'default' && model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? table[prefix] : table.default;
+}
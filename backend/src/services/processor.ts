@@ -1,255 +1,441 @@
-import { getLLMResponse, estimateCost } from './llm.js';
-import { noteQueries } from '../database.js';
-import { randomUUID } from 'crypto';
+import { getLLMResponse, getLLMStream, estimateCost, estimateTokens, LLMResult, LLMOptions } from './llm.js';
+import { noteQueries, processQueries, Note, ProcessDefinition } from '../database.js';
+import { assertWithinBudget, RunEstimate } from './budgets.js';
+import { markdownToTiptap, tiptapToMarkdown, tiptapToMarkdownBlocks } from './markdown.js';
+import { buildContext, noteTitle, ContextOptions, PromptContext } from './context.js';
+import { queueTitle } from './titles.js';
+import { TiptapNode } from './tiptap.js';
+import { ACTION_PLAN_INSTRUCTIONS, actionPlanToTiptap, getActionPlan } from './action-plans.js';
+import { syncTasks } from './tasks.js';
+import {
+  splitIntoChunks,
+  needsChunking,
+  buildMapPrompt,
+  buildReduceContent,
+  ChunkProgress,
+  CHUNK_NOTES_MAX_TOKENS,
+  MAP_SYSTEM_PROMPT,
+} from './chunking.js';
+
+// Process definition settings a single run can change (comparison variants)
+export type ProcessOverrides = Partial<
+  Pick<ProcessDefinition, 'model' | 'temperature' | 'max_tokens' | 'system_prompt' | 'prompt_template'>
+>;
+
+// The model settings a user can pick for a single run - recorded on its AI note
+export type RunSettings = Partial<Pick<ProcessDefinition, 'model' | 'temperature' | 'max_tokens'>>;
+
+// A comparison variant's run - its AI note is tagged with the comparison
+export interface ComparisonRun {
+  id: string;
+  variant: number; // Index into the comparison's variants
+  label: string;
+}
 
-// Supported process types
-export type ProcessType = 'research' | 'summarize' | 'expand' | 'actionplan';
+// Optional hooks for a processing run
+export interface ProcessOptions {
+  onChunk?: (chunk: string) => void; // Stream the LLM response as it arrives
+  signal?: AbortSignal; // Cancel the run (no AI note is left behind)
+  context?: ContextOptions; // Include surrounding notes in the prompt
+  onProgress?: (progress: ChunkProgress) => void; // Long notes: report each chunk as it completes
+  overrides?: ProcessOverrides; // Run with some of the process definition's settings changed (a picked model, comparison variants)
+  comparison?: ComparisonRun;
+}
 
-// Prompt templates for different process types
-const PROCESS_PROMPTS: Record<ProcessType, (content: string) => string> = {
-  research: (noteContent: string) => `
-You are a research assistant helping a user understand a topic better.
+// Options for a batch synthesis
+export interface SynthesisOptions extends ProcessOptions {
+  linkSources?: boolean; // End the AI note with links back to its sources
+}
 
-The user has saved this note:
+// A note that went into a batch synthesis (recorded in the AI note's metadata)
+export interface SynthesisSource {
+  id: string;
+  title: string;
+}
 
-${noteContent}
+// Most notes a single synthesis will combine
+export const MAX_SYNTHESIS_SOURCES = 50;
 
-Your task is to research this topic and create a comprehensive summary. Include:
+// Result of a completed processing run
+export interface ProcessResult {
+  childNoteId: string;
+  tokensUsed: LLMResult['tokensUsed'];
+  model: string;
+}
 
-1. **Key Concepts**: Explain the main ideas in simple terms
-2. **Important Context**: Provide relevant background information
-3. **Recent Developments**: Mention any recent advancements or changes (if applicable)
-4. **Related Topics**: Suggest 2-3 related areas worth exploring
-5. **Reliable Sources**: List 3-5 credible sources for further reading
+/**
+ * Fill a prompt template's {{placeholders}} with the given values
+ * Unknown placeholders are left untouched
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
 
-Format your response using clear markdown with headers, bullet points, and emphasis where appropriate.
-Keep your response informative but concise (aim for 300-500 words).
-  `.trim(),
+/**
+ * Add the context block to a rendered prompt
+ * Templates can place it with {{context}}; otherwise it goes before the prompt
+ */
+function withContext(template: string, prompt: string, context: PromptContext | null): string {
+  if (!context?.text || template.includes('{{context}}')) {
+    return prompt;
+  }
 
-  summarize: (noteContent: string) => `
-You are a summarization expert.
+  return `Background from the user's other notes - use it to inform your answer, but focus on the note itself.
 
-The user has provided this content to summarize:
+<context>
+${context.text}
+</context>
 
-${noteContent}
+${prompt}`;
+}
 
-Create a concise summary that:
-- Captures the main points and key takeaways
-- Is written in clear, accessible language
-- Maintains the original intent and important details
-- Is structured with bullet points or short paragraphs
+/**
+ * Add the instructions for a structured output format to a prompt
+ * They go in the prompt rather than the system prompt so a custom system prompt can't drop them
+ */
+function withOutputFormat(definition: ProcessDefinition, prompt: string): string {
+  return definition.output_format === 'action_plan' ? `${prompt}\n\n${ACTION_PLAN_INSTRUCTIONS}` : prompt;
+}
 
-Aim for 2-3 paragraphs or 5-7 bullet points maximum.
-  `.trim(),
+// A run ready to go: the note's markdown, split into chunks if it is too long for one prompt
+interface PreparedRun {
+  definition: ProcessDefinition;
+  content: string;
+  context: PromptContext | null;
+  chunks: string[] | null;
+}
 
-  expand: (noteContent: string) => `
-You are a creative thinking assistant.
+/**
+ * Render the prompt for a run from the process template
+ */
+function buildPrompt(definition: ProcessDefinition, content: string, context: PromptContext | null): string {
+  return withOutputFormat(
+    definition,
+    withContext(
+      definition.prompt_template,
+      renderPromptTemplate(definition.prompt_template, { content, context: context?.text ?? '' }),
+      context
+    )
+  );
+}
 
-The user wrote this brief note:
+/**
+ * The model settings among a run's overrides
+ */
+export function pickRunSettings(overrides: ProcessOverrides = {}): RunSettings {
+  const settings: RunSettings = {};
+  if (overrides.model !== undefined) settings.model = overrides.model;
+  if (overrides.temperature !== undefined) settings.temperature = overrides.temperature;
+  if (overrides.max_tokens !== undefined) settings.max_tokens = overrides.max_tokens;
+  return settings;
+}
 
-${noteContent}
+/**
+ * Look up the process definition and note, and get the note ready for a run
+ */
+async function prepareRun(
+  noteId: string,
+  processType: string,
+  contextOptions?: ContextOptions,
+  overrides: ProcessOverrides = {}
+): Promise<PreparedRun> {
+  // Look up the process definition
+  const found = await processQueries.getByType(processType);
+  if (!found) {
+    throw new Error(`Invalid process type: ${processType}`);
+  }
+  const definition = { ...found, ...overrides };
 
-Your task is to expand on this idea by providing:
+  // Get the note from database
+  const note = await noteQueries.getById(noteId);
+  if (!note) {
+    throw new Error(`Note not found: ${noteId}`);
+  }
 
-1. **Deeper Explanation**: Elaborate on the concept in more detail
-2. **Examples & Use Cases**: Provide concrete examples or scenarios
-3. **Different Perspectives**: Consider alternative viewpoints or approaches
-4. **Implications**: Discuss potential outcomes or consequences
-5. **Questions to Consider**: Pose 3-5 thought-provoking questions
+  // Serialize the Tiptap JSON to markdown so the LLM sees the note's structure
+  const textContent = tiptapToMarkdown(note.content);
 
-Use clear markdown formatting with headers and lists.
-Aim for 400-600 words with substantive insights.
-  `.trim(),
+  if (!textContent.trim()) {
+    throw new Error('Note has no content to process');
+  }
 
-  actionplan: (noteContent: string) => `
-You are a productivity coach helping to turn ideas into action.
+  console.log(`Serialized ${textContent.length} characters of markdown`);
 
-The user has this note:
+  const context = contextOptions ? await buildContext(note, contextOptions) : null;
+  const chunks = needsChunking(textContent) ? splitIntoChunks(tiptapToMarkdownBlocks(note.content)) : null;
 
-${noteContent}
+  return { definition, content: textContent, context, chunks };
+}
 
-Create a practical, actionable plan that includes:
+/**
+ * Combine several notes into one prompt, each under its own header
+ * Notes without any text are left out
+ */
+export function buildSynthesisContent(notes: Note[]): { content: string; sources: SynthesisSource[] } {
+  const sections: string[] = [];
+  const sources: SynthesisSource[] = [];
 
-1. **Goal Clarification**: Clearly state what the user wants to achieve
-2. **Action Steps**: List 5-8 specific, concrete steps in order
-   - Each step should be actionable and clear
-   - Include estimated time/effort (e.g., "30 min", "2 hours", "1 week")
-3. **Prerequisites**: List any required resources, skills, or dependencies
-4. **Success Criteria**: Define what "done" looks like
-5. **Potential Obstacles**: Identify 2-3 challenges and how to overcome them
+  for (const note of notes) {
+    const text = tiptapToMarkdown(note.content);
+    if (!text.trim()) continue;
 
-Format as markdown with numbered lists and clear sections.
-Be specific and practical - avoid vague advice.
-  `.trim(),
-};
+    const title = noteTitle(note);
+    sources.push({ id: note.id, title });
+    sections.push(`### Note ${sources.length}: ${title}\n\n${text}`);
+  }
+
+  const intro = `The user selected ${sources.length} notes to be processed together. Each note starts with a "### Note N" header.`;
+  return { content: `${intro}\n\n${sections.join('\n\n')}`, sources };
+}
 
 /**
- * Extract plain text content from Tiptap JSON structure
+ * A markdown "Sources" section linking to each source note (note:// links open the note in the app)
  */
-function extractTextFromTiptap(doc: any): string {
-  let text = '';
+export function buildSourceLinks(sources: SynthesisSource[]): string {
+  const links = sources.map((source) => `- [${source.title.replace(/[[\]\\]/g, '\\$&')}](note://${source.id})`);
+  return `## Sources\n\n${links.join('\n')}`;
+}
 
-  function traverse(node: any): void {
-    if (node.text) {
-      text += node.text;
-    }
-    if (node.content) {
-      node.content.forEach((child: any) => {
-        traverse(child);
-        // Add spacing between blocks
-        if (child.type === 'paragraph' || child.type === 'heading') {
-          text += '\n';
-        }
-      });
-    }
+/**
+ * Look up the process definition and source notes, and render the prompt for a synthesis
+ */
+async function prepareSynthesis(
+  processType: string,
+  sourceIds: string[]
+): Promise<{ definition: ProcessDefinition; prompt: string; sources: SynthesisSource[] }> {
+  const definition = await processQueries.getByType(processType);
+  if (!definition) {
+    throw new Error(`Invalid process type: ${processType}`);
+  }
+
+  const { content, sources } = buildSynthesisContent(await noteQueries.getByIds(sourceIds));
+  if (sources.length === 0) {
+    throw new Error('None of the source notes have content to process');
   }
 
-  traverse(doc);
-  return text.trim();
+  console.log(`Combined ${sources.length} notes into ${content.length} characters of text content`);
+
+  const prompt = withOutputFormat(definition, renderPromptTemplate(definition.prompt_template, { content, context: '' }));
+  return { definition, prompt, sources };
 }
 
 /**
- * Convert markdown text to Tiptap JSON structure
- * This is a simplified converter - for production, use a proper markdown parser
+ * Worst-case usage of a run: the full prompt plus max_tokens of output
  */
-function markdownToTiptap(markdown: string): any {
-  const lines = markdown.split('\n');
-  const content: any[] = [];
+function estimateRun(definition: ProcessDefinition, prompt: string): RunEstimate {
+  return {
+    inputTokens: estimateTokens(prompt + (definition.system_prompt || '')),
+    outputTokens: definition.max_tokens,
+    model: definition.model,
+  };
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+/**
+ * Worst-case usage of a note run - for a chunked run, every map call plus the reduce call
+ */
+function estimateNoteRun({ definition, content, context, chunks }: PreparedRun): RunEstimate {
+  if (!chunks) {
+    return estimateRun(definition, buildPrompt(definition, content, context));
+  }
 
-    // Skip empty lines
-    if (!line.trim()) {
-      continue;
-    }
+  const mapInput = chunks.reduce(
+    (total, chunk, i) => total + estimateTokens(buildMapPrompt(definition, chunk, i, chunks.length) + MAP_SYSTEM_PROMPT),
+    0
+  );
+  const reduceInput =
+    estimateTokens(buildPrompt(definition, '', context) + (definition.system_prompt || '')) +
+    chunks.length * CHUNK_NOTES_MAX_TOKENS;
 
-    // Headers
-    if (line.startsWith('# ')) {
-      content.push({
-        type: 'heading',
-        attrs: { level: 1 },
-        content: [{ type: 'text', text: line.substring(2) }],
-      });
-    } else if (line.startsWith('## ')) {
-      content.push({
-        type: 'heading',
-        attrs: { level: 2 },
-        content: [{ type: 'text', text: line.substring(3) }],
-      });
-    } else if (line.startsWith('### ')) {
-      content.push({
-        type: 'heading',
-        attrs: { level: 3 },
-        content: [{ type: 'text', text: line.substring(4) }],
-      });
-    }
-    // Bullet points
-    else if (line.startsWith('- ') || line.startsWith('* ')) {
-      // Collect consecutive list items
-      const listItems: any[] = [];
-      while (i < lines.length && (lines[i].startsWith('- ') || lines[i].startsWith('* '))) {
-        listItems.push({
-          type: 'listItem',
-          content: [
-            {
-              type: 'paragraph',
-              content: [{ type: 'text', text: lines[i].substring(2) }],
-            },
-          ],
-        });
-        i++;
-      }
-      i--; // Back up one line
-
-      content.push({
-        type: 'bulletList',
-        content: listItems,
-      });
-    }
-    // Numbered lists
-    else if (/^\d+\.\s/.test(line)) {
-      const listItems: any[] = [];
-      while (i < lines.length && /^\d+\.\s/.test(lines[i])) {
-        const text = lines[i].replace(/^\d+\.\s/, '');
-        listItems.push({
-          type: 'listItem',
-          content: [
-            {
-              type: 'paragraph',
-              content: [{ type: 'text', text }],
-            },
-          ],
-        });
-        i++;
-      }
-      i--;
-
-      content.push({
-        type: 'orderedList',
-        content: listItems,
-      });
-    }
-    // Regular paragraphs
-    else {
-      content.push({
-        type: 'paragraph',
-        content: [{ type: 'text', text: line }],
-      });
+  return {
+    inputTokens: mapInput + reduceInput,
+    outputTokens: chunks.length * CHUNK_NOTES_MAX_TOKENS + definition.max_tokens,
+    model: definition.model,
+  };
+}
+
+/**
+ * Worst-case usage of running a process on a note, or null if the run can't be prepared
+ * (processNote reports why)
+ */
+export async function estimateProcessing(
+  noteId: string,
+  processType: string,
+  contextOptions?: ContextOptions,
+  overrides?: ProcessOverrides
+): Promise<RunEstimate | null> {
+  const run = await prepareRun(noteId, processType, contextOptions, overrides).catch(() => null);
+  return run && estimateNoteRun(run);
+}
+
+/**
+ * Check a run against the note's budgets before it is queued
+ * Throws BudgetExceededError; other problems are left for processNote to report
+ */
+export async function checkProcessingBudget(
+  noteId: string,
+  processType: string,
+  contextOptions?: ContextOptions,
+  overrides?: ProcessOverrides
+): Promise<void> {
+  const estimate = await estimateProcessing(noteId, processType, contextOptions, overrides);
+  if (!estimate) return;
+
+  await assertWithinBudget(noteId, estimate);
+}
+
+/**
+ * Check a synthesis against the budgets of the note it will be written to
+ * Throws BudgetExceededError; other problems are left for synthesizeNotes to report
+ */
+export async function checkSynthesisBudget(
+  noteId: string,
+  processType: string,
+  sourceIds: string[]
+): Promise<void> {
+  const run = await prepareSynthesis(processType, sourceIds).catch(() => null);
+  if (!run) return;
+
+  await assertWithinBudget(noteId, estimateRun(run.definition, run.prompt));
+}
+
+// What a run produced: the LLM result and the AI note's content
+interface RunOutput {
+  result: LLMResult;
+  content: TiptapNode;
+}
+
+/**
+ * Call the LLM for a prepared run and turn the reply into the AI note's content
+ * Markdown replies stream if onChunk is given; structured replies are parsed once complete,
+ * so they don't stream
+ */
+async function runLLM(
+  definition: ProcessDefinition,
+  prompt: string,
+  noteId: string,
+  processType: string,
+  { onChunk, signal }: ProcessOptions
+): Promise<RunOutput> {
+  // Call LLM (real or mock based on environment)
+  const llmOptions: LLMOptions = {
+    model: definition.model || undefined,
+    maxTokens: definition.max_tokens,
+    temperature: definition.temperature,
+    systemPrompt: definition.system_prompt || undefined,
+    signal,
+    usage: { noteId, processType },
+  };
+  let result: LLMResult;
+  let content: TiptapNode;
+
+  if (definition.output_format === 'action_plan') {
+    const reply = await getActionPlan(prompt, llmOptions);
+    result = reply.result;
+    content = actionPlanToTiptap(reply.plan);
+  } else {
+    result = onChunk ? await getLLMStream(prompt, onChunk, llmOptions) : await getLLMResponse(prompt, llmOptions);
+    content = markdownToTiptap(result.content);
+  }
+
+  console.log(`AI generated ${result.content.length} characters of content`);
+  console.log(`Tokens used: ${result.tokensUsed.total}`);
+  console.log(`Estimated cost: $${estimateCost(result.tokensUsed.input, result.tokensUsed.output, result.model).toFixed(4)}`);
+
+  if (signal?.aborted) {
+    throw new Error('Processing cancelled');
+  }
+
+  return { result, content };
+}
+
+/**
+ * Map step of a chunked run: condense each chunk into notes, one LLM call at a time
+ */
+async function mapChunks(
+  definition: ProcessDefinition,
+  chunks: string[],
+  noteId: string,
+  processType: string,
+  { signal, onProgress }: ProcessOptions
+): Promise<{ notes: string[]; tokensUsed: LLMResult['tokensUsed'] }> {
+  const notes: string[] = [];
+  const tokensUsed = { input: 0, output: 0, total: 0 };
+
+  onProgress?.({ phase: 'map', completedChunks: 0, totalChunks: chunks.length });
+
+  for (const [i, chunk] of chunks.entries()) {
+    const result = await getLLMResponse(buildMapPrompt(definition, chunk, i, chunks.length), {
+      model: definition.model || undefined,
+      maxTokens: CHUNK_NOTES_MAX_TOKENS,
+      temperature: definition.temperature,
+      systemPrompt: MAP_SYSTEM_PROMPT,
+      signal,
+      usage: { noteId, processType },
+    });
+
+    if (signal?.aborted) {
+      throw new Error('Processing cancelled');
     }
+
+    notes.push(result.content);
+    tokensUsed.input += result.tokensUsed.input;
+    tokensUsed.output += result.tokensUsed.output;
+    tokensUsed.total += result.tokensUsed.total;
+
+    console.log(`Condensed chunk ${i + 1}/${chunks.length} (${result.tokensUsed.total} tokens)`);
+    onProgress?.({ phase: 'map', completedChunks: i + 1, totalChunks: chunks.length });
   }
 
-  return {
-    type: 'doc',
-    content,
-  };
+  onProgress?.({ phase: 'reduce', completedChunks: chunks.length, totalChunks: chunks.length });
+
+  return { notes, tokensUsed };
 }
 
 /**
  * Process a note with AI using the specified process type
  * Creates a child note with the AI-generated content
+ * Long notes are processed in chunks (map) and then as a whole from the chunk notes (reduce)
  */
 export async function processNote(
   noteId: string,
-  processType: ProcessType
-): Promise<string> {
-  console.log(`Processing note ${noteId} with type: ${processType}`);
+  processType: string,
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
+  const { onChunk, signal, context: contextOptions, comparison } = options;
 
-  // Validate process type
-  if (!PROCESS_PROMPTS[processType]) {
-    throw new Error(`Invalid process type: ${processType}`);
-  }
-
-  // Get the note from database
-  const note = await noteQueries.getById(noteId);
-  if (!note) {
-    throw new Error(`Note not found: ${noteId}`);
-  }
+  console.log(`Processing note ${noteId} with type: ${processType}`);
 
-  // Extract text content from Tiptap JSON
-  const textContent = extractTextFromTiptap(note.content);
+  const run = await prepareRun(noteId, processType, contextOptions, options.overrides);
+  const { definition, context, chunks } = run;
 
-  if (!textContent.trim()) {
-    throw new Error('Note has no content to process');
+  if (context) {
+    console.log(`Including ${context.items.length} context items (${context.tokensUsed}/${context.tokenBudget} tokens)`);
   }
 
-  console.log(`Extracted ${textContent.length} characters of text content`);
+  // Refuse to start if the run could take a budget over its limit
+  await assertWithinBudget(noteId, estimateNoteRun(run));
 
-  // Generate the prompt
-  const prompt = PROCESS_PROMPTS[processType](textContent);
+  let content = run.content;
+  let mapTokens = { input: 0, output: 0, total: 0 };
 
-  // Call LLM (real or mock based on environment)
-  const result = await getLLMResponse(prompt, {
-    maxTokens: 4096,
-    temperature: 0.7,
-  });
+  if (chunks) {
+    console.log(`Note is too long for one prompt - processing in ${chunks.length} chunks`);
+    const mapped = await mapChunks(definition, chunks, noteId, processType, options);
+    content = buildReduceContent(mapped.notes);
+    mapTokens = mapped.tokensUsed;
+  }
 
-  console.log(`AI generated ${result.content.length} characters of content`);
-  console.log(`Tokens used: ${result.tokensUsed.total}`);
-  console.log(`Estimated cost: $${estimateCost(result.tokensUsed.input, result.tokensUsed.output).toFixed(4)}`);
+  const { result, content: aiContent } = await runLLM(
+    definition,
+    buildPrompt(definition, content, context),
+    noteId,
+    processType,
+    { onChunk, signal }
+  );
 
-  // Convert markdown response to Tiptap JSON
-  const aiContent = markdownToTiptap(result.content);
+  const settings = pickRunSettings(options.overrides);
 
   // Create a new child note with the AI response
   const childNote = await noteQueries.create(
@@ -257,42 +443,71 @@ export async function processNote(
     'ai', // type
     aiContent, // content
     processType, // process_type
-    'complete' // status
+    'complete', // status
+    {
+      // metadata - what the model saw besides the note, how a long note was split, and the model settings picked
+      ...(context && {
+        context: { tokenBudget: context.tokenBudget, tokensUsed: context.tokensUsed, items: context.items },
+      }),
+      ...(chunks && { chunks: chunks.length }),
+      ...(comparison && { comparison: { variant: comparison.variant, label: comparison.label } }),
+      ...(Object.keys(settings).length > 0 && { settings }),
+    },
+    comparison?.id ?? null
   );
 
+  // Cancelled while the note was being written - don't leave it behind
+  if (signal?.aborted) {
+    await noteQueries.delete(childNote.id);
+    throw new Error('Processing cancelled');
+  }
+
+  await syncTasks(childNote.id, aiContent);
+
   console.log(`✓ Created AI child note: ${childNote.id}`);
+  queueTitle(childNote);
 
-  return childNote.id;
+  return {
+    childNoteId: childNote.id,
+    tokensUsed: {
+      input: mapTokens.input + result.tokensUsed.input,
+      output: mapTokens.output + result.tokensUsed.output,
+      total: mapTokens.total + result.tokensUsed.total,
+    },
+    model: result.model,
+  };
 }
 
 /**
- * Get available process types
+ * Synthesize several notes into one AI note
+ * The AI note is created up front (so its sources are visible while it runs);
+ * the response is written into it and noteId is returned as the childNoteId
  */
-export function getAvailableProcesses(): Array<{
-  type: ProcessType;
-  name: string;
-  description: string;
-}> {
-  return [
-    {
-      type: 'research',
-      name: 'Research & Expand',
-      description: 'Get comprehensive research on this topic with key concepts, context, and sources',
-    },
-    {
-      type: 'summarize',
-      name: 'Summarize',
-      description: 'Create a concise summary of the main points and key takeaways',
-    },
-    {
-      type: 'expand',
-      name: 'Expand Ideas',
-      description: 'Elaborate on this idea with examples, perspectives, and implications',
-    },
-    {
-      type: 'actionplan',
-      name: 'Action Plan',
-      description: 'Turn this into a practical action plan with specific steps',
-    },
-  ];
+export async function synthesizeNotes(
+  noteId: string,
+  processType: string,
+  sourceIds: string[],
+  options: SynthesisOptions = {}
+): Promise<ProcessResult> {
+  console.log(`Synthesizing ${sourceIds.length} notes into ${noteId} with type: ${processType}`);
+
+  const { definition, prompt, sources } = await prepareSynthesis(processType, sourceIds);
+
+  // Refuse to start if the run could take a budget over its limit
+  await assertWithinBudget(noteId, estimateRun(definition, prompt));
+
+  const { result, content } = await runLLM(definition, prompt, noteId, processType, options);
+
+  const links = options.linkSources ? markdownToTiptap(buildSourceLinks(sources)).content ?? [] : [];
+  const note = await noteQueries.updateContent(noteId, { ...content, content: [...(content.content ?? []), ...links] });
+  await syncTasks(noteId, note.content);
+
+  console.log(`✓ Wrote synthesis to AI note: ${noteId}`);
+  queueTitle(note);
+
+  return {
+    childNoteId: noteId,
+    tokensUsed: result.tokensUsed,
+    model: result.model,
+  };
 }
@@ -0,0 +1,139 @@
+import { jobQueries, noteQueries, processQueries, ruleQueries, Note, ProcessingJob, ProcessingRule, RuleTrigger } from '../database.js';
+import { extractTextFromTiptap } from './tiptap.js';
+import { checkProcessingBudget } from './processor.js';
+import { BudgetExceededError } from './budgets.js';
+
+/**
+ * Auto-processing rules
+ * The note and folder routes call applyRules after a note is created, updated or moved.
+ * Each matching rule queues a job, which the worker claims once the rule's debounce has passed.
+ */
+
+// A #tag: letters, numbers, "_" or "-" after a # that doesn't follow a word character
+const TAG_PATTERN = /(?<![\p{L}\p{N}_&/])#([\p{L}\p{N}_-]*[\p{L}_-][\p{L}\p{N}_-]*)/gu;
+
+/**
+ * Normalize a tag for storage and matching: lowercase, without the #
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * The #tags in a note's text (numbers alone like #1 are not tags)
+ */
+export function extractTags(text: string): Set<string> {
+  return new Set([...text.matchAll(TAG_PATTERN)].map((match) => normalizeTag(match[1])));
+}
+
+/**
+ * Whether a rule applies to a note
+ * folderIds are the folders above the note; for a move, previousFolderIds are the folders
+ * it was in before, so that a folder rule only fires when the note is moved into the folder
+ */
+export function ruleMatches(
+  rule: Pick<ProcessingRule, 'folder_id' | 'tag'>,
+  tags: Set<string>,
+  folderIds: string[],
+  previousFolderIds?: string[]
+): boolean {
+  if (rule.tag && !tags.has(rule.tag)) {
+    return false;
+  }
+
+  if (rule.folder_id) {
+    if (!folderIds.includes(rule.folder_id)) return false;
+    if (previousFolderIds?.includes(rule.folder_id)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Queue a rule's process on a note, unless the rule ran on it recently or is already waiting to
+ */
+async function queueRuleJob(rule: ProcessingRule, note: Note): Promise<ProcessingJob | null> {
+  if (!(await processQueries.getByType(rule.process_type))) {
+    console.warn(`Rule ${rule.id} uses unknown process type "${rule.process_type}" - skipped`);
+    return null;
+  }
+
+  if (await jobQueries.hasRecentForRule(rule.id, note.id, rule.cooldown_seconds)) {
+    return null;
+  }
+
+  try {
+    await checkProcessingBudget(note.id, rule.process_type);
+  } catch (error) {
+    if (!(error instanceof BudgetExceededError)) throw error;
+    console.warn(`Rule ${rule.id} not run on note ${note.id}: ${error.message}`);
+    return null;
+  }
+
+  const job = await jobQueries.createForRule(rule, note);
+
+  console.log(
+    `Rule ${rule.id} queued ${rule.process_type} job ${job.id} for note ${note.id}` +
+      (rule.debounce_seconds > 0 ? ` (runs in ${rule.debounce_seconds}s unless edited)` : '')
+  );
+
+  return job;
+}
+
+/**
+ * Run the rules for a trigger against a note, returning the jobs they queued
+ * Only user notes are matched, so AI output never triggers more processing.
+ * Failures are only logged - a rule never stops the note from being saved or moved.
+ */
+export async function applyRules(
+  trigger: RuleTrigger,
+  note: Note,
+  previousFolderIds?: string[]
+): Promise<ProcessingJob[]> {
+  if (note.item_type !== 'note' || note.status === 'processing') {
+    return [];
+  }
+
+  try {
+    // An edit restarts the debounce of the note's rule jobs that are still waiting
+    if (trigger === 'updated') {
+      await jobQueries.deferRuleJobs(note.id);
+    }
+
+    const rules = await ruleQueries.getEnabled(trigger);
+    if (rules.length === 0) return [];
+
+    const folderIds = (await noteQueries.getAncestors(note.id)).map((ancestor) => ancestor.id);
+    const tags = extractTags(extractTextFromTiptap(note.content));
+
+    const jobs: ProcessingJob[] = [];
+    for (const rule of rules) {
+      if (!ruleMatches(rule, tags, folderIds, previousFolderIds)) continue;
+
+      const job = await queueRuleJob(rule, note);
+      if (job) jobs.push(job);
+    }
+    return jobs;
+  } catch (error: any) {
+    console.error(`Failed to apply ${trigger} rules to note ${note.id}:`, error.message);
+    return [];
+  }
+}
+
+/**
+ * Get a claimed rule job's note ready to process
+ * A note that is still empty (e.g. just created from the sidebar) is skipped rather than failed
+ * Returns false if the job was skipped
+ */
+export async function startRuleJob(job: ProcessingJob): Promise<boolean> {
+  const note = await noteQueries.getById(job.note_id);
+
+  if (!note || !extractTextFromTiptap(note.content).trim()) {
+    await jobQueries.skip(job.id, 'Skipped - the note has no content');
+    console.log(`Job ${job.id} skipped - the note has no content`);
+    return false;
+  }
+
+  await noteQueries.updateStatus(job.note_id, 'processing', null);
+  return true;
+}
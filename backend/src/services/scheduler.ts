@@ -0,0 +1,158 @@
+import {
+  jobQueries,
+  noteQueries,
+  processQueries,
+  scheduleQueries,
+  scheduleRunQueries,
+  Schedule,
+  ScheduleRun,
+  ScheduleRunInput,
+  ScheduleTrigger,
+} from '../database.js';
+import { buildSynthesisContent, checkSynthesisBudget, MAX_SYNTHESIS_SOURCES } from './processor.js';
+import { BudgetExceededError } from './budgets.js';
+import { nextCronTime } from './cron.js';
+
+/**
+ * Scheduled digests
+ * A timer in the backend process looks for schedules whose next run has come, moves each on to
+ * its following run and queues a synthesis of the notes edited within the schedule's window.
+ * Claiming a run is atomic, so with several backend processes each run still happens once.
+ * A run that was missed while the backend was down happens once when it starts again.
+ */
+
+const INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || '30000', 10);
+
+// Content of a digest note until the worker fills it in
+const EMPTY_DOC = { type: 'doc', content: [] };
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * When a schedule should next run (null while it is disabled)
+ * Throws if the cron expression is invalid or never matches
+ */
+export function getNextRunAt(cron: string, enabled: boolean, after = new Date()): Date | null {
+  return enabled ? nextCronTime(cron, after) : null;
+}
+
+/**
+ * Run a schedule now: queue a digest of the notes edited within its window into a new AI note
+ * The run is recorded either way - skipped if no notes changed, failed if it couldn't be queued.
+ * Throws BudgetExceededError (after recording the failed run) if a spending budget would be exceeded
+ */
+export async function runSchedule(schedule: Schedule, trigger: ScheduleTrigger): Promise<ScheduleRun> {
+  const windowEnd = new Date();
+  const windowStart = new Date(windowEnd.getTime() - schedule.window_hours * 60 * 60 * 1000);
+
+  const record = (run: Partial<ScheduleRunInput> & Pick<ScheduleRunInput, 'status'>) =>
+    scheduleRunQueries.create({
+      schedule_id: schedule.id,
+      trigger,
+      job_id: null,
+      note_id: null,
+      source_count: 0,
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+      error_message: null,
+      ...run,
+    });
+
+  await scheduleQueries.markRun(schedule.id);
+
+  if (!(await processQueries.getByType(schedule.process_type))) {
+    return record({ status: 'failed', error_message: `Invalid process type: ${schedule.process_type}` });
+  }
+
+  // The most recently edited notes make the cut; the digest reads them oldest first
+  const notes = await noteQueries.getUpdatedBetween(windowStart, windowEnd, schedule.folder_id, MAX_SYNTHESIS_SOURCES);
+  const { sources } = buildSynthesisContent(notes.reverse());
+
+  if (sources.length === 0) {
+    console.log(`Schedule "${schedule.name}" skipped - no notes edited in the last ${schedule.window_hours} hours`);
+    return record({ status: 'skipped', error_message: 'No notes were edited in this window' });
+  }
+
+  const sourceIds = sources.map((source) => source.id);
+  const note = await noteQueries.create(schedule.target_folder_id, 'ai', EMPTY_DOC, schedule.process_type, 'processing', {
+    sources,
+    schedule: {
+      id: schedule.id,
+      name: schedule.name,
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+    },
+  });
+
+  // Don't run digests that would exceed a spending budget
+  try {
+    await checkSynthesisBudget(note.id, schedule.process_type, sourceIds);
+  } catch (error: any) {
+    await noteQueries.delete(note.id);
+    if (error instanceof BudgetExceededError) {
+      await record({ status: 'failed', source_count: sources.length, error_message: error.message });
+    }
+    throw error;
+  }
+
+  const job = await jobQueries.create(note.id, schedule.process_type, 'draft', {
+    sources: sourceIds,
+    linkSources: true,
+  });
+
+  console.log(`Schedule "${schedule.name}" queued job ${job.id}: digest of ${sources.length} notes into ${note.id}`);
+
+  return record({ status: 'queued', job_id: job.id, note_id: note.id, source_count: sources.length });
+}
+
+/**
+ * Claim and run every schedule whose next run has come
+ */
+async function runDueSchedules(): Promise<void> {
+  for (const schedule of await scheduleQueries.getDue()) {
+    let nextRunAt: Date | null = null;
+    try {
+      nextRunAt = getNextRunAt(schedule.cron, true);
+    } catch (error: any) {
+      console.warn(`Schedule "${schedule.name}" has an unusable cron expression - stopped: ${error.message}`);
+    }
+
+    if (!(await scheduleQueries.claim(schedule.id, nextRunAt))) {
+      continue; // Another process got to it first
+    }
+
+    try {
+      await runSchedule(schedule, 'schedule');
+    } catch (error: any) {
+      console.error(`Schedule "${schedule.name}" failed:`, error.message);
+    }
+  }
+}
+
+/**
+ * Check for due schedules now and then every SCHEDULER_INTERVAL_MS
+ */
+export function startScheduler(): void {
+  if (timer) return;
+
+  const tick = () => {
+    runDueSchedules().catch((error) => {
+      console.error('Scheduler error:', error.message);
+    });
+  };
+
+  timer = setInterval(tick, INTERVAL_MS);
+  tick();
+
+  console.log(`⏰ Scheduler started (checking every ${INTERVAL_MS / 1000}s)`);
+}
+
+/**
+ * Stop checking for due schedules (digests already queued still run)
+ */
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
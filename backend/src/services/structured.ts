@@ -0,0 +1,160 @@
+/**
+ * Structured output
+ * Processes with an output format other than markdown ask the model for JSON. The reply is
+ * pulled out of any surrounding prose or code fence and checked against a JSON schema before
+ * it is turned into a note.
+ */
+
+// How a process's reply is read (process_definitions.output_format)
+export type OutputFormat = 'markdown' | 'action_plan';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'action_plan'];
+
+// The subset of JSON Schema that structured formats are described with
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * A reply that isn't valid JSON or doesn't match its schema
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly details: string[] = []
+  ) {
+    super(details.length > 0 ? `${message}: ${details.slice(0, 5).join('; ')}` : message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Check a value against a schema, returning what is wrong with it (nothing if it matches)
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[key];
+        if (propertySchema && child !== undefined && child !== null) {
+          errors.push(...validateJson(child, propertySchema, `${path}.${key}`));
+        } else if (!propertySchema && schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        }
+      }
+      return errors;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+      }
+      return errors;
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      const length = value.trim().length;
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        return [schema.minLength === 1 ? `${path} must not be empty` : `${path} must be at least ${schema.minLength} characters`];
+      }
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        return [`${path} must be at most ${schema.maxLength} characters`];
+      }
+      return [];
+    }
+
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} must be a number`];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+  }
+}
+
+/**
+ * Parse the JSON object in a model's reply
+ * Models often wrap JSON in a ```json fence or a sentence of prose, so the outermost
+ * {...} is used. Throws StructuredOutputError if there is none or it doesn't parse.
+ */
+export function extractJson(reply: string): unknown {
+  const fenced = reply.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  const text = fenced ? fenced[1] : reply;
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new StructuredOutputError('The reply does not contain a JSON object');
+  }
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error: any) {
+    throw new StructuredOutputError('The reply is not valid JSON', [error.message]);
+  }
+}
+
+/**
+ * Parse a reply and check it against a schema
+ * Throws StructuredOutputError listing what is wrong
+ */
+export function parseStructuredReply<T>(reply: string, schema: JsonSchema): T {
+  const value = extractJson(reply);
+  const errors = validateJson(value, schema);
+
+  if (errors.length > 0) {
+    throw new StructuredOutputError('The reply does not match the schema', errors);
+  }
+  return value as T;
+}
+
+/**
+ * Instructions added to the prompt of a structured process: reply with JSON matching the schema
+ */
+export function buildFormatInstructions(schema: JsonSchema): string {
+  return `Respond with a single JSON object that matches this JSON schema, and nothing else - no markdown and no explanation:
+
+${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * The follow-up message asking the model to fix a reply that didn't parse or match the schema
+ */
+export function buildRepairRequest(error: StructuredOutputError): string {
+  const problems = error.details.length > 0 ? error.details : [error.message];
+  return `That reply could not be used:\n${problems.map((problem) => `- ${problem}`).join('\n')}
+
+Reply again with only the corrected JSON object.`;
+}
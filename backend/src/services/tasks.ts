@@ -0,0 +1,82 @@
+import { taskQueries, Task, TaskInput } from '../database.js';
+import { TiptapNode } from './tiptap.js';
+
+/**
+ * Tasks
+ * Checklist items with a taskId (the steps of an action plan) are also kept in the tasks
+ * table, so open steps can be listed across every plan. The note's content is the source of
+ * truth: whenever it is written the tasks are synced from it, and ticking a task ticks its
+ * checklist item too.
+ */
+
+// Task ids are UUIDs - items with any other taskId aren't tracked
+const TASK_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a string can be a task id
+ */
+export function isTaskId(value: unknown): value is string {
+  return typeof value === 'string' && TASK_ID_PATTERN.test(value);
+}
+
+/**
+ * The text of a node and its descendants
+ */
+function nodeText(node: TiptapNode): string {
+  return node.text ?? (node.content ?? []).map(nodeText).join('');
+}
+
+/**
+ * The checklist items in a document that are tracked as tasks, in document order
+ * A task's text is the first paragraph of its item (later paragraphs hold the details)
+ */
+export function collectTaskItems(doc: TiptapNode): TaskInput[] {
+  const tasks: TaskInput[] = [];
+
+  function traverse(node: TiptapNode): void {
+    if (node.type === 'taskItem' && isTaskId(node.attrs?.taskId)) {
+      const first = node.content?.find((child) => child.type === 'paragraph');
+      tasks.push({
+        id: node.attrs.taskId,
+        position: tasks.length,
+        text: (first ? nodeText(first) : '').trim(),
+        estimate: node.attrs.estimate || null,
+        done: node.attrs.checked === true,
+      });
+    }
+    node.content?.forEach(traverse);
+  }
+
+  traverse(doc);
+  return tasks;
+}
+
+/**
+ * A copy of a document with the given tasks' checklist items ticked or unticked
+ * Items whose taskId isn't in the map are left as they are
+ */
+export function setTaskItemsChecked(doc: TiptapNode, checked: Map<string, boolean>): TiptapNode {
+  const taskId = doc.type === 'taskItem' ? doc.attrs?.taskId : undefined;
+  const attrs = taskId !== undefined && checked.has(taskId) ? { ...doc.attrs, checked: checked.get(taskId) } : doc.attrs;
+
+  return {
+    ...doc,
+    ...(attrs && { attrs }),
+    ...(doc.content && { content: doc.content.map((child) => setTaskItemsChecked(child, checked)) }),
+  };
+}
+
+/**
+ * Make a note's tasks match the checklist in its content
+ */
+export async function syncTasks(noteId: string, content: TiptapNode): Promise<Task[]> {
+  return taskQueries.sync(noteId, collectTaskItems(content));
+}
+
+/**
+ * Tick or untick a task and its checklist item
+ * Returns null if the task no longer exists
+ */
+export async function setTaskDone(id: string, done: boolean): Promise<Task | null> {
+  return taskQueries.setDone(id, done, (content) => setTaskItemsChecked(content, new Map([[id, done]])));
+}
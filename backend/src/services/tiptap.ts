@@ -0,0 +1,46 @@
+/**
+ * Helpers for reading Tiptap JSON documents
+ */
+
+export interface TiptapMark {
+  type: string;
+  attrs?: Record<string, any>;
+}
+
+// A node in a Tiptap (ProseMirror) JSON document
+export interface TiptapNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: TiptapNode[];
+  marks?: TiptapMark[];
+  text?: string;
+}
+
+/**
+ * Extract plain text content from Tiptap JSON structure
+ * For titles and previews - prompts use tiptapToMarkdown to keep the structure
+ */
+export function extractTextFromTiptap(doc: any): string {
+  let text = '';
+
+  function traverse(node: any): void {
+    if (node.text) {
+      text += node.text;
+    }
+    if (node.type === 'hardBreak') {
+      text += '\n';
+    }
+    if (node.content) {
+      node.content.forEach((child: any) => {
+        traverse(child);
+        // Add spacing between blocks
+        if (child.type === 'paragraph' || child.type === 'heading' || child.type === 'codeBlock') {
+          text += '\n';
+        }
+      });
+    }
+  }
+
+  traverse(doc);
+  return text.trim();
+}
@@ -0,0 +1,173 @@
+import { getLLMResponse, estimateTokens } from './llm.js';
+import { noteQueries, Note } from '../database.js';
+import { assertWithinBudget, BudgetExceededError } from './budgets.js';
+import { tiptapToMarkdown } from './markdown.js';
+
+/**
+ * Automatic note titles
+ * A cheap LLM call names a note after its first meaningful save, and every AI note once it is
+ * written. The title goes in the note's name unless the user has named the note themselves.
+ * Titles are generated in the background - a failed or over-budget call just leaves the note untitled.
+ */
+
+// Usage ledger process type for title calls
+export const TITLE_PROCESS_TYPE = 'title';
+
+// Set AUTO_TITLES=false to only title notes through the bulk endpoint
+const AUTO_TITLES = process.env.AUTO_TITLES !== 'false';
+
+// Titles can use a cheaper model than processing (the provider's default if not set)
+const TITLE_MODEL = process.env.TITLE_MODEL || undefined;
+const TITLE_MAX_TOKENS = 30;
+
+// Only the start of a note is sent - plenty to name it
+const TITLE_MAX_INPUT_CHARS = 4000;
+
+// Notes with less text than this aren't worth naming yet
+export const MIN_TITLE_TEXT_LENGTH = 20;
+
+export const MAX_TITLE_LENGTH = 80;
+
+export const TITLE_PROMPT_PREFIX = 'Suggest a title for this note:';
+
+const TITLE_SYSTEM_PROMPT = `You name notes. Reply with a concise, specific title of at most 8 words that says what the note is about.
+Reply with the title only - no quotes, no markdown and no full stop at the end.`;
+
+// Notes being titled right now, so a burst of saves doesn't title a note twice
+const inFlight = new Set<string>();
+
+/**
+ * Whether a note's text is enough to name it by
+ */
+export function isMeaningful(markdown: string): boolean {
+  return markdown.replace(/\s+/g, ' ').trim().length >= MIN_TITLE_TEXT_LENGTH;
+}
+
+/**
+ * Whether a note should get a generated title: no name yet and not named by the user
+ */
+export function needsTitle(note: Note): boolean {
+  return note.item_type !== 'folder' && !note.name && !note.name_is_manual;
+}
+
+/**
+ * Build the prompt asking for a note's title
+ */
+export function buildTitlePrompt(markdown: string): string {
+  return `${TITLE_PROMPT_PREFIX}\n\n${markdown.slice(0, TITLE_MAX_INPUT_CHARS)}`;
+}
+
+/**
+ * Turn a model's reply into a clean title: its first line without markdown,
+ * a "Title:" label, wrapping quotes or a trailing full stop ('' if nothing is left)
+ */
+export function cleanTitle(reply: string): string {
+  const line = reply.split('\n').find((l) => l.trim()) ?? '';
+
+  const title = line
+    .trim()
+    .replace(/^(#+|[-*>]|\d+\.)\s+/, '')
+    .replace(/^\**title\**\s*:\s*/i, '')
+    .replace(/^["'`*_“‘]+|["'`*_”’]+$/g, '')
+    .replace(/\.+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return title.length > MAX_TITLE_LENGTH ? title.slice(0, MAX_TITLE_LENGTH).trimEnd() : title;
+}
+
+/**
+ * Ask the LLM for a title for a note
+ * Returns null if the note has too little text to name; throws if the call fails or
+ * would exceed a spending budget
+ */
+export async function generateTitle(note: Note): Promise<string | null> {
+  const markdown = tiptapToMarkdown(note.content);
+  if (!isMeaningful(markdown)) {
+    return null;
+  }
+
+  const prompt = buildTitlePrompt(markdown);
+
+  await assertWithinBudget(note.id, {
+    inputTokens: estimateTokens(prompt + TITLE_SYSTEM_PROMPT),
+    outputTokens: TITLE_MAX_TOKENS,
+    model: TITLE_MODEL,
+  });
+
+  const result = await getLLMResponse(prompt, {
+    model: TITLE_MODEL,
+    maxTokens: TITLE_MAX_TOKENS,
+    temperature: 0.3,
+    systemPrompt: TITLE_SYSTEM_PROMPT,
+    usage: { noteId: note.id, processType: TITLE_PROCESS_TYPE },
+  });
+
+  return cleanTitle(result.content) || null;
+}
+
+/**
+ * Generate and store a title for a note, if it still needs one
+ * Returns the stored title, or null if the note was left untitled
+ */
+export async function titleNote(noteId: string): Promise<string | null> {
+  if (inFlight.has(noteId)) {
+    return null;
+  }
+  inFlight.add(noteId);
+
+  try {
+    const note = await noteQueries.getById(noteId);
+    if (!note || !needsTitle(note)) {
+      return null;
+    }
+
+    const title = await generateTitle(note);
+    if (!title || !(await noteQueries.setGeneratedName(noteId, title))) {
+      return null;
+    }
+
+    console.log(`✓ Titled note ${noteId}: ${title}`);
+    return title;
+  } finally {
+    inFlight.delete(noteId);
+  }
+}
+
+/**
+ * Title a note in the background if it needs one and has enough text (unless AUTO_TITLES=false)
+ * Never throws - saving or processing the note doesn't wait for its title
+ */
+export function queueTitle(note: Note): void {
+  if (!AUTO_TITLES || !needsTitle(note) || !isMeaningful(tiptapToMarkdown(note.content))) {
+    return;
+  }
+
+  titleNote(note.id).catch((error) => {
+    console.warn(`Could not title note ${note.id}: ${error.message}`);
+  });
+}
+
+/**
+ * Title every note that has no name yet, one at a time, in the background
+ * Returns how many notes will be titled; a note that fails is skipped, and the batch
+ * stops if a spending budget runs out
+ */
+export async function titleUntitledNotes(): Promise<number> {
+  const notes = (await noteQueries.getUntitled()).filter((note) => isMeaningful(tiptapToMarkdown(note.content)));
+
+  (async () => {
+    let titled = 0;
+    for (const note of notes) {
+      try {
+        if (await titleNote(note.id)) titled++;
+      } catch (error: any) {
+        console.warn(`Could not title note ${note.id}: ${error.message}`);
+        if (error instanceof BudgetExceededError) break;
+      }
+    }
+    console.log(`✓ Titled ${titled} of ${notes.length} untitled notes`);
+  })();
+
+  return notes.length;
+}
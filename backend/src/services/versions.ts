@@ -0,0 +1,158 @@
+import { getLLMResponse, estimateTokens, inputText, LLMInput, LLMOptions, LLMResult } from './llm.js';
+import {
+  noteQueries,
+  processQueries,
+  versionQueries,
+  taskQueries,
+  Note,
+  AINoteVersion,
+  ProcessDefinition,
+} from '../database.js';
+import { assertWithinBudget } from './budgets.js';
+import { markdownToTiptap, tiptapToMarkdown } from './markdown.js';
+import { TiptapNode } from './tiptap.js';
+import { buildOriginalRequest } from './chat.js';
+import { registerRun, unregisterRun } from './active-runs.js';
+import { ACTION_PLAN_INSTRUCTIONS, actionPlanToTiptap, getActionPlan } from './action-plans.js';
+import { syncTasks, setTaskItemsChecked } from './tasks.js';
+
+/**
+ * Refine and regenerate for AI notes
+ * Both rewrite the same AI note and keep the previous content as an earlier version
+ */
+
+export type RevisionMode = 'refine' | 'regenerate';
+
+/**
+ * The LLM input for a revision
+ * Refine continues the conversation that produced the note; regenerate asks again from scratch.
+ * Structured notes ask for JSON again (the earlier reply is shown as the note's markdown).
+ */
+async function buildRevisionInput(
+  aiNote: Note,
+  definition: ProcessDefinition | null,
+  mode: RevisionMode,
+  instructions?: string
+): Promise<LLMInput> {
+  const structured = definition?.output_format === 'action_plan';
+  const originalRequest = structured
+    ? `${await buildOriginalRequest(aiNote)}\n\n${ACTION_PLAN_INSTRUCTIONS}`
+    : await buildOriginalRequest(aiNote);
+
+  if (mode === 'regenerate') {
+    return originalRequest;
+  }
+
+  return [
+    { role: 'user', content: originalRequest },
+    { role: 'assistant', content: tiptapToMarkdown(aiNote.content) },
+    {
+      role: 'user',
+      content: `Revise your response following these instructions: ${instructions}
+
+${structured ? 'Reply with the complete revised plan only, as a JSON object matching the schema.' : 'Reply with the complete revised response only, in the same markdown format.'}`,
+    },
+  ];
+}
+
+/**
+ * Refine (with instructions) or regenerate an AI note as a new version
+ * The note shows as processing while the LLM runs and can be cancelled like any other run
+ */
+export async function reviseAiNote(
+  aiNote: Note,
+  mode: RevisionMode,
+  instructions?: string
+): Promise<{ note: Note; version: AINoteVersion }> {
+  const found = aiNote.process_type ? await processQueries.getByType(aiNote.process_type) : null;
+  // Revisions keep the model settings picked for the original run
+  const definition = found && { ...found, ...aiNote.metadata?.settings };
+  const input = await buildRevisionInput(aiNote, definition, mode, instructions);
+  const maxTokens = definition?.max_tokens ?? 4096;
+
+  // Refuse to start if the run could take a budget over its limit
+  await assertWithinBudget(aiNote.id, {
+    inputTokens: estimateTokens(inputText(input) + (definition?.system_prompt || '')),
+    outputTokens: maxTokens,
+    model: definition?.model,
+  });
+
+  console.log(`${mode === 'refine' ? 'Refining' : 'Regenerating'} AI note ${aiNote.id}`);
+
+  const signal = registerRun(aiNote.id, aiNote.status);
+  await noteQueries.updateStatus(aiNote.id, 'processing', null);
+
+  try {
+    const llmOptions: LLMOptions = {
+      model: definition?.model || undefined,
+      maxTokens,
+      temperature: definition?.temperature,
+      systemPrompt: definition?.system_prompt || undefined,
+      signal,
+      usage: { noteId: aiNote.id, processType: aiNote.process_type },
+    };
+    let result: LLMResult;
+    let content: TiptapNode;
+
+    if (definition?.output_format === 'action_plan') {
+      // Steps that are still in the plan keep their task and tick
+      const reply = await getActionPlan(input, llmOptions);
+      result = reply.result;
+      content = actionPlanToTiptap(reply.plan, await taskQueries.getByNote(aiNote.id));
+    } else {
+      result = await getLLMResponse(input, llmOptions);
+      content = markdownToTiptap(result.content);
+    }
+
+    if (signal.aborted) {
+      throw new Error('Processing cancelled');
+    }
+
+    const revised = await versionQueries.add(aiNote.id, {
+      content,
+      source: mode,
+      instructions: mode === 'refine' ? instructions : null,
+      model: result.model,
+      input_tokens: result.tokensUsed.input,
+      output_tokens: result.tokensUsed.output,
+    });
+
+    await syncTasks(aiNote.id, revised.note.content);
+    await noteQueries.updateStatus(aiNote.id, 'complete', null);
+
+    console.log(`✓ Saved version ${revised.version.version} of AI note ${aiNote.id}`);
+
+    return { note: { ...revised.note, status: 'complete', error_message: null, error_code: null }, version: revised.version };
+  } catch (error) {
+    // The cancel endpoint has already restored the note's status; otherwise the
+    // earlier content is still there, so put the note back the way it was
+    if (!signal.aborted) {
+      await noteQueries.updateStatus(aiNote.id, aiNote.status, aiNote.error_message, aiNote.error_code);
+    }
+    throw error;
+  } finally {
+    unregisterRun(aiNote.id, signal);
+  }
+}
+
+/**
+ * Make an earlier version current again (saved as a new version, so nothing is lost)
+ * Tasks in both versions keep their current tick
+ */
+export async function restoreVersion(
+  aiNote: Note,
+  version: AINoteVersion
+): Promise<{ note: Note; version: AINoteVersion }> {
+  const tasks = await taskQueries.getByNote(aiNote.id);
+  const restored = await versionQueries.add(aiNote.id, {
+    content: setTaskItemsChecked(version.content, new Map(tasks.map((task) => [task.id, task.done]))),
+    source: 'restore',
+    restored_from: version.version,
+  });
+
+  await syncTasks(aiNote.id, restored.note.content);
+
+  console.log(`✓ Restored version ${version.version} of AI note ${aiNote.id} as version ${restored.version.version}`);
+
+  return restored;
+}
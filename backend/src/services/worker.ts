@@ -0,0 +1,174 @@
+import { jobQueries, noteQueries, Note, ProcessingJob } from '../database.js';
+import { processNote, synthesizeNotes } from './processor.js';
+import { registerRun, unregisterRun, abortRun, setRunProgress } from './active-runs.js';
+import { LLMError } from './llm-errors.js';
+import { startRuleJob } from './rules.js';
+import { advancePipeline } from './pipelines.js';
+
+/**
+ * Background worker that executes queued AI processing jobs
+ * Jobs live in the processing_jobs table so they survive restarts
+ */
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10);
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+
+// A claimed job is leased to this process, and the lease renewed while the job runs -
+// a job whose lease ran out was left behind by a process that stopped
+const LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS || '60', 10);
+
+let running = false;
+
+/**
+ * Job handler - runs processNote (or synthesizeNotes for batch jobs) and records the outcome on the job and its note
+ */
+async function handleJob(job: ProcessingJob): Promise<void> {
+  console.log(`Worker running job ${job.id} (${job.process_type}) for note ${job.note_id} [attempt ${job.attempts}]`);
+
+  // Rule jobs only mark the note as processing once their debounce is over
+  if (job.rule_id && !(await startRuleJob(job))) {
+    return;
+  }
+
+  const signal = registerRun(job.note_id, job.previous_note_status, job.id);
+  const heartbeat = setInterval(() => {
+    jobQueries.renewLease(job.id, LEASE_SECONDS).catch((error) => {
+      console.error(`Failed to renew the lease of job ${job.id}:`, error.message);
+    });
+  }, (LEASE_SECONDS * 1000) / 3);
+
+  try {
+    const sources = job.options?.sources;
+    const { childNoteId } = sources
+      ? await synthesizeNotes(job.note_id, job.process_type, sources, {
+          signal,
+          linkSources: job.options.linkSources,
+        })
+      : await processNote(job.note_id, job.process_type, {
+          signal,
+          context: job.options?.context,
+          overrides: job.options?.settings,
+          onProgress: (progress) => setRunProgress(job.note_id, signal, progress),
+        });
+
+    // The job may have been cancelled from another process while the LLM was running
+    const succeeded = await jobQueries.markSucceeded(job.id, childNoteId);
+    if (!succeeded) {
+      // A synthesis writes into the job's own note, which the user may still want to retry
+      if (!sources) {
+        await noteQueries.delete(childNoteId);
+        console.log(`Job ${job.id} was cancelled - discarded its AI note`);
+      }
+      return;
+    }
+
+    await noteQueries.updateStatus(job.note_id, 'complete', null);
+
+    console.log(`✓ Job ${job.id} succeeded`);
+
+    // A pipeline step hands its AI note on to the steps that process it, and frees its input
+    // note for the next step branching off it
+    await advancePipeline(job);
+  } catch (error: any) {
+    // Cancellation already restored the job and note state
+    if (signal.aborted) {
+      console.log(`Job ${job.id} cancelled`);
+      return;
+    }
+
+    console.error(`Job ${job.id} failed:`, error.message);
+
+    // Transient LLM errors were already retried - record what kind of failure it was
+    const errorCode = error instanceof LLMError ? error.code : null;
+    await jobQueries.markFailed(job.id, error.message, errorCode);
+    await noteQueries.updateStatus(job.note_id, 'failed', error.message, errorCode);
+  } finally {
+    clearInterval(heartbeat);
+    unregisterRun(job.note_id, signal);
+  }
+}
+
+/**
+ * Cancel all active processing for a note - queued jobs, running jobs and
+ * streamed runs - and restore the note's status from before processing began.
+ * Returns null if nothing was being processed.
+ */
+export async function cancelNoteProcessing(
+  noteId: string
+): Promise<{ restoredStatus: Note['status']; cancelledJobIds: string[] } | null> {
+  const run = abortRun(noteId);
+  const jobs = await jobQueries.cancelForNote(noteId);
+
+  if (!run && jobs.length === 0) {
+    return null;
+  }
+
+  const restoredStatus = run?.previousStatus ?? jobs[0].previous_note_status ?? 'draft';
+  await noteQueries.updateStatus(noteId, restoredStatus, null);
+
+  return { restoredStatus, cancelledJobIds: jobs.map((job) => job.id) };
+}
+
+/**
+ * Cancel a single job, aborting it if it is running in this process
+ * Returns null if the job was no longer queued or running
+ */
+export async function cancelJob(jobId: string): Promise<ProcessingJob | null> {
+  const job = await jobQueries.cancel(jobId);
+  if (!job) return null;
+
+  if (job.started_at) {
+    abortRun(job.note_id, job.id);
+  }
+
+  await noteQueries.updateStatus(job.note_id, job.previous_note_status ?? 'draft', null);
+  return job;
+}
+
+/**
+ * A single polling loop - claims and runs jobs until the worker is stopped
+ */
+async function pollLoop(): Promise<void> {
+  while (running) {
+    try {
+      const job = await jobQueries.claimNext(LEASE_SECONDS);
+
+      if (job) {
+        await handleJob(job);
+        continue; // Look for more work immediately
+      }
+    } catch (error: any) {
+      console.error('Worker poll error:', error.message);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Recover orphaned jobs and start the polling loops
+ */
+export async function startWorker(): Promise<void> {
+  if (running) return;
+
+  const recovered = await jobQueries.recoverOrphaned();
+  if (recovered.requeued || recovered.failed || recovered.notesReset) {
+    console.log(
+      `Recovered orphaned jobs: ${recovered.requeued} re-queued, ${recovered.failed} failed, ${recovered.notesReset} notes reset`
+    );
+  }
+
+  running = true;
+  for (let i = 0; i < CONCURRENCY; i++) {
+    pollLoop();
+  }
+
+  console.log(`⚙️  Job worker started (concurrency ${CONCURRENCY})`);
+}
+
+/**
+ * Stop polling for new jobs (jobs already running are allowed to finish)
+ */
+export function stopWorker(): void {
+  running = false;
+}
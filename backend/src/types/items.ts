@@ -20,6 +20,7 @@ export interface Folder extends BaseItem {
   process_type: null;
   status: null;
   error_message: null;
+  error_code: null;
 }
 
 export interface Note extends BaseItem {
@@ -28,6 +29,7 @@ export interface Note extends BaseItem {
   process_type?: string | null;
   status: NoteStatus;
   error_message?: string | null;
+  error_code?: string | null;
   type: 'user'; // Legacy field
 }
 
@@ -37,6 +39,7 @@ export interface AINote extends BaseItem {
   process_type: string;
   status: NoteStatus;
   error_message?: string | null;
+  error_code?: string | null;
   type: 'ai'; // Legacy field
 }
 
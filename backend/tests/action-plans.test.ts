@@ -0,0 +1,143 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateJson, extractJson, StructuredOutputError, JsonSchema } from '../src/services/structured.js';
+import { parseActionPlan, actionPlanToTiptap, ACTION_PLAN_INSTRUCTIONS, ActionPlan } from '../src/services/action-plans.js';
+import { collectTaskItems, setTaskItemsChecked } from '../src/services/tasks.js';
+import { tiptapToMarkdown } from '../src/services/markdown.js';
+import { callClaudeMock, MOCK_ACTION_PLAN } from '../src/services/llm-mock.js';
+import { TiptapNode } from '../src/services/tiptap.js';
+
+const plan: ActionPlan = {
+  goal: 'Run the team offsite',
+  steps: [
+    { title: 'Book the venue', estimate: '1 hour' },
+    { title: 'Send invites', estimate: '30 min', details: 'Include the agenda' },
+  ],
+  prerequisites: ['A budget'],
+  success_criteria: ['Everyone attends'],
+};
+
+/**
+ * The checklist of a rendered plan
+ */
+function taskItems(doc: TiptapNode): TiptapNode[] {
+  return doc.content!.find((node) => node.type === 'taskList')!.content!;
+}
+
+describe('validateJson', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['name', 'tags'],
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      tags: { type: 'array', maxItems: 2, items: { type: 'string' } },
+      count: { type: 'number' },
+    },
+  };
+
+  test('a matching value has no errors', () => {
+    assert.deepEqual(validateJson({ name: 'a', tags: ['x'], extra: true }, schema), []);
+  });
+
+  test('reports each problem with its path', () => {
+    assert.deepEqual(validateJson({ name: '  ', tags: ['x', 1, 'z'], count: '3' }, schema), [
+      '$.name must not be empty',
+      '$.tags must have at most 2 items',
+      '$.tags[1] must be a string',
+      '$.count must be a number',
+    ]);
+    assert.deepEqual(validateJson([], schema), ['$ must be an object']);
+    assert.deepEqual(validateJson({}, schema), ['$.name is required', '$.tags is required']);
+  });
+});
+
+describe('extractJson', () => {
+  test('finds the object in a fence or surrounding prose', () => {
+    assert.deepEqual(extractJson('```json\n{"a": 1}\n```'), { a: 1 });
+    assert.deepEqual(extractJson('Here you go: {"a": {"b": 2}} - enjoy'), { a: { b: 2 } });
+  });
+
+  test('throws StructuredOutputError without a valid object', () => {
+    assert.throws(() => extractJson('No JSON here'), StructuredOutputError);
+    assert.throws(() => extractJson('{"a": 1,}'), /not valid JSON/);
+  });
+});
+
+describe('parseActionPlan', () => {
+  test('trims fields and drops empty optional ones', () => {
+    const parsed = parseActionPlan(
+      JSON.stringify({ ...plan, goal: ' Run the team offsite ', steps: [{ title: 'Book the venue ', estimate: '1 hour', details: ' ' }], obstacles: [] })
+    );
+    assert.deepEqual(parsed, { ...plan, steps: [{ title: 'Book the venue', estimate: '1 hour' }] });
+  });
+
+  test('rejects a plan that does not match the schema', () => {
+    assert.throws(
+      () => parseActionPlan(JSON.stringify({ ...plan, steps: [], success_criteria: undefined })),
+      (error: StructuredOutputError) =>
+        error instanceof StructuredOutputError &&
+        error.details.includes('$.steps must have at least 1 items') &&
+        error.details.includes('$.success_criteria is required')
+    );
+  });
+
+  test('the mock answers structured prompts with a valid plan', async () => {
+    const result = await callClaudeMock(`Make an action plan for this note\n\n${ACTION_PLAN_INSTRUCTIONS}`);
+    assert.deepEqual(parseActionPlan(result.content), MOCK_ACTION_PLAN);
+  });
+});
+
+describe('actionPlanToTiptap', () => {
+  test('renders the steps as a checklist of tasks', () => {
+    const doc = actionPlanToTiptap(plan);
+    const items = taskItems(doc);
+
+    assert.equal(items.length, 2);
+    assert.equal(items.every((item) => item.attrs?.checked === false), true);
+    assert.notEqual(items[0].attrs?.taskId, items[1].attrs?.taskId);
+    assert.match(
+      tiptapToMarkdown(doc),
+      /## Action Steps\n\n- \[ \] Book the venue\n\n {2}\*1 hour\*\n- \[ \] Send invites\n\n {2}\*30 min\* · Include the agenda/
+    );
+  });
+
+  test('steps that were already tasks keep their id and tick', () => {
+    const existing = [{ id: 'task-1', text: 'send INVITES', done: true }];
+    const items = taskItems(actionPlanToTiptap(plan, existing));
+
+    assert.deepEqual(items[1].attrs, { checked: true, taskId: 'task-1', estimate: '30 min' });
+    assert.notEqual(items[0].attrs?.taskId, 'task-1');
+  });
+});
+
+describe('tasks', () => {
+  test('collects the tasks of a plan in order', () => {
+    const doc = actionPlanToTiptap(plan);
+    const [first, second] = taskItems(doc);
+
+    assert.deepEqual(collectTaskItems(doc), [
+      { id: first.attrs!.taskId, position: 0, text: 'Book the venue', estimate: '1 hour', done: false },
+      { id: second.attrs!.taskId, position: 1, text: 'Send invites', estimate: '30 min', done: false },
+    ]);
+  });
+
+  test('ignores checklist items without a task id', () => {
+    const doc = { type: 'doc', content: [{ type: 'taskList', content: [{ type: 'taskItem', attrs: { checked: false, taskId: 'abc' } }] }] };
+    assert.deepEqual(collectTaskItems(doc), []);
+  });
+
+  test('ticks a task without changing the rest of the document', () => {
+    const doc = actionPlanToTiptap(plan);
+    const [first, second] = taskItems(doc);
+
+    const ticked = setTaskItemsChecked(doc, new Map([[second.attrs!.taskId, true]]));
+
+    assert.deepEqual(
+      collectTaskItems(ticked).map((task) => task.done),
+      [false, true]
+    );
+    assert.equal(first.attrs!.checked, false);
+    assert.equal(second.attrs!.checked, false, 'the original document is not modified');
+    assert.equal(tiptapToMarkdown(ticked).replace('[x]', '[ ]'), tiptapToMarkdown(doc));
+  });
+});
@@ -0,0 +1,117 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { RankedNote } from '../src/database.js';
+import { buildAskPrompt, linkCitations, selectSources, ASK_PROCESS_TYPE } from '../src/services/ask.js';
+import { callClaudeMock } from '../src/services/llm-mock.js';
+
+const OFFSITE = '11111111-1111-4111-8111-111111111111';
+const BUDGET = '22222222-2222-4222-8222-222222222222';
+const OTHER = '33333333-3333-4333-8333-333333333333';
+
+/**
+ * A search result with a single paragraph of text
+ */
+function rankedNote(id: string, text: string, extra: Partial<RankedNote> = {}): RankedNote {
+  return {
+    id,
+    parent_id: null,
+    type: 'user',
+    item_type: 'note',
+    name: null,
+    name_is_manual: false,
+    content: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+    process_type: null,
+    status: 'draft',
+    error_message: null,
+    error_code: null,
+    metadata: {},
+    comparison_id: null,
+    created_at: '2026-01-05T10:30:00Z',
+    updated_at: '2026-01-05T10:30:00Z',
+    rank: 0.5,
+    ...extra,
+  };
+}
+
+const SOURCES = [
+  { id: OFFSITE, title: 'Team offsite' },
+  { id: BUDGET, title: 'Budget 2026' },
+];
+
+describe('linkCitations', () => {
+  test('numbers cited notes in order of first citation', () => {
+    const { markdown, citations } = linkCitations(
+      `The offsite is in May [note:${BUDGET}]. It is in Lisbon [note:${OFFSITE}, note:${BUDGET}].`,
+      SOURCES
+    );
+
+    assert.equal(
+      markdown,
+      `The offsite is in May [[1](note://${BUDGET})]. It is in Lisbon [[2](note://${OFFSITE}), [1](note://${BUDGET})].`
+    );
+    assert.deepEqual(citations, [
+      { id: BUDGET, title: 'Budget 2026' },
+      { id: OFFSITE, title: 'Team offsite' },
+    ]);
+  });
+
+  test('drops citations of notes that were not sources', () => {
+    const { markdown, citations } = linkCitations(`Made up [note:${OTHER}]`, SOURCES);
+
+    assert.equal(markdown, 'Made up ');
+    assert.deepEqual(citations, []);
+  });
+
+  test('leaves other bracketed text alone', () => {
+    assert.equal(linkCitations('See [the plan] and [1]', SOURCES).markdown, 'See [the plan] and [1]');
+  });
+});
+
+describe('selectSources', () => {
+  test('keeps the best matches within the token budget, truncating the last', () => {
+    const sources = selectSources(
+      [
+        rankedNote(OFFSITE, 'Offsite in Lisbon. '.repeat(20), { name: 'Team offsite', rank: 0.9 }),
+        rankedNote(BUDGET, 'Budget line items. '.repeat(100), { rank: 0.4 }),
+        rankedNote(OTHER, 'Never reached', { rank: 0.1 }),
+      ],
+      300
+    );
+
+    assert.deepEqual(
+      sources.map((source) => source.id),
+      [OFFSITE, BUDGET]
+    );
+    assert.equal(sources[0].title, 'Team offsite');
+    assert.match(sources[1].text, /\.\.\. \[truncated\]$/);
+  });
+
+  test('skips notes without text', () => {
+    const empty = { ...rankedNote(OTHER, ''), content: { type: 'doc', content: [] } };
+    assert.deepEqual(selectSources([empty]), []);
+  });
+});
+
+describe('buildAskPrompt', () => {
+  test('lists each source with its id and asks for citations', () => {
+    const prompt = buildAskPrompt('Where is the offsite?', [
+      { id: OFFSITE, title: 'Team "offsite"', text: 'Offsite in Lisbon', rank: 0.9 },
+    ]);
+
+    assert.match(prompt, new RegExp(`<note id="${OFFSITE}" title="Team 'offsite'">\\nOffsite in Lisbon\\n</note>`));
+    assert.match(prompt, /Question: Where is the offsite\?/);
+    assert.match(prompt, /\[note:<id>\]/);
+  });
+
+  test('gets cited answers from the mock LLM', async () => {
+    const prompt = buildAskPrompt('Where is the offsite?', [
+      { id: OFFSITE, title: 'Team offsite', text: 'Offsite in Lisbon', rank: 0.9 },
+    ]);
+    const result = await callClaudeMock(prompt, { usage: { processType: ASK_PROCESS_TYPE } });
+
+    assert.deepEqual(
+      linkCitations(result.content, SOURCES).citations.map((citation) => citation.id),
+      [OFFSITE]
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateBudgetUse } from '../src/services/budgets.js';
+import { estimateCost } from '../src/services/llm.js';
+
+const SONNET = { inputTokens: 1000, outputTokens: 2000, model: 'claude-sonnet-4-20250514' };
+const HAIKU = { inputTokens: 1000, outputTokens: 500, model: 'claude-3-5-haiku-20241022' };
+
+describe('estimateBudgetUse', () => {
+  test('adds up the tokens of runs checked together', () => {
+    assert.equal(estimateBudgetUse('tokens', [SONNET, HAIKU]), 4500);
+  });
+
+  test('prices each run with its own model', () => {
+    assert.equal(
+      estimateBudgetUse('cost', [SONNET, HAIKU]),
+      estimateCost(1000, 2000, SONNET.model) + estimateCost(1000, 500, HAIKU.model)
+    );
+  });
+});
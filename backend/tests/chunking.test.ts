@@ -0,0 +1,84 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  splitIntoChunks,
+  needsChunking,
+  buildMapPrompt,
+  buildReduceContent,
+  CHUNKING_THRESHOLD_TOKENS,
+} from '../src/services/chunking.js';
+import { estimateTokens } from '../src/services/llm.js';
+import { ProcessDefinition } from '../src/database.js';
+
+// A block of roughly the given number of tokens (estimateTokens is 4 characters a token)
+const block = (label: string, tokens: number) => `${label} ${'x'.repeat(tokens * 4 - label.length - 1)}`;
+
+describe('splitIntoChunks', () => {
+  test('packs blocks into chunks no bigger than the limit, in order', () => {
+    const blocks = Array.from({ length: 10 }, (_, i) => block(`p${i}`, 30));
+    const chunks = splitIntoChunks(blocks, 100);
+
+    assert.equal(chunks.length, 4);
+    for (const chunk of chunks) {
+      assert.ok(estimateTokens(chunk) <= 100);
+    }
+    assert.equal(chunks.join('\n\n'), blocks.join('\n\n'));
+  });
+
+  test('a note under the limit stays in one chunk', () => {
+    assert.deepEqual(splitIntoChunks(['# Title', 'one', 'two'], 100), ['# Title\n\none\n\ntwo']);
+  });
+
+  test('starts a new chunk at a heading once the current chunk is half full', () => {
+    const chunks = splitIntoChunks([block('a', 60), '## Section', block('b', 10)], 100);
+    assert.deepEqual(chunks, [block('a', 60), `## Section\n\n${block('b', 10)}`]);
+  });
+
+  test('keeps a heading with its section instead of ending a chunk with it', () => {
+    const chunks = splitIntoChunks([block('a', 20), '## Next', block('b', 90)], 100);
+    assert.equal(chunks[0], block('a', 20));
+    assert.ok(chunks[1].startsWith('## Next\n\n'));
+  });
+
+  test('splits an oversized block on lines, then sentences, then anywhere', () => {
+    const lines = Array.from({ length: 6 }, (_, i) => block(`line${i}`, 40)).join('\n');
+    const byLine = splitIntoChunks([lines], 100);
+    assert.equal(byLine.length, 3);
+    assert.equal(byLine.join('\n'), lines);
+
+    const sentences = Array.from({ length: 6 }, (_, i) => `${block(`s${i}`, 40)}.`).join(' ');
+    const bySentence = splitIntoChunks([sentences], 100);
+    assert.equal(bySentence.length, 3);
+    assert.equal(bySentence.join(' '), sentences);
+
+    const solid = 'y'.repeat(1000);
+    const byLength = splitIntoChunks([solid], 100);
+    assert.deepEqual(byLength.map((chunk) => chunk.length), [400, 400, 200]);
+  });
+});
+
+describe('chunk prompts', () => {
+  const definition = {
+    type: 'custom',
+    name: 'Meeting Minutes',
+    description: 'Turn a transcript into minutes',
+  } as ProcessDefinition;
+
+  test('only long notes are chunked', () => {
+    assert.equal(needsChunking('short note'), false);
+    assert.equal(needsChunking('z'.repeat(CHUNKING_THRESHOLD_TOKENS * 4 + 4)), true);
+  });
+
+  test('the map prompt names the part and the task, for any process', () => {
+    const prompt = buildMapPrompt(definition, 'chunk text', 1, 3);
+    assert.match(prompt, /^This is part 2 of 3 of a long note/);
+    assert.match(prompt, /Meeting Minutes - Turn a transcript into minutes/);
+    assert.match(prompt, /<part>\nchunk text\n<\/part>$/);
+  });
+
+  test('the reduce content lists the notes from every part in order', () => {
+    const content = buildReduceContent(['first notes\n', 'second notes']);
+    assert.match(content, /split into 2 parts/);
+    assert.ok(content.endsWith('### Part 1 of 2\n\nfirst notes\n\n### Part 2 of 2\n\nsecond notes'));
+  });
+});
@@ -0,0 +1,56 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateComparisonVariants, variantOverrides } from '../src/services/comparisons.js';
+
+const MODELS = ['claude-sonnet-4-20250514', 'claude-3-5-haiku-20241022'];
+
+describe('validateComparisonVariants', () => {
+  test('needs two to four variants', () => {
+    assert.equal(validateComparisonVariants([{}], MODELS).errors.length, 1);
+    assert.equal(validateComparisonVariants([{}, {}, {}, {}, {}], MODELS).errors.length, 1);
+    assert.equal(validateComparisonVariants('variants', MODELS).errors.length, 1);
+    assert.deepEqual(validateComparisonVariants([{}, {}], MODELS).errors, []);
+  });
+
+  test('labels variants by their model, or their position', () => {
+    const { values } = validateComparisonVariants(
+      [{ model: 'claude-3-5-haiku-20241022' }, { temperature: 0.2 }, { label: '  Terse  ', system_prompt: 'Be terse' }],
+      MODELS
+    );
+
+    assert.deepEqual(
+      values.map((variant) => variant.label),
+      ['claude-3-5-haiku-20241022', 'Variant 2', 'Terse']
+    );
+    assert.deepEqual(values[1], {
+      label: 'Variant 2',
+      model: null,
+      temperature: 0.2,
+      max_tokens: null,
+      system_prompt: null,
+      prompt_template: null,
+    });
+  });
+
+  test('reports every invalid setting with its variant', () => {
+    const { errors } = validateComparisonVariants(
+      [{ model: 'gpt-9' }, { temperature: 2, max_tokens: 0 }, { prompt_template: 'No placeholder' }],
+      MODELS
+    );
+
+    assert.equal(errors.length, 4);
+    assert.match(errors[0], /^variants\[0\]\.model must be one of/);
+    assert.match(errors[1], /^variants\[1\]\.temperature/);
+    assert.match(errors[2], /^variants\[1\]\.max_tokens/);
+    assert.match(errors[3], /^variants\[2\]\.prompt_template/);
+  });
+});
+
+describe('variantOverrides', () => {
+  test('only overrides what the variant sets', () => {
+    const { values } = validateComparisonVariants([{ temperature: 0 }, { model: 'claude-3-5-haiku-20241022', max_tokens: 500 }], MODELS);
+
+    assert.deepEqual(variantOverrides(values[0]), { temperature: 0 });
+    assert.deepEqual(variantOverrides(values[1]), { model: 'claude-3-5-haiku-20241022', max_tokens: 500 });
+  });
+});
@@ -0,0 +1,57 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, nextCronTime } from '../src/services/cron.js';
+
+// Local times, as the scheduler works in the server's time zone - Monday 5 January 2026, 10:30
+const MONDAY = new Date(2026, 0, 5, 10, 30);
+
+const at = (month: number, day: number, hour: number, minute: number) => new Date(2026, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  test('parses lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 JAN-MAR mon-fri');
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hours], [9, 13, 17]);
+    assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+    assert.deepEqual([...schedule.months], [1, 2, 3]);
+    assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+  });
+
+  test('7 is Sunday and shorthands expand', () => {
+    assert.deepEqual([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+    assert.deepEqual(parseCron('@weekly'), parseCron('0 0 * * 0'));
+  });
+
+  test('rejects malformed expressions', () => {
+    assert.throws(() => parseCron('* * * *'), /5 fields/);
+    assert.throws(() => parseCron('60 * * * *'), /minute "60"/);
+    assert.throws(() => parseCron('* * 0 * *'), /day of month "0"/);
+    assert.throws(() => parseCron('* * * FOO *'), /month "FOO"/);
+    assert.throws(() => parseCron('*/0 * * * *'), /step/);
+    assert.throws(() => parseCron('* 5-2 * * *'), /range/);
+  });
+});
+
+describe('nextCronTime', () => {
+  test('finds the next matching minute, strictly after the given time', () => {
+    assert.deepEqual(nextCronTime('*/15 * * * *', MONDAY), at(1, 5, 10, 45));
+    assert.deepEqual(nextCronTime('30 10 * * *', MONDAY), at(1, 6, 10, 30));
+    assert.deepEqual(nextCronTime('0 9 * * *', MONDAY), at(1, 6, 9, 0));
+  });
+
+  test('rolls over days, months and years', () => {
+    assert.deepEqual(nextCronTime('0 8 * * FRI', MONDAY), at(1, 9, 8, 0));
+    assert.deepEqual(nextCronTime('0 0 1 * *', MONDAY), at(2, 1, 0, 0));
+    assert.deepEqual(nextCronTime('0 0 29 2 *', MONDAY), new Date(2028, 1, 29, 0, 0));
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // The 15th, or any Sunday - Sunday 11 January comes first
+    assert.deepEqual(nextCronTime('0 12 15 * SUN', MONDAY), at(1, 11, 12, 0));
+    assert.deepEqual(nextCronTime('0 12 15 * SUN', at(1, 12, 0, 0)), at(1, 15, 12, 0));
+  });
+
+  test('throws when an expression never matches', () => {
+    assert.throws(() => nextCronTime('0 0 30 2 *', MONDAY), /never matches/);
+  });
+});
@@ -0,0 +1,125 @@
+import { test, describe, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { cassetteKey, cassetteRequest, createCassetteProvider } from '../src/services/llm-cassettes.js';
+import { LLMCassetteMissError } from '../src/services/llm-errors.js';
+import type { LLMInput, LLMProvider, LLMResult } from '../src/services/llm.js';
+
+let dir: string;
+
+/**
+ * A stand-in for a real provider that counts its calls
+ */
+function fakeProvider(): LLMProvider & { calls: number } {
+  const reply = (prompt: LLMInput): LLMResult => ({
+    content: `Reply to: ${typeof prompt === 'string' ? prompt : prompt[prompt.length - 1].content}`,
+    tokensUsed: { input: 10, output: 5, total: 15 },
+    model: 'claude-sonnet-4-20250514',
+    provider: 'anthropic',
+  });
+
+  const provider = {
+    name: 'anthropic' as const,
+    calls: 0,
+    complete: async (prompt: LLMInput) => {
+      provider.calls++;
+      return reply(prompt);
+    },
+    stream: async (prompt: LLMInput, onChunk: (chunk: string) => void) => {
+      provider.calls++;
+      const result = reply(prompt);
+      onChunk(result.content);
+      return result;
+    },
+    listModels: async () => ['claude-sonnet-4-20250514'],
+  };
+  return provider;
+}
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'cassettes-'));
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('cassetteKey', () => {
+  const key = (prompt: LLMInput, options = {}) => cassetteKey(cassetteRequest('anthropic', prompt, options));
+
+  test('is the same for the same prompt, model and parameters', () => {
+    assert.equal(key('Summarize', { model: 'm', temperature: 0.2 }), key('Summarize', { model: 'm', temperature: 0.2 }));
+    assert.equal(key('Summarize'), key([{ role: 'user', content: 'Summarize' }]));
+  });
+
+  test('ignores the abort signal and usage context', () => {
+    const options = { signal: new AbortController().signal, usage: { noteId: 'n1', processType: 'summarize' } };
+    assert.equal(key('Summarize', options), key('Summarize'));
+  });
+
+  test('changes with anything that changes the output', () => {
+    const base = key('Summarize');
+    assert.notEqual(key('Expand'), base);
+    assert.notEqual(key('Summarize', { model: 'claude-opus-4-20250514' }), base);
+    assert.notEqual(key('Summarize', { maxTokens: 100 }), base);
+    assert.notEqual(key('Summarize', { temperature: 0 }), base);
+    assert.notEqual(key('Summarize', { systemPrompt: 'Be brief' }), base);
+    assert.notEqual(cassetteKey(cassetteRequest('openai', 'Summarize')), base);
+  });
+});
+
+describe('cassette provider', () => {
+  test('replays what was recorded without calling the provider', async () => {
+    const live = fakeProvider();
+    const recorder = createCassetteProvider({ name: 'anthropic', live, dir });
+    const recorded = await recorder.complete('Research this note', { temperature: 0.5 });
+
+    assert.equal(live.calls, 1);
+    assert.equal((await readdir(dir)).length, 1);
+
+    const player = createCassetteProvider({ name: 'anthropic', live: null, dir });
+    assert.deepEqual(await player.complete('Research this note', { temperature: 0.5 }), recorded);
+  });
+
+  test('lists the models recorded calls asked for', async () => {
+    const modelsDir = await mkdtemp(path.join(tmpdir(), 'cassettes-models-'));
+    try {
+      const recorder = createCassetteProvider({ name: 'anthropic', live: fakeProvider(), dir: modelsDir });
+      await recorder.complete('Summarize this note');
+      await recorder.complete('Summarize this note', { model: 'claude-3-5-haiku-20241022' });
+
+      // The default run answered as Sonnet, but only a run asking for Haiku can be replayed by model
+      const player = createCassetteProvider({ name: 'anthropic', live: null, dir: modelsDir });
+      assert.deepEqual(await player.listModels(), ['claude-3-5-haiku-20241022']);
+    } finally {
+      await rm(modelsDir, { recursive: true, force: true });
+    }
+  });
+
+  test('replays a recording as a stream of chunks', async () => {
+    const prompt = `Expand this note: ${'lorem ipsum '.repeat(10)}`;
+    await createCassetteProvider({ name: 'anthropic', live: fakeProvider(), dir }).complete(prompt);
+
+    const chunks: string[] = [];
+    const player = createCassetteProvider({ name: 'anthropic', live: null, dir });
+    const result = await player.stream(prompt, (chunk) => chunks.push(chunk));
+
+    assert.equal(chunks.length > 1, true);
+    assert.equal(chunks.join(''), result.content);
+  });
+
+  test('fails a request that was never recorded', async () => {
+    const player = createCassetteProvider({ name: 'anthropic', live: null, dir });
+
+    await assert.rejects(player.complete('Never recorded'), (error: any) => {
+      assert.equal(error instanceof LLMCassetteMissError, true);
+      assert.equal(error.retryable, false);
+      assert.equal(error.key, cassetteKey(cassetteRequest('anthropic', 'Never recorded')));
+      return true;
+    });
+  });
+});
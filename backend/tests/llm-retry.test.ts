@@ -0,0 +1,169 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LLMError,
+  LLMRateLimitedError,
+  LLMOverloadedError,
+  LLMTimeoutError,
+  llmErrorFromStatus,
+  parseRetryAfter,
+} from '../src/services/llm-errors.js';
+import { retryDelayMs, withRetries, LLMResult, RetryPolicy } from '../src/services/llm.js';
+
+const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 10, maxDelayMs: 100, timeoutMs: 1000 };
+
+const result: LLMResult = {
+  content: 'ok',
+  tokensUsed: { input: 1, output: 1, total: 2 },
+  model: 'test-model',
+  provider: 'mock',
+};
+
+/**
+ * A call that fails with each of the given errors in turn, then succeeds
+ */
+function failingCall(errors: Error[]) {
+  let calls = 0;
+  const call = async () => {
+    const error = errors[calls++];
+    if (error) throw error;
+    return result;
+  };
+  return { call, calls: () => calls };
+}
+
+describe('llmErrorFromStatus', () => {
+  test('classifies each kind of failure', () => {
+    const codes = [429, 529, 503, 401, 403, 408, 504, 400, 500, 409].map(
+      (status) => llmErrorFromStatus(status, 'failed').code
+    );
+    assert.deepEqual(codes, [
+      'LLM_RATE_LIMITED',
+      'LLM_OVERLOADED',
+      'LLM_OVERLOADED',
+      'LLM_AUTH_FAILED',
+      'LLM_AUTH_FAILED',
+      'LLM_TIMEOUT',
+      'LLM_TIMEOUT',
+      'LLM_INVALID_REQUEST',
+      'LLM_PROVIDER_ERROR',
+      'LLM_PROVIDER_ERROR',
+    ]);
+  });
+
+  test('recognises a prompt that is too long', () => {
+    assert.equal(llmErrorFromStatus(400, 'prompt is too long: 210000 tokens > 200000 maximum').code, 'LLM_CONTEXT_TOO_LONG');
+    assert.equal(llmErrorFromStatus(400, "This model's maximum context length is 8192 tokens").code, 'LLM_CONTEXT_TOO_LONG');
+    assert.equal(llmErrorFromStatus(413, 'Payload too large').code, 'LLM_CONTEXT_TOO_LONG');
+  });
+
+  test('only transient failures are retryable', () => {
+    assert.equal(llmErrorFromStatus(429, '').retryable, true);
+    assert.equal(llmErrorFromStatus(502, '').retryable, true);
+    assert.equal(llmErrorFromStatus(401, '').retryable, false);
+    assert.equal(llmErrorFromStatus(400, '').retryable, false);
+    assert.equal(llmErrorFromStatus(409, '').retryable, false);
+  });
+
+  test('keeps the retry-after of rate limits and overloads', () => {
+    assert.equal(llmErrorFromStatus(429, '', 5000).retryAfterMs, 5000);
+    assert.equal(llmErrorFromStatus(529, '', 2000).retryAfterMs, 2000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  test('reads seconds, milliseconds and HTTP dates', () => {
+    assert.equal(parseRetryAfter('3'), 3000);
+    assert.equal(parseRetryAfter('3', '1500'), 1500);
+    assert.equal(parseRetryAfter(null), null);
+    assert.equal(parseRetryAfter('soon'), null);
+
+    const inTenSeconds = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString())!;
+    assert.ok(inTenSeconds > 8000 && inTenSeconds <= 10_000);
+  });
+});
+
+describe('retryDelayMs', () => {
+  test('backs off exponentially with jitter, up to the maximum', () => {
+    const error = new LLMOverloadedError('overloaded');
+    assert.equal(retryDelayMs(error, 0, policy, () => 0), 5);
+    assert.equal(retryDelayMs(error, 0, policy, () => 1), 10);
+    assert.equal(retryDelayMs(error, 2, policy, () => 1), 40);
+    assert.equal(retryDelayMs(error, 2, { ...policy, maxRetries: 10 }, () => 1), 40);
+    assert.equal(retryDelayMs(error, 6, { ...policy, maxRetries: 10 }, () => 1), 100);
+  });
+
+  test('honours retry-after, but gives up rather than wait past the maximum', () => {
+    assert.equal(retryDelayMs(new LLMRateLimitedError('slow down', 80), 0, policy), 80);
+    assert.equal(retryDelayMs(new LLMRateLimitedError('slow down', 5000), 0, policy), null);
+  });
+
+  test('does not retry permanent errors, unknown errors or past maxRetries', () => {
+    assert.equal(retryDelayMs(llmErrorFromStatus(401, 'bad key'), 0, policy), null);
+    assert.equal(retryDelayMs(new Error('bug'), 0, policy), null);
+    assert.equal(retryDelayMs(new LLMOverloadedError('overloaded'), 3, policy), null);
+  });
+});
+
+describe('withRetries', () => {
+  test('retries transient failures until the call succeeds', async () => {
+    const { call, calls } = failingCall([new LLMOverloadedError('overloaded'), new LLMError('502 Bad Gateway')]);
+    assert.deepEqual(await withRetries(call, {}, policy), result);
+    assert.equal(calls(), 3);
+  });
+
+  test('gives up after maxRetries and throws the last error', async () => {
+    const errors = Array.from({ length: 5 }, () => new LLMOverloadedError('overloaded'));
+    const { call, calls } = failingCall(errors);
+    await assert.rejects(withRetries(call, {}, policy), { code: 'LLM_OVERLOADED' });
+    assert.equal(calls(), 4);
+  });
+
+  test('fails straight away on a permanent error', async () => {
+    const { call, calls } = failingCall([llmErrorFromStatus(400, 'prompt is too long')]);
+    await assert.rejects(withRetries(call, {}, policy), { code: 'LLM_CONTEXT_TOO_LONG' });
+    assert.equal(calls(), 1);
+  });
+
+  test('does not retry once canRetry says no', async () => {
+    const { call, calls } = failingCall([new LLMOverloadedError('overloaded')]);
+    await assert.rejects(withRetries(call, { canRetry: () => false }, policy), { code: 'LLM_OVERLOADED' });
+    assert.equal(calls(), 1);
+  });
+
+  test('times out an attempt that never answers, then retries it', async () => {
+    let calls = 0;
+    const call = (signal: AbortSignal) => {
+      calls++;
+      if (calls > 1) return Promise.resolve(result);
+      return new Promise<LLMResult>((_, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Request was aborted')));
+      });
+    };
+
+    assert.deepEqual(await withRetries(call, {}, { ...policy, timeoutMs: 20 }), result);
+    assert.equal(calls, 2);
+  });
+
+  test('reports a timeout when every attempt times out', async () => {
+    const call = (signal: AbortSignal) =>
+      new Promise<LLMResult>((_, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Request was aborted')));
+      });
+
+    await assert.rejects(withRetries(call, {}, { ...policy, maxRetries: 1, timeoutMs: 20 }), LLMTimeoutError);
+  });
+
+  test('a caller abort is passed through without retrying', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const call = async () => {
+      calls++;
+      controller.abort();
+      throw new Error('Request was aborted');
+    };
+
+    await assert.rejects(withRetries(call, { signal: controller.signal }, policy), { message: 'Request was aborted' });
+    assert.equal(calls, 1);
+  });
+});
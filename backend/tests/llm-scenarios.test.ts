@@ -0,0 +1,98 @@
+import { test, describe, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { callClaudeMock, callClaudeMockStream, MOCK_RESPONSES } from '../src/services/llm-mock.js';
+import { addScenario, listScenarios, clearScenarios, takeScenario, MockScenarioInput } from '../src/services/llm-scenarios.js';
+import { LLMAuthError } from '../src/services/llm-errors.js';
+
+/**
+ * A scenario input with nothing set, so tests only spell out what matters
+ */
+function scenario(extra: Partial<MockScenarioInput> = {}): MockScenarioInput {
+  return {
+    processType: null,
+    promptPattern: null,
+    response: null,
+    error: null,
+    delayMs: 0,
+    chunkSize: null,
+    chunkDelayMs: null,
+    times: 1,
+    ...extra,
+  };
+}
+
+const usage = (processType: string) => ({ usage: { processType } });
+
+before(() => {
+  // The mock logs every call; a burst of stdout output can garble the test runner's own messages
+  mock.method(console, 'log', () => {});
+});
+
+beforeEach(() => {
+  clearScenarios();
+});
+
+describe('mock process types', () => {
+  test('come from the call, not from words in the note', async () => {
+    addScenario(scenario({ times: 2 })); // No waiting
+    const prompt = 'Research this note:\n\nPlease summarize and expand on the action plan';
+
+    assert.equal((await callClaudeMock(prompt, usage('research'))).content, MOCK_RESPONSES.research);
+    assert.equal((await callClaudeMock(prompt, usage('expand'))).content, MOCK_RESPONSES.expand);
+  });
+});
+
+describe('takeScenario', () => {
+  test('takes the oldest matching scenario and uses it up', () => {
+    const summarize = addScenario(scenario({ processType: 'summarize', times: 2 }));
+    const any = addScenario(scenario());
+
+    assert.equal(takeScenario('research', 'prompt')?.id, any.id);
+    assert.equal(takeScenario('summarize', 'prompt')?.remaining, 1);
+    assert.equal(takeScenario('summarize', 'prompt')?.remaining, 0);
+    assert.equal(takeScenario('summarize', 'prompt'), null);
+    assert.deepEqual(listScenarios(), []);
+    assert.notEqual(summarize.id, any.id);
+  });
+
+  test('matches the prompt against a regular expression', () => {
+    addScenario(scenario({ promptPattern: 'quarterly (plan|review)' }));
+
+    assert.equal(takeScenario('research', 'the annual plan'), null);
+    assert.notEqual(takeScenario('research', 'the quarterly review'), null);
+  });
+});
+
+describe('scripted mock calls', () => {
+  test('reply with the scenario response', async () => {
+    addScenario(scenario({ processType: 'summarize', response: '# Custom summary' }));
+
+    assert.equal((await callClaudeMock('Summarize', usage('summarize'))).content, '# Custom summary');
+    // Used up - the next call gets the canned response
+    assert.equal((await callClaudeMock('Summarize', usage('summarize'))).content, MOCK_RESPONSES.summarize);
+  });
+
+  test('fail with the scenario error', async () => {
+    addScenario(scenario({ error: 'auth' }));
+
+    await assert.rejects(callClaudeMock('Research', usage('research')), LLMAuthError);
+  });
+
+  test('stream in chunks of the scenario size', async () => {
+    addScenario(scenario({ response: 'abcdefghij', chunkSize: 4, chunkDelayMs: 0 }));
+
+    const chunks: string[] = [];
+    const result = await callClaudeMockStream('Research', (chunk) => chunks.push(chunk), usage('research'));
+
+    assert.deepEqual(chunks, ['abcd', 'efgh', 'ij']);
+    assert.equal(result.content, 'abcdefghij');
+  });
+
+  test('wait for the scenario delay', async () => {
+    addScenario(scenario({ delayMs: 50 }));
+
+    const started = Date.now();
+    await callClaudeMock('Research', usage('research'));
+    assert.equal(Date.now() - started >= 45, true);
+  });
+});
@@ -0,0 +1,394 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { markdownToTiptap, tiptapToMarkdown } from '../src/services/markdown.js';
+import { MOCK_RESPONSES } from '../src/services/llm-mock.js';
+import { TiptapNode } from '../src/services/tiptap.js';
+import { buildSourceLinks } from '../src/services/processor.js';
+
+// The parts of the editor schema (StarterKit + links + tables) the converter may produce
+const BLOCK_CONTENT: Record<string, string[]> = {
+  doc: ['block'],
+  paragraph: ['inline'],
+  heading: ['inline'],
+  blockquote: ['block'],
+  codeBlock: ['text'],
+  bulletList: ['listItem'],
+  orderedList: ['listItem'],
+  listItem: ['block'],
+  table: ['tableRow'],
+  tableRow: ['tableHeader', 'tableCell'],
+  tableHeader: ['block'],
+  tableCell: ['block'],
+  horizontalRule: [],
+};
+const BLOCKS = ['paragraph', 'heading', 'blockquote', 'codeBlock', 'bulletList', 'orderedList', 'table', 'horizontalRule'];
+const INLINE = ['text', 'hardBreak'];
+const MARKS = ['bold', 'italic', 'strike', 'code', 'link'];
+
+/**
+ * Fail if the document doesn't fit the editor schema (setContent would reject it)
+ */
+function assertValidDoc(node: TiptapNode, path = 'doc'): void {
+  if (node.type === 'text') {
+    assert.ok(node.text, `${path}: empty text node`);
+    for (const mark of node.marks ?? []) {
+      assert.ok(MARKS.includes(mark.type), `${path}: unknown mark ${mark.type}`);
+    }
+    if (node.marks?.some((mark) => mark.type === 'code')) {
+      assert.equal(node.marks.length, 1, `${path}: code mark combined with other marks`);
+    }
+    return;
+  }
+
+  if (node.type === 'hardBreak') return;
+
+  const allowed = BLOCK_CONTENT[node.type];
+  assert.ok(allowed, `${path}: unknown node type ${node.type}`);
+
+  for (const [i, child] of (node.content ?? []).entries()) {
+    const kind = BLOCKS.includes(child.type) ? 'block' : INLINE.includes(child.type) ? 'inline' : child.type;
+    const fits = allowed.includes(kind) || allowed.includes(child.type);
+    assert.ok(fits, `${path}: ${child.type} not allowed in ${node.type}`);
+    assertValidDoc(child, `${path}.${child.type}[${i}]`);
+  }
+
+  if (['doc', 'blockquote', 'listItem', 'tableHeader', 'tableCell', 'bulletList', 'orderedList', 'table', 'tableRow'].includes(node.type)) {
+    assert.ok(node.content?.length, `${path}: ${node.type} needs content`);
+  }
+  if (node.type === 'listItem') {
+    assert.equal(node.content?.[0].type, 'paragraph', `${path}: list item must start with a paragraph`);
+  }
+}
+
+function findAll(node: TiptapNode, type: string): TiptapNode[] {
+  const found = node.type === type ? [node] : [];
+  return found.concat(...(node.content ?? []).map((child) => findAll(child, type)));
+}
+
+function textOf(node: TiptapNode): string {
+  return node.text ?? (node.content ?? []).map(textOf).join('');
+}
+
+// The first block's inline content, for single-paragraph cases
+function inline(markdown: string): TiptapNode[] {
+  return markdownToTiptap(markdown).content?.[0].content ?? [];
+}
+
+describe('markdownToTiptap with the mock LLM responses', () => {
+  for (const [processType, markdown] of Object.entries(MOCK_RESPONSES)) {
+    test(`${processType} converts to a valid document with no markdown left over`, () => {
+      const doc = markdownToTiptap(markdown);
+      assertValidDoc(doc);
+
+      const text = textOf(doc);
+      assert.doesNotMatch(text, /\*\*|__|^#{1,6} |`/m);
+    });
+  }
+
+  test('bold list labels become bold marks', () => {
+    const doc = markdownToTiptap(MOCK_RESPONSES.research);
+    const bold = findAll(doc, 'text').filter((node) => node.marks?.some((mark) => mark.type === 'bold'));
+    assert.ok(bold.some((node) => node.text === 'Concept 1'));
+  });
+
+  test('numbered steps with nested bullets keep their nesting', () => {
+    const doc = markdownToTiptap(MOCK_RESPONSES.actionplan);
+    const nested = findAll(doc, 'orderedList').flatMap((list) => findAll(list, 'bulletList'));
+    assert.ok(nested.length > 0);
+  });
+});
+
+describe('markdownToTiptap inline marks', () => {
+  test('bold, italic, strikethrough and code', () => {
+    assert.deepEqual(inline('**b** *i* ~~s~~ `c`'), [
+      { type: 'text', text: 'b', marks: [{ type: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'i', marks: [{ type: 'italic' }] },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 's', marks: [{ type: 'strike' }] },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'c', marks: [{ type: 'code' }] },
+    ]);
+  });
+
+  test('nested marks combine', () => {
+    assert.deepEqual(inline('***both***'), [
+      { type: 'text', text: 'both', marks: [{ type: 'italic' }, { type: 'bold' }] },
+    ]);
+  });
+
+  test('links keep their href and inner marks', () => {
+    assert.deepEqual(inline('[**docs**](https://example.com)'), [
+      { type: 'text', text: 'docs', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }, { type: 'bold' }] },
+    ]);
+  });
+
+  test('note:// source links keep their href, with brackets in titles escaped', () => {
+    const doc = markdownToTiptap(buildSourceLinks([{ id: 'abc', title: 'Retro [draft]' }]));
+    assertValidDoc(doc);
+    const [item] = findAll(doc, 'listItem');
+    assert.deepEqual(findAll(item, 'text'), [
+      { type: 'text', text: 'Retro [draft]', marks: [{ type: 'link', attrs: { href: 'note://abc' } }] },
+    ]);
+  });
+
+  test('code inside bold only carries the code mark', () => {
+    const code = inline('**run `npm test`**').find((node) => node.text === 'npm test');
+    assert.deepEqual(code?.marks, [{ type: 'code' }]);
+  });
+
+  test('code spans are literal', () => {
+    assert.deepEqual(inline('`a &lt; **b**`'), [{ type: 'text', text: 'a &lt; **b**', marks: [{ type: 'code' }] }]);
+  });
+
+  test('escapes and entities become plain characters', () => {
+    assert.equal(textOf(markdownToTiptap('\\*not italic\\* &amp; &#x263A;')), '*not italic* & ☺');
+  });
+
+  test('hard breaks and <br> become hardBreak nodes; soft breaks become spaces', () => {
+    assert.deepEqual(
+      inline('one  \ntwo<br>three\nfour').map((node) => node.type === 'text' ? node.text : node.type),
+      ['one', 'hardBreak', 'two', 'hardBreak', 'three four']
+    );
+  });
+});
+
+describe('markdownToTiptap blocks', () => {
+  test('headings of every level', () => {
+    const doc = markdownToTiptap('# One\n## Two\n###### Six');
+    assert.deepEqual(findAll(doc, 'heading').map((node) => node.attrs?.level), [1, 2, 6]);
+  });
+
+  test('fenced code blocks keep their language and text', () => {
+    const doc = markdownToTiptap('```ts title="x.ts"\nconst a = 1 < 2;\n\n**not bold**\n```');
+    assert.deepEqual(doc.content, [
+      {
+        type: 'codeBlock',
+        attrs: { language: 'ts' },
+        content: [{ type: 'text', text: 'const a = 1 < 2;\n\n**not bold**' }],
+      },
+    ]);
+  });
+
+  test('empty and unclosed code blocks', () => {
+    assert.deepEqual(markdownToTiptap('```\n```').content, [{ type: 'codeBlock', attrs: { language: null } }]);
+    const unclosed = markdownToTiptap('```python\nprint(1)');
+    assertValidDoc(unclosed);
+    assert.equal(textOf(unclosed), 'print(1)');
+  });
+
+  test('blockquotes hold blocks, including nested quotes and lists', () => {
+    const doc = markdownToTiptap('> quoted **text**\n>\n> - item\n>\n> > deeper');
+    assertValidDoc(doc);
+    const quote = doc.content?.[0];
+    assert.equal(quote?.type, 'blockquote');
+    assert.deepEqual(quote?.content?.map((node) => node.type), ['paragraph', 'bulletList', 'blockquote']);
+  });
+
+  test('horizontal rules', () => {
+    const doc = markdownToTiptap('above\n\n---\n\nbelow');
+    assert.deepEqual(doc.content?.map((node) => node.type), ['paragraph', 'horizontalRule', 'paragraph']);
+  });
+
+  test('nested lists, loose lists and ordered list starts', () => {
+    const doc = markdownToTiptap('3. three\n   - sub *a*\n     - subsub\n4. four\n\n- loose\n\n- list');
+    assertValidDoc(doc);
+
+    const ordered = doc.content?.[0];
+    assert.equal(ordered?.type, 'orderedList');
+    assert.deepEqual(ordered?.attrs, { start: 3 });
+    assert.equal(findAll(ordered!, 'bulletList').length, 2);
+    assert.equal(textOf(doc.content![1]), 'looselist');
+  });
+
+  test('list items that start with a code block get a leading paragraph', () => {
+    const doc = markdownToTiptap('- ```\n  code\n  ```');
+    assertValidDoc(doc);
+    assert.deepEqual(findAll(doc, 'listItem')[0].content?.map((node) => node.type), ['paragraph', 'codeBlock']);
+  });
+
+  test('GFM tables become header and body rows', () => {
+    const doc = markdownToTiptap('| Name | Cost |\n|:-----|-----:|\n| **A** | $1 |\n| B | |');
+    assertValidDoc(doc);
+
+    const rows = findAll(doc, 'tableRow');
+    assert.equal(rows.length, 3);
+    assert.deepEqual(rows[0].content?.map((cell) => cell.type), ['tableHeader', 'tableHeader']);
+    assert.deepEqual(rows[1].content?.map((cell) => cell.type), ['tableCell', 'tableCell']);
+    assert.deepEqual(rows[1].content?.[0].content?.[0].content, [{ type: 'text', text: 'A', marks: [{ type: 'bold' }] }]);
+    assert.deepEqual(rows[2].content?.[1].content, [{ type: 'paragraph' }]);
+  });
+});
+
+describe('markdownToTiptap graceful degradation', () => {
+  test('empty input gives an empty paragraph', () => {
+    assert.deepEqual(markdownToTiptap(''), { type: 'doc', content: [{ type: 'paragraph' }] });
+    assert.deepEqual(markdownToTiptap('  \n\n'), { type: 'doc', content: [{ type: 'paragraph' }] });
+  });
+
+  test('task list checkboxes become characters', () => {
+    const doc = markdownToTiptap('- [ ] todo\n- [x] done');
+    assertValidDoc(doc);
+    assert.deepEqual(findAll(doc, 'paragraph').map(textOf), ['☐ todo', '☑ done']);
+  });
+
+  test('images become links with their alt text', () => {
+    assert.deepEqual(inline('![diagram](https://example.com/d.png)'), [
+      { type: 'text', text: 'diagram', marks: [{ type: 'link', attrs: { href: 'https://example.com/d.png' } }] },
+    ]);
+  });
+
+  test('raw HTML is kept as text', () => {
+    const doc = markdownToTiptap('<div class="x">block</div>\n\ninline <kbd>K</kbd>');
+    assertValidDoc(doc);
+    assert.equal(textOf(doc.content![0]), '<div class="x">block</div>');
+    assert.equal(textOf(doc.content![1]), 'inline <kbd>K</kbd>');
+  });
+
+  test('link reference definitions are used, not shown', () => {
+    const doc = markdownToTiptap('See [the docs][d].\n\n[d]: https://example.com');
+    assert.equal(doc.content?.length, 1);
+    assert.ok(findAll(doc, 'text').some((node) => node.marks?.[0].attrs?.href === 'https://example.com'));
+  });
+
+  test('empty headings and blockquotes stay valid', () => {
+    const doc = markdownToTiptap('#\n\n>');
+    assertValidDoc(doc);
+    assert.deepEqual(doc.content, [
+      { type: 'heading', attrs: { level: 1 } },
+      { type: 'blockquote', content: [{ type: 'paragraph' }] },
+    ]);
+  });
+
+  test('unbalanced emphasis is left as text', () => {
+    assert.equal(textOf(markdownToTiptap('**not closed and a_b_c')), '**not closed and a_b_c');
+  });
+});
+
+const text = (value: string, ...marks: TiptapNode['marks'] & object): TiptapNode =>
+  marks.length > 0 ? { type: 'text', text: value, marks } : { type: 'text', text: value };
+const doc = (...content: TiptapNode[]): TiptapNode => ({ type: 'doc', content });
+const para = (...content: TiptapNode[]): TiptapNode => ({ type: 'paragraph', content });
+const item = (...content: TiptapNode[]): TiptapNode => ({ type: 'listItem', content });
+
+describe('tiptapToMarkdown', () => {
+  test('headings, paragraphs and rules are separated by blank lines', () => {
+    const markdown = tiptapToMarkdown(
+      doc(
+        { type: 'heading', attrs: { level: 2 }, content: [text('Plan')] },
+        para(text('First paragraph')),
+        { type: 'horizontalRule' },
+        para(text('Second'))
+      )
+    );
+    assert.equal(markdown, '## Plan\n\nFirst paragraph\n\n---\n\nSecond');
+  });
+
+  test('list items stay on their own lines, with nesting and ordered starts', () => {
+    const markdown = tiptapToMarkdown(
+      doc(
+        {
+          type: 'bulletList',
+          content: [
+            item(para(text('one')), { type: 'orderedList', attrs: { start: 3 }, content: [item(para(text('three'))), item(para(text('four')))] }),
+            item(para(text('two'))),
+          ],
+        }
+      )
+    );
+    assert.equal(markdown, '- one\n  3. three\n  4. four\n- two');
+  });
+
+  test('checklists become GFM task list items', () => {
+    const task = (checked: boolean, ...content: TiptapNode[]): TiptapNode => ({ type: 'taskItem', attrs: { checked }, content });
+    const markdown = tiptapToMarkdown(
+      doc({ type: 'taskList', content: [task(true, para(text('Book the venue'))), task(false, para(text('Send invites')), para(text('by Friday')))] })
+    );
+    assert.equal(markdown, '- [x] Book the venue\n- [ ] Send invites\n\n  by Friday');
+  });
+
+  test('marks, including overlapping marks split across text nodes', () => {
+    const markdown = tiptapToMarkdown(
+      doc(
+        para(
+          text('plain '),
+          text('bold ', { type: 'bold' }),
+          text('both', { type: 'bold' }, { type: 'italic' }),
+          text(' more', { type: 'bold' }),
+          text(' '),
+          text('gone', { type: 'strike' }),
+          text(' '),
+          text('x = 1', { type: 'code' }),
+          text(' '),
+          text('link', { type: 'link', attrs: { href: 'https://example.com' } })
+        )
+      )
+    );
+    assert.equal(markdown, 'plain **bold *both* more** ~~gone~~ `x = 1` [link](https://example.com)');
+  });
+
+  test('whitespace at the edge of a mark moves outside it', () => {
+    assert.equal(tiptapToMarkdown(doc(para(text('a'), text(' bold ', { type: 'bold' }), text('b')))), 'a **bold** b');
+  });
+
+  test('code blocks keep their language and content verbatim', () => {
+    const markdown = tiptapToMarkdown(
+      doc({ type: 'codeBlock', attrs: { language: 'ts' }, content: [text('const a = "**x**";\n```')] })
+    );
+    assert.equal(markdown, '````ts\nconst a = "**x**";\n```\n````');
+  });
+
+  test('code spans containing backticks', () => {
+    const markdown = tiptapToMarkdown(doc(para(text('a `b`', { type: 'code' }))));
+    assert.equal(markdown, '`` a `b` ``');
+    assert.deepEqual(inline(markdown), [{ type: 'text', text: 'a `b`', marks: [{ type: 'code' }] }]);
+  });
+
+  test('blockquotes prefix every line', () => {
+    const markdown = tiptapToMarkdown(
+      doc({ type: 'blockquote', content: [para(text('one')), { type: 'bulletList', content: [item(para(text('two')))] }] })
+    );
+    assert.equal(markdown, '> one\n>\n> - two');
+  });
+
+  test('hard breaks', () => {
+    assert.equal(tiptapToMarkdown(doc(para(text('a'), { type: 'hardBreak' }, text('b')))), 'a\\\nb');
+  });
+
+  test('markdown characters in text are escaped', () => {
+    const markdown = tiptapToMarkdown(doc(para(text('# 5 * 3 [x] snake_case _under_ <b>')), para(text('1. not a list'))));
+    assert.equal(markdown, '\\# 5 \\* 3 \\[x\\] snake_case \\_under\\_ \\<b>\n\n1\\. not a list');
+    assert.equal(textOf(markdownToTiptap(markdown)), '# 5 * 3 [x] snake_case _under_ <b>1. not a list');
+  });
+
+  test('tables become GFM tables', () => {
+    const cell = (type: string, value: string): TiptapNode => ({ type, content: [para(text(value))] });
+    const markdown = tiptapToMarkdown(
+      doc({
+        type: 'table',
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', 'Name'), cell('tableHeader', 'Cost')] },
+          { type: 'tableRow', content: [cell('tableCell', 'a|b'), { type: 'tableCell', content: [{ type: 'paragraph' }] }] },
+        ],
+      })
+    );
+    assert.equal(markdown, '| Name | Cost |\n| --- | --- |\n| a\\|b |  |');
+  });
+
+  test('empty documents and empty paragraphs', () => {
+    assert.equal(tiptapToMarkdown(null), '');
+    assert.equal(tiptapToMarkdown(doc({ type: 'paragraph' })), '');
+    assert.equal(tiptapToMarkdown(doc(para(text('a')), { type: 'paragraph' }, para(text('b')))), 'a\n\nb');
+  });
+
+  test('unknown nodes keep their text', () => {
+    assert.equal(tiptapToMarkdown(doc({ type: 'callout', content: [para(text('inside'))] })), 'inside');
+  });
+
+  test('round-trips the mock LLM responses', () => {
+    for (const markdown of Object.values(MOCK_RESPONSES)) {
+      const converted = markdownToTiptap(markdown);
+      assert.deepEqual(markdownToTiptap(tiptapToMarkdown(converted)), converted);
+    }
+  });
+});
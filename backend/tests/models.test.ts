@@ -0,0 +1,69 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { getContextWindow, validateRunSettings, validateModelParameters, MAX_OUTPUT_TOKENS } from '../src/services/models.js';
+
+const MODELS = ['claude-sonnet-4-20250514', 'claude-3-5-haiku-20241022'];
+
+describe('getContextWindow', () => {
+  test('matches dated model ids by prefix', () => {
+    assert.equal(getContextWindow('claude-3-5-haiku-20241022'), 200000);
+    assert.equal(getContextWindow('gpt-4o-mini-2024-07-18'), 128000);
+  });
+
+  test('is unknown for other models', () => {
+    assert.equal(getContextWindow('llama3.1'), null);
+  });
+});
+
+describe('validateRunSettings', () => {
+  test('leaves out settings that were not picked', () => {
+    assert.deepEqual(validateRunSettings({}, []), { errors: [], values: {} });
+    assert.deepEqual(validateRunSettings({ model: '', temperature: null }, []), { errors: [], values: {} });
+  });
+
+  test('maps the picked settings onto the process definition fields', () => {
+    const { errors, values } = validateRunSettings(
+      { model: 'claude-3-5-haiku-20241022', temperature: '0.2', maxTokens: 800 },
+      MODELS
+    );
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(values, { model: 'claude-3-5-haiku-20241022', temperature: 0.2, max_tokens: 800 });
+  });
+
+  test('only allows the models the provider offers', () => {
+    const { errors } = validateRunSettings({ model: 'gpt-9' }, MODELS);
+    assert.deepEqual(errors, [`model must be one of: ${MODELS.join(', ')}`]);
+  });
+
+  test('reports out of range parameters', () => {
+    const { errors } = validateRunSettings({ temperature: 1.5, maxTokens: MAX_OUTPUT_TOKENS + 1 }, MODELS);
+
+    assert.equal(errors.length, 2);
+    assert.match(errors[0], /^temperature/);
+    assert.match(errors[1], /^maxTokens/);
+    assert.equal(validateRunSettings({ maxTokens: 10.5 }, MODELS).errors.length, 1);
+  });
+});
+
+describe('validateModelParameters', () => {
+  test('names the fields in errors', () => {
+    const { errors, values } = validateModelParameters(
+      { temperature: -1, maxTokens: 0 },
+      { temperature: 'variants[0].temperature', maxTokens: 'variants[0].max_tokens' }
+    );
+
+    assert.deepEqual(errors, [
+      'variants[0].temperature must be between 0 and 1',
+      `variants[0].max_tokens must be an integer between 1 and ${MAX_OUTPUT_TOKENS}`,
+    ]);
+    assert.deepEqual(values, {});
+  });
+
+  test('allows up to the shared output limit', () => {
+    const { errors, values } = validateModelParameters({ temperature: 0, maxTokens: MAX_OUTPUT_TOKENS });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(values, { temperature: 0, max_tokens: MAX_OUTPUT_TOKENS });
+  });
+});
@@ -0,0 +1,169 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProcessingJob, PipelineRun, PipelineStep } from '../src/database.js';
+import { validatePipelineSteps, getStepStates, getRunStatus, getReadySteps } from '../src/services/pipelines.js';
+
+const PROCESS_TYPES = ['research', 'actionplan', 'summarize', 'expand'];
+
+const STEPS: PipelineStep[] = [
+  { key: 'research', process_type: 'research', input: 'note' },
+  { key: 'plan', process_type: 'actionplan', input: 'research' },
+  { key: 'summary', process_type: 'summarize', input: 'plan' },
+];
+
+/**
+ * A job for a step of a run, as the worker leaves it
+ */
+function stepJob(step: string, status: ProcessingJob['status'], extra: Partial<ProcessingJob> = {}): ProcessingJob {
+  return {
+    id: `${step}-${status}`,
+    note_id: 'note',
+    process_type: step,
+    status,
+    attempts: 1,
+    max_attempts: 3,
+    result_note_id: status === 'succeeded' ? `${step}-output` : null,
+    error_message: status === 'failed' ? 'failed' : null,
+    error_code: null,
+    previous_note_status: 'draft',
+    options: {},
+    rule_id: null,
+    run_after: null,
+    pipeline_run_id: 'run',
+    pipeline_step: step,
+    locked_until: null,
+    created_at: '',
+    started_at: null,
+    finished_at: null,
+    updated_at: '',
+    ...extra,
+  };
+}
+
+describe('validatePipelineSteps', () => {
+  test('a list of process types becomes a chain', () => {
+    const { errors, steps } = validatePipelineSteps(
+      [{ process_type: 'research' }, { process_type: 'actionplan' }, { process_type: 'summarize' }],
+      PROCESS_TYPES
+    );
+    assert.deepEqual(errors, []);
+    assert.deepEqual(steps, [
+      { key: 'research', process_type: 'research', input: 'note' },
+      { key: 'actionplan', process_type: 'actionplan', input: 'research' },
+      { key: 'summarize', process_type: 'summarize', input: 'actionplan' },
+    ]);
+  });
+
+  test('steps can branch off an earlier step or the note', () => {
+    const { errors, steps } = validatePipelineSteps(
+      [
+        { process_type: 'research' },
+        { process_type: 'summarize', input: 'research' },
+        { process_type: 'expand', input: 'research' },
+        { process_type: 'summarize', input: 'note' },
+      ],
+      PROCESS_TYPES
+    );
+    assert.deepEqual(errors, []);
+    assert.deepEqual(
+      steps.map((step) => `${step.key}<-${step.input}`),
+      ['research<-note', 'summarize<-research', 'expand<-research', 'summarize-4<-note']
+    );
+  });
+
+  test('inputs can only name earlier steps', () => {
+    const { errors } = validatePipelineSteps(
+      [
+        { key: 'a', process_type: 'research', input: 'b' },
+        { key: 'b', process_type: 'summarize', input: 'b' },
+      ],
+      PROCESS_TYPES
+    );
+    assert.equal(errors.length, 2);
+    assert.match(errors[0], /steps\[0\]\.input/);
+  });
+
+  test('rejects unknown process types, bad or duplicate keys and empty pipelines', () => {
+    assert.match(validatePipelineSteps([{ process_type: 'poem' }], PROCESS_TYPES).errors[0], /process_type/);
+    assert.match(validatePipelineSteps([{ process_type: 'expand', key: 'note' }], PROCESS_TYPES).errors[0], /key/);
+    assert.match(validatePipelineSteps([{ process_type: 'expand', key: 'Big Step' }], PROCESS_TYPES).errors[0], /key/);
+    assert.match(
+      validatePipelineSteps([{ process_type: 'expand', key: 'x' }, { process_type: 'research', key: 'x' }], PROCESS_TYPES)
+        .errors[0],
+      /steps\[1\]\.key/
+    );
+    assert.match(validatePipelineSteps([], PROCESS_TYPES).errors[0], /1-10 steps/);
+    assert.match(validatePipelineSteps('research', PROCESS_TYPES).errors[0], /1-10 steps/);
+  });
+});
+
+describe('getStepStates', () => {
+  test('steps without a job are pending', () => {
+    const states = getStepStates(STEPS, [stepJob('research', 'running')]);
+    assert.deepEqual(
+      states.map((state) => state.status),
+      ['running', 'pending', 'pending']
+    );
+  });
+
+  test("a step's latest job counts, and every attempt is counted", () => {
+    const states = getStepStates(STEPS, [
+      stepJob('research', 'succeeded'),
+      stepJob('plan', 'failed'),
+      stepJob('plan', 'succeeded'),
+    ]);
+    assert.equal(states[1].status, 'succeeded');
+    assert.equal(states[1].attempts, 2);
+    assert.equal(states[1].result_note_id, 'plan-output');
+    assert.equal(states[1].error_message, null);
+  });
+});
+
+describe('getRunStatus', () => {
+  const status = (jobs: ProcessingJob[]) => getRunStatus(getStepStates(STEPS, jobs));
+
+  test('running while a step is queued or running', () => {
+    assert.equal(status([stepJob('research', 'queued')]), 'running');
+    assert.equal(status([stepJob('research', 'succeeded'), stepJob('plan', 'running')]), 'running');
+  });
+
+  test('succeeded once every step has', () => {
+    assert.equal(
+      status([stepJob('research', 'succeeded'), stepJob('plan', 'succeeded'), stepJob('summary', 'succeeded')]),
+      'succeeded'
+    );
+  });
+
+  test('failed or cancelled when a step stopped the chain', () => {
+    assert.equal(status([stepJob('research', 'succeeded'), stepJob('plan', 'failed')]), 'failed');
+    assert.equal(status([stepJob('research', 'cancelled')]), 'cancelled');
+  });
+});
+
+describe('getReadySteps', () => {
+  // Two steps on the note, then two on the research output
+  const BRANCHES: PipelineStep[] = [
+    { key: 'research', process_type: 'research', input: 'note' },
+    { key: 'summary', process_type: 'summarize', input: 'note' },
+    { key: 'plan', process_type: 'actionplan', input: 'research' },
+    { key: 'expand', process_type: 'expand', input: 'research' },
+  ];
+  const RUN: PipelineRun = { id: 'run', pipeline_id: null, name: 'Branches', note_id: 'note', steps: BRANCHES, created_at: '' };
+  const ready = (jobs: ProcessingJob[], resume = false) =>
+    getReadySteps(RUN, getStepStates(BRANCHES, jobs), resume).map(({ step, inputNoteId }) => `${step.key}<-${inputNoteId}`);
+
+  test('steps on the same input note run one after another', () => {
+    assert.deepEqual(ready([]), ['research<-note']);
+    assert.deepEqual(ready([stepJob('research', 'running')]), []);
+    assert.deepEqual(ready([stepJob('research', 'succeeded')]), ['summary<-note', 'plan<-research-output']);
+    assert.deepEqual(ready([stepJob('research', 'succeeded'), stepJob('plan', 'queued')]), ['summary<-note']);
+    assert.deepEqual(ready([stepJob('research', 'succeeded'), stepJob('plan', 'succeeded')]), [
+      'summary<-note',
+      'expand<-research-output',
+    ]);
+  });
+
+  test('resume queues a failed step before the steps waiting on its note', () => {
+    assert.deepEqual(ready([stepJob('research', 'failed')], true), ['research<-note']);
+  });
+});
@@ -0,0 +1,56 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractTags, normalizeTag, ruleMatches } from '../src/services/rules.js';
+
+describe('extractTags', () => {
+  test('finds #tags anywhere in the text, lowercased', () => {
+    assert.deepEqual(
+      [...extractTags('#Meeting with the team\nFollow up on #q3-planning and #design_review.')],
+      ['meeting', 'q3-planning', 'design_review']
+    );
+  });
+
+  test('ignores numbers, URL fragments, entities and # inside words', () => {
+    assert.deepEqual([...extractTags('Item #1, see https://example.com/#intro, &#39; and C#sharp')], []);
+  });
+
+  test('accepts tags in any script', () => {
+    assert.deepEqual([...extractTags('Notes #réunion #会議')], ['réunion', '会議']);
+  });
+});
+
+describe('normalizeTag', () => {
+  test('strips the # and whitespace and lowercases', () => {
+    assert.equal(normalizeTag('  #Meetings '), 'meetings');
+    assert.equal(normalizeTag('ideas'), 'ideas');
+  });
+});
+
+describe('ruleMatches', () => {
+  const tags = new Set(['meeting']);
+  const folderIds = ['root-folder', 'meetings-folder'];
+
+  test('a folder rule covers the whole subtree', () => {
+    assert.equal(ruleMatches({ folder_id: 'root-folder', tag: null }, tags, folderIds), true);
+    assert.equal(ruleMatches({ folder_id: 'meetings-folder', tag: null }, tags, folderIds), true);
+    assert.equal(ruleMatches({ folder_id: 'ideas-folder', tag: null }, tags, folderIds), false);
+  });
+
+  test('a tag rule needs the tag, wherever the note is', () => {
+    assert.equal(ruleMatches({ folder_id: null, tag: 'meeting' }, tags, []), true);
+    assert.equal(ruleMatches({ folder_id: null, tag: 'idea' }, tags, folderIds), false);
+  });
+
+  test('a rule with both needs the tag inside the folder', () => {
+    assert.equal(ruleMatches({ folder_id: 'meetings-folder', tag: 'meeting' }, tags, folderIds), true);
+    assert.equal(ruleMatches({ folder_id: 'meetings-folder', tag: 'meeting' }, tags, ['root-folder']), false);
+    assert.equal(ruleMatches({ folder_id: 'meetings-folder', tag: 'idea' }, tags, folderIds), false);
+  });
+
+  test('a move only matches folders the note was not already in', () => {
+    const rule = { folder_id: 'meetings-folder', tag: null };
+    assert.equal(ruleMatches(rule, tags, folderIds, []), true);
+    assert.equal(ruleMatches(rule, tags, folderIds, ['root-folder']), true);
+    assert.equal(ruleMatches(rule, tags, folderIds, ['root-folder', 'meetings-folder']), false);
+  });
+});
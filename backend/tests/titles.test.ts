@@ -0,0 +1,85 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { Note } from '../src/database.js';
+import {
+  cleanTitle,
+  isMeaningful,
+  needsTitle,
+  buildTitlePrompt,
+  MAX_TITLE_LENGTH,
+  TITLE_PROCESS_TYPE,
+} from '../src/services/titles.js';
+import { callClaudeMock } from '../src/services/llm-mock.js';
+
+/**
+ * A note as the database returns it
+ */
+function note(extra: Partial<Note> = {}): Note {
+  return {
+    id: 'note',
+    parent_id: null,
+    type: 'user',
+    item_type: 'note',
+    name: null,
+    name_is_manual: false,
+    content: { type: 'doc', content: [] },
+    process_type: null,
+    status: 'draft',
+    error_message: null,
+    error_code: null,
+    metadata: {},
+    comparison_id: null,
+    created_at: '2026-01-05T10:30:00Z',
+    updated_at: '2026-01-05T10:30:00Z',
+    ...extra,
+  };
+}
+
+describe('cleanTitle', () => {
+  test('keeps a plain title as it is', () => {
+    assert.equal(cleanTitle('Quarterly planning notes'), 'Quarterly planning notes');
+  });
+
+  test('strips quotes, markdown, labels and a trailing full stop', () => {
+    assert.equal(cleanTitle('"Quarterly planning notes."'), 'Quarterly planning notes');
+    assert.equal(cleanTitle('# Quarterly planning notes'), 'Quarterly planning notes');
+    assert.equal(cleanTitle('**Title:** Quarterly planning notes'), 'Quarterly planning notes');
+    assert.equal(cleanTitle('Title: “Quarterly   planning notes”'), 'Quarterly planning notes');
+  });
+
+  test('uses the first line and keeps question marks', () => {
+    assert.equal(cleanTitle('\n\nWhy do builds fail?\nA note about flaky builds'), 'Why do builds fail?');
+  });
+
+  test('caps the length and returns nothing for an empty reply', () => {
+    assert.equal(cleanTitle('word '.repeat(40)).length <= MAX_TITLE_LENGTH, true);
+    assert.equal(cleanTitle('  \n "" \n'), '');
+  });
+});
+
+describe('isMeaningful', () => {
+  test('needs enough text to name a note by', () => {
+    assert.equal(isMeaningful('Todo'), false);
+    assert.equal(isMeaningful('   \n\n   '), false);
+    assert.equal(isMeaningful('Ideas for the offsite agenda'), true);
+  });
+});
+
+describe('needsTitle', () => {
+  test('only notes without a name, and never ones named by the user', () => {
+    assert.equal(needsTitle(note()), true);
+    assert.equal(needsTitle(note({ type: 'ai', item_type: 'ai-note' })), true);
+    assert.equal(needsTitle(note({ name: 'Offsite agenda' })), false);
+    assert.equal(needsTitle(note({ name_is_manual: true })), false);
+    assert.equal(needsTitle(note({ item_type: 'folder', name: null })), false);
+  });
+});
+
+describe('mock titles', () => {
+  test('the mock names a note by its first line', async () => {
+    const result = await callClaudeMock(buildTitlePrompt('# Offsite agenda\n\nSummarize the **plan** for the day'), {
+      usage: { processType: TITLE_PROCESS_TYPE },
+    });
+    assert.equal(cleanTitle(result.content), 'Offsite agenda');
+  });
+});
@@ -10,6 +10,7 @@ CREATE TABLE IF NOT EXISTS notes (
   -- Folder/File organization
   item_type VARCHAR(20) DEFAULT 'note' CHECK(item_type IN ('folder', 'note', 'ai-note')),
   name VARCHAR(255), -- Name for folders or optional display name for notes
+  name_is_manual BOOLEAN NOT NULL DEFAULT FALSE, -- The user named the note (automatic titles leave it alone)
 
   -- Content stored as JSONB (Tiptap JSON format)
   content JSONB DEFAULT '{"type":"doc","content":[]}',
@@ -18,6 +19,10 @@ CREATE TABLE IF NOT EXISTS notes (
   process_type VARCHAR(50),
   status VARCHAR(20) CHECK(status IN ('draft', 'processing', 'complete', 'failed')) DEFAULT 'draft',
   error_message TEXT,
+  error_code VARCHAR(50), -- Kind of LLM failure, e.g. LLM_RATE_LIMITED (NULL for other failures)
+
+  -- Extra details about AI notes (e.g. the context the model saw)
+  metadata JSONB NOT NULL DEFAULT '{}',
 
   -- Timestamps
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -41,12 +46,416 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Notes keep their updated_at when only their name changes - naming a note isn't editing it
+CREATE OR REPLACE FUNCTION update_note_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF to_jsonb(NEW) - 'name' - 'name_is_manual' - 'updated_at' = to_jsonb(OLD) - 'name' - 'name_is_manual' - 'updated_at' THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Create a trigger to call the function before each update
 CREATE TRIGGER set_updated_at
 BEFORE UPDATE ON notes
 FOR EACH ROW
+EXECUTE FUNCTION update_note_updated_at_column();
+
+-- Rules that queue AI processing automatically when a note is created, updated or moved
+-- A rule covers a folder's subtree, notes with a #tag, or tagged notes within a folder
+CREATE TABLE IF NOT EXISTS processing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger VARCHAR(10) NOT NULL CHECK(trigger IN ('created', 'updated', 'moved')),
+  folder_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  tag VARCHAR(100), -- Lowercase, without the #
+  process_type VARCHAR(50) NOT NULL,
+  debounce_seconds INTEGER NOT NULL DEFAULT 0 CHECK(debounce_seconds >= 0), -- Wait for edits to settle
+  cooldown_seconds INTEGER NOT NULL DEFAULT 0 CHECK(cooldown_seconds >= 0), -- Least time between runs on a note
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK(folder_id IS NOT NULL OR tag IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_rules_folder_id ON processing_rules(folder_id);
+
+CREATE TRIGGER set_processing_rules_updated_at
+BEFORE UPDATE ON processing_rules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Multi-step AI pipelines, e.g. Research, then Action Plan on the research, then Summarize
+-- steps is an ordered list of { key, process_type, input }, where input is "note" (the
+-- note the pipeline runs on) or the key of an earlier step whose output it processes
+CREATE TABLE IF NOT EXISTS pipelines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  steps JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER set_pipelines_updated_at
+BEFORE UPDATE ON pipelines
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO pipelines (name, description, steps)
+SELECT
+  'Research to plan', 'Research the note, turn the research into an action plan, then summarize the plan',
+  '[{"key": "research", "process_type": "research", "input": "note"},
+    {"key": "plan", "process_type": "actionplan", "input": "research"},
+    {"key": "summary", "process_type": "summarize", "input": "plan"}]'
+WHERE NOT EXISTS (SELECT 1 FROM pipelines);
+
+-- A pipeline run on a note; the steps are copied so editing the pipeline doesn't change it
+-- Each step runs as a processing job tagged with the run and step key (see processing_jobs)
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline_id UUID REFERENCES pipelines(id) ON DELETE SET NULL,
+  name VARCHAR(255) NOT NULL,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  steps JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_note_id ON pipeline_runs(note_id, created_at DESC);
+
+-- Durable job queue for AI processing (claimed by the backend worker)
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  process_type VARCHAR(50) NOT NULL,
+  status VARCHAR(20) CHECK(status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')) NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  result_note_id UUID REFERENCES notes(id) ON DELETE SET NULL,
+  error_message TEXT,
+  error_code VARCHAR(50),
+  previous_note_status VARCHAR(20) DEFAULT 'draft', -- Restored if the job is cancelled
+  options JSONB NOT NULL DEFAULT '{}', -- Run options, e.g. { context: {...} }
+  rule_id UUID REFERENCES processing_rules(id) ON DELETE SET NULL, -- Set when queued by a processing rule
+  run_after TIMESTAMPTZ, -- Not claimed before this time (a rule's debounce)
+  pipeline_run_id UUID REFERENCES pipeline_runs(id) ON DELETE CASCADE, -- Set for the steps of a pipeline run
+  pipeline_step VARCHAR(50), -- The step's key within the run
+  locked_until TIMESTAMPTZ, -- Lease of the worker running the job, renewed while it runs
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue ON processing_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_note_id ON processing_jobs(note_id);
+
+-- A pipeline step has at most one job that is waiting, running or done (failed steps can be resumed)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_pipeline_step ON processing_jobs(pipeline_run_id, pipeline_step)
+WHERE status IN ('queued', 'running', 'succeeded');
+
+CREATE TRIGGER set_processing_jobs_updated_at
+BEFORE UPDATE ON processing_jobs
+FOR EACH ROW
 EXECUTE FUNCTION update_updated_at_column();
 
+-- AI process types (built-ins seeded below, teams can add their own)
+CREATE TABLE IF NOT EXISTS process_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(50) UNIQUE NOT NULL, -- Stored on notes.process_type
+  name VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  icon VARCHAR(16) NOT NULL DEFAULT '✨',
+  color VARCHAR(20) NOT NULL DEFAULT 'blue',
+
+  -- Prompt configuration ({{content}} is replaced with the note text)
+  prompt_template TEXT NOT NULL,
+  system_prompt TEXT,
+
+  -- Model parameters (NULL model uses the provider default)
+  model VARCHAR(100),
+  temperature REAL NOT NULL DEFAULT 0.7 CHECK(temperature >= 0 AND temperature <= 1),
+  max_tokens INTEGER NOT NULL DEFAULT 4096 CHECK(max_tokens > 0),
+
+  -- What the model replies with: markdown, or JSON checked against a schema (action_plan)
+  output_format VARCHAR(20) NOT NULL DEFAULT 'markdown' CHECK(output_format IN ('markdown', 'action_plan')),
+
+  is_builtin BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER set_process_definitions_updated_at
+BEFORE UPDATE ON process_definitions
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO process_definitions (type, name, description, icon, color, prompt_template, output_format, is_builtin, position)
+VALUES
+  (
+    'research', 'Research', 'Get comprehensive research with key concepts and sources', '🔍', 'blue',
+    $prompt$You are a research assistant helping a user understand a topic better.
+
+The user has saved this note:
+
+{{content}}
+
+Your task is to research this topic and create a comprehensive summary. Include:
+
+1. **Key Concepts**: Explain the main ideas in simple terms
+2. **Important Context**: Provide relevant background information
+3. **Recent Developments**: Mention any recent advancements or changes (if applicable)
+4. **Related Topics**: Suggest 2-3 related areas worth exploring
+5. **Reliable Sources**: List 3-5 credible sources for further reading
+
+Format your response using clear markdown with headers, bullet points, and emphasis where appropriate.
+Keep your response informative but concise (aim for 300-500 words).$prompt$,
+    'markdown', true, 0
+  ),
+  (
+    'summarize', 'Summarize', 'Create a concise summary of main points', '📝', 'green',
+    $prompt$You are a summarization expert.
+
+The user has provided this content to summarize:
+
+{{content}}
+
+Create a concise summary that:
+- Captures the main points and key takeaways
+- Is written in clear, accessible language
+- Maintains the original intent and important details
+- Is structured with bullet points or short paragraphs
+
+Aim for 2-3 paragraphs or 5-7 bullet points maximum.$prompt$,
+    'markdown', true, 1
+  ),
+  (
+    'expand', 'Expand', 'Elaborate with examples and perspectives', '💡', 'purple',
+    $prompt$You are a creative thinking assistant.
+
+The user wrote this brief note:
+
+{{content}}
+
+Your task is to expand on this idea by providing:
+
+1. **Deeper Explanation**: Elaborate on the concept in more detail
+2. **Examples & Use Cases**: Provide concrete examples or scenarios
+3. **Different Perspectives**: Consider alternative viewpoints or approaches
+4. **Implications**: Discuss potential outcomes or consequences
+5. **Questions to Consider**: Pose 3-5 thought-provoking questions
+
+Use clear markdown formatting with headers and lists.
+Aim for 400-600 words with substantive insights.$prompt$,
+    'markdown', true, 2
+  ),
+  (
+    'actionplan', 'Action Plan', 'Turn this into practical steps', '✅', 'orange',
+    $prompt$You are a productivity coach helping to turn ideas into action.
+
+The user has this note:
+
+{{content}}
+
+Create a practical, actionable plan that includes:
+
+1. **Goal Clarification**: Clearly state what the user wants to achieve
+2. **Action Steps**: List 5-8 specific, concrete steps in order
+   - Each step should be actionable and clear
+   - Include estimated time/effort (e.g., "30 min", "2 hours", "1 week")
+3. **Prerequisites**: List any required resources, skills, or dependencies
+4. **Success Criteria**: Define what "done" looks like
+5. **Potential Obstacles**: Identify 2-3 challenges and how to overcome them
+
+Be specific and practical - avoid vague advice.$prompt$,
+    'action_plan', true, 3
+  ),
+  (
+    'digest', 'Digest', 'Recap what changed across several notes', '🗞️', 'teal',
+    $prompt$You are writing a digest of the notes a user has written or edited recently.
+
+{{content}}
+
+Write a short digest of this period that:
+- Opens with 2-3 sentences on the main themes
+- Groups related notes under clear headings
+- Calls out decisions, open questions and next steps
+- Refers to notes by their titles
+
+Keep it skimmable - aim for 200-400 words.$prompt$,
+    'markdown', true, 4
+  )
+ON CONFLICT (type) DO NOTHING;
+
+-- Ledger of every LLM call for usage and cost reporting
+-- note_id/folder_id are kept as SET NULL so spend history survives deletions
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES notes(id) ON DELETE SET NULL,
+  folder_id UUID REFERENCES notes(id) ON DELETE SET NULL, -- Nearest folder above the note
+  process_type VARCHAR(50),
+  provider VARCHAR(20) NOT NULL,
+  model VARCHAR(100),
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  success BOOLEAN NOT NULL,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_folder_id ON llm_usage(folder_id);
+
+-- Spending limits checked before every AI run
+-- A NULL folder_id is a global budget; a folder budget covers the folder and its subfolders
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  folder_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  period VARCHAR(10) NOT NULL CHECK(period IN ('daily', 'monthly')),
+  metric VARCHAR(10) NOT NULL CHECK(metric IN ('tokens', 'cost')),
+  limit_value NUMERIC(14, 6) NOT NULL CHECK(limit_value >= 0), -- Tokens or USD
+  reset_at TIMESTAMPTZ, -- Usage before this is ignored for the current period
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (folder_id, period, metric)
+);
+
+CREATE TRIGGER set_budgets_updated_at
+BEFORE UPDATE ON budgets
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Follow-up conversation on an AI note, one row per turn
+CREATE TABLE IF NOT EXISTS note_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE, -- The AI note being discussed
+  role VARCHAR(10) NOT NULL CHECK(role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  model VARCHAR(100), -- Assistant turns only
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_messages_note_id ON note_messages(note_id, created_at);
+
+-- Every version of an AI note's content; the newest version is what the note shows
+-- Restoring an old version adds it again as the newest
+CREATE TABLE IF NOT EXISTS ai_note_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  source VARCHAR(20) NOT NULL CHECK(source IN ('original', 'refine', 'regenerate', 'restore')),
+  instructions TEXT, -- What the user asked for when refining
+  restored_from INTEGER, -- The version a restore copied
+  model VARCHAR(100),
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (note_id, version)
+);
+
+-- Scheduled digests: when the cron expression comes due, the user notes edited in the last
+-- window_hours (anywhere, or within folder_id's subtree) are synthesized into a new AI note
+-- in target_folder_id, linking back to its sources. The backend's scheduler claims due rows.
+CREATE TABLE IF NOT EXISTS schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  cron VARCHAR(100) NOT NULL, -- Five-field cron expression, in the server's time zone
+  folder_id UUID REFERENCES notes(id) ON DELETE CASCADE, -- NULL covers every note
+  target_folder_id UUID REFERENCES notes(id) ON DELETE SET NULL, -- NULL writes to the top level
+  window_hours INTEGER NOT NULL DEFAULT 168 CHECK(window_hours > 0),
+  process_type VARCHAR(50) NOT NULL DEFAULT 'digest',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ, -- NULL while disabled
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at) WHERE enabled;
+
+CREATE TRIGGER set_schedules_updated_at
+BEFORE UPDATE ON schedules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- History of a schedule: each run queues a synthesis job, or records why it didn't
+CREATE TABLE IF NOT EXISTS schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  trigger VARCHAR(10) NOT NULL CHECK(trigger IN ('schedule', 'manual')),
+  status VARCHAR(20) NOT NULL CHECK(status IN ('queued', 'skipped', 'failed')), -- Once queued, the job's status counts
+  job_id UUID REFERENCES processing_jobs(id) ON DELETE SET NULL,
+  note_id UUID REFERENCES notes(id) ON DELETE SET NULL, -- The digest note
+  source_count INTEGER NOT NULL DEFAULT 0,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  error_message TEXT, -- Why the run was skipped or failed
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule_id ON schedule_runs(schedule_id, created_at DESC);
+
+-- Steps of structured action plans, checked off in the AI note that holds the plan
+-- Each mirrors a taskItem in the note's content (attrs.taskId), which shows the same checked state
+CREATE TABLE IF NOT EXISTS tasks (
+  id UUID PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  estimate VARCHAR(100), -- e.g. "2 hours"
+  done BOOLEAN NOT NULL DEFAULT FALSE,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_note_id ON tasks(note_id, position);
+CREATE INDEX IF NOT EXISTS idx_tasks_open ON tasks(created_at) WHERE NOT done;
+
+CREATE TRIGGER set_tasks_updated_at
+BEFORE UPDATE ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Side-by-side comparisons: one process run on a note with two to four variants, each
+-- producing its own AI note (tagged with notes.comparison_id). Picking a winner deletes the
+-- other AI notes; the variants keep every run's settings, model, latency and tokens.
+CREATE TABLE IF NOT EXISTS comparisons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE, -- The note every variant processed
+  process_type VARCHAR(50) NOT NULL,
+  variants JSONB NOT NULL, -- [{ label, model, temperature, ..., result: { note_id, latency_ms, ... }, error }]
+  winner_variant INTEGER, -- Index into variants, once a winner is picked
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comparisons_note_id ON comparisons(note_id, created_at DESC);
+
+-- Added here rather than with the notes table, which comparisons references
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS comparison_id UUID REFERENCES comparisons(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notes_comparison_id ON notes(comparison_id) WHERE comparison_id IS NOT NULL;
+
+-- Full-text search for ask-your-notes: a note's name (weighted higher) plus every text value in its
+-- Tiptap content. Queries use the same function so they hit the index
+CREATE OR REPLACE FUNCTION note_search_vector(name TEXT, content JSONB) RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+         setweight(to_tsvector('english', coalesce(jsonb_path_query_array(content, 'strict $.**.text', '{}', true)::text, '')), 'B')
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search ON notes USING GIN (note_search_vector(name, content));
+
 -- Insert a welcome note to get users started
 INSERT INTO notes (type, content, status)
 VALUES (
@@ -0,0 +1,30 @@
+-- Migration: Add durable background job queue for AI processing
+-- Jobs are claimed by the backend worker loop with FOR UPDATE SKIP LOCKED
+
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  process_type VARCHAR(50) NOT NULL,
+  status VARCHAR(20) CHECK(status IN ('queued', 'running', 'succeeded', 'failed')) NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  result_note_id UUID REFERENCES notes(id) ON DELETE SET NULL,
+  error_message TEXT,
+  locked_until TIMESTAMPTZ, -- Lease of the worker running the job, renewed while it runs
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Worker claims the oldest queued job first
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue ON processing_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_note_id ON processing_jobs(note_id);
+
+DROP TRIGGER IF EXISTS set_processing_jobs_updated_at ON processing_jobs;
+CREATE TRIGGER set_processing_jobs_updated_at
+BEFORE UPDATE ON processing_jobs
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE processing_jobs IS 'Queued AI processing runs, executed by the backend worker';
@@ -0,0 +1,10 @@
+-- Migration: Allow in-flight processing jobs to be cancelled
+-- Stores the note's status before processing so cancelling can restore it
+
+ALTER TABLE processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_status_check;
+ALTER TABLE processing_jobs ADD CONSTRAINT processing_jobs_status_check
+  CHECK(status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled'));
+
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS previous_note_status VARCHAR(20) DEFAULT 'draft';
+
+COMMENT ON COLUMN processing_jobs.previous_note_status IS 'Status of the source note before the job was queued (restored on cancel)';
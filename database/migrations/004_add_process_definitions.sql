@@ -0,0 +1,115 @@
+-- Migration: Store AI process types in the database
+-- Teams can define their own processes; the four built-ins are seeded below
+
+CREATE TABLE IF NOT EXISTS process_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(50) UNIQUE NOT NULL, -- Stored on notes.process_type
+  name VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  icon VARCHAR(16) NOT NULL DEFAULT '✨',
+  color VARCHAR(20) NOT NULL DEFAULT 'blue',
+
+  -- Prompt configuration ({{content}} is replaced with the note text)
+  prompt_template TEXT NOT NULL,
+  system_prompt TEXT,
+
+  -- Model parameters (NULL model uses the provider default)
+  model VARCHAR(100),
+  temperature REAL NOT NULL DEFAULT 0.7 CHECK(temperature >= 0 AND temperature <= 1),
+  max_tokens INTEGER NOT NULL DEFAULT 4096 CHECK(max_tokens > 0),
+
+  is_builtin BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS set_process_definitions_updated_at ON process_definitions;
+CREATE TRIGGER set_process_definitions_updated_at
+BEFORE UPDATE ON process_definitions
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the built-in process types
+INSERT INTO process_definitions (type, name, description, icon, color, prompt_template, is_builtin, position)
+VALUES
+  (
+    'research', 'Research', 'Get comprehensive research with key concepts and sources', '🔍', 'blue',
+    $prompt$You are a research assistant helping a user understand a topic better.
+
+The user has saved this note:
+
+{{content}}
+
+Your task is to research this topic and create a comprehensive summary. Include:
+
+1. **Key Concepts**: Explain the main ideas in simple terms
+2. **Important Context**: Provide relevant background information
+3. **Recent Developments**: Mention any recent advancements or changes (if applicable)
+4. **Related Topics**: Suggest 2-3 related areas worth exploring
+5. **Reliable Sources**: List 3-5 credible sources for further reading
+
+Format your response using clear markdown with headers, bullet points, and emphasis where appropriate.
+Keep your response informative but concise (aim for 300-500 words).$prompt$,
+    true, 0
+  ),
+  (
+    'summarize', 'Summarize', 'Create a concise summary of main points', '📝', 'green',
+    $prompt$You are a summarization expert.
+
+The user has provided this content to summarize:
+
+{{content}}
+
+Create a concise summary that:
+- Captures the main points and key takeaways
+- Is written in clear, accessible language
+- Maintains the original intent and important details
+- Is structured with bullet points or short paragraphs
+
+Aim for 2-3 paragraphs or 5-7 bullet points maximum.$prompt$,
+    true, 1
+  ),
+  (
+    'expand', 'Expand', 'Elaborate with examples and perspectives', '💡', 'purple',
+    $prompt$You are a creative thinking assistant.
+
+The user wrote this brief note:
+
+{{content}}
+
+Your task is to expand on this idea by providing:
+
+1. **Deeper Explanation**: Elaborate on the concept in more detail
+2. **Examples & Use Cases**: Provide concrete examples or scenarios
+3. **Different Perspectives**: Consider alternative viewpoints or approaches
+4. **Implications**: Discuss potential outcomes or consequences
+5. **Questions to Consider**: Pose 3-5 thought-provoking questions
+
+Use clear markdown formatting with headers and lists.
+Aim for 400-600 words with substantive insights.$prompt$,
+    true, 2
+  ),
+  (
+    'actionplan', 'Action Plan', 'Turn this into practical steps', '✅', 'orange',
+    $prompt$You are a productivity coach helping to turn ideas into action.
+
+The user has this note:
+
+{{content}}
+
+Create a practical, actionable plan that includes:
+
+1. **Goal Clarification**: Clearly state what the user wants to achieve
+2. **Action Steps**: List 5-8 specific, concrete steps in order
+   - Each step should be actionable and clear
+   - Include estimated time/effort (e.g., "30 min", "2 hours", "1 week")
+3. **Prerequisites**: List any required resources, skills, or dependencies
+4. **Success Criteria**: Define what "done" looks like
+5. **Potential Obstacles**: Identify 2-3 challenges and how to overcome them
+
+Format as markdown with numbered lists and clear sections.
+Be specific and practical - avoid vague advice.$prompt$,
+    true, 3
+  )
+ON CONFLICT (type) DO NOTHING;
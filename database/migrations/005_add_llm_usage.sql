@@ -0,0 +1,21 @@
+-- Migration: Persist token usage and cost for every LLM call
+-- note_id/folder_id are kept as SET NULL so spend history survives deletions
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID REFERENCES notes(id) ON DELETE SET NULL,
+  folder_id UUID REFERENCES notes(id) ON DELETE SET NULL, -- Nearest folder above the note
+  process_type VARCHAR(50),
+  provider VARCHAR(20) NOT NULL,
+  model VARCHAR(100),
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  success BOOLEAN NOT NULL,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_folder_id ON llm_usage(folder_id);
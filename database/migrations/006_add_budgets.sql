@@ -0,0 +1,20 @@
+-- Migration: Daily and monthly spending budgets, globally and per folder
+-- A NULL folder_id is a global budget; a folder budget covers the folder and its subfolders
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  folder_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  period VARCHAR(10) NOT NULL CHECK(period IN ('daily', 'monthly')),
+  metric VARCHAR(10) NOT NULL CHECK(metric IN ('tokens', 'cost')),
+  limit_value NUMERIC(14, 6) NOT NULL CHECK(limit_value >= 0), -- Tokens or USD
+  reset_at TIMESTAMPTZ, -- Usage before this is ignored for the current period
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (folder_id, period, metric)
+);
+
+DROP TRIGGER IF EXISTS set_budgets_updated_at ON budgets;
+CREATE TRIGGER set_budgets_updated_at
+BEFORE UPDATE ON budgets
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
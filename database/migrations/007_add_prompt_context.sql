@@ -0,0 +1,6 @@
+-- Migration: Hierarchy-aware prompt context
+-- Jobs carry their run options; AI notes record which context items the model saw
+
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,5 @@
+-- Migration: Mark AI notes as ai-note items
+-- AI notes were created with the default item_type of 'note'; batch synthesis
+-- (and the tree) tell user notes and AI output apart by item_type
+
+UPDATE notes SET item_type = 'ai-note' WHERE type = 'ai' AND item_type = 'note';
@@ -0,0 +1,15 @@
+-- Migration: Follow-up chat on AI notes
+-- Stores the turns of the conversation under an AI note
+
+CREATE TABLE IF NOT EXISTS note_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE, -- The AI note being discussed
+  role VARCHAR(10) NOT NULL CHECK(role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  model VARCHAR(100), -- Assistant turns only
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_messages_note_id ON note_messages(note_id, created_at);
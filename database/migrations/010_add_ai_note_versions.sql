@@ -0,0 +1,17 @@
+-- Migration: Version history for AI notes
+-- Refine and regenerate add a version instead of creating another AI note
+
+CREATE TABLE IF NOT EXISTS ai_note_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  source VARCHAR(20) NOT NULL CHECK(source IN ('original', 'refine', 'regenerate', 'restore')),
+  instructions TEXT, -- What the user asked for when refining
+  restored_from INTEGER, -- The version a restore copied
+  model VARCHAR(100),
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (note_id, version)
+);
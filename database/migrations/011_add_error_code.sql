@@ -0,0 +1,6 @@
+-- Migration: Classify LLM failures
+-- Failed notes and jobs record what kind of LLM error they hit (rate limited,
+-- overloaded, auth, invalid request, context too long, timeout) next to the message
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS error_code VARCHAR(50);
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS error_code VARCHAR(50);
@@ -0,0 +1,28 @@
+-- Migration: Auto-processing rules
+-- Rules queue a process when a note is created, updated or moved within a folder's
+-- subtree (or carries a #tag); rule jobs can wait out a debounce before being claimed
+
+CREATE TABLE IF NOT EXISTS processing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger VARCHAR(10) NOT NULL CHECK(trigger IN ('created', 'updated', 'moved')),
+  folder_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  tag VARCHAR(100),
+  process_type VARCHAR(50) NOT NULL,
+  debounce_seconds INTEGER NOT NULL DEFAULT 0 CHECK(debounce_seconds >= 0),
+  cooldown_seconds INTEGER NOT NULL DEFAULT 0 CHECK(cooldown_seconds >= 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK(folder_id IS NOT NULL OR tag IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_rules_folder_id ON processing_rules(folder_id);
+
+DROP TRIGGER IF EXISTS set_processing_rules_updated_at ON processing_rules;
+CREATE TRIGGER set_processing_rules_updated_at
+BEFORE UPDATE ON processing_rules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES processing_rules(id) ON DELETE SET NULL;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ;
@@ -0,0 +1,43 @@
+-- Migration: Multi-step AI pipelines
+-- A pipeline chains process types, each step working on the note or an earlier step's output;
+-- the steps of a run are ordinary processing jobs tagged with the run and step key
+
+CREATE TABLE IF NOT EXISTS pipelines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  steps JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS set_pipelines_updated_at ON pipelines;
+CREATE TRIGGER set_pipelines_updated_at
+BEFORE UPDATE ON pipelines
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO pipelines (name, description, steps)
+SELECT
+  'Research to plan', 'Research the note, turn the research into an action plan, then summarize the plan',
+  '[{"key": "research", "process_type": "research", "input": "note"},
+    {"key": "plan", "process_type": "actionplan", "input": "research"},
+    {"key": "summary", "process_type": "summarize", "input": "plan"}]'
+WHERE NOT EXISTS (SELECT 1 FROM pipelines);
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline_id UUID REFERENCES pipelines(id) ON DELETE SET NULL,
+  name VARCHAR(255) NOT NULL,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  steps JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_note_id ON pipeline_runs(note_id, created_at DESC);
+
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS pipeline_run_id UUID REFERENCES pipeline_runs(id) ON DELETE CASCADE;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS pipeline_step VARCHAR(50);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_pipeline_step ON processing_jobs(pipeline_run_id, pipeline_step)
+WHERE status IN ('queued', 'running', 'succeeded');
@@ -0,0 +1,62 @@
+-- Migration: Scheduled digests
+-- Schedules synthesize the notes edited within a time window into a new AI note whenever their
+-- cron expression comes due; runs are recorded in schedule_runs. Adds the built-in Digest process.
+
+CREATE TABLE IF NOT EXISTS schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  cron VARCHAR(100) NOT NULL, -- Five-field cron expression, in the server's time zone
+  folder_id UUID REFERENCES notes(id) ON DELETE CASCADE, -- NULL covers every note
+  target_folder_id UUID REFERENCES notes(id) ON DELETE SET NULL, -- NULL writes to the top level
+  window_hours INTEGER NOT NULL DEFAULT 168 CHECK(window_hours > 0),
+  process_type VARCHAR(50) NOT NULL DEFAULT 'digest',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ, -- NULL while disabled
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at) WHERE enabled;
+
+DROP TRIGGER IF EXISTS set_schedules_updated_at ON schedules;
+CREATE TRIGGER set_schedules_updated_at
+BEFORE UPDATE ON schedules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- History of a schedule: each run queues a synthesis job, or records why it didn't
+CREATE TABLE IF NOT EXISTS schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  trigger VARCHAR(10) NOT NULL CHECK(trigger IN ('schedule', 'manual')),
+  status VARCHAR(20) NOT NULL CHECK(status IN ('queued', 'skipped', 'failed')), -- Once queued, the job's status counts
+  job_id UUID REFERENCES processing_jobs(id) ON DELETE SET NULL,
+  note_id UUID REFERENCES notes(id) ON DELETE SET NULL, -- The digest note
+  source_count INTEGER NOT NULL DEFAULT 0,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  error_message TEXT, -- Why the run was skipped or failed
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule_id ON schedule_runs(schedule_id, created_at DESC);
+
+INSERT INTO process_definitions (type, name, description, icon, color, prompt_template, is_builtin, position)
+VALUES
+  (
+    'digest', 'Digest', 'Recap what changed across several notes', '🗞️', 'teal',
+    $prompt$You are writing a digest of the notes a user has written or edited recently.
+
+{{content}}
+
+Write a short digest of this period that:
+- Opens with 2-3 sentences on the main themes
+- Groups related notes under clear headings
+- Calls out decisions, open questions and next steps
+- Refers to notes by their titles
+
+Keep it skimmable - aim for 200-400 words.$prompt$,
+    true, 4
+  )
+ON CONFLICT (type) DO NOTHING;
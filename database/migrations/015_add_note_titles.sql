@@ -0,0 +1,24 @@
+-- Migration: Automatic note titles
+-- Notes get a short AI-generated title in name after their first meaningful save (AI notes once
+-- written). name_is_manual marks names the user set, which automatic titles never replace.
+-- Naming a note no longer counts as editing it, so titling old notes keeps their updated_at.
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS name_is_manual BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION update_note_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF to_jsonb(NEW) - 'name' - 'name_is_manual' - 'updated_at' = to_jsonb(OLD) - 'name' - 'name_is_manual' - 'updated_at' THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_updated_at ON notes;
+CREATE TRIGGER set_updated_at
+BEFORE UPDATE ON notes
+FOR EACH ROW
+EXECUTE FUNCTION update_note_updated_at_column();
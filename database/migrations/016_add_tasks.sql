@@ -0,0 +1,35 @@
+-- Migration: Structured action plans and tasks
+-- Process definitions get an output_format; action_plan processes reply with JSON that is
+-- checked against a schema and shown as a checklist. Each step is kept in tasks so checking
+-- it off persists. The built-in Action Plan process switches to the structured format.
+
+ALTER TABLE process_definitions ADD COLUMN IF NOT EXISTS output_format VARCHAR(20) NOT NULL DEFAULT 'markdown';
+ALTER TABLE process_definitions DROP CONSTRAINT IF EXISTS process_definitions_output_format_check;
+ALTER TABLE process_definitions ADD CONSTRAINT process_definitions_output_format_check
+  CHECK(output_format IN ('markdown', 'action_plan'));
+
+UPDATE process_definitions
+SET output_format = 'action_plan',
+    prompt_template = replace(prompt_template, E'Format as markdown with numbered lists and clear sections.\n', '')
+WHERE type = 'actionplan' AND is_builtin;
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id UUID PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  estimate VARCHAR(100),
+  done BOOLEAN NOT NULL DEFAULT FALSE,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_note_id ON tasks(note_id, position);
+CREATE INDEX IF NOT EXISTS idx_tasks_open ON tasks(created_at) WHERE NOT done;
+
+DROP TRIGGER IF EXISTS set_tasks_updated_at ON tasks;
+CREATE TRIGGER set_tasks_updated_at
+BEFORE UPDATE ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,20 @@
+-- Migration: Side-by-side model comparisons
+-- A comparison runs one process on a note with two to four variants (a different model, temperature,
+-- max tokens, system prompt or prompt template each), one AI note per variant. The variants keep each
+-- run's model, latency and tokens. Picking a winner deletes the other AI notes and records the choice.
+
+CREATE TABLE IF NOT EXISTS comparisons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  process_type VARCHAR(50) NOT NULL,
+  variants JSONB NOT NULL,
+  winner_variant INTEGER,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_comparisons_note_id ON comparisons(note_id, created_at DESC);
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS comparison_id UUID REFERENCES comparisons(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notes_comparison_id ON notes(comparison_id) WHERE comparison_id IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Migration: Full-text search over notes
+-- Ask-your-notes ranks notes against a question. A note's searchable text is its name plus every
+-- text value in its Tiptap content, indexed through an immutable function so queries that use the
+-- same expression hit the GIN index.
+
+CREATE OR REPLACE FUNCTION note_search_vector(name TEXT, content JSONB) RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+         setweight(to_tsvector('english', coalesce(jsonb_path_query_array(content, 'strict $.**.text', '{}', true)::text, '')), 'B')
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search ON notes USING GIN (note_search_vector(name, content));
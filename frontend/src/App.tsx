@@ -1,20 +1,43 @@
-import { useState, useEffect, useCallback } from 'react';
-import { api, Item, Note, Folder } from './lib/api';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { api, Item, Note, Folder, ContextOptions, ChunkProgress, RunSettings } from './lib/api';
 import { NoteEditor } from './components/NoteEditor';
 import { ProcessButtons } from './components/ProcessButtons';
 import { NoteTree } from './components/NoteTree';
+import { UsageDashboard } from './components/UsageDashboard';
+import { AiNotePanel } from './components/AiNotePanel';
+import { SynthesizeModal } from './components/SynthesizeModal';
+import { RulesModal } from './components/RulesModal';
+import { SchedulesModal } from './components/SchedulesModal';
+import { PipelinePanel } from './components/PipelinePanel';
+import { AskBox } from './components/AskBox';
+
+// Notes (or a folder) waiting for the user to pick a synthesis process
+type SynthesisTarget = { noteIds: string[] } | { folderId: string; folderName: string };
+
+// How long to keep refreshing the tree for a note's generated title to arrive (per note when titling in bulk)
+const TITLE_REFRESH_MS = 6000;
+const MAX_TITLE_REFRESH_MS = 60000;
 
 function App() {
   const [items, setItems] = useState<Item[]>([]);
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
   const [editorContent, setEditorContent] = useState<any>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress | null>(null);
+  const closeStreamRef = useRef<(() => void) | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [selectedAiNote, setSelectedAiNote] = useState<Note | null>(null);
   const [selectedFolder, setSelectedFolder] = useState<Folder | null>(null);
   const [autoRenameId, setAutoRenameId] = useState<string | undefined>(undefined);
+  const [showUsage, setShowUsage] = useState(false);
+  const [synthesisTarget, setSynthesisTarget] = useState<SynthesisTarget | null>(null);
+  const [rulesFolder, setRulesFolder] = useState<Folder | null>(null);
+  const [hasActiveRules, setHasActiveRules] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [titlesPendingUntil, setTitlesPendingUntil] = useState(0);
 
   // Load all items (notes and folders) on mount
   const loadItems = useCallback(async () => {
@@ -46,6 +69,38 @@ function App() {
     }
   }, [items, loadItems]);
 
+  // Processing rules run in the background, so keep the tree fresh while any are enabled
+  useEffect(() => {
+    if (rulesFolder) return; // Re-checked when the rules modal closes
+
+    api
+      .getRules()
+      .then((rules) => setHasActiveRules(rules.some((rule) => rule.enabled)))
+      .catch((err) => console.error('Failed to load rules:', err));
+  }, [rulesFolder]);
+
+  useEffect(() => {
+    if (hasActiveRules) {
+      const interval = setInterval(loadItems, 5000);
+      return () => clearInterval(interval);
+    }
+  }, [hasActiveRules, loadItems]);
+
+  // Titles are generated in the background, so keep the tree fresh for a while after asking for one
+  useEffect(() => {
+    if (!titlesPendingUntil) return;
+
+    const interval = setInterval(() => {
+      loadItems();
+      if (Date.now() >= titlesPendingUntil) setTitlesPendingUntil(0);
+    }, 2000);
+    return () => clearInterval(interval);
+  }, [titlesPendingUntil, loadItems]);
+
+  const awaitTitles = (ms = TITLE_REFRESH_MS) => {
+    setTitlesPendingUntil((until) => Math.max(until, Date.now() + ms));
+  };
+
   // Create a new note
   const handleCreateNote = async (parentId?: string) => {
     try {
@@ -65,6 +120,7 @@ function App() {
       const newNote = await api.createNote(emptyContent, finalParentId);
       await loadItems();
       setSelectedNote(newNote);
+      setShowUsage(false);
       setEditorContent(newNote.content);
       // Keep selectedFolder for creating more items in the same folder
     } catch (err: any) {
@@ -103,6 +159,7 @@ function App() {
   // Handle item selection
   const handleSelectItem = (item: Item) => {
     setError(null);
+    setShowUsage(false);
 
     // If selecting a folder, just highlight it
     if (item.item_type === 'folder') {
@@ -128,8 +185,70 @@ function App() {
       if (parent && parent.item_type !== 'folder') {
         setSelectedNote(parent as Note);
         setEditorContent(parent.content);
-        setSelectedAiNote(note);
+      } else {
+        // AI notes in a folder (e.g. syntheses) are shown on their own
+        setSelectedNote(null);
+        setEditorContent(null);
+      }
+      setSelectedAiNote(note);
+    }
+  };
+
+  // Open a note a synthesis was built from
+  const handleSelectSource = (id: string) => {
+    const source = items.find((item) => item.id === id);
+    if (source) {
+      handleSelectItem(source);
+    } else {
+      setError('That note no longer exists');
+    }
+  };
+
+  // A chat reply was saved as its own AI note - show it in the tree
+  const handleReplySaved = async () => {
+    await loadItems();
+  };
+
+  // An AI note was refined, regenerated or restored - show its new content
+  const handleAiNoteUpdated = async (note: Note) => {
+    setSelectedAiNote((current) => (current?.id === note.id ? note : current));
+    await loadItems();
+  };
+
+  // Synthesize the chosen notes (or folder) into a new AI note and show it
+  const handleSynthesize = async (processType: string) => {
+    if (!synthesisTarget) return;
+
+    const target = synthesisTarget;
+    setSynthesisTarget(null);
+
+    try {
+      setError(null);
+      setShowUsage(false);
+
+      const { jobId, noteId } = await api.batchSynthesize(
+        processType,
+        'folderId' in target ? { folderId: target.folderId } : { noteIds: target.noteIds }
+      );
+
+      await loadItems();
+      setSelectedNote(null);
+      setEditorContent(null);
+      setSelectedAiNote(await api.getNote(noteId));
+
+      const job = await api.waitForJob(jobId);
+      await loadItems();
+      awaitTitles();
+      const aiNote = await api.getNote(noteId);
+      setSelectedAiNote((current) => (current?.id === noteId ? aiNote : current));
+
+      if (job.status === 'failed') {
+        setError(job.error_message || 'Synthesis failed');
       }
+    } catch (err: any) {
+      console.error('Failed to synthesize notes:', err);
+      setError(err.message || 'Failed to synthesize notes');
+      await loadItems();
     }
   };
 
@@ -143,6 +262,7 @@ function App() {
 
       const updatedNote = await api.updateNote(selectedNote.id, editorContent);
       await loadItems();
+      if (!updatedNote.name) awaitTitles();
 
       setSelectedNote(updatedNote);
       setIsSaving(false);
@@ -153,36 +273,66 @@ function App() {
     }
   };
 
-  // Handle AI processing
-  const handleProcess = async (processType: string) => {
+  // Handle AI processing (streams the output into the AI panel as it arrives)
+  const handleProcess = (processType: string, context?: ContextOptions, settings?: RunSettings) => {
     if (!selectedNote) return;
 
-    try {
-      setIsProcessing(true);
-      setError(null);
-
-      await api.processNote(selectedNote.id, processType);
-
-      // Refresh items to see the new child note
-      await loadItems();
-
-      // After refresh, automatically select the newly created AI child
-      setTimeout(() => {
-        const aiChildren = items.filter(
-          (item) => item.parent_id === selectedNote.id && item.item_type === 'ai-note'
-        ) as Note[];
-        if (aiChildren.length > 0) {
-          setSelectedAiNote(aiChildren[aiChildren.length - 1]); // Select the latest one
+    setIsProcessing(true);
+    setError(null);
+    setStreamingText('');
+    setChunkProgress(null);
+
+    closeStreamRef.current = api.streamProcess(selectedNote.id, processType, {
+      onDelta: (text) => {
+        setStreamingText((prev) => (prev ?? '') + text);
+      },
+      onProgress: setChunkProgress,
+      onDone: async ({ childNoteId }) => {
+        try {
+          // Refresh items to see the new child note, then select it
+          await loadItems();
+          awaitTitles();
+          const aiNote = await api.getNote(childNoteId);
+          setSelectedAiNote(aiNote);
+        } catch (err: any) {
+          console.error('Failed to load AI note:', err);
+          setError(err.message || 'Failed to load AI note');
         }
-      }, 100);
+        setStreamingText(null);
+        setIsProcessing(false);
+      },
+      onError: async (message) => {
+        console.error('Processing failed:', message);
+        setError(message);
+        setStreamingText(null);
+        setIsProcessing(false);
+        await loadItems(); // Still refresh to see error state
+      },
+      onCancelled: async () => {
+        setStreamingText(null);
+        setIsProcessing(false);
+        await loadItems();
+      },
+    }, context, settings);
+  };
+
+  // Cancel the in-flight AI run for the selected note
+  const handleCancelProcess = async () => {
+    if (!selectedNote) return;
 
-      setIsProcessing(false);
+    try {
+      setError(null);
+      await api.cancelProcess(selectedNote.id);
     } catch (err: any) {
-      console.error('Processing failed:', err);
-      setError(err.message || 'Processing failed');
-      setIsProcessing(false);
-      await loadItems(); // Still refresh to see error state
+      console.error('Failed to cancel processing:', err);
+      setError(err.message || 'Failed to cancel processing');
     }
+
+    closeStreamRef.current?.();
+    closeStreamRef.current = null;
+    setStreamingText(null);
+    setIsProcessing(false);
+    await loadItems();
   };
 
   // Delete an item (note or folder)
@@ -227,6 +377,31 @@ function App() {
     }
   };
 
+  // Rename a note (an empty name goes back to an automatic title)
+  const handleRenameNote = async (id: string, newName: string | null) => {
+    try {
+      setError(null);
+      await api.renameNote(id, newName);
+      await loadItems();
+      if (!newName) awaitTitles();
+    } catch (err: any) {
+      console.error('Failed to rename note:', err);
+      setError(err.message || 'Failed to rename note');
+    }
+  };
+
+  // Title every note that has no name yet
+  const handleTitleUntitled = async () => {
+    try {
+      setError(null);
+      const { queued } = await api.titleUntitledNotes();
+      if (queued > 0) awaitTitles(Math.min(queued * TITLE_REFRESH_MS, MAX_TITLE_REFRESH_MS));
+    } catch (err: any) {
+      console.error('Failed to title notes:', err);
+      setError(err.message || 'Failed to title notes');
+    }
+  };
+
   // Move an item to a different parent
   const handleMoveItem = async (itemId: string, newParentId: string | null) => {
     try {
@@ -259,6 +434,35 @@ function App() {
           <div className="flex justify-between items-center mb-2">
             <h1 className="text-sm font-semibold text-foreground">Notes</h1>
             <div className="flex gap-1">
+              <button
+                onClick={() => setShowUsage(!showUsage)}
+                className={`p-1.5 rounded transition-colors ${showUsage ? 'text-foreground bg-accent/30' : 'text-muted-foreground hover:text-foreground hover:bg-accent/30'}`}
+                title="AI usage"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setShowSchedules(true)}
+                className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/30 rounded transition-colors"
+                title="Scheduled digests"
+                data-testid="open-schedules"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </button>
+              <button
+                onClick={handleTitleUntitled}
+                className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/30 rounded transition-colors"
+                title="Title untitled notes"
+                data-testid="title-untitled"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                </svg>
+              </button>
               <button
                 onClick={handleCreateFolder}
                 className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-accent/30 rounded transition-colors"
@@ -286,25 +490,33 @@ function App() {
           )}
         </div>
 
+        <AskBox onSelectNote={handleSelectSource} onAnswered={loadItems} />
+
         {/* Tree */}
         <div className="flex-1 overflow-y-auto p-2">
           <NoteTree
             items={items}
             onSelectItem={handleSelectItem}
-            selectedItemId={selectedNote?.id || selectedFolder?.id}
+            selectedItemId={selectedNote?.id || selectedAiNote?.id || selectedFolder?.id}
             onDeleteItem={handleDeleteItem}
             onRenameFolder={handleRenameFolder}
+            onRenameNote={handleRenameNote}
             autoRenameId={autoRenameId}
             onCreateNote={handleCreateNote}
             onCreateFolder={handleCreateFolder}
             onMoveItem={handleMoveItem}
+            onSynthesize={(noteIds) => setSynthesisTarget({ noteIds })}
+            onSynthesizeFolder={(folder) => setSynthesisTarget({ folderId: folder.id, folderName: folder.name })}
+            onManageRules={setRulesFolder}
           />
         </div>
       </div>
 
       {/* Main Content Area - Side by Side */}
       <div className="flex-1 flex overflow-hidden">
-        {selectedNote ? (
+        {showUsage ? (
+          <UsageDashboard onClose={() => setShowUsage(false)} />
+        ) : selectedNote ? (
           <>
             {/* Left Panel - User Note */}
             <div className="flex-1 flex flex-col border-r border-border overflow-hidden">
@@ -359,15 +571,22 @@ function App() {
                   <ProcessButtons
                     noteId={selectedNote.id}
                     onProcess={handleProcess}
+                    onCancel={handleCancelProcess}
                     isProcessing={isProcessing}
                     disabled={selectedNote.status === 'processing'}
+                    onCompared={loadItems}
+                  />
+                  <PipelinePanel
+                    noteId={selectedNote.id}
+                    disabled={isProcessing || selectedNote.status === 'processing'}
+                    onStepFinished={loadItems}
                   />
                 </div>
               </div>
             </div>
 
             {/* Right Panel - AI Note */}
-            {selectedAiNote ? (
+            {streamingText !== null ? (
               <div className="flex-1 flex flex-col overflow-hidden">
                 {/* Header */}
                 <div className="px-6 py-4 bg-card border-b border-border">
@@ -377,32 +596,35 @@ function App() {
                       <h2 className="text-lg font-semibold text-foreground">
                         AI Generated Note
                       </h2>
-                      {selectedAiNote.process_type && (
-                        <p className="text-xs text-muted-foreground">
-                          Process: {selectedAiNote.process_type}
-                        </p>
-                      )}
+                      <p className="text-xs text-muted-foreground" data-testid="ai-progress">
+                        {chunkProgress?.phase === 'map'
+                          ? `Long note - reading part ${Math.min(chunkProgress.completedChunks + 1, chunkProgress.totalChunks)} of ${chunkProgress.totalChunks}...`
+                          : chunkProgress
+                            ? `Combining ${chunkProgress.totalChunks} parts...`
+                            : 'Streaming response...'}
+                      </p>
                     </div>
                   </div>
-
-                  {/* Processing Failed */}
-                  {selectedAiNote.status === 'failed' && selectedAiNote.error_message && (
-                    <div className="mt-3 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
-                      <strong>Processing Failed:</strong> {selectedAiNote.error_message}
-                    </div>
-                  )}
                 </div>
 
-                {/* AI Note Content */}
+                {/* Partial markdown as it arrives */}
                 <div className="flex-1 overflow-y-auto p-6 bg-background">
-                  <NoteEditor
-                    content={selectedAiNote.content}
-                    onChange={() => {}}
-                    editable={false}
-                    placeholder=""
-                  />
+                  <div
+                    data-testid="ai-stream"
+                    className="border rounded-lg bg-card border-border/50 p-4 min-h-[200px] whitespace-pre-wrap text-sm text-foreground"
+                  >
+                    {streamingText}
+                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+                  </div>
                 </div>
               </div>
+            ) : selectedAiNote ? (
+              <AiNotePanel
+                note={selectedAiNote}
+                onSelectSource={handleSelectSource}
+                onReplySaved={handleReplySaved}
+                onNoteUpdated={handleAiNoteUpdated}
+              />
             ) : (
               <div className="flex-1 flex items-center justify-center text-muted-foreground bg-background">
                 <div className="text-center">
@@ -415,6 +637,14 @@ function App() {
               </div>
             )}
           </>
+        ) : selectedAiNote ? (
+          <AiNotePanel
+            note={selectedAiNote}
+            onSelectSource={handleSelectSource}
+            onReplySaved={handleReplySaved}
+            onNoteUpdated={handleAiNoteUpdated}
+            error={error}
+          />
         ) : (
           <div className="flex-1 flex items-center justify-center text-muted-foreground">
             <div className="text-center">
@@ -423,10 +653,39 @@ function App() {
               <p className="text-sm">
                 Select a note from the sidebar or create a new one
               </p>
+              {error && (
+                <p className="mt-4 text-sm text-destructive">
+                  <strong>Error:</strong> {error}
+                </p>
+              )}
             </div>
           </div>
         )}
       </div>
+
+      <SynthesizeModal
+        isOpen={synthesisTarget !== null}
+        title={
+          synthesisTarget && 'folderId' in synthesisTarget
+            ? `Synthesize "${synthesisTarget.folderName}"`
+            : `Synthesize ${synthesisTarget?.noteIds.length ?? 0} notes`
+        }
+        onConfirm={handleSynthesize}
+        onCancel={() => setSynthesisTarget(null)}
+      />
+
+      <RulesModal folder={rulesFolder} onClose={() => setRulesFolder(null)} />
+
+      <SchedulesModal
+        isOpen={showSchedules}
+        folders={items.filter((item): item is Folder => item.item_type === 'folder')}
+        onClose={() => setShowSchedules(false)}
+        onRunQueued={loadItems}
+        onOpenNote={(id) => {
+          setShowSchedules(false);
+          handleSelectSource(id);
+        }}
+      />
     </div>
   );
 }
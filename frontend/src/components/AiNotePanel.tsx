@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { api, Note, AINote, AINoteVersion, LLMErrorCode } from '../lib/api';
+import { NoteEditor } from './NoteEditor';
+import { ChatThread } from './ChatThread';
+import { VersionControls } from './VersionControls';
+
+const CONTEXT_KIND_LABELS: Record<string, string> = {
+  ancestors: 'Location',
+  parent: 'Parent note',
+  previous_output: 'Earlier AI output',
+  sibling: 'Related note',
+};
+
+// What to do about each kind of LLM failure
+const ERROR_HINTS: Partial<Record<LLMErrorCode, string>> = {
+  LLM_RATE_LIMITED: 'The AI provider is rate limiting requests - retry in a minute.',
+  LLM_OVERLOADED: 'The AI provider is overloaded - retry shortly.',
+  LLM_TIMEOUT: 'The AI provider took too long to respond - retry shortly.',
+  LLM_AUTH_FAILED: 'Check the API key the backend is configured with.',
+  LLM_CONTEXT_TOO_LONG: 'The note is too long for the model - shorten it or use less context.',
+};
+
+interface AiNotePanelProps {
+  note: Note | AINote;
+  onSelectSource?: (id: string) => void;
+  onReplySaved?: (note: AINote) => void;
+  onNoteUpdated?: (note: Note) => void;
+  error?: string | null;
+}
+
+export function AiNotePanel({ note, onSelectSource, onReplySaved, onNoteUpdated, error }: AiNotePanelProps) {
+  const { context, sources, chunks, settings, question } = note.metadata ?? {};
+  // An earlier version being looked at instead of the current content
+  const [previewVersion, setPreviewVersion] = useState<AINoteVersion | null>(null);
+  const [taskError, setTaskError] = useState<string | null>(null);
+
+  // Tick an action plan step, then show the note as saved (the server updates its checklist)
+  const handleToggleTask = async (taskId: string, done: boolean) => {
+    setTaskError(null);
+    try {
+      await api.updateTask(taskId, done);
+    } catch (err: any) {
+      setTaskError(err.message || 'Failed to update task');
+    }
+    onNoteUpdated?.(await api.getNote(note.id));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 bg-card border-b border-border">
+        <div className="flex items-center gap-3">
+          <span className="text-2xl">🤖</span>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">
+              AI Generated Note
+            </h2>
+            {note.process_type && (
+              <p className="text-xs text-muted-foreground">
+                Process: {note.process_type}
+                {chunks && ` · Long note, processed in ${chunks} parts`}
+                {settings?.model && ` · ${settings.model}`}
+                {settings?.temperature !== undefined && ` · temperature ${settings.temperature}`}
+                {settings?.max_tokens !== undefined && ` · max ${settings.max_tokens} tokens`}
+                {note.status === 'processing' && ' · Processing...'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Notes a synthesis was built from */}
+        {sources && sources.length > 0 && (
+          <div className="mt-3 text-xs text-muted-foreground" data-testid="ai-sources">
+            <span>{question ? `Answer citing ${sources.length} notes:` : `Synthesized from ${sources.length} notes:`}</span>
+            <ul className="mt-1 flex flex-wrap gap-1">
+              {sources.map((source) => (
+                <li key={source.id}>
+                  <button
+                    onClick={() => onSelectSource?.(source.id)}
+                    className="px-2 py-0.5 rounded-full border border-border hover:bg-accent/30 hover:text-foreground transition-colors"
+                  >
+                    {source.title}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Context the model saw besides the note */}
+        {context && (
+          <details className="mt-3 text-xs text-muted-foreground" data-testid="ai-context">
+            <summary className="cursor-pointer hover:text-foreground">
+              Context included: {context.items.length} items ({context.tokensUsed}/{context.tokenBudget} tokens)
+            </summary>
+            <ul className="mt-2 space-y-1 pl-4 list-disc">
+              {context.items.map((item, i) => (
+                <li key={item.id ?? `${item.kind}-${i}`}>
+                  <span className="font-medium">{CONTEXT_KIND_LABELS[item.kind]}:</span> {item.title}
+                  {item.truncated && ' (truncated)'}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <VersionControls note={note} onPreview={setPreviewVersion} onNoteUpdated={onNoteUpdated} />
+
+        {/* Processing Failed */}
+        {note.status === 'failed' && note.error_message && (
+          <div className="mt-3 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+            <strong>Processing Failed:</strong> {note.error_message}
+            {note.error_code && ERROR_HINTS[note.error_code] && (
+              <div className="mt-1" data-testid="ai-error-hint">{ERROR_HINTS[note.error_code]}</div>
+            )}
+          </div>
+        )}
+
+        {taskError && (
+          <div className="mt-3 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+            <strong>Error:</strong> {taskError}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-3 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+      </div>
+
+      {/* AI Note Content */}
+      <div className="flex-1 overflow-y-auto p-6 bg-background">
+        <NoteEditor
+          content={previewVersion?.content ?? note.content}
+          onChange={() => {}}
+          editable={false}
+          placeholder=""
+          onOpenNote={onSelectSource}
+          onToggleTask={note.status === 'complete' && !previewVersion ? handleToggleTask : undefined}
+        />
+
+        {note.status === 'complete' && !previewVersion && <ChatThread noteId={note.id} onReplySaved={onReplySaved} />}
+      </div>
+    </div>
+  );
+}
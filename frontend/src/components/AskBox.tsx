@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { api, AskResponse } from '../lib/api';
+import { NoteEditor } from './NoteEditor';
+
+interface AskBoxProps {
+  onSelectNote: (id: string) => void; // A citation (or the saved answer) was clicked
+  onAnswered: () => void; // The answer was saved - refresh the tree
+}
+
+/**
+ * Ask a question of all the notes - the answer cites the notes it comes from
+ */
+export function AskBox({ onSelectNote, onAnswered }: AskBoxProps) {
+  const [question, setQuestion] = useState('');
+  const [result, setResult] = useState<AskResponse | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    try {
+      setIsAsking(true);
+      setError(null);
+      setResult(await api.ask(question.trim()));
+      onAnswered();
+    } catch (err: any) {
+      setError(err.message || 'Failed to answer');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="p-2 border-b border-border" data-testid="ask-box">
+      <form onSubmit={handleAsk} className="flex gap-1">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask your notes..."
+          disabled={isAsking}
+          className="flex-1 min-w-0 px-2 py-1.5 bg-background border border-border rounded text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !question.trim()}
+          className="px-2 py-1.5 rounded text-xs font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all"
+        >
+          {isAsking ? '...' : 'Ask'}
+        </button>
+      </form>
+
+      {error && <div className="mt-2 text-xs text-destructive">{error}</div>}
+
+      {result && (
+        <div className="mt-2 rounded border border-border bg-background/50" data-testid="ask-answer">
+          <div className="flex justify-between items-center px-2 py-1 border-b border-border text-xs text-muted-foreground">
+            <button
+              onClick={() => onSelectNote(result.note.id)}
+              className="truncate hover:text-foreground hover:underline"
+              title="Open the saved answer"
+            >
+              {result.question}
+            </button>
+            <button onClick={() => setResult(null)} className="px-1 hover:text-foreground" title="Dismiss">
+              ✕
+            </button>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto px-2 text-xs">
+            <NoteEditor content={result.note.content} editable={false} onOpenNote={onSelectNote} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
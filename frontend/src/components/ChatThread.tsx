@@ -0,0 +1,164 @@
+import { useState, useEffect, useRef } from 'react';
+import { api, AINote, NoteMessage } from '../lib/api';
+
+interface ChatThreadProps {
+  noteId: string;
+  onReplySaved?: (note: AINote) => void;
+}
+
+/**
+ * Follow-up conversation under an AI note
+ */
+export function ChatThread({ noteId, onReplySaved }: ChatThreadProps) {
+  const [messages, setMessages] = useState<NoteMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const [savedIds, setSavedIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const closeStreamRef = useRef<(() => void) | null>(null);
+
+  // Load the conversation, and stop any reply in progress when switching notes
+  useEffect(() => {
+    setMessages([]);
+    setSavedIds([]);
+    setError(null);
+
+    api
+      .getMessages(noteId)
+      .then(setMessages)
+      .catch((err) => console.error('Failed to load messages:', err));
+
+    return () => {
+      closeStreamRef.current?.();
+      closeStreamRef.current = null;
+      setPendingQuestion(null);
+      setStreamingReply(null);
+    };
+  }, [noteId]);
+
+  const isSending = pendingQuestion !== null;
+
+  const handleSend = () => {
+    const question = draft.trim();
+    if (!question || isSending) return;
+
+    setDraft('');
+    setError(null);
+    setPendingQuestion(question);
+    setStreamingReply('');
+
+    closeStreamRef.current = api.sendMessage(noteId, question, {
+      onDelta: (text) => {
+        setStreamingReply((prev) => (prev ?? '') + text);
+      },
+      onDone: ({ question: saved, reply }) => {
+        setMessages((prev) => [...prev, saved, reply]);
+        setPendingQuestion(null);
+        setStreamingReply(null);
+      },
+      onError: (message) => {
+        console.error('Chat failed:', message);
+        setError(message);
+        setDraft(question); // Let the user try again
+        setPendingQuestion(null);
+        setStreamingReply(null);
+      },
+    });
+  };
+
+  const handleSaveReply = async (message: NoteMessage) => {
+    try {
+      setError(null);
+      const note = await api.saveMessageAsNote(noteId, message.id);
+      setSavedIds((prev) => [...prev, message.id]);
+      onReplySaved?.(note);
+    } catch (err: any) {
+      console.error('Failed to save reply:', err);
+      setError(err.message || 'Failed to save reply');
+    }
+  };
+
+  const bubbleClass = (role: NoteMessage['role']) =>
+    role === 'user'
+      ? 'ml-8 bg-primary/15 text-foreground'
+      : 'mr-8 bg-card border border-border/50 text-foreground';
+
+  return (
+    <div className="mt-6 border-t border-border pt-4" data-testid="chat-thread">
+      <h3 className="text-sm font-semibold text-foreground mb-3">Follow-up</h3>
+
+      <div className="space-y-3">
+        {messages.map((message) => (
+          <div key={message.id} className={`p-3 rounded-lg text-sm whitespace-pre-wrap ${bubbleClass(message.role)}`}>
+            {message.content}
+            {message.role === 'assistant' && (
+              <div className="mt-2 flex justify-end">
+                <button
+                  onClick={() => handleSaveReply(message)}
+                  disabled={savedIds.includes(message.id)}
+                  className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  {savedIds.includes(message.id) ? 'Saved' : 'Save as note'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {/* Turn in progress */}
+        {pendingQuestion !== null && (
+          <>
+            <div className={`p-3 rounded-lg text-sm whitespace-pre-wrap ${bubbleClass('user')}`}>{pendingQuestion}</div>
+            <div className={`p-3 rounded-lg text-sm whitespace-pre-wrap ${bubbleClass('assistant')}`} data-testid="chat-stream">
+              {streamingReply}
+              <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+            </div>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends, shift+enter adds a new line
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="Ask a follow-up question..."
+          rows={2}
+          className="
+            flex-1 px-3 py-2
+            bg-background
+            border border-border
+            rounded-lg
+            text-sm text-foreground
+            placeholder:text-muted-foreground
+            focus:outline-none
+            focus:ring-2
+            focus:ring-primary/50
+            focus:border-primary
+            resize-none
+          "
+        />
+        <button
+          onClick={handleSend}
+          disabled={isSending || !draft.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all shadow-sm self-end"
+        >
+          {isSending ? 'Sending...' : 'Send'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState, useEffect } from 'react';
+import { api, Comparison, ComparisonVariantInput, ContextOptions, ProcessDefinition } from '../lib/api';
+import { NoteEditor } from './NoteEditor';
+import { ModelSelect, useModels } from './ModelSettings';
+
+interface ComparisonModalProps {
+  isOpen: boolean;
+  noteId: string;
+  processes: ProcessDefinition[];
+  context?: ContextOptions;
+  onChange: () => void; // AI notes were added or deleted - refresh the tree
+  onClose: () => void;
+}
+
+// A variant as typed into the form - blank fields keep the process's setting
+interface VariantDraft {
+  label: string;
+  model: string;
+  temperature: string;
+  max_tokens: string;
+  system_prompt: string;
+}
+
+const EMPTY_VARIANT: VariantDraft = { label: '', model: '', temperature: '', max_tokens: '', system_prompt: '' };
+
+const MIN_VARIANTS = 2;
+const MAX_VARIANTS = 4;
+
+// Tailwind needs the full class names
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+};
+
+const inputClass = `
+  w-full px-2 py-1.5
+  bg-background
+  border border-border
+  rounded-lg
+  text-sm text-foreground
+  placeholder:text-muted-foreground
+  focus:outline-none
+  focus:ring-2
+  focus:ring-primary/50
+  focus:border-primary
+`;
+
+/**
+ * The request body for a variant, leaving out blank fields
+ */
+function toVariantInput(draft: VariantDraft): ComparisonVariantInput {
+  const input: ComparisonVariantInput = {};
+  if (draft.label.trim()) input.label = draft.label.trim();
+  if (draft.model.trim()) input.model = draft.model.trim();
+  if (draft.temperature !== '') input.temperature = parseFloat(draft.temperature);
+  if (draft.max_tokens !== '') input.max_tokens = parseInt(draft.max_tokens, 10);
+  if (draft.system_prompt.trim()) input.system_prompt = draft.system_prompt;
+  return input;
+}
+
+/**
+ * Run a process on a note with several models or prompts side by side, then keep the best output
+ */
+export function ComparisonModal({ isOpen, noteId, processes, context, onChange, onClose }: ComparisonModalProps) {
+  const [processType, setProcessType] = useState('');
+  const [variants, setVariants] = useState<VariantDraft[]>([EMPTY_VARIANT, EMPTY_VARIANT]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { models } = useModels(isOpen);
+
+  // Pick up a comparison on this note that is still waiting for a winner
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setComparison(null);
+    api
+      .getComparisons(noteId)
+      .then((comparisons) => {
+        const undecided = comparisons.find((c) => !c.decided_at);
+        return undecided ? api.getComparison(undecided.id) : null;
+      })
+      .then(setComparison)
+      .catch((err) => console.error('Failed to load comparisons:', err));
+  }, [isOpen, noteId]);
+
+  useEffect(() => {
+    if (!processType && processes.length > 0) {
+      setProcessType(processes[0].type);
+    }
+  }, [processes, processType]);
+
+  if (!isOpen) return null;
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) =>
+    setVariants((prev) => prev.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+
+  const handleRun = async () => {
+    try {
+      setIsRunning(true);
+      setError(null);
+      setComparison(await api.compareNote(noteId, processType, variants.map(toVariantInput), context));
+      onChange();
+    } catch (err: any) {
+      setError(err.message || 'Comparison failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handlePickWinner = async (winnerNoteId: string) => {
+    if (!comparison) return;
+
+    try {
+      setError(null);
+      setComparison(await api.pickComparisonWinner(comparison.id, winnerNoteId));
+      onChange();
+    } catch (err: any) {
+      setError(err.message || 'Failed to pick winner');
+    }
+  };
+
+  const processName = (type: string) => {
+    const process = processes.find((p) => p.type === type);
+    return process ? `${process.icon} ${process.name}` : type;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card border border-border rounded-lg shadow-2xl w-full max-w-6xl mx-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="comparison-modal"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">
+              {comparison ? `Compare: ${processName(comparison.process_type)}` : 'Compare models and prompts'}
+            </h2>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {comparison
+                ? comparison.decided_at
+                  ? 'Winner kept - the other outputs were deleted'
+                  : 'Pick the best output to keep - the others are deleted'
+                : 'Run one process with up to four variants in parallel. Blank fields keep the process settings.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground px-2" title="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-4">
+          {comparison ? (
+            /* Outputs side by side */
+            <div className={`grid ${GRID_COLUMNS[comparison.variants.length]} gap-4`}>
+              {comparison.variants.map((variant, index) => {
+                const note = comparison.notes.find((n) => n.id === variant.result?.note_id);
+                const isWinner = comparison.winner_variant === index;
+
+                return (
+                  <div
+                    key={index}
+                    data-testid="comparison-variant"
+                    className={`
+                      flex flex-col min-w-0 rounded-lg border p-3
+                      ${isWinner ? 'border-primary bg-primary/5' : 'border-border'}
+                    `}
+                  >
+                    <div className="font-semibold text-sm text-foreground truncate">
+                      {isWinner && '🏆 '}
+                      {variant.label}
+                    </div>
+                    {variant.result && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {variant.result.model} · {(variant.result.latency_ms / 1000).toFixed(1)}s ·{' '}
+                        {(variant.result.input_tokens + variant.result.output_tokens).toLocaleString()} tokens · $
+                        {variant.result.cost_usd.toFixed(4)}
+                      </div>
+                    )}
+
+                    <div className="flex-1 mt-3 max-h-96 overflow-y-auto">
+                      {variant.error ? (
+                        <div className="text-sm text-destructive">{variant.error.message}</div>
+                      ) : note ? (
+                        <NoteEditor content={note.content} editable={false} />
+                      ) : (
+                        <div className="text-sm text-muted-foreground italic">Deleted</div>
+                      )}
+                    </div>
+
+                    {!comparison.decided_at && note && (
+                      <button
+                        onClick={() => handlePickWinner(note.id)}
+                        className="mt-3 px-3 py-1.5 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:opacity-90 transition-all"
+                      >
+                        Pick winner
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            /* Variant setup */
+            <>
+              <label className="block text-xs font-medium text-muted-foreground max-w-sm">
+                Process
+                <select
+                  className={`${inputClass} mt-1`}
+                  value={processType}
+                  onChange={(e) => setProcessType(e.target.value)}
+                  disabled={isRunning}
+                >
+                  {processes.map((process) => (
+                    <option key={process.type} value={process.type}>
+                      {process.icon} {process.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <div className={`grid ${GRID_COLUMNS[variants.length]} gap-4`}>
+                {variants.map((variant, index) => (
+                  <div key={index} className="rounded-lg border border-border p-3 space-y-2" data-testid="comparison-variant-form">
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs font-semibold text-foreground uppercase">Variant {index + 1}</span>
+                      {variants.length > MIN_VARIANTS && (
+                        <button
+                          onClick={() => setVariants((prev) => prev.filter((_, i) => i !== index))}
+                          disabled={isRunning}
+                          className="text-xs text-muted-foreground hover:text-destructive"
+                          title="Remove variant"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      className={inputClass}
+                      value={variant.label}
+                      onChange={(e) => updateVariant(index, { label: e.target.value })}
+                      placeholder="Label"
+                      disabled={isRunning}
+                    />
+                    <ModelSelect
+                      models={models}
+                      value={variant.model}
+                      onChange={(model) => updateVariant(index, { model })}
+                      disabled={isRunning}
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.1}
+                        className={inputClass}
+                        value={variant.temperature}
+                        onChange={(e) => updateVariant(index, { temperature: e.target.value })}
+                        placeholder="Temperature"
+                        disabled={isRunning}
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        className={inputClass}
+                        value={variant.max_tokens}
+                        onChange={(e) => updateVariant(index, { max_tokens: e.target.value })}
+                        placeholder="Max tokens"
+                        disabled={isRunning}
+                      />
+                    </div>
+                    <textarea
+                      className={`${inputClass} font-mono h-20`}
+                      value={variant.system_prompt}
+                      onChange={(e) => updateVariant(index, { system_prompt: e.target.value })}
+                      placeholder="System prompt"
+                      disabled={isRunning}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {variants.length < MAX_VARIANTS && (
+                <button
+                  onClick={() => setVariants((prev) => [...prev, EMPTY_VARIANT])}
+                  disabled={isRunning}
+                  className="text-sm text-primary hover:underline disabled:opacity-50"
+                >
+                  + Add variant
+                </button>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-border flex justify-end gap-3">
+          {comparison ? (
+            <button
+              onClick={() => setComparison(null)}
+              disabled={!comparison.decided_at}
+              title={comparison.decided_at ? undefined : 'Pick a winner first'}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-muted-foreground hover:bg-accent/30 disabled:opacity-50 transition-colors"
+            >
+              New comparison
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={isRunning || !processType}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all shadow-sm"
+            >
+              {isRunning ? `Running ${variants.length} variants...` : 'Run comparison'}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-muted-foreground hover:bg-accent/30 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect, useRef } from 'react';
+import { api, ModelInfo, RunSettings } from '../lib/api';
+
+const inputClass = `
+  w-full px-2 py-1.5
+  bg-background
+  border border-border
+  rounded-lg
+  text-sm text-foreground
+  placeholder:text-muted-foreground
+  focus:outline-none
+  focus:ring-2
+  focus:ring-primary/50
+  focus:border-primary
+`;
+
+/**
+ * e.g. "200k context · $3 / $15 per M tokens"
+ */
+export function describeModel(model: ModelInfo): string {
+  const window = model.context_window ? `${Math.round(model.context_window / 1000)}k context · ` : '';
+  return `${window}$${model.pricing.input} / $${model.pricing.output} per M tokens`;
+}
+
+/**
+ * Load the models a run can pick once, when first needed
+ */
+export function useModels(enabled = true): { models: ModelInfo[]; error: string | null } {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || loaded) return;
+
+    setLoaded(true);
+    api
+      .getModels()
+      .then((list) => setModels(list.models))
+      .catch((err) => {
+        console.error('Failed to load models:', err);
+        setError(err.message || 'Failed to load models');
+      });
+  }, [enabled, loaded]);
+
+  return { models, error };
+}
+
+interface ModelSelectProps {
+  models: ModelInfo[];
+  value: string;
+  onChange: (model: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick one of the provider's models - blank keeps the process's model
+ */
+export function ModelSelect({ models, value, onChange, disabled }: ModelSelectProps) {
+  return (
+    <select className={inputClass} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled}>
+      <option value="">Process default</option>
+      {models.map((model) => (
+        <option key={model.id} value={model.id} title={describeModel(model)}>
+          {model.id}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+interface ModelSettingsPopoverProps {
+  settings: RunSettings;
+  onChange: (settings: RunSettings) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Button opening a popover to pick the model, temperature and max tokens of the next run
+ */
+export function ModelSettingsPopover({ settings, onChange, disabled }: ModelSettingsPopoverProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { models, error } = useModels(isOpen);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click outside or Escape, like the context menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const update = (changes: RunSettings) => {
+    const next = { ...settings, ...changes };
+    // Blank fields go back to the process's settings
+    (Object.keys(next) as (keyof RunSettings)[]).forEach((key) => {
+      if (next[key] === undefined || next[key] === '' || Number.isNaN(next[key])) delete next[key];
+    });
+    onChange(next);
+  };
+
+  const selected = models.find((model) => model.id === settings.model);
+  const isCustomized = Object.keys(settings).length > 0;
+
+  return (
+    <div className="relative" ref={popoverRef}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        aria-expanded={isOpen}
+        title="Pick the model, temperature and max tokens for the next run"
+        className={`
+          px-2 py-1 rounded-full border transition-colors
+          ${isCustomized
+            ? 'bg-primary/20 border-primary/60 text-foreground'
+            : 'border-border text-muted-foreground hover:bg-accent/30'}
+        `}
+      >
+        🎛️ {settings.model ?? 'Advanced'}
+      </button>
+
+      {isOpen && (
+        <div
+          data-testid="model-settings"
+          className="absolute left-0 top-full mt-2 z-20 w-72 p-3 space-y-3 rounded-lg border border-border bg-popover text-popover-foreground shadow-lg"
+        >
+          <label className="block text-xs font-medium text-muted-foreground">
+            Model
+            <div className="mt-1">
+              <ModelSelect models={models} value={settings.model ?? ''} onChange={(model) => update({ model })} />
+            </div>
+            {selected && <span className="block mt-1 font-normal">{describeModel(selected)}</span>}
+          </label>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block text-xs font-medium text-muted-foreground">
+              Temperature
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.1}
+                className={`${inputClass} mt-1`}
+                value={settings.temperature ?? ''}
+                onChange={(e) => update({ temperature: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                placeholder="Default"
+              />
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Max tokens
+              <input
+                type="number"
+                min={1}
+                className={`${inputClass} mt-1`}
+                value={settings.maxTokens ?? ''}
+                onChange={(e) => update({ maxTokens: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+                placeholder="Default"
+              />
+            </label>
+          </div>
+
+          {error && <div className="text-xs text-destructive">{error}</div>}
+
+          <div className="flex justify-between items-center text-xs">
+            <span className="text-muted-foreground">Used for every run until reset</span>
+            <button
+              onClick={() => onChange({})}
+              disabled={!isCustomized}
+              className="text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
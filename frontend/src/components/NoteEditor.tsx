@@ -1,25 +1,94 @@
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
-import { useEffect } from 'react';
+import Link from '@tiptap/extension-link';
+import Table from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
+import TaskList from '@tiptap/extension-task-list';
+import TaskItem from '@tiptap/extension-task-item';
+import { useEffect, useRef } from 'react';
 
 interface NoteEditorProps {
   content: any;
   onChange?: (content: any) => void;
   editable?: boolean;
   placeholder?: string;
+  onOpenNote?: (id: string) => void; // A note:// link was clicked (read-only editors)
+  onToggleTask?: (taskId: string, done: boolean) => void; // An action plan step was ticked (read-only editors)
 }
 
+// Links to other notes, e.g. the sources a digest lists
+const NOTE_LINK_PREFIX = 'note://';
+
+// Checklist items that can be action plan tasks - taskId links an item to its task
+const PlanTaskItem = TaskItem.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      taskId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-task-id'),
+        renderHTML: (attributes) => (attributes.taskId ? { 'data-task-id': attributes.taskId } : {}),
+      },
+      estimate: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-estimate'),
+        renderHTML: (attributes) => (attributes.estimate ? { 'data-estimate': attributes.estimate } : {}),
+      },
+    };
+  },
+});
+
 export function NoteEditor({
   content,
   onChange,
   editable = true,
   placeholder = 'Start writing...',
+  onOpenNote,
+  onToggleTask,
 }: NoteEditorProps) {
+  // The editor keeps the props it was created with, so read the latest handlers through refs
+  const onOpenNoteRef = useRef(onOpenNote);
+  onOpenNoteRef.current = onOpenNote;
+  const onToggleTaskRef = useRef(onToggleTask);
+  onToggleTaskRef.current = onToggleTask;
+
   const editor = useEditor({
-    extensions: [StarterKit],
+    // Links, tables and checklists as well as StarterKit, so AI output renders in full
+    extensions: [
+      StarterKit,
+      Link.configure({ openOnClick: !editable, autolink: true, protocols: ['note'] }),
+      Table,
+      TableRow,
+      TableHeader,
+      TableCell,
+      TaskList,
+      PlanTaskItem.configure({
+        nested: true,
+        // Tasks can be ticked in read-only notes; other checklist items stay as they are
+        onReadOnlyChecked: (node, checked) => {
+          if (!node.attrs.taskId || !onToggleTaskRef.current) return false;
+          onToggleTaskRef.current(node.attrs.taskId, checked);
+          return true;
+        },
+      }),
+    ],
     content,
     editable,
     editorProps: {
+      // Open note:// links in the app rather than as a URL
+      handleClick: (view, _pos, event) => {
+        const link = (event.target as HTMLElement).closest('a');
+        const href = link?.getAttribute('href');
+        if (view.editable || !href?.startsWith(NOTE_LINK_PREFIX) || !onOpenNoteRef.current) {
+          return false;
+        }
+
+        event.preventDefault();
+        onOpenNoteRef.current(href.slice(NOTE_LINK_PREFIX.length));
+        return true;
+      },
       attributes: {
         class: 'prose prose-invert prose-sm sm:prose lg:prose-lg xl:prose-2xl focus:outline-none max-w-none prose-headings:text-foreground prose-p:text-foreground prose-strong:text-foreground prose-code:text-primary prose-a:text-primary',
       },
@@ -10,12 +10,20 @@ interface NoteTreeItemProps {
   level?: number;
   onDelete?: (id: string, itemType: string) => void;
   onRename?: (id: string, newName: string) => void;
+  onRenameNote?: (id: string, newName: string | null) => void;
   autoRenameId?: string;
   onCreateNote?: (parentId: string) => void;
   onCreateFolder?: (parentId: string) => void;
   onMoveItem?: (itemId: string, newParentId: string | null) => void;
+  checkedIds?: string[];
+  onMultiSelect?: (item: Item, mode: MultiSelectMode) => void;
+  onSynthesizeFolder?: (folder: Folder) => void;
+  onManageRules?: (folder: Folder) => void;
 }
 
+// Ctrl/Cmd-click toggles a note in the multi-selection; shift-click selects a range
+type MultiSelectMode = 'toggle' | 'range';
+
 export function NoteTreeItem({
   item,
   children = [],
@@ -24,10 +32,15 @@ export function NoteTreeItem({
   level = 0,
   onDelete,
   onRename,
+  onRenameNote,
   autoRenameId,
   onCreateNote,
   onCreateFolder,
   onMoveItem,
+  checkedIds = [],
+  onMultiSelect,
+  onSynthesizeFolder,
+  onManageRules,
 }: NoteTreeItemProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [isRenaming, setIsRenaming] = useState(false);
@@ -38,6 +51,7 @@ export function NoteTreeItem({
 
   const isFolder = item.item_type === 'folder';
   const isSelected = selectedId === item.id;
+  const isChecked = checkedIds.includes(item.id);
 
   // Auto-trigger rename mode for newly created folders
   useEffect(() => {
@@ -55,6 +69,11 @@ export function NoteTreeItem({
       return (item as Folder).name;
     }
 
+    // Notes display their title once they have one
+    if (item.name) {
+      return item.name;
+    }
+
     try {
       if (typeof content === 'string') {
         content = JSON.parse(content);
@@ -111,10 +130,20 @@ export function NoteTreeItem({
 
   // No icons - cleaner Notion-like UI
 
-  // Handle rename submission
+  const canRename = isFolder ? Boolean(onRename) : Boolean(onRenameNote);
+
+  const startRename = () => {
+    setRenameDraft(item.name || '');
+    setIsRenaming(true);
+  };
+
+  // Handle rename submission - clearing a note's name goes back to its automatic title
   const handleRenameSubmit = () => {
-    if (renameDraft.trim() && onRename) {
-      onRename(item.id, renameDraft.trim());
+    const newName = renameDraft.trim();
+    if (isFolder && newName && onRename) {
+      onRename(item.id, newName);
+    } else if (!isFolder && newName !== (item.name || '') && onRenameNote) {
+      onRenameNote(item.id, newName || null);
     }
     setIsRenaming(false);
     setRenameDraft('');
@@ -170,6 +199,17 @@ export function NoteTreeItem({
     }
   };
 
+  // Handle click - modifier keys build a multi-selection of notes
+  const handleClick = (e: React.MouseEvent) => {
+    if (onMultiSelect && !isFolder && (e.metaKey || e.ctrlKey || e.shiftKey)) {
+      e.preventDefault();
+      onMultiSelect(item, e.shiftKey ? 'range' : 'toggle');
+      return;
+    }
+
+    onSelect(item);
+  };
+
   // Handle context menu
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -203,6 +243,26 @@ export function NoteTreeItem({
         });
       }
 
+      if (onSynthesizeFolder) {
+        items.push({
+          label: 'Synthesize folder',
+          icon: '✨',
+          onClick: () => {
+            onSynthesizeFolder(item as Folder);
+          },
+        });
+      }
+
+      if (onManageRules) {
+        items.push({
+          label: 'Processing rules',
+          icon: '⚙️',
+          onClick: () => {
+            onManageRules(item as Folder);
+          },
+        });
+      }
+
       if (items.length > 0) {
         items.push({ separator: true } as ContextMenuItem);
       }
@@ -212,12 +272,16 @@ export function NoteTreeItem({
           label: 'Rename',
           icon: '✏️',
           shortcut: '⌘⇧R',
-          onClick: () => {
-            setRenameDraft((item as Folder).name);
-            setIsRenaming(true);
-          },
+          onClick: startRename,
         });
       }
+    } else if (onRenameNote) {
+      items.push({
+        label: 'Rename',
+        icon: '✏️',
+        shortcut: '⌘⇧R',
+        onClick: startRename,
+      });
     }
 
     if (isFolder || item.item_type === 'note') {
@@ -276,13 +340,16 @@ export function NoteTreeItem({
           ${
             isSelected
               ? 'bg-primary/20'
+              : isChecked
+              ? 'bg-primary/10 ring-1 ring-primary/40'
               : isDragOver
               ? 'bg-accent/50 ring-2 ring-primary/50'
               : 'hover:bg-accent/30'
           }
         `}
-        onClick={() => onSelect(item)}
+        onClick={handleClick}
         onContextMenu={handleContextMenu}
+        aria-selected={isChecked || isSelected}
       >
         <div className="flex items-center gap-2 flex-1 min-w-0">
           {/* Expand/collapse button */}
@@ -314,7 +381,9 @@ export function NoteTreeItem({
                   }
                 }}
                 onClick={(e) => e.stopPropagation()}
+                placeholder={isFolder ? undefined : 'Automatic title'}
                 className="w-full px-2 py-1 text-sm bg-background border border-primary rounded"
+                data-testid="rename-input"
                 autoFocus
               />
             ) : (
@@ -327,10 +396,7 @@ export function NoteTreeItem({
                     ${isSelected ? 'font-semibold' : ''}
                   `}
                   onDoubleClick={() => {
-                    if (isFolder && onRename) {
-                      setRenameDraft((item as Folder).name);
-                      setIsRenaming(true);
-                    }
+                    if (canRename) startRename();
                   }}
                 >
                   {previewText}
@@ -392,10 +458,15 @@ export function NoteTreeItem({
               level={level + 1}
               onDelete={onDelete}
               onRename={onRename}
+              onRenameNote={onRenameNote}
               autoRenameId={autoRenameId}
               onCreateNote={onCreateNote}
               onCreateFolder={onCreateFolder}
               onMoveItem={onMoveItem}
+              checkedIds={checkedIds}
+              onMultiSelect={onMultiSelect}
+              onSynthesizeFolder={onSynthesizeFolder}
+              onManageRules={onManageRules}
             />
           ))}
         </div>
@@ -421,10 +492,14 @@ interface NoteTreeProps {
   selectedItemId?: string;
   onDeleteItem?: (id: string, itemType: string) => void;
   onRenameFolder?: (id: string, newName: string) => void;
+  onRenameNote?: (id: string, newName: string | null) => void; // null goes back to an automatic title
   autoRenameId?: string; // ID of folder that should auto-enter rename mode
   onCreateNote?: (parentId: string) => void;
   onCreateFolder?: (parentId: string) => void;
   onMoveItem?: (itemId: string, newParentId: string | null) => void;
+  onSynthesize?: (noteIds: string[]) => void; // Enables multi-select and "Synthesize selected"
+  onSynthesizeFolder?: (folder: Folder) => void;
+  onManageRules?: (folder: Folder) => void;
 }
 
 export function NoteTree({
@@ -433,11 +508,26 @@ export function NoteTree({
   selectedItemId,
   onDeleteItem,
   onRenameFolder,
+  onRenameNote,
   autoRenameId,
   onCreateNote,
   onCreateFolder,
   onMoveItem,
+  onSynthesize,
+  onSynthesizeFolder,
+  onManageRules,
 }: NoteTreeProps) {
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  // Forget selected notes that have been deleted
+  useEffect(() => {
+    setCheckedIds((prev) => {
+      const remaining = prev.filter((id) => items.some((item) => item.id === id));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [items]);
+
   // Build tree structure with full recursion
   const buildTree = () => {
     const itemMap = new Map<string, Item[]>();
@@ -490,6 +580,44 @@ export function NoteTree({
 
   const tree = buildTree();
 
+  // Notes in the order they appear in the tree, for shift-click ranges
+  const orderedNoteIds = (): string[] => {
+    const ids: string[] = [];
+    const visit = (treeItems: (Item & { _children?: Item[] })[]) => {
+      for (const treeItem of treeItems) {
+        if (treeItem.item_type !== 'folder') ids.push(treeItem.id);
+        visit(treeItem._children || []);
+      }
+    };
+    visit(tree.map(({ item }) => item));
+    return ids;
+  };
+
+  const handleSelect = (item: Item) => {
+    setCheckedIds([]);
+    setAnchorId(item.item_type === 'folder' ? null : item.id);
+    onSelectItem(item);
+  };
+
+  const handleMultiSelect = (item: Item, mode: MultiSelectMode) => {
+    // Start from the note that is open, so ctrl-clicking a second note selects both
+    const current = checkedIds.length > 0 ? checkedIds : anchorId ? [anchorId] : [];
+
+    if (mode === 'range' && anchorId) {
+      const order = orderedNoteIds();
+      const [start, end] = [order.indexOf(anchorId), order.indexOf(item.id)].sort((a, b) => a - b);
+      if (start >= 0) {
+        setCheckedIds(order.slice(start, end + 1));
+        return;
+      }
+    }
+
+    setAnchorId(item.id);
+    setCheckedIds(
+      current.includes(item.id) ? current.filter((id) => id !== item.id) : [...current, item.id]
+    );
+  };
+
   if (tree.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -501,19 +629,52 @@ export function NoteTree({
 
   return (
     <div className="space-y-1">
+      {/* Multi-selection actions */}
+      {checkedIds.length > 1 && onSynthesize && (
+        <div
+          className="sticky top-0 z-10 mb-2 px-2 py-1.5 rounded bg-card border border-primary/40 flex items-center justify-between gap-2 text-xs"
+          data-testid="multi-select-bar"
+        >
+          <span className="text-muted-foreground">{checkedIds.length} selected</span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => {
+                onSynthesize(checkedIds);
+                setCheckedIds([]);
+              }}
+              className="px-2 py-1 rounded bg-primary text-primary-foreground font-medium hover:opacity-90"
+            >
+              Synthesize selected
+            </button>
+            <button
+              onClick={() => setCheckedIds([])}
+              className="px-2 py-1 rounded text-muted-foreground hover:bg-accent/30"
+              title="Clear selection"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+
       {tree.map(({ item, children }) => (
         <NoteTreeItem
           key={item.id}
           item={item}
           children={children}
-          onSelect={onSelectItem}
+          onSelect={handleSelect}
           selectedId={selectedItemId}
           onDelete={onDeleteItem}
           onRename={onRenameFolder}
+          onRenameNote={onRenameNote}
           autoRenameId={autoRenameId}
           onCreateNote={onCreateNote}
           onCreateFolder={onCreateFolder}
           onMoveItem={onMoveItem}
+          checkedIds={checkedIds}
+          onMultiSelect={onSynthesize ? handleMultiSelect : undefined}
+          onSynthesizeFolder={onSynthesizeFolder}
+          onManageRules={onManageRules}
         />
       ))}
     </div>
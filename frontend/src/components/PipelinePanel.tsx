@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, Pipeline, PipelineRun, PipelineStepStatus, ProcessDefinition } from '../lib/api';
+
+interface PipelinePanelProps {
+  noteId: string;
+  disabled?: boolean;
+  onStepFinished?: () => void; // A step created its AI note (or failed) - refresh the tree
+}
+
+const STEP_STATUS_ICONS: Record<PipelineStepStatus, string> = {
+  pending: '○',
+  queued: '⏳',
+  running: '⚙️',
+  succeeded: '✓',
+  failed: '✕',
+  cancelled: '⊘',
+};
+
+/**
+ * Run multi-step pipelines on a note and follow the latest run step by step
+ */
+export function PipelinePanel({ noteId, disabled = false, onStepFinished }: PipelinePanelProps) {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [processes, setProcesses] = useState<ProcessDefinition[]>([]);
+  const [run, setRun] = useState<PipelineRun | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.getPipelines(), api.getProcesses()])
+      .then(([allPipelines, allProcesses]) => {
+        setPipelines(allPipelines);
+        setProcesses(allProcesses);
+      })
+      .catch((err) => console.error('Failed to load pipelines:', err));
+  }, []);
+
+  const loadRun = useCallback(async () => {
+    try {
+      const runs = await api.getPipelineRuns(noteId);
+      setRun(runs[0] ?? null);
+    } catch (err) {
+      console.error('Failed to load pipeline runs:', err);
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    setError(null);
+    loadRun();
+  }, [loadRun]);
+
+  const finishedSteps =
+    run?.steps.filter((step) => !['pending', 'queued', 'running'].includes(step.status)).length ?? 0;
+
+  // Follow a run until its steps are done
+  useEffect(() => {
+    if (run?.status !== 'running') return;
+
+    const interval = setInterval(loadRun, 2000);
+    return () => clearInterval(interval);
+  }, [run?.status, loadRun]);
+
+  useEffect(() => {
+    if (finishedSteps > 0) onStepFinished?.();
+  }, [finishedSteps, onStepFinished]);
+
+  if (pipelines.length === 0) return null;
+
+  const processLabel = (type: string) => {
+    const process = processes.find((p) => p.type === type);
+    return process ? `${process.icon} ${process.name}` : type;
+  };
+
+  const handleRun = async (pipeline: Pipeline) => {
+    try {
+      setIsStarting(true);
+      setError(null);
+      setRun(await api.runPipeline(noteId, pipeline.id));
+      onStepFinished?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to start pipeline');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!run) return;
+
+    try {
+      setError(null);
+      setRun(await api.resumePipelineRun(noteId, run.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to resume pipeline');
+    }
+  };
+
+  const isRunning = run?.status === 'running';
+
+  return (
+    <div className="mt-6 space-y-3" data-testid="pipeline-panel">
+      <h3 className="text-sm font-semibold text-foreground uppercase tracking-wide">Pipelines</h3>
+
+      <div className="flex flex-wrap gap-2">
+        {pipelines.map((pipeline) => (
+          <button
+            key={pipeline.id}
+            onClick={() => handleRun(pipeline)}
+            disabled={disabled || isStarting || isRunning}
+            title={pipeline.description}
+            className="px-3 py-2 rounded-lg text-sm text-left border border-border hover:bg-accent/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <span className="block font-medium text-foreground">🔗 {pipeline.name}</span>
+            <span className="block text-xs text-muted-foreground">
+              {pipeline.steps.map((step) => processLabel(step.process_type)).join(' → ')}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {run && (
+        <div className="p-3 rounded-lg border border-border bg-card text-sm" data-testid="pipeline-run">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <span className="font-medium text-foreground">
+              {run.name} <span className="text-xs text-muted-foreground">({run.status})</span>
+            </span>
+            {(run.status === 'failed' || run.status === 'cancelled') && (
+              <button
+                onClick={handleResume}
+                disabled={disabled}
+                className="px-3 py-1 rounded-md text-xs font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all"
+              >
+                Resume
+              </button>
+            )}
+          </div>
+          <ol className="space-y-1">
+            {run.steps.map((step) => (
+              <li key={step.key} className="flex items-start gap-2" data-testid="pipeline-step" data-status={step.status}>
+                <span className="w-5 text-center">{STEP_STATUS_ICONS[step.status]}</span>
+                <span className="flex-1 min-w-0">
+                  <span className={step.status === 'pending' ? 'text-muted-foreground' : 'text-foreground'}>
+                    {processLabel(step.process_type)}
+                  </span>
+                  {step.attempts > 1 && (
+                    <span className="ml-2 text-xs text-muted-foreground">attempt {step.attempts}</span>
+                  )}
+                  {step.status === 'failed' && step.error_message && (
+                    <span className="block text-xs text-destructive truncate">{step.error_message}</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,46 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, BudgetStatus, BudgetStatusResponse, ContextOptions, ProcessDefinition, RunSettings } from '../lib/api';
+import { ProcessManager } from './ProcessManager';
+import { ComparisonModal } from './ComparisonModal';
+import { ModelSettingsPopover } from './ModelSettings';
+
+/**
+ * Short label for a budget, e.g. 'Daily tokens in "Work"'
+ */
+function budgetLabel(budget: BudgetStatus): string {
+  const period = budget.period === 'daily' ? 'Daily' : 'Monthly';
+  const scope = budget.folder_id ? ` in "${budget.folder_name}"` : '';
+  return `${period} ${budget.metric}${scope}`;
+}
+
+function formatRemaining(budget: BudgetStatus): string {
+  return budget.metric === 'cost'
+    ? `$${budget.remaining.toFixed(2)}`
+    : Math.floor(budget.remaining).toLocaleString();
+}
+
+// Context the user can add to the prompt
+const CONTEXT_TOGGLES: { key: keyof Omit<ContextOptions, 'maxTokens'>; label: string; title: string }[] = [
+  { key: 'ancestors', label: 'Folder path', title: 'Names of the folders and notes above this note' },
+  { key: 'parent', label: 'Parent note', title: 'Content of the note this one sits under' },
+  { key: 'siblings', label: 'Related notes', title: 'Other notes in the same folder' },
+  { key: 'previousOutputs', label: 'Earlier AI output', title: 'AI notes already generated from this note' },
+];
+
 interface ProcessButtonsProps {
   noteId: string;
-  onProcess: (processType: string) => void;
+  onProcess: (processType: string, context?: ContextOptions, settings?: RunSettings) => void;
+  onCancel?: () => void;
   isProcessing: boolean;
   disabled?: boolean;
+  onCompared?: () => void; // A comparison added or deleted AI notes
 }
 
 export function ProcessButtons({
   noteId,
   onProcess,
+  onCancel,
   isProcessing,
   disabled = false,
+  onCompared,
 }: ProcessButtonsProps) {
-  const processes = [
-    {
-      type: 'research',
-      label: 'Research',
-      icon: '🔍',
-      description: 'Get comprehensive research with key concepts and sources',
-      color: 'blue',
-    },
-    {
-      type: 'summarize',
-      label: 'Summarize',
-      icon: '📝',
-      description: 'Create a concise summary of main points',
-      color: 'green',
-    },
-    {
-      type: 'expand',
-      label: 'Expand',
-      icon: '💡',
-      description: 'Elaborate with examples and perspectives',
-      color: 'purple',
-    },
-    {
-      type: 'actionplan',
-      label: 'Action Plan',
-      icon: '✅',
-      description: 'Turn this into practical steps',
-      color: 'orange',
-    },
-  ];
+  const [processes, setProcesses] = useState<ProcessDefinition[]>([]);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatusResponse | null>(null);
+  const [context, setContext] = useState<ContextOptions>({});
+  const [settings, setSettings] = useState<RunSettings>({});
+
+  const loadProcesses = useCallback(async () => {
+    try {
+      setProcesses(await api.getProcesses());
+    } catch (err) {
+      console.error('Failed to load processes:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProcesses();
+  }, [loadProcesses]);
+
+  // Refresh the remaining budget for this note, and again after each run
+  useEffect(() => {
+    if (isProcessing) return;
+
+    api
+      .getBudgetStatus(noteId)
+      .then(setBudgetStatus)
+      .catch((err) => console.error('Failed to load budget status:', err));
+  }, [noteId, isProcessing]);
+
+  const exhaustedBudget = budgetStatus?.budgets.find((budget) => budget.remaining <= 0);
+  const hasContext = CONTEXT_TOGGLES.some(({ key }) => context[key]);
+  const hasSettings = Object.keys(settings).length > 0;
 
   const colorClasses: Record<string, { bg: string; bgHover: string; bgDisabled: string }> = {
     blue: {
@@ -63,23 +98,103 @@ export function ProcessButtons({
       bgHover: 'hover:bg-orange-700',
       bgDisabled: 'bg-orange-900/40',
     },
+    red: {
+      bg: 'bg-red-600',
+      bgHover: 'hover:bg-red-700',
+      bgDisabled: 'bg-red-900/40',
+    },
+    pink: {
+      bg: 'bg-pink-600',
+      bgHover: 'hover:bg-pink-700',
+      bgDisabled: 'bg-pink-900/40',
+    },
+    teal: {
+      bg: 'bg-teal-600',
+      bgHover: 'hover:bg-teal-700',
+      bgDisabled: 'bg-teal-900/40',
+    },
+    gray: {
+      bg: 'bg-gray-600',
+      bgHover: 'hover:bg-gray-700',
+      bgDisabled: 'bg-gray-900/40',
+    },
   };
 
   return (
     <div className="space-y-4">
-      <h3 className="text-sm font-semibold text-foreground uppercase tracking-wide">
-        AI Actions
-      </h3>
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-foreground uppercase tracking-wide">
+          AI Actions
+        </h3>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setIsComparisonOpen(true)}
+            disabled={disabled || isProcessing}
+            className="text-xs text-muted-foreground hover:text-foreground px-2 py-1 rounded hover:bg-accent/30 disabled:opacity-50 transition-colors"
+            title="Run a process with different models or prompts side by side"
+          >
+            ⚖️ Compare
+          </button>
+          <button
+            onClick={() => setIsManagerOpen(true)}
+            className="text-xs text-muted-foreground hover:text-foreground px-2 py-1 rounded hover:bg-accent/30 transition-colors"
+            title="Manage AI processes"
+          >
+            ⚙️ Manage
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Include:</span>
+        {CONTEXT_TOGGLES.map(({ key, label, title }) => (
+          <button
+            key={key}
+            onClick={() => setContext((prev) => ({ ...prev, [key]: !prev[key] }))}
+            disabled={isProcessing}
+            title={title}
+            aria-pressed={!!context[key]}
+            className={`
+              px-2 py-1 rounded-full border transition-colors
+              ${context[key]
+                ? 'bg-primary/20 border-primary/60 text-foreground'
+                : 'border-border text-muted-foreground hover:bg-accent/30'}
+            `}
+          >
+            {label}
+          </button>
+        ))}
+        <ModelSettingsPopover settings={settings} onChange={setSettings} disabled={isProcessing} />
+      </div>
+
+      {budgetStatus && budgetStatus.budgets.length > 0 && (
+        <div data-testid="budget-status" className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {budgetStatus.budgets.map((budget) => (
+            <span key={budget.id} className={budget.remaining <= 0 ? 'text-destructive' : ''}>
+              {budgetLabel(budget)}: {formatRemaining(budget)} left
+            </span>
+          ))}
+        </div>
+      )}
+
+      {exhaustedBudget && (
+        <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+          <strong>Budget exhausted:</strong> {budgetLabel(exhaustedBudget)} resets{' '}
+          {new Date(exhaustedBudget.resets_at).toLocaleString()}
+        </div>
+      )}
 
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
         {processes.map((process) => {
-          const colors = colorClasses[process.color];
-          const isDisabled = disabled || isProcessing;
+          const colors = colorClasses[process.color] || colorClasses.blue;
+          const isDisabled = disabled || isProcessing || !!exhaustedBudget;
 
           return (
             <button
               key={process.type}
-              onClick={() => onProcess(process.type)}
+              onClick={() =>
+                onProcess(process.type, hasContext ? context : undefined, hasSettings ? settings : undefined)
+              }
               disabled={isDisabled}
               title={process.description}
               className={`
@@ -95,7 +210,7 @@ export function ProcessButtons({
             >
               <span className="text-xl">{process.icon}</span>
               <div className="flex-1 text-left">
-                <div className="font-semibold">{process.label}</div>
+                <div className="font-semibold">{process.name}</div>
                 <div className="text-xs opacity-90 hidden sm:block">
                   {process.description.length > 35
                     ? `${process.description.substring(0, 35)}...`
@@ -147,9 +262,33 @@ export function ProcessButtons({
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <span>Processing with AI... This may take 10-30 seconds.</span>
+          <span className="flex-1">Processing with AI... This may take 10-30 seconds.</span>
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="px-3 py-1 rounded-md text-xs font-medium text-destructive border border-destructive/50 hover:bg-destructive/10 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
         </div>
       )}
+
+      <ProcessManager
+        isOpen={isManagerOpen}
+        processes={processes}
+        onChange={loadProcesses}
+        onClose={() => setIsManagerOpen(false)}
+      />
+
+      <ComparisonModal
+        isOpen={isComparisonOpen}
+        noteId={noteId}
+        processes={processes}
+        context={hasContext ? context : undefined}
+        onChange={() => onCompared?.()}
+        onClose={() => setIsComparisonOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,331 @@
+import { useState, useEffect } from 'react';
+import { api, OutputFormat, ProcessDefinition, ProcessDefinitionInput } from '../lib/api';
+
+interface ProcessManagerProps {
+  isOpen: boolean;
+  processes: ProcessDefinition[];
+  onChange: () => void;
+  onClose: () => void;
+}
+
+const COLORS = ['blue', 'green', 'purple', 'orange', 'red', 'pink', 'teal', 'gray'];
+
+const OUTPUT_FORMATS: { value: OutputFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'action_plan', label: 'Action plan (checkable tasks)' },
+];
+
+const EMPTY_DRAFT: ProcessDefinitionInput = {
+  type: '',
+  name: '',
+  description: '',
+  icon: '✨',
+  color: 'blue',
+  prompt_template: 'You are a helpful assistant.\n\nThe user wrote this note:\n\n{{content}}\n\n',
+  system_prompt: '',
+  model: '',
+  temperature: 0.7,
+  max_tokens: 4096,
+  output_format: 'markdown',
+};
+
+const inputClass = `
+  w-full px-3 py-2
+  bg-background
+  border border-border
+  rounded-lg
+  text-sm text-foreground
+  placeholder:text-muted-foreground
+  focus:outline-none
+  focus:ring-2
+  focus:ring-primary/50
+  focus:border-primary
+`;
+
+export function ProcessManager({ isOpen, processes, onChange, onClose }: ProcessManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProcessDefinitionInput>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = processes.find((p) => p.id === selectedId) || null;
+
+  // Load the selected process into the form
+  useEffect(() => {
+    setError(null);
+    if (selected) {
+      setDraft({
+        type: selected.type,
+        name: selected.name,
+        description: selected.description,
+        icon: selected.icon,
+        color: selected.color,
+        prompt_template: selected.prompt_template,
+        system_prompt: selected.system_prompt || '',
+        model: selected.model || '',
+        temperature: selected.temperature,
+        max_tokens: selected.max_tokens,
+        output_format: selected.output_format,
+      });
+    } else {
+      setDraft(EMPTY_DRAFT);
+    }
+  }, [selected]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: ProcessDefinitionInput) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      if (selected) {
+        // The type key of built-in processes is fixed
+        const { type, ...rest } = draft;
+        await api.updateProcess(selected.id, selected.is_builtin ? rest : draft);
+      } else {
+        const created = await api.createProcess(draft);
+        setSelectedId(created.id);
+      }
+
+      onChange();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save process');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || selected.is_builtin) return;
+    if (!window.confirm(`Delete the "${selected.name}" process?`)) return;
+
+    try {
+      setError(null);
+      await api.deleteProcess(selected.id);
+      setSelectedId(null);
+      onChange();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete process');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card border border-border rounded-lg shadow-2xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-foreground">AI Processes</h2>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground px-2"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Process list */}
+          <div className="w-56 border-r border-border overflow-y-auto p-2 space-y-1">
+            {processes.map((process) => (
+              <button
+                key={process.id}
+                onClick={() => setSelectedId(process.id)}
+                className={`
+                  w-full text-left px-3 py-2 rounded text-sm flex items-center gap-2
+                  ${selectedId === process.id ? 'bg-primary/20 font-semibold' : 'hover:bg-accent/30'}
+                `}
+              >
+                <span>{process.icon}</span>
+                <span className="flex-1 truncate text-foreground">{process.name}</span>
+                {process.is_builtin && (
+                  <span className="text-[10px] text-muted-foreground uppercase">Built-in</span>
+                )}
+              </button>
+            ))}
+            <button
+              onClick={() => setSelectedId(null)}
+              className={`
+                w-full text-left px-3 py-2 rounded text-sm text-primary
+                ${selectedId === null ? 'bg-primary/20 font-semibold' : 'hover:bg-accent/30'}
+              `}
+            >
+              + New process
+            </button>
+          </div>
+
+          {/* Edit form */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-xs font-medium text-muted-foreground">
+                Name
+                <input
+                  className={`${inputClass} mt-1`}
+                  value={draft.name || ''}
+                  onChange={(e) => update({ name: e.target.value })}
+                  placeholder="Convert to PRD"
+                />
+              </label>
+              <label className="block text-xs font-medium text-muted-foreground">
+                Type key
+                <input
+                  className={`${inputClass} mt-1 disabled:opacity-50`}
+                  value={draft.type || ''}
+                  onChange={(e) => update({ type: e.target.value })}
+                  placeholder="prd"
+                  disabled={selected?.is_builtin}
+                />
+              </label>
+            </div>
+
+            <label className="block text-xs font-medium text-muted-foreground">
+              Description
+              <input
+                className={`${inputClass} mt-1`}
+                value={draft.description || ''}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+            </label>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-xs font-medium text-muted-foreground">
+                Icon
+                <input
+                  className={`${inputClass} mt-1`}
+                  value={draft.icon || ''}
+                  onChange={(e) => update({ icon: e.target.value })}
+                  maxLength={16}
+                />
+              </label>
+              <label className="block text-xs font-medium text-muted-foreground">
+                Color
+                <select
+                  className={`${inputClass} mt-1`}
+                  value={draft.color}
+                  onChange={(e) => update({ color: e.target.value })}
+                >
+                  {COLORS.map((color) => (
+                    <option key={color} value={color}>
+                      {color}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label className="block text-xs font-medium text-muted-foreground">
+              Prompt template <span className="font-normal">(use {'{{content}}'} for the note text)</span>
+              <textarea
+                className={`${inputClass} mt-1 font-mono h-48`}
+                value={draft.prompt_template || ''}
+                onChange={(e) => update({ prompt_template: e.target.value })}
+              />
+            </label>
+
+            <label className="block text-xs font-medium text-muted-foreground">
+              System prompt
+              <textarea
+                className={`${inputClass} mt-1 font-mono h-20`}
+                value={draft.system_prompt || ''}
+                onChange={(e) => update({ system_prompt: e.target.value })}
+              />
+            </label>
+
+            <div className="grid grid-cols-3 gap-4">
+              <label className="block text-xs font-medium text-muted-foreground">
+                Model
+                <input
+                  className={`${inputClass} mt-1`}
+                  value={draft.model || ''}
+                  onChange={(e) => update({ model: e.target.value })}
+                  placeholder="Provider default"
+                />
+              </label>
+              <label className="block text-xs font-medium text-muted-foreground">
+                Temperature
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  className={`${inputClass} mt-1`}
+                  value={draft.temperature ?? 0.7}
+                  onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+                />
+              </label>
+              <label className="block text-xs font-medium text-muted-foreground">
+                Max tokens
+                <input
+                  type="number"
+                  min={1}
+                  className={`${inputClass} mt-1`}
+                  value={draft.max_tokens ?? 4096}
+                  onChange={(e) => update({ max_tokens: parseInt(e.target.value, 10) })}
+                />
+              </label>
+            </div>
+
+            <label className="block text-xs font-medium text-muted-foreground">
+              Output format <span className="font-normal">(action plans ask the model for JSON and turn each step into a task)</span>
+              <select
+                className={`${inputClass} mt-1`}
+                value={draft.output_format ?? 'markdown'}
+                onChange={(e) => update({ output_format: e.target.value as OutputFormat })}
+              >
+                {OUTPUT_FORMATS.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+                {error}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-border flex justify-between gap-3">
+          <div>
+            {selected && !selected.is_builtin && (
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-destructive hover:bg-destructive/10 transition-colors"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-muted-foreground hover:bg-accent/30 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all shadow-sm"
+            >
+              {isSaving ? 'Saving...' : selected ? 'Save changes' : 'Create process'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
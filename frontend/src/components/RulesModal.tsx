@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react';
+import { api, Folder, ProcessDefinition, ProcessingRule, ProcessingRuleInput, RuleTrigger } from '../lib/api';
+
+interface RulesModalProps {
+  folder: Folder | null;
+  onClose: () => void;
+}
+
+const TRIGGER_LABELS: Record<RuleTrigger, string> = {
+  created: 'A note is created',
+  updated: 'A note is edited',
+  moved: 'A note is moved into the folder',
+};
+
+const EMPTY_DRAFT: ProcessingRuleInput = {
+  trigger: 'updated',
+  process_type: '',
+  tag: '',
+  debounce_seconds: 60,
+  cooldown_seconds: 0,
+};
+
+const inputClass = `
+  w-full px-3 py-2
+  bg-background
+  border border-border
+  rounded-lg
+  text-sm text-foreground
+  placeholder:text-muted-foreground
+  focus:outline-none
+  focus:ring-2
+  focus:ring-primary/50
+  focus:border-primary
+`;
+
+/**
+ * Format a number of seconds as e.g. "90s", "5m" or "2h"
+ */
+function formatSeconds(seconds: number): string {
+  if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds >= 60 && seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+/**
+ * Manage the rules that process a folder's notes automatically
+ */
+export function RulesModal({ folder, onClose }: RulesModalProps) {
+  const [rules, setRules] = useState<ProcessingRule[]>([]);
+  const [processes, setProcesses] = useState<ProcessDefinition[]>([]);
+  const [draft, setDraft] = useState<ProcessingRuleInput>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!folder) return;
+
+    setError(null);
+    setDraft(EMPTY_DRAFT);
+    Promise.all([api.getRules(folder.id), api.getProcesses()])
+      .then(([folderRules, allProcesses]) => {
+        setRules(folderRules);
+        setProcesses(allProcesses);
+        setDraft((prev) => ({ ...prev, process_type: allProcesses[0]?.type || '' }));
+      })
+      .catch((err) => setError(err.message || 'Failed to load rules'));
+  }, [folder]);
+
+  if (!folder) return null;
+
+  const update = (changes: ProcessingRuleInput) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const processName = (type: string) => {
+    const process = processes.find((p) => p.type === type);
+    return process ? `${process.icon} ${process.name}` : type;
+  };
+
+  const handleAdd = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const rule = await api.createRule({ ...draft, folder_id: folder.id, tag: draft.tag || null });
+      setRules((prev) => [...prev, rule]);
+      update({ tag: '' });
+    } catch (err: any) {
+      setError(err.message || 'Failed to create rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: ProcessingRule) => {
+    try {
+      setError(null);
+      const updated = await api.updateRule(rule.id, { enabled: !rule.enabled });
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? updated : r)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: ProcessingRule) => {
+    try {
+      setError(null);
+      await api.deleteRule(rule.id);
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete rule');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card border border-border rounded-lg shadow-2xl w-full max-w-lg mx-4"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="rules-modal"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">Processing rules for "{folder.name}"</h2>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Rules run a process on notes anywhere in this folder, optionally only those with a #tag
+          </p>
+        </div>
+
+        {/* Rule list */}
+        <div className="px-4 py-3 max-h-64 overflow-y-auto space-y-1">
+          {rules.length === 0 && (
+            <p className="px-2 py-2 text-sm text-muted-foreground">No rules yet</p>
+          )}
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`px-3 py-2 rounded flex items-center gap-3 hover:bg-accent/30 ${rule.enabled ? '' : 'opacity-50'}`}
+              data-testid="rule-item"
+            >
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-medium text-foreground">{processName(rule.process_type)}</span>
+                <span className="block text-xs text-muted-foreground truncate">
+                  {TRIGGER_LABELS[rule.trigger]}
+                  {rule.tag && ` with #${rule.tag}`}
+                  {rule.debounce_seconds > 0 && ` · waits ${formatSeconds(rule.debounce_seconds)}`}
+                  {rule.cooldown_seconds > 0 && ` · at most every ${formatSeconds(rule.cooldown_seconds)}`}
+                </span>
+              </span>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                On
+              </label>
+              <button
+                onClick={() => handleDelete(rule)}
+                className="text-muted-foreground hover:text-destructive px-1"
+                title="Delete rule"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* New rule */}
+        <div className="px-6 py-4 border-t border-border space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs font-medium text-muted-foreground">
+              When
+              <select
+                className={`${inputClass} mt-1`}
+                value={draft.trigger}
+                onChange={(e) => {
+                  const trigger = e.target.value as RuleTrigger;
+                  // Moves are one-off, edits and new notes usually come in bursts
+                  update({ trigger, debounce_seconds: trigger === 'moved' ? 0 : 60 });
+                }}
+                data-testid="rule-trigger"
+              >
+                {(Object.keys(TRIGGER_LABELS) as RuleTrigger[]).map((trigger) => (
+                  <option key={trigger} value={trigger}>
+                    {TRIGGER_LABELS[trigger]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Run
+              <select
+                className={`${inputClass} mt-1`}
+                value={draft.process_type}
+                onChange={(e) => update({ process_type: e.target.value })}
+                data-testid="rule-process"
+              >
+                {processes.map((process) => (
+                  <option key={process.id} value={process.type}>
+                    {process.icon} {process.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-xs font-medium text-muted-foreground">
+              Only with tag
+              <input
+                className={`${inputClass} mt-1`}
+                value={draft.tag || ''}
+                onChange={(e) => update({ tag: e.target.value })}
+                placeholder="#meeting"
+                data-testid="rule-tag"
+              />
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Wait (seconds)
+              <input
+                type="number"
+                min={0}
+                className={`${inputClass} mt-1`}
+                value={draft.debounce_seconds ?? 0}
+                onChange={(e) => update({ debounce_seconds: parseInt(e.target.value, 10) || 0 })}
+                title="Edits made while waiting restart the wait"
+              />
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Cooldown (seconds)
+              <input
+                type="number"
+                min={0}
+                className={`${inputClass} mt-1`}
+                value={draft.cooldown_seconds ?? 0}
+                onChange={(e) => update({ cooldown_seconds: parseInt(e.target.value, 10) || 0 })}
+                title="Don't run the rule again on the same note within this time"
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-border flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-muted-foreground hover:bg-accent/30 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleAdd}
+            disabled={isSaving || !draft.process_type}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all shadow-sm"
+            data-testid="rule-add"
+          >
+            {isSaving ? 'Adding...' : 'Add rule'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
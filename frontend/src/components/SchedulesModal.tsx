@@ -0,0 +1,338 @@
+import { useState, useEffect } from 'react';
+import { api, Folder, ProcessDefinition, Schedule, ScheduleInput, ScheduleRun } from '../lib/api';
+
+interface SchedulesModalProps {
+  isOpen: boolean;
+  folders: Folder[];
+  onClose: () => void;
+  onRunQueued?: () => Promise<void> | void; // A digest note was created - refresh the tree
+  onOpenNote?: (id: string) => void;
+}
+
+const EMPTY_DRAFT: ScheduleInput = {
+  name: 'Weekly digest',
+  cron: '0 9 * * MON',
+  window_hours: 168,
+  process_type: 'digest',
+  folder_id: null,
+  target_folder_id: null,
+};
+
+const RUN_STATUS_ICONS: Record<ScheduleRun['status'], string> = {
+  skipped: '○',
+  queued: '⏳',
+  running: '⚙️',
+  succeeded: '✓',
+  failed: '✕',
+  cancelled: '⊘',
+};
+
+const inputClass = `
+  w-full px-3 py-2
+  bg-background
+  border border-border
+  rounded-lg
+  text-sm text-foreground
+  placeholder:text-muted-foreground
+  focus:outline-none
+  focus:ring-2
+  focus:ring-primary/50
+  focus:border-primary
+`;
+
+/**
+ * Format a number of hours as e.g. "12h", "1 day" or "7 days"
+ */
+function formatHours(hours: number): string {
+  if (hours >= 24 && hours % 24 === 0) return hours === 24 ? '1 day' : `${hours / 24} days`;
+  return `${hours}h`;
+}
+
+/**
+ * Manage the digests that run on a schedule over recently edited notes
+ */
+export function SchedulesModal({ isOpen, folders, onClose, onRunQueued, onOpenNote }: SchedulesModalProps) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [processes, setProcesses] = useState<ProcessDefinition[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [draft, setDraft] = useState<ScheduleInput>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    setDraft(EMPTY_DRAFT);
+    setExpandedId(null);
+    Promise.all([api.getSchedules(), api.getProcesses()])
+      .then(([allSchedules, allProcesses]) => {
+        setSchedules(allSchedules);
+        setProcesses(allProcesses);
+      })
+      .catch((err) => setError(err.message || 'Failed to load schedules'));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!expandedId) return;
+
+    api
+      .getScheduleRuns(expandedId)
+      .then(setRuns)
+      .catch((err) => setError(err.message || 'Failed to load run history'));
+  }, [expandedId]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: ScheduleInput) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const replaceSchedule = (schedule: Schedule) =>
+    setSchedules((prev) => prev.map((s) => (s.id === schedule.id ? schedule : s)));
+
+  const handleAdd = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const schedule = await api.createSchedule(draft);
+      setSchedules((prev) => [...prev, schedule]);
+      setDraft(EMPTY_DRAFT);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: Schedule) => {
+    try {
+      setError(null);
+      replaceSchedule(await api.updateSchedule(schedule.id, { enabled: !schedule.enabled }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update schedule');
+    }
+  };
+
+  const handleRunNow = async (schedule: Schedule) => {
+    try {
+      setError(null);
+      const run = await api.runSchedule(schedule.id);
+      if (run.note_id) await onRunQueued?.();
+      setExpandedId(schedule.id);
+      setRuns((prev) => (expandedId === schedule.id ? [run, ...prev] : [run]));
+      replaceSchedule({ ...schedule, last_run_at: run.created_at });
+    } catch (err: any) {
+      setError(err.message || 'Failed to run schedule');
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    try {
+      setError(null);
+      await api.deleteSchedule(schedule.id);
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete schedule');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card border border-border rounded-lg shadow-2xl w-full max-w-lg mx-4"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="schedules-modal"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">Scheduled digests</h2>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Each run sums up the notes edited recently in a new AI note, linking back to them
+          </p>
+        </div>
+
+        {/* Schedule list */}
+        <div className="px-4 py-3 max-h-72 overflow-y-auto space-y-1">
+          {schedules.length === 0 && (
+            <p className="px-2 py-2 text-sm text-muted-foreground">No schedules yet</p>
+          )}
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className={schedule.enabled ? '' : 'opacity-50'} data-testid="schedule-item">
+              <div className="px-3 py-2 rounded flex items-center gap-3 hover:bg-accent/30">
+                <button
+                  onClick={() => setExpandedId(expandedId === schedule.id ? null : schedule.id)}
+                  className="flex-1 min-w-0 text-left"
+                  title="Show run history"
+                >
+                  <span className="block text-sm font-medium text-foreground">{schedule.name}</span>
+                  <span className="block text-xs text-muted-foreground truncate">
+                    <code>{schedule.cron}</code> · last {formatHours(schedule.window_hours)} of{' '}
+                    {schedule.folder_name ?? 'all notes'} → {schedule.target_folder_name ?? 'top level'}
+                  </span>
+                  {schedule.next_run_at && (
+                    <span className="block text-xs text-muted-foreground">
+                      Next run {new Date(schedule.next_run_at).toLocaleString()}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleRunNow(schedule)}
+                  className="px-2 py-1 rounded text-xs border border-border text-foreground hover:bg-accent/30"
+                  data-testid="schedule-run-now"
+                >
+                  Run now
+                </button>
+                <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <input type="checkbox" checked={schedule.enabled} onChange={() => handleToggle(schedule)} />
+                  On
+                </label>
+                <button
+                  onClick={() => handleDelete(schedule)}
+                  className="text-muted-foreground hover:text-destructive px-1"
+                  title="Delete schedule"
+                >
+                  ✕
+                </button>
+              </div>
+
+              {/* Run history */}
+              {expandedId === schedule.id && (
+                <ol className="ml-6 mb-2 space-y-1 text-xs">
+                  {runs.length === 0 && <li className="text-muted-foreground">Not run yet</li>}
+                  {runs.map((run) => (
+                    <li key={run.id} className="flex items-start gap-2" data-testid="schedule-run" data-status={run.status}>
+                      <span className="w-4 text-center">{RUN_STATUS_ICONS[run.status]}</span>
+                      <span className="flex-1 min-w-0 text-muted-foreground">
+                        {new Date(run.created_at).toLocaleString()} · {run.trigger === 'manual' ? 'run now' : 'scheduled'}
+                        {run.source_count > 0 && ` · ${run.source_count} note${run.source_count === 1 ? '' : 's'}`}
+                        {run.error_message && <span className="block text-destructive truncate">{run.error_message}</span>}
+                      </span>
+                      {run.note_id && (
+                        <button
+                          onClick={() => onOpenNote?.(run.note_id!)}
+                          className="text-primary hover:underline"
+                        >
+                          Open
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* New schedule */}
+        <div className="px-6 py-4 border-t border-border space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs font-medium text-muted-foreground">
+              Name
+              <input
+                className={`${inputClass} mt-1`}
+                value={draft.name || ''}
+                onChange={(e) => update({ name: e.target.value })}
+                data-testid="schedule-name"
+              />
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Cron (minute hour day month weekday)
+              <input
+                className={`${inputClass} mt-1 font-mono`}
+                value={draft.cron || ''}
+                onChange={(e) => update({ cron: e.target.value })}
+                placeholder="0 9 * * MON"
+                data-testid="schedule-cron"
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-xs font-medium text-muted-foreground">
+              Notes from
+              <select
+                className={`${inputClass} mt-1`}
+                value={draft.folder_id || ''}
+                onChange={(e) => update({ folder_id: e.target.value || null })}
+              >
+                <option value="">All notes</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    📁 {folder.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Edited in the last (hours)
+              <input
+                type="number"
+                min={1}
+                className={`${inputClass} mt-1`}
+                value={draft.window_hours ?? 168}
+                onChange={(e) => update({ window_hours: parseInt(e.target.value, 10) || 1 })}
+              />
+            </label>
+            <label className="block text-xs font-medium text-muted-foreground">
+              Write to
+              <select
+                className={`${inputClass} mt-1`}
+                value={draft.target_folder_id || ''}
+                onChange={(e) => update({ target_folder_id: e.target.value || null })}
+              >
+                <option value="">Top level</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    📁 {folder.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block text-xs font-medium text-muted-foreground">
+            Process
+            <select
+              className={`${inputClass} mt-1`}
+              value={draft.process_type}
+              onChange={(e) => update({ process_type: e.target.value })}
+            >
+              {processes.map((process) => (
+                <option key={process.id} value={process.type}>
+                  {process.icon} {process.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-border flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-muted-foreground hover:bg-accent/30 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleAdd}
+            disabled={isSaving || !draft.name?.trim() || !draft.cron?.trim()}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all shadow-sm"
+            data-testid="schedule-add"
+          >
+            {isSaving ? 'Adding...' : 'Add schedule'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
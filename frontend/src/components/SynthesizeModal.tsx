@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { api, ProcessDefinition } from '../lib/api';
+
+interface SynthesizeModalProps {
+  isOpen: boolean;
+  title: string;
+  onConfirm: (processType: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pick the process to run over a set of notes
+ */
+export function SynthesizeModal({ isOpen, title, onConfirm, onCancel }: SynthesizeModalProps) {
+  const [processes, setProcesses] = useState<ProcessDefinition[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    api
+      .getProcesses()
+      .then(setProcesses)
+      .catch((err) => console.error('Failed to load processes:', err));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-card border border-border rounded-lg shadow-2xl w-full max-w-md mx-4"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="synthesize-modal"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">{title}</h2>
+          <p className="mt-1 text-xs text-muted-foreground">
+            The notes are combined into a single AI note
+          </p>
+        </div>
+
+        {/* Process list */}
+        <div className="px-4 py-3 max-h-80 overflow-y-auto space-y-1">
+          {processes.map((process) => (
+            <button
+              key={process.id}
+              onClick={() => onConfirm(process.type)}
+              className="w-full text-left px-3 py-2 rounded flex items-start gap-3 hover:bg-accent/30 transition-colors"
+            >
+              <span className="text-lg">{process.icon}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-medium text-foreground">{process.name}</span>
+                {process.description && (
+                  <span className="block text-xs text-muted-foreground truncate">{process.description}</span>
+                )}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-border flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-muted-foreground hover:bg-accent/30 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
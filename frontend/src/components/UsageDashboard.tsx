@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { api, UsageGroup, UsageGroupBy, UsageReport } from '../lib/api';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const RANGES = [7, 30, 90];
+
+const BREAKDOWNS: { value: UsageGroupBy; label: string }[] = [
+  { value: 'process_type', label: 'Process' },
+  { value: 'model', label: 'Model' },
+  { value: 'folder', label: 'Folder' },
+];
+
+function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString();
+}
+
+/**
+ * Fill in days without any calls so the chart has one bar per day
+ */
+function fillDays(groups: UsageGroup[], days: number): UsageGroup[] {
+  const byDay = new Map(groups.map((group) => [group.key, group]));
+  const result: UsageGroup[] = [];
+
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+    result.push(
+      byDay.get(key) || {
+        key,
+        label: key,
+        calls: 0,
+        failed_calls: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+        avg_latency_ms: 0,
+      }
+    );
+  }
+
+  return result;
+}
+
+export function UsageDashboard({ onClose }: UsageDashboardProps) {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [breakdown, setBreakdown] = useState<UsageGroupBy>('process_type');
+  const [daily, setDaily] = useState<UsageReport | null>(null);
+  const [grouped, setGrouped] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const from = new Date();
+    from.setHours(0, 0, 0, 0);
+    from.setDate(from.getDate() - (rangeDays - 1));
+
+    setError(null);
+    Promise.all([
+      api.getUsage('day', from.toISOString()),
+      api.getUsage(breakdown, from.toISOString()),
+    ])
+      .then(([dailyReport, groupedReport]) => {
+        setDaily(dailyReport);
+        setGrouped(groupedReport);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load usage:', err);
+        setError(err.message || 'Failed to load usage');
+      });
+  }, [rangeDays, breakdown]);
+
+  const totals = daily?.totals;
+  const days = daily ? fillDays(daily.groups, rangeDays) : [];
+  const maxDayCost = Math.max(...days.map((day) => day.cost_usd), 0);
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden" data-testid="usage-dashboard">
+      {/* Header */}
+      <div className="px-6 py-4 bg-card border-b border-border flex justify-between items-center">
+        <div className="flex items-center gap-3">
+          <span className="text-2xl">📊</span>
+          <h2 className="text-lg font-semibold text-foreground">AI Usage</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          {RANGES.map((days) => (
+            <button
+              key={days}
+              onClick={() => setRangeDays(days)}
+              className={`
+                px-3 py-1.5 rounded text-xs font-medium transition-colors
+                ${rangeDays === days ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:bg-accent/30'}
+              `}
+            >
+              {days} days
+            </button>
+          ))}
+          <button
+            onClick={onClose}
+            className="ml-2 text-muted-foreground hover:text-foreground px-2"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 bg-background space-y-6">
+        {error && (
+          <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        {/* Totals */}
+        {totals && (
+          <div className="grid grid-cols-4 gap-4">
+            {[
+              { label: 'Estimated cost', value: formatCost(totals.cost_usd) },
+              { label: 'Total tokens', value: formatNumber(totals.total_tokens) },
+              { label: 'LLM calls', value: `${formatNumber(totals.calls)}${totals.failed_calls ? ` (${totals.failed_calls} failed)` : ''}` },
+              { label: 'Avg latency', value: `${(totals.avg_latency_ms / 1000).toFixed(1)}s` },
+            ].map((stat) => (
+              <div key={stat.label} className="p-4 bg-card border border-border rounded-lg">
+                <div className="text-xs text-muted-foreground">{stat.label}</div>
+                <div className="mt-1 text-xl font-semibold text-foreground">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Per-day chart */}
+        <div className="p-4 bg-card border border-border rounded-lg">
+          <h3 className="text-sm font-semibold text-foreground mb-4">Cost per day</h3>
+          <div className="flex items-end gap-px h-40">
+            {days.map((day) => (
+              <div
+                key={day.key}
+                className="flex-1 h-full flex items-end group relative"
+                title={`${day.label}: ${formatCost(day.cost_usd)} · ${formatNumber(day.total_tokens)} tokens · ${day.calls} calls`}
+              >
+                <div
+                  className="w-full bg-primary/70 group-hover:bg-primary rounded-t-sm"
+                  style={{ height: maxDayCost > 0 ? `${(day.cost_usd / maxDayCost) * 100}%` : '0%' }}
+                />
+              </div>
+            ))}
+          </div>
+          {days.length > 0 && (
+            <div className="flex justify-between mt-2 text-[10px] text-muted-foreground">
+              <span>{days[0].label}</span>
+              <span>{days[days.length - 1].label}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Breakdown */}
+        <div className="p-4 bg-card border border-border rounded-lg">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-sm font-semibold text-foreground">Breakdown</h3>
+            <div className="flex gap-1">
+              {BREAKDOWNS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setBreakdown(option.value)}
+                  className={`
+                    px-3 py-1 rounded text-xs font-medium transition-colors
+                    ${breakdown === option.value ? 'bg-primary/20 text-foreground' : 'text-muted-foreground hover:bg-accent/30'}
+                  `}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {grouped && grouped.groups.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground border-b border-border">
+                  <th className="py-2 font-medium">{BREAKDOWNS.find((b) => b.value === breakdown)?.label}</th>
+                  <th className="py-2 font-medium text-right">Calls</th>
+                  <th className="py-2 font-medium text-right">Input tokens</th>
+                  <th className="py-2 font-medium text-right">Output tokens</th>
+                  <th className="py-2 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {grouped.groups.map((group) => (
+                  <tr key={group.key ?? 'none'} className="border-b border-border/50 text-foreground">
+                    <td className="py-2">{group.label}</td>
+                    <td className="py-2 text-right">{formatNumber(group.calls)}</td>
+                    <td className="py-2 text-right">{formatNumber(group.input_tokens)}</td>
+                    <td className="py-2 text-right">{formatNumber(group.output_tokens)}</td>
+                    <td className="py-2 text-right">{formatCost(group.cost_usd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No AI usage in this period</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
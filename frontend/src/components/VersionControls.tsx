@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { api, Note, AINote, AINoteVersion } from '../lib/api';
+
+interface VersionControlsProps {
+  note: Note | AINote;
+  onPreview: (version: AINoteVersion | null) => void; // null = showing the current content
+  onNoteUpdated?: (note: Note) => void;
+}
+
+const SOURCE_LABELS: Record<AINoteVersion['source'], string> = {
+  original: 'Original',
+  refine: 'Refined',
+  regenerate: 'Regenerated',
+  restore: 'Restored',
+};
+
+function describeVersion(version: AINoteVersion): string {
+  if (version.source === 'refine' && version.instructions) {
+    return `Refined: "${version.instructions}"`;
+  }
+  if (version.source === 'restore' && version.restored_from) {
+    return `Restored from version ${version.restored_from}`;
+  }
+  return SOURCE_LABELS[version.source];
+}
+
+/**
+ * Refine / regenerate an AI note and step through its earlier versions
+ */
+export function VersionControls({ note, onPreview, onNoteUpdated }: VersionControlsProps) {
+  const [versions, setVersions] = useState<AINoteVersion[]>([]);
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null); // null = latest
+  const [instructions, setInstructions] = useState('');
+  const [busy, setBusy] = useState<'refine' | 'regenerate' | 'restore' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the history when switching notes or after the content changes
+  useEffect(() => {
+    setViewingIndex(null);
+    onPreview(null);
+
+    api
+      .getVersions(note.id)
+      .then(setVersions)
+      .catch((err) => console.error('Failed to load versions:', err));
+  }, [note.id, note.updated_at]);
+
+  // Clear any revision error when switching notes
+  useEffect(() => {
+    setError(null);
+    setInstructions('');
+  }, [note.id]);
+
+  const latestIndex = versions.length - 1;
+  const currentIndex = viewingIndex ?? latestIndex;
+  const viewingOld = viewingIndex !== null && viewingIndex < latestIndex;
+
+  const showVersion = (index: number) => {
+    const isLatest = index >= latestIndex;
+    setViewingIndex(isLatest ? null : index);
+    onPreview(isLatest ? null : versions[index]);
+  };
+
+  const runRevision = async (action: 'refine' | 'regenerate' | 'restore') => {
+    try {
+      setError(null);
+      setBusy(action);
+
+      const { note: updated } =
+        action === 'refine'
+          ? await api.refineNote(note.id, instructions.trim())
+          : action === 'regenerate'
+            ? await api.regenerateNote(note.id)
+            : await api.restoreVersion(note.id, versions[currentIndex].version);
+
+      if (action === 'refine') setInstructions('');
+      onNoteUpdated?.(updated);
+    } catch (err: any) {
+      console.error(`Failed to ${action} AI note:`, err);
+      setError(err.message || `Failed to ${action} AI note`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const canRevise = note.status !== 'processing' && busy === null;
+
+  return (
+    <div className="mt-3 space-y-2" data-testid="ai-versions">
+      {versions.length > 0 && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <button
+            onClick={() => showVersion(currentIndex - 1)}
+            disabled={currentIndex <= 0}
+            className="px-1.5 rounded hover:bg-accent/30 hover:text-foreground disabled:opacity-40"
+            aria-label="Previous version"
+          >
+            ‹
+          </button>
+          <span className="font-medium text-foreground">
+            Version {currentIndex + 1} of {versions.length}
+          </span>
+          <button
+            onClick={() => showVersion(currentIndex + 1)}
+            disabled={currentIndex >= latestIndex}
+            className="px-1.5 rounded hover:bg-accent/30 hover:text-foreground disabled:opacity-40"
+            aria-label="Next version"
+          >
+            ›
+          </button>
+          <span className="truncate">· {describeVersion(versions[currentIndex])}</span>
+          {viewingOld && (
+            <button
+              onClick={() => runRevision('restore')}
+              disabled={!canRevise}
+              className="ml-auto px-2 py-0.5 rounded border border-border hover:bg-accent/30 hover:text-foreground disabled:opacity-50"
+            >
+              {busy === 'restore' ? 'Restoring...' : 'Restore this version'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {note.status !== 'failed' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && instructions.trim() && canRevise) {
+                runRevision('refine');
+              }
+            }}
+            placeholder='Refine, e.g. "shorter" or "more technical"'
+            className="flex-1 px-3 py-1.5 bg-background border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary"
+          />
+          <button
+            onClick={() => runRevision('refine')}
+            disabled={!canRevise || !instructions.trim()}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-all shadow-sm"
+          >
+            {busy === 'refine' ? 'Refining...' : 'Refine'}
+          </button>
+          <button
+            onClick={() => runRevision('regenerate')}
+            disabled={!canRevise}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium border border-border text-foreground hover:bg-accent/30 disabled:opacity-50 transition-all"
+          >
+            {busy === 'regenerate' ? 'Regenerating...' : 'Regenerate'}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/50 rounded-lg text-destructive text-sm">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,11 +5,66 @@ const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 export type ItemType = 'folder' | 'note' | 'ai-note';
 export type NoteStatus = 'draft' | 'processing' | 'complete' | 'failed';
 
+// Which surrounding notes to include in an AI prompt
+export interface ContextOptions {
+  ancestors?: boolean;
+  parent?: boolean;
+  siblings?: boolean;
+  previousOutputs?: boolean;
+  maxTokens?: number;
+}
+
+// Model settings picked for a single run - unset ones keep the process's own
+export interface RunSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ContextItem {
+  kind: 'ancestors' | 'parent' | 'previous_output' | 'sibling';
+  id: string | null;
+  title: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+// A note that went into a batch synthesis
+export interface SynthesisSource {
+  id: string;
+  title: string;
+}
+
+export interface NoteMetadata {
+  context?: {
+    tokenBudget: number;
+    tokensUsed: number;
+    items: ContextItem[];
+  };
+  sources?: SynthesisSource[];
+  chat?: { noteId: string; messageId: string }; // A chat reply saved as a note
+  chunks?: number; // A long note processed in this many parts
+  comparison?: { variant: number; label: string }; // A variant's output in a side-by-side comparison
+  settings?: { model?: string; temperature?: number; max_tokens?: number }; // Model settings picked for the run
+  question?: string; // An answer from asking the notes - sources are the notes it cites
+}
+
+// Kind of LLM failure recorded on a failed note or job
+export type LLMErrorCode =
+  | 'LLM_RATE_LIMITED'
+  | 'LLM_OVERLOADED'
+  | 'LLM_AUTH_FAILED'
+  | 'LLM_INVALID_REQUEST'
+  | 'LLM_CONTEXT_TOO_LONG'
+  | 'LLM_TIMEOUT'
+  | 'LLM_PROVIDER_ERROR';
+
 export interface BaseItem {
   id: string;
   parent_id: string | null;
   item_type: ItemType;
-  name?: string | null;
+  name?: string | null; // Folder name, or a note's title (generated unless name_is_manual)
+  name_is_manual?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -21,6 +76,7 @@ export interface Folder extends BaseItem {
   process_type: null;
   status: null;
   error_message: null;
+  error_code?: null;
   type: 'user';
 }
 
@@ -31,6 +87,8 @@ export interface Note extends BaseItem {
   process_type: string | null;
   status: NoteStatus;
   error_message: string | null;
+  error_code?: LLMErrorCode | null;
+  metadata?: NoteMetadata;
 }
 
 export interface AINote extends BaseItem {
@@ -40,6 +98,9 @@ export interface AINote extends BaseItem {
   process_type: string;
   status: NoteStatus;
   error_message: string | null;
+  error_code?: LLMErrorCode | null;
+  metadata?: NoteMetadata;
+  comparison_id?: string | null; // Set on the AI notes of a side-by-side comparison
 }
 
 export type Item = Folder | Note | AINote;
@@ -47,14 +108,367 @@ export type Item = Folder | Note | AINote;
 export interface ProcessResponse {
   success: boolean;
   message: string;
+  jobId: string;
+  processType: string;
+  status: JobStatus;
+}
+
+export interface SynthesisResponse extends ProcessResponse {
+  noteId: string;
+  sources: SynthesisSource[];
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ProcessingJob {
+  id: string;
+  note_id: string;
+  process_type: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  result_note_id: string | null;
+  error_message: string | null;
+  error_code: LLMErrorCode | null;
+  previous_note_status: NoteStatus;
+  rule_id: string | null;
+  run_after: string | null; // A rule's debounce: the job isn't started before this
+  pipeline_run_id: string | null;
+  pipeline_step: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface ProcessStreamDone {
   childNoteId: string;
   processType: string;
+  tokensUsed: TokenUsage;
+}
+
+// Progress of a long note processed in chunks
+export interface ChunkProgress {
+  phase: 'map' | 'reduce';
+  completedChunks: number;
+  totalChunks: number;
 }
 
-export interface ProcessType {
+export interface ProcessStreamHandlers {
+  onDelta: (text: string) => void;
+  onProgress?: (progress: ChunkProgress) => void;
+  onDone: (result: ProcessStreamDone) => void;
+  onError: (message: string) => void;
+  onCancelled?: () => void;
+}
+
+export interface CancelResponse {
+  success: boolean;
+  message: string;
+  status: NoteStatus;
+  cancelledJobIds: string[];
+}
+
+// How a process's reply is read: markdown, or a JSON action plan whose steps become tasks
+export type OutputFormat = 'markdown' | 'action_plan';
+
+export interface ProcessDefinition {
+  id: string;
   type: string;
   name: string;
   description: string;
+  icon: string;
+  color: string;
+  prompt_template: string;
+  system_prompt: string | null;
+  model: string | null;
+  temperature: number;
+  max_tokens: number;
+  output_format: OutputFormat;
+  is_builtin: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A model a run can pick (from the configured provider)
+export interface ModelInfo {
+  id: string;
+  context_window: number | null; // Tokens - unknown for most local models
+  pricing: { input: number; output: number }; // $ per million tokens
+}
+
+export interface ModelList {
+  provider: string;
+  models: ModelInfo[];
+}
+
+export type ProcessDefinitionInput = Partial<
+  Pick<
+    ProcessDefinition,
+    'type' | 'name' | 'description' | 'icon' | 'color' | 'prompt_template' |
+    'system_prompt' | 'model' | 'temperature' | 'max_tokens' | 'output_format' | 'position'
+  >
+>;
+
+export type RuleTrigger = 'created' | 'updated' | 'moved';
+
+// Runs a process automatically when a matching note is created, updated or moved
+export interface ProcessingRule {
+  id: string;
+  trigger: RuleTrigger;
+  folder_id: string | null;
+  folder_name: string | null;
+  tag: string | null;
+  process_type: string;
+  debounce_seconds: number;
+  cooldown_seconds: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProcessingRuleInput = Partial<
+  Pick<
+    ProcessingRule,
+    'trigger' | 'folder_id' | 'tag' | 'process_type' | 'debounce_seconds' | 'cooldown_seconds' | 'enabled'
+  >
+>;
+
+// A pipeline step runs a process on the note ("note") or on an earlier step's output (its key)
+export interface PipelineStep {
+  key: string;
+  process_type: string;
+  input: string;
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  description: string;
+  steps: PipelineStep[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type PipelineStepStatus = 'pending' | JobStatus;
+export type PipelineRunStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface PipelineStepState extends PipelineStep {
+  status: PipelineStepStatus;
+  job_id: string | null;
+  attempts: number;
+  result_note_id: string | null;
+  error_message: string | null;
+  error_code: LLMErrorCode | null;
+}
+
+export interface PipelineRun {
+  id: string;
+  pipeline_id: string | null;
+  name: string;
+  note_id: string;
+  status: PipelineRunStatus;
+  steps: PipelineStepState[];
+  created_at: string;
+}
+
+// Digests the notes edited in the last window_hours into a new AI note on a cron schedule
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  folder_id: string | null;
+  folder_name: string | null;
+  target_folder_id: string | null;
+  target_folder_name: string | null;
+  window_hours: number;
+  process_type: string;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScheduleInput = Partial<
+  Pick<Schedule, 'name' | 'cron' | 'folder_id' | 'target_folder_id' | 'window_hours' | 'process_type' | 'enabled'>
+>;
+
+export interface ScheduleRun {
+  id: string;
+  schedule_id: string;
+  trigger: 'schedule' | 'manual';
+  status: 'skipped' | JobStatus;
+  job_id: string | null;
+  note_id: string | null; // The digest note
+  source_count: number;
+  window_start: string;
+  window_end: string;
+  error_message: string | null;
+  created_at: string;
+}
+
+export type UsageGroupBy = 'day' | 'process_type' | 'model' | 'folder';
+
+export interface UsageSummary {
+  calls: number;
+  failed_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageGroup extends UsageSummary {
+  key: string | null;
+  label: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  groupBy: UsageGroupBy;
+  totals: UsageSummary;
+  groups: UsageGroup[];
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'tokens' | 'cost';
+
+export interface BudgetStatus {
+  id: string;
+  folder_id: string | null;
+  folder_name: string | null;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit_value: number;
+  used: number;
+  remaining: number;
+  reset_at: string | null;
+  window_start: string;
+  resets_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetStatusResponse {
+  budgets: BudgetStatus[];
+  exhausted: boolean;
+}
+
+// A saved version of an AI note's content (the newest is the current content)
+export interface AINoteVersion {
+  id: string;
+  note_id: string;
+  version: number;
+  content: any; // Tiptap JSON
+  source: 'original' | 'refine' | 'regenerate' | 'restore';
+  instructions: string | null;
+  restored_from: number | null;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  created_at: string;
+}
+
+export interface RevisionResponse {
+  note: Note;
+  version: AINoteVersion;
+}
+
+export type TaskStatusFilter = 'open' | 'done' | 'all';
+
+// A step of an action plan, ticked off in the AI note holding the plan
+export interface Task {
+  id: string; // Also the taskId of its checklist item
+  note_id: string;
+  position: number;
+  text: string;
+  estimate: string | null;
+  done: boolean;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  note_name: string | null;
+  process_type: string | null;
+  source_note_id: string | null; // The note the plan was made from
+}
+
+// What a comparison variant changes about the process (unset keeps the process's setting)
+export interface ComparisonVariantInput {
+  label?: string;
+  model?: string | null;
+  temperature?: number | null;
+  max_tokens?: number | null;
+  system_prompt?: string | null;
+  prompt_template?: string | null;
+}
+
+// A variant of a comparison and how its run went
+export interface ComparisonVariant extends Required<ComparisonVariantInput> {
+  result: {
+    note_id: string; // Deleted if another variant won
+    model: string;
+    latency_ms: number;
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+  } | null;
+  error: { message: string; code: LLMErrorCode | null } | null;
+}
+
+// The same process run on a note with several variants side by side
+export interface Comparison {
+  id: string;
+  note_id: string;
+  process_type: string;
+  variants: ComparisonVariant[];
+  winner_variant: number | null;
+  decided_at: string | null;
+  created_at: string;
+  notes: AINote[]; // The variants' AI notes still there (only the winner's once picked)
+}
+
+// A question answered from the notes
+export interface AskResponse {
+  question: string;
+  answer: string; // Markdown, citing notes as note:// links
+  note: AINote; // The answer, saved in the "Answers" folder
+  sources: (SynthesisSource & { rank: number })[]; // The notes it was answered from, best match first
+  citations: SynthesisSource[]; // The notes the answer cites, numbered in this order
+  tokensUsed: { input: number; output: number; total: number };
+  model: string;
+}
+
+// A turn in the follow-up chat on an AI note
+export interface NoteMessage {
+  id: string;
+  note_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  created_at: string;
+}
+
+export interface ChatExchange {
+  question: NoteMessage;
+  reply: NoteMessage;
+}
+
+export interface ChatStreamHandlers {
+  onDelta: (text: string) => void;
+  onDone: (exchange: ChatExchange) => void;
+  onError: (message: string) => void;
 }
 
 class ApiError extends Error {
@@ -147,6 +561,28 @@ export const api = {
     return handleResponse<Note>(response);
   },
 
+  /**
+   * Rename a note (null goes back to an automatic title)
+   */
+  async renameNote(id: string, name: string | null): Promise<Note> {
+    const response = await fetch(`${API_BASE}/notes/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    return handleResponse<Note>(response);
+  },
+
+  /**
+   * Title every note that has no name yet, in the background - returns how many will be titled
+   */
+  async titleUntitledNotes(): Promise<{ queued: number }> {
+    const response = await fetch(`${API_BASE}/notes/titles`, {
+      method: 'POST',
+    });
+    return handleResponse<{ queued: number }>(response);
+  },
+
   /**
    * Delete a note
    */
@@ -158,17 +594,105 @@ export const api = {
   },
 
   /**
-   * Process a note with AI
+   * Queue AI processing for a note (poll the returned job with waitForJob)
    */
-  async processNote(id: string, processType: string): Promise<ProcessResponse> {
+  async processNote(
+    id: string,
+    processType: string,
+    context?: ContextOptions,
+    settings?: RunSettings
+  ): Promise<ProcessResponse> {
     const response = await fetch(`${API_BASE}/notes/${id}/process`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ processType }),
+      body: JSON.stringify({ processType, context, ...settings }),
     });
     return handleResponse<ProcessResponse>(response);
   },
 
+  /**
+   * Queue a synthesis of several notes (or every note in a folder) into one new AI note
+   */
+  async batchSynthesize(
+    processType: string,
+    target: { noteIds: string[] } | { folderId: string }
+  ): Promise<SynthesisResponse> {
+    const response = await fetch(`${API_BASE}/process/batch-synthesis`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ processType, ...target }),
+    });
+    return handleResponse<SynthesisResponse>(response);
+  },
+
+  /**
+   * Process a note with AI, streaming the output as it is generated.
+   * Returns a function that closes the stream.
+   */
+  streamProcess(
+    id: string,
+    processType: string,
+    handlers: ProcessStreamHandlers,
+    context?: ContextOptions,
+    settings?: RunSettings
+  ): () => void {
+    const params = new URLSearchParams({ processType });
+    if (context) {
+      const kinds = (['ancestors', 'parent', 'siblings', 'previousOutputs'] as const).filter((kind) => context[kind]);
+      if (kinds.length > 0) params.set('context', kinds.join(','));
+      if (context.maxTokens) params.set('contextTokens', String(context.maxTokens));
+    }
+    if (settings?.model) params.set('model', settings.model);
+    if (settings?.temperature !== undefined) params.set('temperature', String(settings.temperature));
+    if (settings?.maxTokens !== undefined) params.set('maxTokens', String(settings.maxTokens));
+
+    const source = new EventSource(`${API_BASE}/notes/${id}/process/stream?${params}`);
+
+    source.addEventListener('delta', (e) => {
+      const { text } = JSON.parse((e as MessageEvent).data);
+      handlers.onDelta(text);
+    });
+
+    source.addEventListener('progress', (e) => {
+      handlers.onProgress?.(JSON.parse((e as MessageEvent).data));
+    });
+
+    source.addEventListener('done', (e) => {
+      source.close();
+      handlers.onDone(JSON.parse((e as MessageEvent).data));
+    });
+
+    source.addEventListener('cancelled', () => {
+      source.close();
+      handlers.onCancelled?.();
+    });
+
+    source.addEventListener('error', (e) => {
+      source.close();
+      // Server-sent error events carry a payload; connection failures do not
+      const data = (e as MessageEvent).data;
+      if (data) {
+        const error = JSON.parse(data);
+        const details = error.details ? `: ${error.details.join(', ')}` : '';
+        handlers.onError(error.message || `${error.error || 'Processing failed'}${details}`);
+      } else {
+        handlers.onError('Lost connection to the processing stream');
+      }
+    });
+
+    return () => source.close();
+  },
+
+  /**
+   * Cancel in-flight processing for a note (streamed or queued)
+   */
+  async cancelProcess(id: string): Promise<CancelResponse> {
+    const response = await fetch(`${API_BASE}/notes/${id}/process/cancel`, {
+      method: 'POST',
+    });
+    return handleResponse<CancelResponse>(response);
+  },
+
   /**
    * Retry a failed processing job
    */
@@ -187,18 +711,466 @@ export const api = {
     status: string;
     process_type: string | null;
     error_message: string | null;
+    error_code: LLMErrorCode | null;
+    progress: ChunkProgress | null;
     updated_at: string;
   }> {
     const response = await fetch(`${API_BASE}/notes/${id}/status`);
     return handleResponse(response);
   },
 
+  /**
+   * Get a processing job by ID
+   */
+  async getJob(id: string): Promise<ProcessingJob> {
+    const response = await fetch(`${API_BASE}/jobs/${id}`);
+    return handleResponse<ProcessingJob>(response);
+  },
+
+  /**
+   * Get processing jobs for a note (newest first)
+   */
+  async getJobs(noteId: string): Promise<ProcessingJob[]> {
+    const response = await fetch(`${API_BASE}/jobs?noteId=${encodeURIComponent(noteId)}`);
+    return handleResponse<ProcessingJob[]>(response);
+  },
+
+  /**
+   * Cancel a queued or running job
+   */
+  async cancelJob(id: string): Promise<ProcessingJob> {
+    const response = await fetch(`${API_BASE}/jobs/${id}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<ProcessingJob>(response);
+  },
+
+  /**
+   * Poll a job until it succeeds, fails or is cancelled
+   */
+  async waitForJob(
+    id: string,
+    options: { intervalMs?: number; timeoutMs?: number; onUpdate?: (job: ProcessingJob) => void } = {}
+  ): Promise<ProcessingJob> {
+    const { intervalMs = 1000, timeoutMs = 5 * 60 * 1000, onUpdate } = options;
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const job = await api.getJob(id);
+      onUpdate?.(job);
+
+      if (job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled') {
+        return job;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+
+    throw new Error(`Timed out waiting for job ${id}`);
+  },
+
   /**
    * Get available AI process types
    */
-  async getProcesses(): Promise<ProcessType[]> {
+  async getProcesses(): Promise<ProcessDefinition[]> {
     const response = await fetch(`${API_BASE}/processes`);
-    return handleResponse<ProcessType[]>(response);
+    return handleResponse<ProcessDefinition[]>(response);
+  },
+
+  /**
+   * Get the models a run can pick, with their context window and pricing
+   */
+  async getModels(): Promise<ModelList> {
+    const response = await fetch(`${API_BASE}/models`);
+    return handleResponse<ModelList>(response);
+  },
+
+  /**
+   * Create a custom AI process type
+   */
+  async createProcess(input: ProcessDefinitionInput): Promise<ProcessDefinition> {
+    const response = await fetch(`${API_BASE}/processes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    return handleResponse<ProcessDefinition>(response);
+  },
+
+  /**
+   * Update an AI process type
+   */
+  async updateProcess(id: string, input: ProcessDefinitionInput): Promise<ProcessDefinition> {
+    const response = await fetch(`${API_BASE}/processes/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    return handleResponse<ProcessDefinition>(response);
+  },
+
+  /**
+   * Delete a custom AI process type
+   */
+  async deleteProcess(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/processes/${id}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<void>(response);
+  },
+
+  /**
+   * Get the auto-processing rules, or only those of a folder
+   */
+  async getRules(folderId?: string): Promise<ProcessingRule[]> {
+    const query = folderId ? `?folderId=${encodeURIComponent(folderId)}` : '';
+    const response = await fetch(`${API_BASE}/rules${query}`);
+    return handleResponse<ProcessingRule[]>(response);
+  },
+
+  /**
+   * Create an auto-processing rule
+   */
+  async createRule(input: ProcessingRuleInput): Promise<ProcessingRule> {
+    const response = await fetch(`${API_BASE}/rules`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    return handleResponse<ProcessingRule>(response);
+  },
+
+  /**
+   * Update an auto-processing rule
+   */
+  async updateRule(id: string, input: ProcessingRuleInput): Promise<ProcessingRule> {
+    const response = await fetch(`${API_BASE}/rules/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    return handleResponse<ProcessingRule>(response);
+  },
+
+  /**
+   * Delete an auto-processing rule
+   */
+  async deleteRule(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/rules/${id}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<void>(response);
+  },
+
+  /**
+   * Get the pipeline definitions
+   */
+  async getPipelines(): Promise<Pipeline[]> {
+    const response = await fetch(`${API_BASE}/pipelines`);
+    return handleResponse<Pipeline[]>(response);
+  },
+
+  /**
+   * Run a pipeline on a note
+   */
+  async runPipeline(noteId: string, pipelineId: string): Promise<PipelineRun> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/pipelines/${pipelineId}/run`, {
+      method: 'POST',
+    });
+    return handleResponse<PipelineRun>(response);
+  },
+
+  /**
+   * Get the pipeline runs on a note (newest first)
+   */
+  async getPipelineRuns(noteId: string): Promise<PipelineRun[]> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/pipeline-runs`);
+    return handleResponse<PipelineRun[]>(response);
+  },
+
+  /**
+   * Run the failed steps of a pipeline run again
+   */
+  async resumePipelineRun(noteId: string, runId: string): Promise<PipelineRun> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/pipeline-runs/${runId}/resume`, {
+      method: 'POST',
+    });
+    return handleResponse<PipelineRun>(response);
+  },
+
+  /**
+   * Get the scheduled digests
+   */
+  async getSchedules(): Promise<Schedule[]> {
+    const response = await fetch(`${API_BASE}/schedules`);
+    return handleResponse<Schedule[]>(response);
+  },
+
+  /**
+   * Create a scheduled digest
+   */
+  async createSchedule(input: ScheduleInput): Promise<Schedule> {
+    const response = await fetch(`${API_BASE}/schedules`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    return handleResponse<Schedule>(response);
+  },
+
+  /**
+   * Update a scheduled digest
+   */
+  async updateSchedule(id: string, input: ScheduleInput): Promise<Schedule> {
+    const response = await fetch(`${API_BASE}/schedules/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    return handleResponse<Schedule>(response);
+  },
+
+  /**
+   * Delete a scheduled digest (the digest notes it wrote are kept)
+   */
+  async deleteSchedule(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/schedules/${id}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<void>(response);
+  },
+
+  /**
+   * Get a schedule's run history, newest first
+   */
+  async getScheduleRuns(id: string): Promise<ScheduleRun[]> {
+    const response = await fetch(`${API_BASE}/schedules/${id}/runs`);
+    return handleResponse<ScheduleRun[]>(response);
+  },
+
+  /**
+   * Run a schedule now
+   */
+  async runSchedule(id: string): Promise<ScheduleRun> {
+    const response = await fetch(`${API_BASE}/schedules/${id}/run`, {
+      method: 'POST',
+    });
+    return handleResponse<ScheduleRun>(response);
+  },
+
+  /**
+   * Get LLM token usage and cost, grouped by day, process type, model or folder
+   */
+  async getUsage(groupBy: UsageGroupBy, from?: string, to?: string): Promise<UsageReport> {
+    const params = new URLSearchParams({ groupBy });
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+
+    const response = await fetch(`${API_BASE}/usage?${params}`);
+    return handleResponse<UsageReport>(response);
+  },
+
+  /**
+   * Get the spending budgets that apply to a note and how much of each is left
+   */
+  async getBudgetStatus(noteId: string): Promise<BudgetStatusResponse> {
+    const response = await fetch(`${API_BASE}/budgets/status?noteId=${encodeURIComponent(noteId)}`);
+    return handleResponse<BudgetStatusResponse>(response);
+  },
+
+  /**
+   * Get the follow-up chat on an AI note
+   */
+  async getMessages(noteId: string): Promise<NoteMessage[]> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/messages`);
+    return handleResponse<NoteMessage[]>(response);
+  },
+
+  /**
+   * Ask a follow-up question about an AI note, streaming the reply.
+   * EventSource only supports GET, so the event stream is read from a POST with fetch.
+   * Returns a function that aborts the request.
+   */
+  sendMessage(noteId: string, content: string, handlers: ChatStreamHandlers): () => void {
+    const controller = new AbortController();
+
+    const read = async () => {
+      const response = await fetch(`${API_BASE}/notes/${noteId}/messages?stream=true`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        await handleResponse(response);
+        throw new Error('Empty response');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const block of events) {
+          const event = block.match(/^event: (.*)$/m)?.[1];
+          const data = block.match(/^data: (.*)$/m)?.[1];
+          if (!event || !data) continue;
+
+          const payload = JSON.parse(data);
+          if (event === 'delta') handlers.onDelta(payload.text);
+          if (event === 'done') handlers.onDone(payload);
+          if (event === 'error') handlers.onError(payload.message || payload.error || 'Chat failed');
+        }
+      }
+    };
+
+    read().catch((err: any) => {
+      if (err.name !== 'AbortError') {
+        handlers.onError(err.message || 'Chat failed');
+      }
+    });
+
+    return () => controller.abort();
+  },
+
+  /**
+   * Save a chat reply as its own AI note
+   */
+  async saveMessageAsNote(noteId: string, messageId: string): Promise<AINote> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/messages/${messageId}/save`, {
+      method: 'POST',
+    });
+    return handleResponse<AINote>(response);
+  },
+
+  /**
+   * Get the version history of an AI note (empty until it is first revised)
+   */
+  async getVersions(noteId: string): Promise<AINoteVersion[]> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/versions`);
+    return handleResponse<AINoteVersion[]>(response);
+  },
+
+  /**
+   * Rewrite an AI note following instructions, saved as a new version
+   */
+  async refineNote(noteId: string, instructions: string): Promise<RevisionResponse> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/refine`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ instructions }),
+    });
+    return handleResponse<RevisionResponse>(response);
+  },
+
+  /**
+   * Run an AI note's process again, saved as a new version
+   */
+  async regenerateNote(noteId: string): Promise<RevisionResponse> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/regenerate`, {
+      method: 'POST',
+    });
+    return handleResponse<RevisionResponse>(response);
+  },
+
+  /**
+   * Make an earlier version of an AI note current again
+   */
+  async restoreVersion(noteId: string, version: number): Promise<RevisionResponse> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/versions/${version}/restore`, {
+      method: 'POST',
+    });
+    return handleResponse<RevisionResponse>(response);
+  },
+
+  /**
+   * Get tasks from every action plan (open ones by default)
+   */
+  async getTasks(status: TaskStatusFilter = 'open', noteId?: string): Promise<Task[]> {
+    const params = new URLSearchParams({ status });
+    if (noteId) params.set('noteId', noteId);
+
+    const response = await fetch(`${API_BASE}/tasks?${params}`);
+    return handleResponse<Task[]>(response);
+  },
+
+  /**
+   * Tick or untick a task (its checklist item in the plan changes to match)
+   */
+  async updateTask(id: string, done: boolean): Promise<Task> {
+    const response = await fetch(`${API_BASE}/tasks/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ done }),
+    });
+    return handleResponse<Task>(response);
+  },
+
+  /**
+   * Run a process on a note with 2-4 variants side by side (resolves once every variant is done)
+   */
+  async compareNote(
+    noteId: string,
+    processType: string,
+    variants: ComparisonVariantInput[],
+    context?: ContextOptions
+  ): Promise<Comparison> {
+    const response = await fetch(`${API_BASE}/notes/${noteId}/compare`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ processType, variants, context }),
+    });
+    return handleResponse<Comparison>(response);
+  },
+
+  /**
+   * Get the comparisons run on a note (newest first, without their notes)
+   */
+  async getComparisons(noteId: string): Promise<Omit<Comparison, 'notes'>[]> {
+    const response = await fetch(`${API_BASE}/comparisons?noteId=${noteId}`);
+    return handleResponse<Omit<Comparison, 'notes'>[]>(response);
+  },
+
+  /**
+   * Get a comparison with its variants' AI notes
+   */
+  async getComparison(id: string): Promise<Comparison> {
+    const response = await fetch(`${API_BASE}/comparisons/${id}`);
+    return handleResponse<Comparison>(response);
+  },
+
+  /**
+   * Keep one variant's AI note and delete the others
+   */
+  async pickComparisonWinner(id: string, noteId: string): Promise<Comparison> {
+    const response = await fetch(`${API_BASE}/comparisons/${id}/winner`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ noteId }),
+    });
+    return handleResponse<Comparison>(response);
+  },
+
+  /**
+   * Answer a question from the notes that best match it, saving the answer as an AI note
+   */
+  async ask(question: string): Promise<AskResponse> {
+    const response = await fetch(`${API_BASE}/ask`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question }),
+    });
+    return handleResponse<AskResponse>(response);
   },
 
   // Folder operations
@@ -70,6 +70,35 @@ test.describe('AI Processing (Mock LLM)', () => {
     await expect(page.locator('text=Action Steps')).toBeVisible();
   });
 
+  test('should turn action plan steps into tasks that can be ticked off', async ({ page, request, cleanDb }) => {
+    await page.goto('/');
+    await createNoteViaUI(page, 'Plan the team offsite');
+    await page.click('text=Plan the team offsite');
+    await processNoteWithAI(page, 'Action Plan');
+
+    // The steps render as a checklist
+    const checkboxes = page.locator('ul[data-type="taskList"] input[type="checkbox"]');
+    await expect(checkboxes.first()).toBeVisible();
+    const stepCount = await checkboxes.count();
+    expect(stepCount).toBeGreaterThan(1);
+
+    // Ticking a step persists it as done
+    await checkboxes.first().check();
+    await expect(async () => {
+      const done = await (await request.get('http://localhost:3000/api/tasks?status=done')).json();
+      expect(done.map((task: any) => task.text)).toEqual(['Set up the mock LLM service']);
+    }).toPass();
+
+    // The other steps are still listed as open tasks, and the tick survives a reload
+    const open = await (await request.get('http://localhost:3000/api/tasks')).json();
+    expect(open).toHaveLength(stepCount - 1);
+    expect(open[0].estimate).toBeTruthy();
+
+    await page.reload();
+    await page.click('text=Plan the team offsite');
+    await expect(page.locator('ul[data-type="taskList"] input[type="checkbox"]').first()).toBeChecked();
+  });
+
   test('should show processing indicator while AI is working', async ({ page, cleanDb }) => {
     await page.goto('/');
 
@@ -208,4 +237,357 @@ test.describe('AI Processing (Mock LLM)', () => {
     await expect(page.locator('text=Important Context')).toBeVisible();
     await expect(page.locator('text=Related Topics')).toBeVisible();
   });
+
+  test('should stream AI output into the AI panel while processing', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    // Create and select a note
+    await createNoteViaUI(page, 'Streaming output test');
+    await page.click('text=Streaming output test');
+
+    // Start processing
+    await page.click('button:has-text("Research")');
+
+    // Partial output should appear before processing finishes
+    const stream = page.getByTestId('ai-stream');
+    await expect(page.locator('text=Streaming response...')).toBeVisible();
+    await expect(stream).toContainText('# Research Summary');
+    await expect(page.locator('text=Processing with AI...')).toBeVisible();
+
+    // Once complete, the stream is replaced by the saved AI note
+    await waitForProcessingComplete(page);
+    await expect(stream).not.toBeVisible();
+    await expect(page.locator('text=Key Concepts')).toBeVisible();
+  });
+
+  test('should cancel an in-flight AI run without leaving an AI note', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    // Create and select a note
+    await createNoteViaUI(page, 'Cancel processing test');
+    await page.click('text=Cancel processing test');
+
+    // Start processing, then cancel while output is streaming
+    await page.click('button:has-text("Research")');
+    await expect(page.locator('text=Processing with AI...')).toBeVisible();
+    await page.click('button:has-text("Cancel")');
+
+    // Processing stops and the buttons are usable again
+    await expect(page.locator('text=Processing with AI...')).not.toBeVisible();
+    await expect(page.locator('button:has-text("Research")')).toBeEnabled();
+
+    // No AI child note was created
+    await page.waitForTimeout(2500);
+    await page.reload();
+    await expect(page.locator('text=Research Summary')).not.toBeVisible();
+  });
+
+  test('should show AI usage on the usage dashboard', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    // Generate some usage
+    await createNoteViaUI(page, 'Usage ledger test');
+    await page.click('text=Usage ledger test');
+    await processNoteWithAI(page, 'Research');
+
+    // Open the dashboard from the sidebar
+    await page.click('button[title="AI usage"]');
+    const dashboard = page.getByTestId('usage-dashboard');
+    await expect(dashboard).toBeVisible();
+    await expect(dashboard.locator('text=Estimated cost')).toBeVisible();
+    await expect(dashboard.locator('text=Cost per day')).toBeVisible();
+
+    // The call is attributed to its process type
+    await expect(dashboard.locator('td', { hasText: 'research' })).toBeVisible();
+  });
+
+  test('should disable AI actions when a budget is exhausted', async ({ page, request, cleanDb }) => {
+    // A zero global budget blocks every run
+    const response = await request.post('http://localhost:3000/api/budgets', {
+      data: { period: 'daily', metric: 'tokens', limit_value: 0 },
+    });
+    const budget = await response.json();
+
+    try {
+      await page.goto('/');
+      await createNoteViaUI(page, 'Budget test');
+      await page.click('text=Budget test');
+
+      await expect(page.getByTestId('budget-status')).toContainText('Daily tokens: 0 left');
+      await expect(page.locator('text=Budget exhausted:')).toBeVisible();
+      await expect(page.locator('button:has-text("Research")')).toBeDisabled();
+
+      // The API rejects the run as well
+      const noteId = (await (await request.get('http://localhost:3000/api/notes')).json())
+        .find((n: any) => n.content?.content?.[0]?.content?.[0]?.text === 'Budget test').id;
+      const processResponse = await request.post(`http://localhost:3000/api/notes/${noteId}/process`, {
+        data: { processType: 'research' },
+      });
+      expect(processResponse.status()).toBe(429);
+      expect((await processResponse.json()).code).toBe('BUDGET_EXCEEDED');
+    } finally {
+      await request.delete(`http://localhost:3000/api/budgets/${budget.id}`);
+    }
+  });
+
+  test('should process a long note in chunks', async ({ page, request, cleanDb }) => {
+    // Over the test environment's 500 token chunking threshold
+    const paragraph = (n: number) => ({
+      type: 'paragraph',
+      content: [{ type: 'text', text: `Point ${n} of the transcript. `.repeat(20) }],
+    });
+    await request.post('http://localhost:3000/api/notes', {
+      data: {
+        type: 'user',
+        content: {
+          type: 'doc',
+          content: [
+            { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Long transcript' }] },
+            ...[1, 2, 3, 4, 5, 6].map(paragraph),
+          ],
+        },
+      },
+    });
+
+    await page.goto('/');
+    await page.click('text=Long transcript');
+    await processNoteWithAI(page, 'Summarize');
+
+    await expect(page.locator('text=/Long note, processed in \\d+ parts/')).toBeVisible();
+    await expect(page.locator('text=Summary').first()).toBeVisible();
+  });
+
+  test('should retry a transient LLM failure and report a permanent one', async ({ page, request, cleanDb }) => {
+    // The mock LLM fails on [mock-error:...] markers - the first overloaded call only, or every call
+    const createNote = (text: string) =>
+      request.post('http://localhost:3000/api/notes', {
+        data: {
+          type: 'user',
+          content: { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+        },
+      });
+    await createNote('Flaky provider [mock-error:overloaded:1]');
+    await createNote('Huge transcript [mock-error:context_too_long]');
+
+    await page.goto('/');
+    await page.click('text=Flaky provider');
+    await processNoteWithAI(page, 'Summarize');
+    await expect(page.locator('text=Summary').first()).toBeVisible();
+
+    await page.click('text=Huge transcript');
+    await processNoteWithAI(page, 'Summarize');
+    await expect(page.locator('text=Mock prompt is too long')).toBeVisible();
+  });
+
+  test('should record the context included in a run on the AI note', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Context test note');
+    await page.click('text=Context test note');
+    await processNoteWithAI(page, 'Research');
+
+    // Second run includes the first AI output as context
+    await page.click('button:has-text("Earlier AI output")');
+    await processNoteWithAI(page, 'Expand');
+
+    const context = page.getByTestId('ai-context');
+    await expect(context).toContainText('Context included: 1 items');
+    await context.locator('summary').click();
+    await expect(context).toContainText('Earlier AI output: research output');
+  });
+
+  test('should synthesize multi-selected notes into one AI note', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Meeting notes Monday');
+    await createNoteViaUI(page, 'Meeting notes Tuesday');
+
+    // Ctrl-click adds the second note to the open one
+    await page.click('text=Meeting notes Monday');
+    await page.click('text=Meeting notes Tuesday', { modifiers: ['Control'] });
+
+    await expect(page.getByTestId('multi-select-bar')).toContainText('2 selected');
+    await page.click('button:has-text("Synthesize selected")');
+    await page.getByTestId('synthesize-modal').locator('button:has-text("Summarize")').click();
+
+    const sources = page.getByTestId('ai-sources');
+    await expect(sources).toContainText('Synthesized from 2 notes', { timeout: 30000 });
+    await expect(sources).toContainText('Meeting notes Monday');
+    await expect(sources).toContainText('Meeting notes Tuesday');
+    await expect(page.locator('text=Processing...')).not.toBeVisible({ timeout: 30000 });
+  });
+
+  test('should answer follow-up questions on an AI note', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Chat test note');
+    await page.click('text=Chat test note');
+    await processNoteWithAI(page, 'Research');
+
+    const chat = page.getByTestId('chat-thread');
+    await chat.locator('textarea').fill('What should I do first?');
+    await chat.locator('button:has-text("Send")').click();
+
+    await expect(chat).toContainText('What should I do first?');
+    await expect(chat.locator('button:has-text("Save as note")')).toBeVisible({ timeout: 15000 });
+
+    // The conversation is kept with the AI note
+    await page.reload();
+    await page.click('text=Chat test note');
+    await expect(page.getByTestId('chat-thread')).toContainText('What should I do first?');
+
+    await page.getByTestId('chat-thread').locator('button:has-text("Save as note")').click();
+    await expect(page.getByTestId('chat-thread').locator('button:has-text("Saved")')).toBeVisible();
+    await expect(page.getByText('chat', { exact: true })).toBeVisible();
+  });
+
+  test('should refine an AI note and restore an earlier version', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Refine test note');
+    await page.click('text=Refine test note');
+    await processNoteWithAI(page, 'Research');
+
+    const versions = page.getByTestId('ai-versions');
+    await versions.locator('input').fill('shorter');
+    await versions.locator('button:has-text("Refine")').click();
+
+    // The original is kept as version 1
+    await expect(versions).toContainText('Version 2 of 2', { timeout: 15000 });
+    await expect(versions).toContainText('Refined: "shorter"');
+    await expect(page.locator('.ProseMirror').last()).toContainText('Revised Response');
+
+    // Look at the original again and make it current
+    await versions.locator('button[aria-label="Previous version"]').click();
+    await expect(versions).toContainText('Version 1 of 2');
+    await versions.locator('button:has-text("Restore this version")').click();
+
+    await expect(versions).toContainText('Version 3 of 3');
+    await expect(versions).toContainText('Restored from version 1');
+    await expect(page.locator('.ProseMirror').last()).not.toContainText('Revised Response');
+  });
+
+  test('should run a pipeline and show each step', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Pipeline test note');
+    await page.click('text=Pipeline test note');
+    await page.getByTestId('pipeline-panel').locator('button:has-text("Research to plan")').click();
+
+    // Research, then an action plan of the research, then a summary of the plan
+    const run = page.getByTestId('pipeline-run');
+    await expect(run).toContainText('(succeeded)', { timeout: 60000 });
+    await expect(run.locator('[data-testid="pipeline-step"][data-status="succeeded"]')).toHaveCount(3);
+    await expect(page.locator('text=Summary').first()).toBeVisible();
+  });
+
+  test('should resume a failed pipeline step', async ({ page, request, cleanDb }) => {
+    // The second step fails once, on the mock's [mock-error:...] marker
+    const process = await (
+      await request.post('http://localhost:3000/api/processes', {
+        data: { type: 'flaky-step', name: 'Flaky step', prompt_template: '{{content}} [mock-error:auth:1]' },
+      })
+    ).json();
+    const pipeline = await (
+      await request.post('http://localhost:3000/api/pipelines', {
+        data: { name: 'Flaky pipeline', steps: [{ process_type: 'research' }, { process_type: 'flaky-step' }] },
+      })
+    ).json();
+
+    try {
+      await page.goto('/');
+      await createNoteViaUI(page, 'Resume test note');
+      await page.click('text=Resume test note');
+      await page.getByTestId('pipeline-panel').locator('button:has-text("Flaky pipeline")').click();
+
+      const run = page.getByTestId('pipeline-run');
+      await expect(run).toContainText('(failed)', { timeout: 30000 });
+      await expect(run.locator('[data-status="succeeded"]')).toHaveCount(1);
+
+      // Only the failed step runs again
+      await run.locator('button:has-text("Resume")').click();
+      await expect(run).toContainText('(succeeded)', { timeout: 30000 });
+      await expect(run).toContainText('attempt 2');
+    } finally {
+      await request.delete(`http://localhost:3000/api/pipelines/${pipeline.id}`);
+      await request.delete(`http://localhost:3000/api/processes/${process.id}`);
+    }
+  });
+
+  test('should run a process with the model and parameters picked under Advanced', async ({ page, request, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Model settings test note');
+    await page.click('text=Model settings test note');
+
+    await page.click('button:has-text("Advanced")');
+    const popover = page.getByTestId('model-settings');
+    await popover.locator('select').selectOption('claude-sonnet-4-mock');
+    await expect(popover).toContainText('200k context');
+    await popover.locator('input').first().fill('0.2');
+    await popover.locator('input').last().fill('600');
+    await page.keyboard.press('Escape');
+
+    await processNoteWithAI(page, 'Summarize');
+
+    // The AI note records the settings it ran with
+    await expect(page.locator('text=claude-sonnet-4-mock · temperature 0.2 · max 600 tokens')).toBeVisible();
+    const notes = await (await request.get('http://localhost:3000/api/notes')).json();
+    const aiNote = notes.find((note: any) => note.type === 'ai');
+    expect(aiNote.metadata.settings).toEqual({ model: 'claude-sonnet-4-mock', temperature: 0.2, max_tokens: 600 });
+  });
+
+  test('should compare two variants and keep the winner', async ({ page, request, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Comparison test note');
+    await page.click('text=Comparison test note');
+    await page.click('button:has-text("Compare")');
+
+    const modal = page.getByTestId('comparison-modal');
+    await modal.locator('select').selectOption('summarize');
+    const forms = modal.getByTestId('comparison-variant-form');
+    await forms.nth(0).locator('input[placeholder="Label"]').fill('Focused');
+    await forms.nth(0).locator('input[placeholder="Temperature"]').fill('0');
+    await forms.nth(1).locator('input[placeholder="Label"]').fill('Creative');
+    await forms.nth(1).locator('input[placeholder="Temperature"]').fill('1');
+    await modal.locator('button:has-text("Run comparison")').click();
+
+    // Both outputs show side by side, each as its own AI note
+    const columns = modal.getByTestId('comparison-variant');
+    await expect(columns).toHaveCount(2, { timeout: 30000 });
+    await expect(columns.nth(0)).toContainText('Focused');
+    await expect(columns.nth(1)).toContainText('Creative');
+    await expect(columns.locator('.ProseMirror')).toHaveCount(2);
+
+    // Keeping one deletes the other and records the choice
+    await columns.nth(1).locator('button:has-text("Pick winner")').click();
+    await expect(columns.nth(1)).toContainText('🏆');
+    await expect(columns.nth(0)).toContainText('Deleted');
+
+    const [comparison] = await (await request.get('http://localhost:3000/api/comparisons?decided=true')).json();
+    expect(comparison.winner_variant).toBe(1);
+    expect(comparison.variants.map((variant: any) => variant.temperature)).toEqual([0, 1]);
+  });
+
+  test('should answer a question from the notes with citations', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    await createNoteViaUI(page, 'Offsite planning: Lisbon in May');
+
+    const askBox = page.getByTestId('ask-box');
+    await askBox.locator('input[placeholder="Ask your notes..."]').fill('Where is the offsite?');
+    await askBox.locator('button:has-text("Ask")').click();
+
+    const answer = page.getByTestId('ask-answer');
+    await expect(answer).toContainText('Where is the offsite?', { timeout: 30000 });
+    await expect(answer.locator('a[href^="note://"]').first()).toBeVisible();
+
+    // The answer is kept in the Answers folder
+    await expect(page.locator('text=Answers')).toBeVisible();
+
+    // A citation opens the note it cites
+    await answer.locator('a[href^="note://"]').first().click();
+    await expect(page.locator('.ProseMirror[contenteditable="true"]')).toContainText('Offsite planning: Lisbon in May');
+  });
 });
@@ -166,4 +166,42 @@ test.describe('Note Tree Navigation', () => {
     // Tree should be expanded again by default after refresh
     await expect(page.locator('button:has-text("▼")').first()).toBeVisible();
   });
+
+  test('should title notes automatically and let the user rename them', async ({ page, request, cleanDb }) => {
+    await page.goto('/');
+
+    // The first meaningful save gets the note a generated title
+    const noteContent = 'Follow ups from the quarterly planning meeting';
+    await createNoteViaUI(page, noteContent);
+
+    const findNote = async () =>
+      (await (await request.get('http://localhost:3000/api/notes')).json()).find(
+        (n: any) => n.content?.content?.[0]?.content?.[0]?.text?.startsWith('Follow ups')
+      );
+    await expect.poll(async () => (await findNote())?.name, { timeout: 10000 }).toBe(noteContent);
+
+    // Rename it from the tree
+    await page.locator(`text=${noteContent}`).dblclick();
+    await page.getByTestId('rename-input').fill('Planning follow ups');
+    await page.keyboard.press('Enter');
+    await expect(page.locator('text=Planning follow ups')).toBeVisible();
+
+    // A name the user chose is kept when the note is edited
+    await page.click('text=Planning follow ups');
+    await page.locator('.ProseMirror').click();
+    await page.keyboard.press('End');
+    await page.keyboard.type(' and next steps');
+    await page.click('button:has-text("Save")');
+    await page.waitForTimeout(1500);
+    await expect(page.locator('text=Planning follow ups')).toBeVisible();
+    expect((await findNote()).name_is_manual).toBe(true);
+
+    // Clearing the name goes back to a generated title
+    await page.locator('text=Planning follow ups').click({ button: 'right' });
+    await page.click('text=Rename');
+    await page.getByTestId('rename-input').fill('');
+    await page.keyboard.press('Enter');
+    await expect.poll(async () => (await findNote())?.name, { timeout: 10000 }).toBe(`${noteContent} and next steps`);
+    await expect(page.locator(`text=${noteContent} and next steps`)).toBeVisible();
+  });
 });
@@ -334,4 +334,70 @@ test.describe('Folder Operations', () => {
     // Count should have increased
     expect(updatedCount).not.toBe(initialCount);
   });
+
+  test('should process notes automatically with a folder rule', async ({ page, cleanDb }) => {
+    await page.goto('/');
+
+    page.once('dialog', dialog => dialog.accept('Meetings'));
+    await page.click('button:has-text("+ Folder")');
+    await page.waitForSelector('text=Meetings');
+
+    // Summarize every note saved in the folder, straight away
+    await page.click('text=Meetings', { button: 'right' });
+    await page.click('text=Processing rules');
+    const modal = page.getByTestId('rules-modal');
+    await modal.getByTestId('rule-trigger').selectOption('updated');
+    await modal.getByTestId('rule-process').selectOption('summarize');
+    await modal.locator('input[type="number"]').first().fill('0');
+    await modal.getByTestId('rule-add').click();
+    await expect(modal.getByTestId('rule-item')).toContainText('A note is edited');
+    await modal.locator('button:has-text("Close")').click();
+
+    await page.click('text=Meetings');
+    await page.click('button:has-text("+ Note")');
+    await page.waitForSelector('.ProseMirror');
+    await page.locator('.ProseMirror').fill('Weekly sync with the design team');
+    await page.click('button:has-text("Save")');
+
+    // The rule's AI note shows up without running anything by hand
+    await expect(page.locator('text=Summary').first()).toBeVisible({ timeout: 30000 });
+  });
+
+  test('should write a digest of recent notes when a schedule is run', async ({ page, request, cleanDb }) => {
+    await page.goto('/');
+
+    page.once('dialog', dialog => dialog.accept('Digests'));
+    await page.click('button:has-text("+ Folder")');
+    await page.waitForSelector('text=Digests');
+    await createNoteViaUI(page, 'Planning the quarterly roadmap');
+
+    try {
+      await page.getByTestId('open-schedules').click();
+      const modal = page.getByTestId('schedules-modal');
+      await modal.getByTestId('schedule-name').fill('Weekly digest');
+      await modal.getByLabel('Write to').selectOption({ label: '📁 Digests' });
+      await modal.getByTestId('schedule-add').click();
+      await expect(modal.getByTestId('schedule-item')).toContainText('0 9 * * MON');
+
+      // Run it now rather than waiting for Monday
+      await modal.getByTestId('schedule-run-now').click();
+      await expect(modal.getByTestId('schedule-run')).toContainText('1 note');
+      await modal.locator('button:has-text("Open")').click();
+
+      const sources = page.getByTestId('ai-sources');
+      await expect(sources).toContainText('Planning the quarterly roadmap');
+
+      // The digest ends with links back to the notes it covers
+      const link = page.locator('.ProseMirror a[href^="note://"]');
+      await expect(link).toHaveText('Planning the quarterly roadmap', { timeout: 30000 });
+      await link.click();
+      await expect(sources).not.toBeVisible();
+      await expect(page.locator('.ProseMirror')).toContainText('Planning the quarterly roadmap');
+    } finally {
+      const schedules = await (await request.get('http://localhost:3000/api/schedules')).json();
+      for (const schedule of schedules.filter((s: any) => s.name === 'Weekly digest')) {
+        await request.delete(`http://localhost:3000/api/schedules/${schedule.id}`);
+      }
+    }
+  });
 });
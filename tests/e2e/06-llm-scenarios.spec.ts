@@ -0,0 +1,90 @@
+import { test, expect, createNoteViaUI, processNoteWithAI, waitForProcessingComplete, queueLLMScenario } from './fixtures';
+
+/**
+ * Scripted mock LLM runs: custom outputs, failures and slow or chunked streams
+ */
+test.describe('Mock LLM Scenarios', () => {
+  test('should pick the reply by process type, not by words in the note', async ({ page, cleanDb }) => {
+    await page.goto('/');
+    await createNoteViaUI(page, 'Summarize and expand this later');
+    await page.click('text=Summarize and expand this later');
+
+    await processNoteWithAI(page, 'Research');
+    await expect(page.locator('text=Research Summary')).toBeVisible();
+  });
+
+  test('should show a scripted response as the AI note', async ({ page, cleanDb }) => {
+    await queueLLMScenario({ processType: 'summarize', response: '# Scripted summary\n\nExactly what the test asked for.' });
+
+    await page.goto('/');
+    await createNoteViaUI(page, 'Scripted response note');
+    await page.click('text=Scripted response note');
+
+    await processNoteWithAI(page, 'Summarize');
+    await expect(page.locator('text=Exactly what the test asked for.')).toBeVisible();
+  });
+
+  test('should only script calls whose prompt matches', async ({ page, cleanDb }) => {
+    await queueLLMScenario({ processType: 'research', promptPattern: 'Budget review', response: '# Matched by prompt' });
+
+    await page.goto('/');
+    await createNoteViaUI(page, 'Offsite agenda');
+    await createNoteViaUI(page, 'Budget review');
+
+    await page.click('text=Offsite agenda');
+    await processNoteWithAI(page, 'Research');
+    await expect(page.locator('text=Research Summary')).toBeVisible();
+
+    await page.click('text=Budget review');
+    await processNoteWithAI(page, 'Research');
+    await expect(page.locator('text=Matched by prompt')).toBeVisible();
+  });
+
+  test('should report a provider error from a scenario', async ({ page, cleanDb }) => {
+    await queueLLMScenario({ processType: 'expand', error: 'auth' });
+
+    await page.goto('/');
+    await createNoteViaUI(page, 'Auth failure note');
+    await page.click('text=Auth failure note');
+
+    await processNoteWithAI(page, 'Expand');
+    await expect(page.locator('text=Mock invalid API key')).toBeVisible();
+  });
+
+  test('should retry a scripted transient error', async ({ page, cleanDb }) => {
+    // Only the first call is rate limited - the retry gets the canned response
+    await queueLLMScenario({ processType: 'summarize', error: 'rate_limited' });
+
+    await page.goto('/');
+    await createNoteViaUI(page, 'Rate limited note');
+    await page.click('text=Rate limited note');
+
+    await processNoteWithAI(page, 'Summarize');
+    await expect(page.locator('text=Summary').first()).toBeVisible();
+  });
+
+  test('should stream a slow run chunk by chunk', async ({ page, cleanDb }) => {
+    await queueLLMScenario({
+      processType: 'research',
+      response: '# Slow stream\n\nFirst part of the answer. Second part of the answer.',
+      delayMs: 1500,
+      chunkSize: 10,
+      chunkDelayMs: 300,
+    });
+
+    await page.goto('/');
+    await createNoteViaUI(page, 'Slow run note');
+    await page.click('text=Slow run note');
+    await page.click('button:has-text("Research")');
+
+    // Nothing arrives during the delay, then the output builds up
+    await expect(page.locator('text=Processing with AI...')).toBeVisible();
+    const stream = page.getByTestId('ai-stream');
+    await expect(stream).toContainText('# Slow stream');
+    await expect(stream).not.toContainText('Second part');
+    await expect(stream).toContainText('Second part', { timeout: 10000 });
+
+    await waitForProcessingComplete(page);
+    await expect(page.locator('.ProseMirror').last()).toContainText('First part of the answer.');
+  });
+});
@@ -7,8 +7,10 @@ import { test as base, expect } from '@playwright/test';
 // API base URL
 const API_BASE = 'http://localhost:3000/api';
 
-// Helper to clear all notes from the database
+// Helper to clear all notes from the database (and anything a test scripted the mock LLM to do)
 async function clearDatabase() {
+  await fetch(`${API_BASE}/test/llm-scenarios`, { method: 'DELETE' });
+
   const response = await fetch(`${API_BASE}/notes`);
   const notes = await response.json();
 
@@ -115,6 +117,33 @@ export async function createNoteViaUI(page: any, content: string) {
   await waitForSave(page);
 }
 
+// What the mock LLM should do for matching calls (see POST /api/test/llm-scenarios)
+export interface LLMScenario {
+  processType?: string; // e.g. 'summarize', 'chat' or 'title'
+  promptPattern?: string; // Regular expression the prompt must match
+  response?: string;
+  error?: 'rate_limited' | 'overloaded' | 'auth' | 'invalid_request' | 'context_too_long' | 'timeout' | 'provider_error';
+  delayMs?: number;
+  chunkSize?: number;
+  chunkDelayMs?: number;
+  times?: number;
+}
+
+/**
+ * Helper to script the mock LLM's next matching call(s)
+ */
+export async function queueLLMScenario(scenario: LLMScenario) {
+  const response = await fetch(`${API_BASE}/test/llm-scenarios`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(scenario),
+  });
+  if (!response.ok) {
+    throw new Error(`Could not queue LLM scenario: ${await response.text()}`);
+  }
+  return response.json();
+}
+
 /**
  * Helper to process a note with AI
  */